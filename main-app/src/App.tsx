@@ -18,7 +18,7 @@ import CommunicationDemo from './pages/CommunicationDemo';
 import NotFound from './pages/NotFound';
 
 // 导入hooks和工具
-import { useGlobalState } from './hooks/useGlobalState';
+import { useGlobalDispatch, useUserState } from './hooks/useGlobalState';
 import { useMicroApps } from './hooks/useMicroApps';
 import { globalLogger } from '@shared/utils/logger';
 import { setupMicroApps } from './micro-apps/setup';
@@ -33,6 +33,7 @@ import {
   type NavigationEvent
 } from '@shared/communication/navigation';
 import { globalEventBus } from '@shared/communication/event-bus';
+import { EVENT_TYPES } from '@shared/types/events';
 
 // 导入样式
 import './styles/index.css';
@@ -44,7 +45,8 @@ const { Content } = Layout;
  */
 const App: React.FC = () => {
   const location = useLocation();
-  const { state, dispatch } = useGlobalState();
+  const { user } = useUserState();
+  const dispatch = useGlobalDispatch();
   const { microApps, loading: microAppsLoading } = useMicroApps();
   const [collapsed, setCollapsed] = useState(false);
   const [qiankunInitialized, setQiankunInitialized] = useState(false);
@@ -199,15 +201,17 @@ const App: React.FC = () => {
         <AppHeader 
           collapsed={collapsed}
           onCollapse={setCollapsed}
-          currentUser={state.user.currentUser}
-          onLogout={() => {
-            dispatch({
-              type: 'SET_USER',
-              payload: {
-                currentUser: null,
-                isAuthenticated: false
-              }
-            });
+          currentUser={user.currentUser}
+          onLogout={async () => {
+            // 登出清理由主应用的高优先级处理器完成，这里等待所有处理器执行结束
+            const result = await globalEventBus.emitAndWait(EVENT_TYPES.USER_LOGOUT, {
+              userId: user.currentUser?.id ?? 'current',
+              reason: 'User logout'
+            }, { source: 'main-app' });
+
+            if (result.failures.length > 0) {
+              globalLogger.warn('Some logout handlers failed', { failures: result.failures.map(f => f.subscribedTo) });
+            }
           }}
         />
 
@@ -1,14 +1,47 @@
 /**
  * 全局状态管理Hook
- * 提供React组件访问全局状态的接口
+ * 提供React组件访问全局状态的接口；按路径订阅，只有所用的状态分支变化时才重新渲染
  */
 
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useSyncExternalStore } from 'react';
 import { globalStateManager } from '@shared/communication/global-state';
-import { GlobalState, StateAction } from '@shared/types/store';
+import { globalErrorManager } from '@shared/communication/error/error-manager';
+import { GlobalState, StateAction, StatePath, StatePathValue } from '@shared/types/store';
+
+/**
+ * 按路径订阅全局状态
+ */
+export function useGlobalStatePath<P extends StatePath>(path: P): StatePathValue<GlobalState, P> {
+  const subscribe = useCallback(
+    (onChange: () => void) => globalStateManager.subscribe(path, onChange),
+    [path]
+  );
+  const getSnapshot = useCallback(() => globalStateManager.select(path), [path]);
+
+  return useSyncExternalStore(subscribe, getSnapshot);
+}
+
+/**
+ * 派发动作并上报失败；返回的 Promise 仍会 reject，调用方可以自行处理
+ */
+function dispatchAction(action: StateAction): Promise<void> {
+  const result = globalStateManager.dispatch(action);
+  result.catch(error => {
+    globalErrorManager.handleStateError(error as Error, action, { component: 'useGlobalDispatch' });
+  });
+  return result;
+}
+
+/**
+ * 派发全局状态动作（不订阅状态）
+ */
+export function useGlobalDispatch() {
+  return useCallback((action: StateAction) => dispatchAction(action), []);
+}
 
 /**
  * 全局状态Hook
+ * 订阅整个状态树，任意变化都会重新渲染；只需要部分状态时使用 useGlobalStatePath 或下面的分支Hook
  */
 export function useGlobalState() {
   const [state, setState] = useState<GlobalState>(globalStateManager.getState());
@@ -22,9 +55,7 @@ export function useGlobalState() {
     return unsubscribe;
   }, []);
 
-  const dispatch = useCallback((action: StateAction) => {
-    globalStateManager.dispatch(action);
-  }, []);
+  const dispatch = useCallback((action: StateAction) => dispatchAction(action), []);
 
   return {
     state,
@@ -36,7 +67,8 @@ export function useGlobalState() {
  * 用户状态Hook
  */
 export function useUserState() {
-  const { state, dispatch } = useGlobalState();
+  const user = useGlobalStatePath('user');
+  const dispatch = useGlobalDispatch();
 
   const setUser = useCallback((user: any) => {
     dispatch({
@@ -64,7 +96,7 @@ export function useUserState() {
   }, [dispatch]);
 
   return {
-    user: state.user,
+    user,
     setUser,
     logout,
     setPermissions
@@ -75,7 +107,8 @@ export function useUserState() {
  * 主题状态Hook
  */
 export function useThemeState() {
-  const { state, dispatch } = useGlobalState();
+  const theme = useGlobalStatePath('theme');
+  const dispatch = useGlobalDispatch();
 
   const setTheme = useCallback((theme: 'light' | 'dark') => {
     dispatch({
@@ -88,12 +121,12 @@ export function useThemeState() {
   }, [dispatch]);
 
   const toggleTheme = useCallback(() => {
-    const newTheme = state.theme.current === 'light' ? 'dark' : 'light';
+    const newTheme = theme.current === 'light' ? 'dark' : 'light';
     setTheme(newTheme);
-  }, [state.theme.current, setTheme]);
+  }, [theme.current, setTheme]);
 
   return {
-    theme: state.theme,
+    theme,
     setTheme,
     toggleTheme
   };
@@ -103,7 +136,8 @@ export function useThemeState() {
  * 应用状态Hook
  */
 export function useAppState() {
-  const { state, dispatch } = useGlobalState();
+  const app = useGlobalStatePath('app');
+  const dispatch = useGlobalDispatch();
 
   const setLoading = useCallback((loading: boolean) => {
     dispatch({
@@ -127,7 +161,7 @@ export function useAppState() {
   }, [dispatch]);
 
   return {
-    app: state.app,
+    app,
     setLoading,
     setError,
     setActiveMicroApp
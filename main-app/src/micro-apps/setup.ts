@@ -10,9 +10,21 @@ import 'nprogress/nprogress.css';
 import { globalLogger } from '@shared/utils/logger';
 import { globalEventBus } from '@shared/communication/event-bus';
 import { globalStateManager } from '@shared/communication/global-state';
+import { createCrossTabBridgeMiddleware } from '@shared/communication/middleware/cross-tab-bridge-middleware';
+import { createMultiplexedSocket } from '@shared/communication/realtime/multiplexed-socket';
 import { EVENT_TYPES } from '@shared/types/events';
 import { MicroAppConfig } from '@shared/types';
 
+/**
+ * 主应用持有的实时连接
+ * 子应用通过 props.realtime 按主题订阅，所有子应用共用这一条连接；
+ * 代理阻断 WebSocket 时依次降级到 SSE 和长轮询
+ */
+export const realtimeSocket = createMultiplexedSocket({
+  url: import.meta.env.VITE_REALTIME_URL || 'ws://localhost:8080/ws',
+  transports: ['websocket', 'sse', 'long-polling']
+});
+
 /**
  * 微应用配置列表
  */
@@ -26,8 +38,9 @@ export const microAppConfigs: MicroAppConfig[] = [
     props: {
       routerBase: '/user-management',
       getGlobalState: () => globalStateManager.getState(),
-      setGlobalState: (state: any) => globalStateManager.setState(state),
-      eventBus: globalEventBus
+      setGlobalState: (state: any) => globalStateManager.setState(state, { source: 'react-user-management' }),
+      eventBus: globalEventBus.scope('react-user-management'),
+      realtime: realtimeSocket.scope('react-user-management')
     }
   },
   {
@@ -38,8 +51,9 @@ export const microAppConfigs: MicroAppConfig[] = [
     props: {
       routerBase: '/product-management',
       getGlobalState: () => globalStateManager.getState(),
-      setGlobalState: (state: any) => globalStateManager.setState(state),
-      eventBus: globalEventBus
+      setGlobalState: (state: any) => globalStateManager.setState(state, { source: 'react-product-management' }),
+      eventBus: globalEventBus.scope('react-product-management'),
+      realtime: realtimeSocket.scope('react-product-management')
     }
   },
   {
@@ -50,8 +64,9 @@ export const microAppConfigs: MicroAppConfig[] = [
     props: {
       routerBase: '/order-management',
       getGlobalState: () => globalStateManager.getState(),
-      setGlobalState: (state: any) => globalStateManager.setState(state),
-      eventBus: globalEventBus
+      setGlobalState: (state: any) => globalStateManager.setState(state, { source: 'react-order-management' }),
+      eventBus: globalEventBus.scope('react-order-management'),
+      realtime: realtimeSocket.scope('react-order-management')
     }
   },
   {
@@ -62,8 +77,9 @@ export const microAppConfigs: MicroAppConfig[] = [
     props: {
       routerBase: '/data-dashboard',
       getGlobalState: () => globalStateManager.getState(),
-      setGlobalState: (state: any) => globalStateManager.setState(state),
-      eventBus: globalEventBus
+      setGlobalState: (state: any) => globalStateManager.setState(state, { source: 'react-dashboard' }),
+      eventBus: globalEventBus.scope('react-dashboard'),
+      realtime: realtimeSocket.scope('react-dashboard')
     }
   },
   {
@@ -74,8 +90,9 @@ export const microAppConfigs: MicroAppConfig[] = [
     props: {
       routerBase: '/settings',
       getGlobalState: () => globalStateManager.getState(),
-      setGlobalState: (state: any) => globalStateManager.setState(state),
-      eventBus: globalEventBus
+      setGlobalState: (state: any) => globalStateManager.setState(state, { source: 'react-settings' }),
+      eventBus: globalEventBus.scope('react-settings'),
+      realtime: realtimeSocket.scope('react-settings')
     }
   },
 
@@ -88,8 +105,9 @@ export const microAppConfigs: MicroAppConfig[] = [
     props: {
       routerBase: '/message-center',
       getGlobalState: () => globalStateManager.getState(),
-      setGlobalState: (state: any) => globalStateManager.setState(state),
-      eventBus: globalEventBus
+      setGlobalState: (state: any) => globalStateManager.setState(state, { source: 'vue-message-center' }),
+      eventBus: globalEventBus.scope('vue-message-center'),
+      realtime: realtimeSocket.scope('vue-message-center')
     }
   },
   {
@@ -100,8 +118,9 @@ export const microAppConfigs: MicroAppConfig[] = [
     props: {
       routerBase: '/file-management',
       getGlobalState: () => globalStateManager.getState(),
-      setGlobalState: (state: any) => globalStateManager.setState(state),
-      eventBus: globalEventBus
+      setGlobalState: (state: any) => globalStateManager.setState(state, { source: 'vue-file-management' }),
+      eventBus: globalEventBus.scope('vue-file-management'),
+      realtime: realtimeSocket.scope('vue-file-management')
     }
   },
   {
@@ -112,8 +131,9 @@ export const microAppConfigs: MicroAppConfig[] = [
     props: {
       routerBase: '/system-monitor',
       getGlobalState: () => globalStateManager.getState(),
-      setGlobalState: (state: any) => globalStateManager.setState(state),
-      eventBus: globalEventBus
+      setGlobalState: (state: any) => globalStateManager.setState(state, { source: 'vue-system-monitor' }),
+      eventBus: globalEventBus.scope('vue-system-monitor'),
+      realtime: realtimeSocket.scope('vue-system-monitor')
     }
   }
 ];
@@ -123,6 +143,20 @@ export const microAppConfigs: MicroAppConfig[] = [
  */
 const appLoadingStates = new Map<string, boolean>();
 
+/**
+ * 写入全局状态和事件的 props 信息
+ * props 中的事件总线、实时连接和回调是运行时对象，只保留基本类型的配置项
+ */
+function getPropsMetadata(props?: Record<string, any>): Record<string, any> {
+  const metadata: Record<string, any> = {};
+  Object.entries(props || {}).forEach(([key, value]) => {
+    if (value === null || ['string', 'number', 'boolean'].includes(typeof value)) {
+      metadata[key] = value;
+    }
+  });
+  return metadata;
+}
+
 /**
  * 设置加载进度条
  */
@@ -200,7 +234,7 @@ const lifecycleHooks = {
             id: `app-loading-${app.name}-${Date.now()}`,
             data: {
               appName: app.name,
-              props: app.props,
+              props: getPropsMetadata(app.props),
               containerInfo: {
                 id: container.id,
                 rect: containerRect
@@ -284,7 +318,7 @@ const lifecycleHooks = {
       id: `app-mounted-${app.name}-${Date.now()}`,
       data: {
         appName: app.name,
-        props: app.props
+        props: getPropsMetadata(app.props)
       }
     });
 
@@ -294,7 +328,7 @@ const lifecycleHooks = {
   /**
    * 应用卸载后
    */
-  afterUnmount: (app: any) => {
+  afterUnmount: async (app: any) => {
     globalLogger.info(`Micro app unmounted: ${app.name}`);
     
     // 更新全局状态
@@ -310,8 +344,8 @@ const lifecycleHooks = {
       }
     });
 
-    // 发射应用卸载事件
-    globalEventBus.emit({
+    // 发射应用卸载事件，等待应用自身的卸载处理完成后再清理订阅
+    await globalEventBus.emitAndWait({
       type: EVENT_TYPES.APP_UNMOUNT,
       source: app.name,
       timestamp: new Date().toISOString(),
@@ -321,10 +355,119 @@ const lifecycleHooks = {
       }
     });
 
-    return Promise.resolve();
+    // 清理应用作用域中遗留的订阅
+    const appBus = globalEventBus.scope(app.name);
+    if (appBus.size > 0) {
+      globalLogger.warn(`Micro app ${app.name} left ${appBus.size} event subscriptions after unmount`, appBus.getStats());
+      appBus.clear();
+    }
+
+    // 释放应用遗留的实时主题订阅和状态监听，没有其他应用订阅的主题会向服务端退订
+    const appRealtime = realtimeSocket.scope(app.name);
+    if (appRealtime.size > 0) {
+      globalLogger.warn(`Micro app ${app.name} left ${appRealtime.size} realtime subscriptions after unmount`);
+    }
+    appRealtime.clear();
   }
 };
 
+/**
+ * 配置事件保留策略
+ * 晚于事件挂载的子应用可以通过 on(type, handler, { replay: true }) 获取最新值
+ */
+function setupEventRetention() {
+  // 登录态：只保留最新一次，登出后清除
+  globalEventBus.setRetentionPolicy(EVENT_TYPES.USER_LOGIN, {
+    maxEvents: 1,
+    clearOn: [EVENT_TYPES.USER_LOGOUT]
+  });
+
+  // 权限：按用户保留最新的权限，登出后清除
+  globalEventBus.setRetentionPolicy(EVENT_TYPES.USER_PERMISSION_CHANGE, {
+    keyBy: event => event.data.userId,
+    clearOn: [EVENT_TYPES.USER_LOGOUT]
+  });
+
+  // 主题和语言：只保留最新值
+  globalEventBus.setRetentionPolicy(EVENT_TYPES.THEME_CHANGE, { maxEvents: 1 });
+  globalEventBus.setRetentionPolicy(EVENT_TYPES.LANGUAGE_CHANGE, { maxEvents: 1 });
+
+  // 系统状态：5分钟后视为过期
+  globalEventBus.setRetentionPolicy(EVENT_TYPES.SYSTEM_STATUS, {
+    maxEvents: 1,
+    ttl: 5 * 60 * 1000
+  });
+
+  // 通知：保留最近20条，发出通知的应用卸载后清除
+  globalEventBus.setRetentionPolicy(EVENT_TYPES.NOTIFICATION, {
+    maxEvents: 20,
+    ttl: 60 * 1000,
+    clearOnUnmount: true
+  });
+}
+
+/**
+ * 声明全局状态分支的写入归属
+ * 子应用通过 props.setGlobalState 写入时以应用名作为写入方，写入未授权的分支会被拒绝
+ */
+function setupStateOwnership() {
+  globalStateManager.setSliceOwners({
+    user: ['main-app', 'react-user-management', 'react-settings'],
+    auth: ['main-app'],
+    app: ['main-app'],
+    router: ['main-app'],
+    theme: ['main-app', 'react-settings'],
+    notification: ['main-app', 'vue-message-center'],
+    system: ['main-app', 'vue-system-monitor', 'react-settings']
+  });
+}
+
+/**
+ * 主应用的登出清理处理器优先级，先于子应用的处理器执行
+ */
+const SHELL_AUTH_PRIORITY = 0;
+
+/**
+ * 配置登出清理
+ * 子应用收到 USER_LOGOUT 时，令牌和全局用户状态已经被主应用清除
+ */
+function setupAuthCleanup() {
+  globalEventBus.on(EVENT_TYPES.USER_LOGOUT, (event) => {
+    localStorage.removeItem('access_token');
+    localStorage.removeItem('refresh_token');
+
+    globalStateManager.dispatch({
+      type: 'SET_USER',
+      payload: { currentUser: null, isAuthenticated: false, permissions: [] }
+    });
+
+    // 状态历史中包含上一个用户的数据，登出后不再保留
+    globalStateManager.clearHistory();
+
+    globalLogger.info('Auth state cleared', { userId: event.data.userId, reason: event.data.reason });
+  }, { priority: SHELL_AUTH_PRIORITY });
+}
+
+/**
+ * 配置跨标签页事件同步
+ * 登录态、权限和偏好设置在同一浏览器的多个标签页之间保持一致
+ */
+function setupCrossTabBridge() {
+  const bridge = createCrossTabBridgeMiddleware(globalEventBus, {
+    channelName: 'micro-frontend-shell',
+    include: [
+      EVENT_TYPES.USER_LOGIN,
+      EVENT_TYPES.USER_LOGOUT,
+      EVENT_TYPES.USER_PERMISSION_CHANGE,
+      EVENT_TYPES.THEME_CHANGE,
+      EVENT_TYPES.LANGUAGE_CHANGE
+    ],
+    debug: process.env.NODE_ENV === 'development'
+  });
+
+  globalEventBus.use(bridge);
+}
+
 /**
  * 全局错误处理
  */
@@ -400,7 +543,7 @@ function registerApps() {
       microApps: apps.map(app => ({
         name: app.name,
         status: 'unmounted',
-        props: app.props || {},
+        props: getPropsMetadata(app.props),
         error: undefined,
         mountTime: undefined,
         unmountTime: undefined
@@ -482,6 +625,18 @@ export async function setupMicroApps(): Promise<void> {
     // 设置全局错误处理
     setupGlobalErrorHandler();
     
+    // 配置事件保留策略
+    setupEventRetention();
+    
+    // 声明状态分支归属
+    setupStateOwnership();
+    
+    // 配置登出清理
+    setupAuthCleanup();
+    
+    // 配置跨标签页事件同步
+    setupCrossTabBridge();
+    
     // 注册微应用
     registerApps();
     
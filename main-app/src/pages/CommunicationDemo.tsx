@@ -216,6 +216,7 @@ const CommunicationDemo: React.FC = () => {
       promises.push(globalEventBus.emit({
         type: 'PERFORMANCE_TEST',
         source: 'demo',
+        timestamp: new Date().toISOString(),
         data: { index: i, timestamp: Date.now() },
         id: `perf-test-${i}`
       }));
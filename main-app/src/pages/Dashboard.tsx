@@ -18,7 +18,7 @@ import {
 } from '@ant-design/icons';
 import { Helmet } from 'react-helmet-async';
 import { useMicroApps } from '../hooks/useMicroApps';
-import { useGlobalState } from '../hooks/useGlobalState';
+import { useGlobalStatePath } from '../hooks/useGlobalState';
 import './Dashboard.css';
 
 const { Title, Text } = Typography;
@@ -28,7 +28,7 @@ const { Title, Text } = Typography;
  */
 const Dashboard: React.FC = () => {
   const { microApps, getAvailableApps, getUnavailableApps } = useMicroApps();
-  const { state } = useGlobalState();
+  const currentUser = useGlobalStatePath('user.currentUser');
   const [loading, setLoading] = useState(true);
 
   // 模拟数据
@@ -127,7 +127,7 @@ const Dashboard: React.FC = () => {
         <div className="dashboard-header">
           <Title level={2}>仪表盘</Title>
           <Text type="secondary">
-            欢迎回来，{state.user.currentUser?.nickname || '用户'}！
+            欢迎回来，{currentUser?.nickname || '用户'}！
           </Text>
         </div>
 
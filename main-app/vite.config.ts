@@ -1,3 +1,4 @@
+/// <reference types="vitest" />
 import { defineConfig } from 'vite';
 import react from '@vitejs/plugin-react';
 import { resolve } from 'path';
@@ -92,6 +93,12 @@ export default defineConfig({
     __BUILD_TIME__: JSON.stringify(new Date().toISOString())
   },
   
+  // 测试配置，共享模块的测试与源码放在一起
+  test: {
+    include: ['src/**/*.test.{ts,tsx}', '../shared/**/*.test.ts'],
+    environment: 'jsdom'
+  },
+
   // 优化配置
   optimizeDeps: {
     include: [
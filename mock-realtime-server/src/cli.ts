@@ -0,0 +1,71 @@
+/**
+ * 命令行入口
+ *
+ * 播放场景：tsx src/cli.ts --scenario scenarios/dashboard-metrics.yaml [--port 8080] [--path /ws]
+ * 录制流量：tsx src/cli.ts --record ws://real-server/ws --out scenarios/recorded.yaml
+ */
+
+import { loadScenario } from './scenario';
+import { MockRealtimeServer } from './server';
+import { ScenarioRecorder } from './recorder';
+
+function parseArgs(argv: string[]): Record<string, string> {
+  const args: Record<string, string> = {};
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (!arg.startsWith('--')) continue;
+
+    const [key, inline] = arg.slice(2).split('=', 2);
+    if (inline !== undefined) {
+      args[key] = inline;
+    } else if (argv[i + 1] && !argv[i + 1].startsWith('--')) {
+      args[key] = argv[++i];
+    } else {
+      args[key] = 'true';
+    }
+  }
+  return args;
+}
+
+async function main(): Promise<void> {
+  const args = parseArgs(process.argv.slice(2));
+  const port = Number(args.port || process.env.PORT || 8080);
+  const host = args.host || '0.0.0.0';
+  const path = args.path || '/ws';
+
+  if (args.record) {
+    const recorder = new ScenarioRecorder({
+      upstream: args.record,
+      output: args.out || `scenarios/recorded-${Date.now()}.yaml`,
+      port,
+      host,
+      path,
+      name: args.name || 'recorded'
+    });
+    await recorder.start();
+
+    process.on('SIGINT', async () => {
+      await recorder.stop();
+      process.exit(0);
+    });
+    return;
+  }
+
+  const server = new MockRealtimeServer({
+    port,
+    host,
+    path,
+    scenario: args.scenario ? loadScenario(args.scenario) : undefined
+  });
+  await server.start();
+
+  process.on('SIGINT', async () => {
+    await server.stop();
+    process.exit(0);
+  });
+}
+
+main().catch(error => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,6 @@
+export * from './types';
+export * from './scenario';
+export * from './session';
+export * from './server';
+export * from './recorder';
+export * from './testing';
@@ -0,0 +1,203 @@
+/**
+ * 流量录制 - 代理到真实服务，把服务端推送的消息按时间线保存为场景文件
+ * 只录制第一条连接；客户端断开或调用 stop() 时写入文件
+ */
+
+import http from 'http';
+import { WebSocketServer, WebSocket, RawData } from 'ws';
+import { saveScenario } from './scenario';
+import { CONTROL_TYPES, Scenario, ScenarioMessage, ScenarioStep } from './types';
+
+// ==================== 类型定义 ====================
+
+export interface RecorderOptions {
+  /**
+   * 真实服务的 WebSocket 地址
+   */
+  upstream: string;
+
+  /**
+   * 场景文件路径，扩展名决定 JSON 或 YAML
+   */
+  output: string;
+  port?: number;
+  host?: string;
+  path?: string;
+  name?: string;
+  log?: boolean;
+}
+
+/**
+ * 录制时去掉的字段，回放时重新生成
+ */
+const VOLATILE_FIELDS = ['id', 'timestamp', 'seq'];
+
+const AUTO_REPLY_TYPES: string[] = [CONTROL_TYPES.PONG, CONTROL_TYPES.ACK, CONTROL_TYPES.RESUMED, CONTROL_TYPES.RESET];
+
+// ==================== 录制 ====================
+
+export class ScenarioRecorder {
+  private options: Required<RecorderOptions>;
+  private httpServer: http.Server;
+  private wss: WebSocketServer;
+  private steps: ScenarioStep[] = [];
+  private lastStepAt = 0;
+  private recording: WebSocket | null = null;
+  private saved = false;
+
+  constructor(options: RecorderOptions) {
+    this.options = {
+      port: 8080,
+      host: '127.0.0.1',
+      path: '/ws',
+      name: 'recorded',
+      log: true,
+      ...options
+    };
+
+    this.httpServer = http.createServer((_req, res) => {
+      res.writeHead(404).end();
+    });
+    this.wss = new WebSocketServer({ server: this.httpServer, path: this.options.path });
+    this.wss.on('connection', (socket, req) => this.proxy(socket, req));
+  }
+
+  async start(): Promise<void> {
+    await new Promise<void>((resolve, reject) => {
+      this.httpServer.once('error', reject);
+      this.httpServer.listen(this.options.port, this.options.host, () => {
+        this.httpServer.off('error', reject);
+        resolve();
+      });
+    });
+    this.log(`Recording ${this.options.upstream} via ws://${this.options.host}:${this.options.port}${this.options.path}`);
+  }
+
+  /**
+   * 停止代理并保存场景
+   */
+  async stop(): Promise<Scenario> {
+    const scenario = this.save();
+    this.wss.clients.forEach(socket => socket.terminate());
+    await new Promise<void>(resolve => this.wss.close(() => resolve()));
+    await new Promise<void>(resolve => this.httpServer.close(() => resolve()));
+    return scenario;
+  }
+
+  getSteps(): ScenarioStep[] {
+    return this.steps.slice();
+  }
+
+  // ==================== 私有方法 ====================
+
+  private proxy(client: WebSocket, req: http.IncomingMessage): void {
+    const url = new URL(req.url || '/', 'http://localhost');
+    const upstream = new WebSocket(`${this.options.upstream}${url.search}`);
+    const pending: RawData[] = [];
+
+    const record = this.recording === null;
+    if (record) {
+      this.recording = client;
+      this.lastStepAt = Date.now();
+    }
+
+    upstream.on('open', () => {
+      pending.splice(0).forEach(data => upstream.send(data));
+    });
+
+    upstream.on('message', (data: RawData, isBinary: boolean) => {
+      if (client.readyState === WebSocket.OPEN) {
+        client.send(data, { binary: isBinary });
+      }
+      if (record && !isBinary) {
+        this.recordMessage(data.toString());
+      }
+    });
+
+    upstream.on('close', (code: number, reason: Buffer) => {
+      if (record && code !== 1000 && client.readyState === WebSocket.OPEN) {
+        this.addStep({ disconnect: { code, reason: reason.toString() || undefined } });
+      }
+      if (client.readyState === WebSocket.OPEN) {
+        code === 1006 ? client.terminate() : client.close(code === 1005 ? 1000 : code, reason.toString());
+      }
+    });
+
+    upstream.on('error', error => {
+      this.log(`Upstream error: ${error.message}`);
+    });
+
+    client.on('message', (data: RawData, isBinary: boolean) => {
+      if (upstream.readyState === WebSocket.OPEN) {
+        upstream.send(data, { binary: isBinary });
+      } else if (upstream.readyState === WebSocket.CONNECTING) {
+        pending.push(data);
+      }
+    });
+
+    client.on('close', () => {
+      if (upstream.readyState === WebSocket.OPEN || upstream.readyState === WebSocket.CONNECTING) {
+        upstream.terminate();
+      }
+      if (record) {
+        this.save();
+      }
+    });
+  }
+
+  private recordMessage(text: string): void {
+    let parsed: any;
+    try {
+      parsed = JSON.parse(text);
+    } catch {
+      return;
+    }
+
+    // 心跳、确认和恢复应答由 Mock 服务自动发送，不录制
+    if (!parsed || typeof parsed.type !== 'string' || AUTO_REPLY_TYPES.includes(parsed.type)) {
+      return;
+    }
+
+    const message: ScenarioMessage = { type: parsed.type };
+    Object.keys(parsed)
+      .filter(key => !VOLATILE_FIELDS.includes(key))
+      .forEach(key => {
+        (message as any)[key] = parsed[key];
+      });
+    this.addStep({ message });
+  }
+
+  private addStep(step: ScenarioStep): void {
+    const now = Date.now();
+    this.steps.push({ after: now - this.lastStepAt, ...step });
+    this.lastStepAt = now;
+  }
+
+  private save(): Scenario {
+    const scenario: Scenario = {
+      name: this.options.name,
+      description: `Recorded from ${this.options.upstream} at ${new Date().toISOString()}`,
+      steps: this.steps
+    };
+
+    if (!this.saved) {
+      saveScenario(this.options.output, scenario);
+      this.saved = true;
+      this.log(`Saved ${this.steps.length} step(s) to ${this.options.output}`);
+    }
+    return scenario;
+  }
+
+  private log(message: string): void {
+    if (this.options.log) {
+      console.log(`[ScenarioRecorder] ${message}`);
+    }
+  }
+}
+
+/**
+ * 创建流量录制代理
+ */
+export function createScenarioRecorder(options: RecorderOptions): ScenarioRecorder {
+  return new ScenarioRecorder(options);
+}
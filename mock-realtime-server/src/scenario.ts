@@ -0,0 +1,154 @@
+/**
+ * 场景文件读写与播放
+ */
+
+import fs from 'fs';
+import path from 'path';
+import yaml from 'js-yaml';
+import { Scenario, ScenarioStep, ScenarioMessage } from './types';
+
+// ==================== 读写 ====================
+
+export class ScenarioError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ScenarioError';
+  }
+}
+
+const isYaml = (file: string) => /\.ya?ml$/i.test(file);
+
+/**
+ * 读取 JSON/YAML 场景文件
+ */
+export function loadScenario(file: string): Scenario {
+  const content = fs.readFileSync(file, 'utf8');
+  const parsed = isYaml(file) ? yaml.load(content) : JSON.parse(content);
+  return validateScenario(parsed, path.basename(file));
+}
+
+/**
+ * 按扩展名保存为 JSON 或 YAML
+ */
+export function saveScenario(file: string, scenario: Scenario): void {
+  const content = isYaml(file)
+    ? yaml.dump(scenario, { lineWidth: 120, noRefs: true })
+    : `${JSON.stringify(scenario, null, 2)}\n`;
+
+  fs.mkdirSync(path.dirname(path.resolve(file)), { recursive: true });
+  fs.writeFileSync(file, content, 'utf8');
+}
+
+/**
+ * 校验场景结构，出错时指出具体的步骤
+ */
+export function validateScenario(value: any, fallbackName: string = 'scenario'): Scenario {
+  if (!value || typeof value !== 'object' || !Array.isArray(value.steps)) {
+    throw new ScenarioError('Scenario must be an object with a "steps" array');
+  }
+
+  value.steps.forEach((step: any, index: number) => {
+    const at = `steps[${index}]`;
+    if (!step || typeof step !== 'object') {
+      throw new ScenarioError(`${at} must be an object`);
+    }
+    if (step.after !== undefined && (typeof step.after !== 'number' || step.after < 0)) {
+      throw new ScenarioError(`${at}.after must be a non-negative number`);
+    }
+
+    const kinds = ['message', 'disconnect', 'latency'].filter(key => step[key] !== undefined);
+    if (kinds.length !== 1) {
+      throw new ScenarioError(`${at} must have exactly one of "message", "disconnect" or "latency"`);
+    }
+    if (step.message && typeof step.message.type !== 'string') {
+      throw new ScenarioError(`${at}.message.type must be a string`);
+    }
+    if (step.latency && typeof step.latency.ms !== 'number') {
+      throw new ScenarioError(`${at}.latency.ms must be a number`);
+    }
+    if (step.disconnect === true) {
+      step.disconnect = {};
+    }
+  });
+
+  return {
+    name: typeof value.name === 'string' ? value.name : fallbackName,
+    description: value.description,
+    loop: !!value.loop,
+    steps: value.steps
+  };
+}
+
+// ==================== 播放 ====================
+
+export interface ScenarioTarget {
+  sendMessage(message: ScenarioMessage): void;
+  disconnect(code?: number, reason?: string): void;
+  setLatency(ms: number): void;
+}
+
+/**
+ * 按时间线对一个客户端会话播放场景
+ */
+export class ScenarioPlayer {
+  private timer: NodeJS.Timeout | null = null;
+  private latencyTimer: NodeJS.Timeout | null = null;
+  private index = 0;
+  private stopped = false;
+
+  constructor(private scenario: Scenario, private target: ScenarioTarget) {}
+
+  start(): void {
+    this.stopped = false;
+    this.scheduleNext();
+  }
+
+  stop(): void {
+    this.stopped = true;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    if (this.latencyTimer) {
+      clearTimeout(this.latencyTimer);
+      this.latencyTimer = null;
+    }
+  }
+
+  private scheduleNext(): void {
+    if (this.stopped) return;
+
+    if (this.index >= this.scenario.steps.length) {
+      if (!this.scenario.loop || this.scenario.steps.length === 0) return;
+      this.index = 0;
+    }
+
+    const step = this.scenario.steps[this.index++];
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.run(step);
+      this.scheduleNext();
+    }, step.after || 0);
+  }
+
+  private run(step: ScenarioStep): void {
+    if ('message' in step) {
+      this.target.sendMessage(step.message);
+    } else if ('disconnect' in step) {
+      this.target.disconnect(step.disconnect.code, step.disconnect.reason);
+    } else if ('latency' in step) {
+      if (this.latencyTimer) {
+        clearTimeout(this.latencyTimer);
+        this.latencyTimer = null;
+      }
+      this.target.setLatency(step.latency.ms);
+
+      if (step.latency.duration) {
+        this.latencyTimer = setTimeout(() => {
+          this.latencyTimer = null;
+          this.target.setLatency(0);
+        }, step.latency.duration);
+      }
+    }
+  }
+}
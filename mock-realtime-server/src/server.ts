@@ -0,0 +1,569 @@
+/**
+ * Mock 实时服务 - 同一端口提供 WebSocket、SSE 和 HTTP 长轮询
+ * 端点与 shared/communication/realtime/transports.ts 推导的一致：
+ *   ws://host:port/ws、http://host:port/ws/sse、/ws/poll、/ws/send
+ */
+
+import http from 'http';
+import { randomUUID } from 'crypto';
+import { WebSocketServer, WebSocket, RawData } from 'ws';
+import { ClientSession, SessionInfo } from './session';
+import { ScenarioPlayer, ScenarioTarget } from './scenario';
+import { CONTROL_TYPES, RealtimeMessage, Scenario, ScenarioMessage, SessionTransport } from './types';
+
+// ==================== 类型定义 ====================
+
+export interface MockRealtimeServerOptions {
+  /**
+   * 端口，0 表示随机分配，默认 8080
+   */
+  port?: number;
+  host?: string;
+
+  /**
+   * WebSocket 路径，HTTP 端点挂在其下，默认 /ws
+   */
+  path?: string;
+
+  /**
+   * 每个新会话都会播放的场景
+   */
+  scenario?: Scenario;
+
+  /**
+   * 断开的会话保留多久，期间客户端可以恢复会话，默认 30 秒
+   */
+  sessionTtl?: number;
+  log?: boolean;
+}
+
+export type ReceivedMessageListener = (message: RealtimeMessage, session: ClientSession) => void;
+
+// ==================== 连接实现 ====================
+
+class WebSocketSessionTransport implements SessionTransport {
+  readonly kind = 'websocket';
+
+  constructor(private socket: WebSocket) {}
+
+  send(text: string): void {
+    if (this.socket.readyState === WebSocket.OPEN) {
+      this.socket.send(text);
+    }
+  }
+
+  /**
+   * 未指定 code 或 code 为 1006 时直接断开，客户端收到非正常关闭
+   */
+  close(code?: number, reason?: string): void {
+    if (code === undefined || code === 1006) {
+      this.socket.terminate();
+    } else {
+      this.socket.close(code, reason);
+    }
+  }
+}
+
+class SSESessionTransport implements SessionTransport {
+  readonly kind = 'sse';
+
+  constructor(private response: http.ServerResponse) {}
+
+  send(text: string): void {
+    this.response.write(`data: ${text}\n\n`);
+  }
+
+  close(): void {
+    this.response.end();
+  }
+}
+
+class PollSessionTransport implements SessionTransport {
+  readonly kind = 'long-polling';
+  closed = false;
+
+  private queue: string[] = [];
+  private delivered = 0;
+  private waiting: { response: http.ServerResponse; timer: NodeJS.Timeout } | null = null;
+
+  constructor(private onClosed: () => void) {}
+
+  send(text: string): void {
+    if (this.closed) return;
+    this.queue.push(text);
+    if (this.waiting) {
+      this.flush();
+    }
+  }
+
+  /**
+   * 有等待中的请求时以 503 结束，否则下一次轮询返回 503
+   */
+  close(): void {
+    if (this.closed) return;
+    this.closed = true;
+    this.queue = [];
+
+    if (this.waiting) {
+      clearTimeout(this.waiting.timer);
+      sendJson(this.waiting.response, 503, { message: 'Disconnected by scenario' });
+      this.waiting = null;
+      this.onClosed();
+    }
+  }
+
+  /**
+   * 挂起轮询请求，有消息或超时时返回
+   */
+  hold(response: http.ServerResponse, wait: number): void {
+    if (this.waiting) {
+      this.flush();
+    }
+
+    this.waiting = { response, timer: setTimeout(() => this.flush(), wait) };
+    response.on('close', () => {
+      if (this.waiting?.response === response) {
+        clearTimeout(this.waiting.timer);
+        this.waiting = null;
+      }
+    });
+
+    if (this.queue.length > 0 || wait === 0) {
+      this.flush();
+    }
+  }
+
+  private flush(): void {
+    if (!this.waiting) return;
+
+    const { response, timer } = this.waiting;
+    clearTimeout(timer);
+    this.waiting = null;
+
+    const messages = this.queue.map(text => JSON.parse(text));
+    this.queue = [];
+    this.delivered += messages.length;
+    sendJson(response, 200, { messages, cursor: String(this.delivered) });
+  }
+}
+
+// ==================== 服务 ====================
+
+export class MockRealtimeServer {
+  private options: Required<Omit<MockRealtimeServerOptions, 'scenario'>> & { scenario?: Scenario };
+  private httpServer: http.Server;
+  private wss: WebSocketServer;
+  private sessions: Map<string, ClientSession> = new Map();
+  private players: Map<ClientSession, Set<ScenarioPlayer>> = new Map();
+  private listeners: Set<ReceivedMessageListener> = new Set();
+  private sessionWaiters: Set<(session: ClientSession) => void> = new Set();
+  private sweepTimer: NodeJS.Timeout | null = null;
+
+  /**
+   * 收到的客户端业务消息，便于测试断言
+   */
+  readonly received: RealtimeMessage[] = [];
+
+  constructor(options: MockRealtimeServerOptions = {}) {
+    this.options = {
+      port: 8080,
+      host: '127.0.0.1',
+      path: '/ws',
+      sessionTtl: 30000,
+      log: true,
+      ...options
+    };
+
+    this.httpServer = http.createServer((req, res) => this.handleHttp(req, res));
+    this.wss = new WebSocketServer({ server: this.httpServer, path: this.options.path });
+    this.wss.on('connection', socket => this.handleWebSocket(socket));
+  }
+
+  async start(): Promise<void> {
+    await new Promise<void>((resolve, reject) => {
+      this.httpServer.once('error', reject);
+      this.httpServer.listen(this.options.port, this.options.host, () => {
+        this.httpServer.off('error', reject);
+        resolve();
+      });
+    });
+
+    this.sweepTimer = setInterval(() => this.sweepSessions(), Math.min(this.options.sessionTtl, 5000));
+    this.sweepTimer.unref();
+    this.log(`Listening on ${this.url}`);
+  }
+
+  async stop(): Promise<void> {
+    if (this.sweepTimer) {
+      clearInterval(this.sweepTimer);
+      this.sweepTimer = null;
+    }
+
+    Array.from(this.sessions.values()).forEach(session => this.removeSession(session));
+    this.wss.clients.forEach(socket => socket.terminate());
+
+    await new Promise<void>(resolve => this.wss.close(() => resolve()));
+    await new Promise<void>(resolve => this.httpServer.close(() => resolve()));
+    this.httpServer.closeAllConnections?.();
+  }
+
+  get port(): number {
+    const address = this.httpServer.address();
+    return address && typeof address === 'object' ? address.port : this.options.port;
+  }
+
+  /**
+   * WebSocket 地址，可直接作为 WebSocketConfig.url
+   */
+  get url(): string {
+    return `ws://${this.options.host}:${this.port}${this.options.path}`;
+  }
+
+  get httpUrl(): string {
+    return `http://${this.options.host}:${this.port}${this.options.path}`;
+  }
+
+  /**
+   * 向订阅了主题的会话推送消息
+   */
+  publish(topic: string, data: any, type: string = CONTROL_TYPES.PUBLISH): number {
+    let count = 0;
+    this.sessions.forEach(session => {
+      if (session.isSubscribed(topic)) {
+        session.push({ type, topic, data });
+        count++;
+      }
+    });
+    return count;
+  }
+
+  /**
+   * 向全部会话推送消息
+   */
+  broadcast(message: ScenarioMessage): void {
+    this.sessions.forEach(session => session.push(message));
+  }
+
+  /**
+   * 断开全部连接，会话保留以便客户端恢复
+   */
+  disconnectAll(code?: number, reason?: string): void {
+    this.sessions.forEach(session => session.transport?.close(code, reason));
+  }
+
+  /**
+   * 对当前全部会话播放场景，返回停止函数
+   */
+  play(scenario: Scenario): () => void {
+    const players = Array.from(this.sessions.values()).map(session => this.startPlayer(session, scenario));
+    return () => players.forEach(player => player.stop());
+  }
+
+  getSession(id: string): ClientSession | undefined {
+    return this.sessions.get(id);
+  }
+
+  getSessions(): SessionInfo[] {
+    return Array.from(this.sessions.values()).map(session => session.getInfo());
+  }
+
+  /**
+   * 等待满足条件的会话连接，已存在时立即返回
+   */
+  waitForSession(predicate: (session: ClientSession) => boolean = () => true, timeout: number = 5000): Promise<ClientSession> {
+    const existing = Array.from(this.sessions.values()).find(session => session.transport && predicate(session));
+    if (existing) {
+      return Promise.resolve(existing);
+    }
+
+    return new Promise((resolve, reject) => {
+      const waiter = (session: ClientSession) => {
+        if (!predicate(session)) return;
+        clearTimeout(timer);
+        this.sessionWaiters.delete(waiter);
+        resolve(session);
+      };
+      const timer = setTimeout(() => {
+        this.sessionWaiters.delete(waiter);
+        reject(new Error(`No matching session connected within ${timeout}ms`));
+      }, timeout);
+      this.sessionWaiters.add(waiter);
+    });
+  }
+
+  /**
+   * 监听客户端业务消息，返回取消监听函数
+   */
+  onMessage(listener: ReceivedMessageListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // ==================== WebSocket ====================
+
+  private handleWebSocket(socket: WebSocket): void {
+    const transport = new WebSocketSessionTransport(socket);
+    let session = this.createSession(randomUUID(), transport);
+    this.log(`WebSocket session ${session.id} connected`);
+
+    socket.on('message', (data: RawData, isBinary: boolean) => {
+      if (isBinary) return;
+
+      const message = parseMessage(data.toString());
+      if (!message) return;
+
+      if (message.type === CONTROL_TYPES.RESUME) {
+        session = this.resumeSession(session, transport, message.data?.sessionId, message.data?.lastSeq ?? 0);
+        return;
+      }
+      session.receive(message);
+    });
+
+    socket.on('close', () => {
+      session.detach(transport);
+      this.log(`WebSocket session ${session.id} disconnected`);
+    });
+  }
+
+  /**
+   * 客户端用原会话 id 恢复：会话仍在时转移连接并重放未确认消息，否则沿用当前会话并改用该 id，由会话应答 reset
+   */
+  private resumeSession(current: ClientSession, transport: SessionTransport, sessionId: string, lastSeq: number): ClientSession {
+    if (!sessionId || sessionId === current.id) {
+      current.resume(lastSeq);
+      return current;
+    }
+
+    const previous = this.sessions.get(sessionId);
+    if (previous) {
+      current.detach(transport);
+      this.removeSession(current);
+      previous.attach(transport);
+      const replayed = previous.resume(lastSeq);
+      this.log(`Session ${sessionId} resumed, replayed ${replayed} message(s)`);
+      return previous;
+    }
+
+    this.sessions.delete(current.id);
+    current.id = sessionId;
+    this.sessions.set(sessionId, current);
+    current.resume(lastSeq);
+    return current;
+  }
+
+  // ==================== HTTP ====================
+
+  private handleHttp(req: http.IncomingMessage, res: http.ServerResponse): void {
+    res.setHeader('Access-Control-Allow-Origin', '*');
+    res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Accept');
+    res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204).end();
+      return;
+    }
+
+    const url = new URL(req.url || '/', this.httpUrl);
+    const clientId = url.searchParams.get('clientId');
+    const { path } = this.options;
+
+    if (url.pathname === '/health') {
+      sendJson(res, 200, { status: 'ok', sessions: this.sessions.size, timestamp: new Date().toISOString() });
+      return;
+    }
+    if (!clientId && url.pathname.startsWith(`${path}/`)) {
+      sendJson(res, 400, { message: 'clientId is required' });
+      return;
+    }
+
+    if (req.method === 'GET' && url.pathname === `${path}/sse`) {
+      this.handleSSE(req, res, clientId!);
+    } else if (req.method === 'GET' && url.pathname === `${path}/poll`) {
+      this.handlePoll(res, clientId!, Number(url.searchParams.get('wait') || 0), url.searchParams.get('cursor'));
+    } else if (req.method === 'POST' && url.pathname === `${path}/send`) {
+      this.handleSend(req, res, clientId!);
+    } else {
+      sendJson(res, 404, { message: 'Not found' });
+    }
+  }
+
+  private handleSSE(req: http.IncomingMessage, res: http.ServerResponse, clientId: string): void {
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive'
+    });
+    res.write(': connected\n\n');
+
+    const transport = new SSESessionTransport(res);
+    const session = this.attachHttpSession(clientId, transport);
+    req.on('close', () => session.detach(transport));
+  }
+
+  /**
+   * 不带 cursor 的请求是握手，建立新的轮询连接
+   */
+  private handlePoll(res: http.ServerResponse, clientId: string, wait: number, cursor: string | null): void {
+    const session = this.sessions.get(clientId);
+    const existing = session?.transport instanceof PollSessionTransport ? session.transport : null;
+
+    if (!cursor) {
+      existing?.close();
+      const transport: PollSessionTransport = new PollSessionTransport(() => this.sessions.get(clientId)?.detach(transport));
+      this.attachHttpSession(clientId, transport);
+      transport.hold(res, 0);
+      return;
+    }
+
+    if (!existing || existing.closed) {
+      sendJson(res, 503, { message: 'Session is not connected' });
+      if (existing) {
+        session!.detach(existing);
+      }
+      return;
+    }
+
+    existing.hold(res, Math.max(0, wait));
+  }
+
+  private handleSend(req: http.IncomingMessage, res: http.ServerResponse, clientId: string): void {
+    const chunks: Buffer[] = [];
+    req.on('data', chunk => chunks.push(chunk));
+    req.on('end', () => {
+      const session = this.sessions.get(clientId);
+      if (!session) {
+        sendJson(res, 404, { message: 'Unknown clientId' });
+        return;
+      }
+
+      const message = parseMessage(Buffer.concat(chunks).toString());
+      if (!message) {
+        sendJson(res, 400, { message: 'Invalid message' });
+        return;
+      }
+
+      session.receive(message);
+      res.writeHead(204).end();
+    });
+  }
+
+  /**
+   * HTTP 传输以 clientId 作为会话 id，同一客户端重连时沿用原会话
+   */
+  private attachHttpSession(clientId: string, transport: SessionTransport): ClientSession {
+    const session = this.sessions.get(clientId);
+    if (!session) {
+      this.log(`${transport.kind} session ${clientId} connected`);
+      return this.createSession(clientId, transport);
+    }
+
+    session.attach(transport);
+    return session;
+  }
+
+  // ==================== 会话管理 ====================
+
+  private createSession(id: string, transport: SessionTransport): ClientSession {
+    const session = new ClientSession(id, {
+      onPublish: (_source, message) => this.publish(message.topic!, message.data),
+      onMessage: (source, message) => this.handleReceived(source, message)
+    });
+    session.attach(transport);
+    this.sessions.set(id, session);
+
+    if (this.options.scenario) {
+      this.startPlayer(session, this.options.scenario);
+    }
+    this.sessionWaiters.forEach(waiter => waiter(session));
+    return session;
+  }
+
+  private startPlayer(session: ClientSession, scenario: Scenario): ScenarioPlayer {
+    const target: ScenarioTarget = {
+      sendMessage: message => {
+        // 带主题的消息只推送给订阅了该主题的会话
+        if (!message.topic || session.isSubscribed(message.topic)) {
+          session.push(message);
+        }
+      },
+      disconnect: (code, reason) => session.transport?.close(code, reason),
+      setLatency: ms => session.setLatency(ms)
+    };
+
+    const player = new ScenarioPlayer(scenario, target);
+    let players = this.players.get(session);
+    if (!players) {
+      players = new Set();
+      this.players.set(session, players);
+    }
+    players.add(player);
+    player.start();
+    return player;
+  }
+
+  private removeSession(session: ClientSession): void {
+    this.players.get(session)?.forEach(player => player.stop());
+    this.players.delete(session);
+    session.transport?.close(1001, 'Server shutting down');
+    session.dispose();
+
+    if (this.sessions.get(session.id) === session) {
+      this.sessions.delete(session.id);
+    }
+  }
+
+  /**
+   * 清理超过保留时间的断开会话
+   */
+  private sweepSessions(): void {
+    const expiredBefore = Date.now() - this.options.sessionTtl;
+    this.sessions.forEach(session => {
+      if (session.detachedAt !== null && session.detachedAt < expiredBefore) {
+        this.log(`Session ${session.id} expired`);
+        this.removeSession(session);
+      }
+    });
+  }
+
+  private handleReceived(session: ClientSession, message: RealtimeMessage): void {
+    this.received.push(message);
+    this.listeners.forEach(listener => {
+      try {
+        listener(message, session);
+      } catch (error) {
+        console.error('[MockRealtimeServer] Error in message listener:', error);
+      }
+    });
+  }
+
+  private log(message: string): void {
+    if (this.options.log) {
+      console.log(`[MockRealtimeServer] ${message}`);
+    }
+  }
+}
+
+// ==================== 工具函数 ====================
+
+function sendJson(res: http.ServerResponse, status: number, body: any): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+function parseMessage(text: string): RealtimeMessage | null {
+  try {
+    const message = JSON.parse(text);
+    return message && typeof message.type === 'string' ? message : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * 创建 Mock 实时服务
+ */
+export function createMockRealtimeServer(options?: MockRealtimeServerOptions): MockRealtimeServer {
+  return new MockRealtimeServer(options);
+}
@@ -0,0 +1,225 @@
+/**
+ * 客户端会话 - 记录订阅、发送序号和待确认消息
+ * 会话与连接分离：客户端断线重连（或降级到 SSE/长轮询）后可以继续使用同一会话
+ */
+
+import { randomUUID } from 'crypto';
+import { CONTROL_TYPES, RealtimeMessage, ScenarioMessage, SessionTransport } from './types';
+
+// ==================== 类型定义 ====================
+
+export interface SessionHooks {
+  /**
+   * 客户端发布主题消息
+   */
+  onPublish?(session: ClientSession, message: RealtimeMessage): void;
+
+  /**
+   * 收到客户端的业务消息（控制消息除外）
+   */
+  onMessage?(session: ClientSession, message: RealtimeMessage): void;
+}
+
+export interface SessionInfo {
+  id: string;
+  transport: SessionTransport['kind'] | null;
+  topics: string[];
+  lastSentSeq: number;
+  lastClientSeq: number;
+  latency: number;
+  connectedAt: number;
+}
+
+/**
+ * 保留的已发送消息数量，用于会话恢复时重放
+ */
+const HISTORY_LIMIT = 500;
+
+export function createMessage(message: ScenarioMessage): RealtimeMessage {
+  return {
+    id: randomUUID(),
+    data: null,
+    timestamp: new Date().toISOString(),
+    source: 'mock-realtime-server',
+    ...message
+  };
+}
+
+// ==================== 会话 ====================
+
+export class ClientSession {
+  readonly topics: Set<string> = new Set();
+  readonly connectedAt = Date.now();
+  transport: SessionTransport | null = null;
+  detachedAt: number | null = null;
+
+  private history: RealtimeMessage[] = [];
+  private lastSentSeq = 0;
+  private lastClientSeq = 0;
+  private resumable = false; // 处理过一次恢复后，之后的恢复沿用原序号
+  private latency = 0;
+  private lastDeliverAt = 0;
+  private timers: Set<NodeJS.Timeout> = new Set();
+
+  constructor(public id: string, private hooks: SessionHooks = {}) {}
+
+  /**
+   * 绑定连接；旧连接直接丢弃，不触发关闭
+   */
+  attach(transport: SessionTransport): void {
+    this.transport = transport;
+    this.detachedAt = null;
+  }
+
+  detach(transport?: SessionTransport): void {
+    if (transport && this.transport !== transport) return;
+    this.transport = null;
+    this.detachedAt = Date.now();
+  }
+
+  /**
+   * 向客户端推送消息，分配序号并记入历史
+   */
+  push(message: ScenarioMessage): RealtimeMessage {
+    const full = createMessage(message);
+    full.seq = ++this.lastSentSeq;
+
+    this.history.push(full);
+    if (this.history.length > HISTORY_LIMIT) {
+      this.history.shift();
+    }
+
+    this.deliver(full);
+    return full;
+  }
+
+  /**
+   * 会话恢复：应答 resumed 并重放序号大于 lastSeq 的消息
+   * 新建的会话不认识客户端的序号，应答 reset；已发出的消息都在当前连接上，不需要重放
+   */
+  resume(lastSeq: number): number {
+    if (!this.resumable) {
+      this.resumable = true;
+      this.sendControl({ type: CONTROL_TYPES.RESET, data: { sessionId: this.id } });
+      return 0;
+    }
+
+    this.sendControl({ type: CONTROL_TYPES.RESUMED, data: { sessionId: this.id, lastSeq: this.lastSentSeq } });
+    const pending = this.history.filter(message => message.seq! > lastSeq);
+    pending.forEach(message => this.deliver(message));
+    return pending.length;
+  }
+
+  /**
+   * 处理客户端发来的消息
+   */
+  receive(message: RealtimeMessage): void {
+    switch (message.type) {
+      case CONTROL_TYPES.PING:
+        this.sendControl({ type: CONTROL_TYPES.PONG, data: { timestamp: message.data?.timestamp ?? Date.now() } });
+        return;
+      case CONTROL_TYPES.ACK:
+        this.handleAck(message.data?.seq);
+        return;
+      case CONTROL_TYPES.RESUME:
+        this.resume(message.data?.lastSeq ?? 0);
+        return;
+      case CONTROL_TYPES.SUBSCRIBE:
+        (message.data?.topics || []).forEach((topic: string) => this.topics.add(topic));
+        return;
+      case CONTROL_TYPES.UNSUBSCRIBE:
+        (message.data?.topics || []).forEach((topic: string) => this.topics.delete(topic));
+        return;
+    }
+
+    if (typeof message.seq === 'number') {
+      // 客户端重发的消息仍然确认，但不再处理
+      const duplicate = message.seq <= this.lastClientSeq;
+      if (!duplicate) {
+        this.lastClientSeq = message.seq;
+      }
+      this.sendControl({ type: CONTROL_TYPES.ACK, data: { seq: this.lastClientSeq } });
+      if (duplicate) return;
+    }
+
+    if (message.type === CONTROL_TYPES.PUBLISH && message.topic) {
+      this.hooks.onPublish?.(this, message);
+    }
+    this.hooks.onMessage?.(this, message);
+  }
+
+  isSubscribed(topic: string): boolean {
+    return this.topics.has(topic);
+  }
+
+  /**
+   * 设置之后发出消息的延迟，0 表示恢复正常
+   */
+  setLatency(ms: number): void {
+    this.latency = Math.max(0, ms);
+  }
+
+  getInfo(): SessionInfo {
+    return {
+      id: this.id,
+      transport: this.transport?.kind ?? null,
+      topics: Array.from(this.topics),
+      lastSentSeq: this.lastSentSeq,
+      lastClientSeq: this.lastClientSeq,
+      latency: this.latency,
+      connectedAt: this.connectedAt
+    };
+  }
+
+  dispose(): void {
+    this.timers.forEach(timer => clearTimeout(timer));
+    this.timers.clear();
+    this.transport = null;
+  }
+
+  // ==================== 私有方法 ====================
+
+  /**
+   * 控制消息不分配序号，也不进入历史
+   */
+  private sendControl(message: ScenarioMessage): void {
+    this.deliver(createMessage(message));
+  }
+
+  private handleAck(seq: number): void {
+    if (typeof seq !== 'number') return;
+    this.history = this.history.filter(message => message.seq! > seq);
+  }
+
+  /**
+   * 按延迟发送；延迟变化时仍保证消息顺序
+   */
+  private deliver(message: RealtimeMessage): void {
+    const text = JSON.stringify(message);
+    const now = Date.now();
+    const deliverAt = Math.max(now + this.latency, this.lastDeliverAt);
+    this.lastDeliverAt = deliverAt;
+
+    if (deliverAt <= now) {
+      this.write(text);
+      return;
+    }
+
+    const timer = setTimeout(() => {
+      this.timers.delete(timer);
+      this.write(text);
+    }, deliverAt - now);
+    this.timers.add(timer);
+  }
+
+  /**
+   * 未连接时丢弃，未确认的消息在会话恢复时重放
+   */
+  private write(text: string): void {
+    try {
+      this.transport?.send(text);
+    } catch {
+      // 连接已关闭
+    }
+  }
+}
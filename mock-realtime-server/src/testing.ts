@@ -0,0 +1,77 @@
+/**
+ * 集成测试辅助 - 启动 Mock 服务并在 Node 环境中提供 WebSocket 全局对象
+ *
+ * @example
+ * const server = await startMockRealtimeServer({ scenarioFile: 'scenarios/order-tracking.json' });
+ * const restore = installWebSocketGlobal();
+ * const manager = new WebSocketManager();
+ * const connectionId = await manager.createConnection({ url: server.url, reliable: true });
+ * // ...
+ * manager.destroy();
+ * restore();
+ * await server.stop();
+ */
+
+import { WebSocket } from 'ws';
+import { loadScenario } from './scenario';
+import { MockRealtimeServer, MockRealtimeServerOptions } from './server';
+import { ClientSession } from './session';
+import { RealtimeMessage } from './types';
+
+export interface TestServerOptions extends MockRealtimeServerOptions {
+  /**
+   * 场景文件路径，优先于 scenario
+   */
+  scenarioFile?: string;
+}
+
+/**
+ * 启动 Mock 服务，默认随机端口且不输出日志
+ */
+export async function startMockRealtimeServer(options: TestServerOptions = {}): Promise<MockRealtimeServer> {
+  const { scenarioFile, ...serverOptions } = options;
+  const server = new MockRealtimeServer({
+    port: 0,
+    log: false,
+    ...serverOptions,
+    scenario: scenarioFile ? loadScenario(scenarioFile) : serverOptions.scenario
+  });
+
+  await server.start();
+  return server;
+}
+
+/**
+ * 用 ws 实现设置 globalThis.WebSocket，返回恢复函数
+ */
+export function installWebSocketGlobal(): () => void {
+  const target = globalThis as any;
+  const previous = target.WebSocket;
+  target.WebSocket = WebSocket;
+
+  return () => {
+    target.WebSocket = previous;
+  };
+}
+
+/**
+ * 等待服务端收到满足条件的客户端消息
+ */
+export function waitForMessage(
+  server: MockRealtimeServer,
+  predicate: (message: RealtimeMessage, session: ClientSession) => boolean,
+  timeout: number = 5000
+): Promise<RealtimeMessage> {
+  return new Promise((resolve, reject) => {
+    const unsubscribe = server.onMessage((message, session) => {
+      if (!predicate(message, session)) return;
+      clearTimeout(timer);
+      unsubscribe();
+      resolve(message);
+    });
+    const timer = setTimeout(() => {
+      unsubscribe();
+      reject(new Error(`No matching message received within ${timeout}ms`));
+    }, timeout);
+  });
+}
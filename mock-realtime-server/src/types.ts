@@ -0,0 +1,84 @@
+/**
+ * 消息与场景类型
+ * 消息结构与 shared/communication/realtime/websocket-manager.ts 中的 WebSocketMessage 一致
+ */
+
+export interface RealtimeMessage {
+  id: string;
+  type: string;
+  data: any;
+  timestamp: string;
+  source?: string;
+  target?: string;
+  topic?: string;
+  seq?: number;
+}
+
+/**
+ * 场景中的消息，id、timestamp 和 seq 在发送时补全
+ */
+export type ScenarioMessage = Partial<RealtimeMessage> & { type: string };
+
+export interface MessageStep {
+  /**
+   * 距上一步的毫秒数
+   */
+  after?: number;
+  message: ScenarioMessage;
+}
+
+export interface DisconnectStep {
+  after?: number;
+
+  /**
+   * 未指定 code 或 code 为 1006 时直接断开，模拟网络中断
+   */
+  disconnect: { code?: number; reason?: string };
+}
+
+export interface LatencyStep {
+  after?: number;
+
+  /**
+   * 之后发出的消息都延迟 ms 毫秒，持续 duration 毫秒（不指定则持续到下一个 latency 步骤）
+   */
+  latency: { ms: number; duration?: number };
+}
+
+export type ScenarioStep = MessageStep | DisconnectStep | LatencyStep;
+
+export interface Scenario {
+  name: string;
+  description?: string;
+
+  /**
+   * 播放完后从头循环
+   */
+  loop?: boolean;
+  steps: ScenarioStep[];
+}
+
+/**
+ * 客户端会话所用的连接，WebSocket、SSE 和长轮询各有实现
+ */
+export interface SessionTransport {
+  readonly kind: 'websocket' | 'sse' | 'long-polling';
+  send(text: string): void;
+  close(code?: number, reason?: string): void;
+}
+
+/**
+ * 与客户端约定的控制消息类型
+ * resume 的应答：resumed 表示沿用原会话并重放未确认消息；reset 表示会话已丢失（服务重启或过期），序号从 1 重新开始
+ */
+export const CONTROL_TYPES = {
+  PING: 'ping',
+  PONG: 'pong',
+  ACK: 'ack',
+  RESUME: 'resume',
+  RESUMED: 'resumed',
+  RESET: 'reset',
+  SUBSCRIBE: 'subscribe',
+  UNSUBSCRIBE: 'unsubscribe',
+  PUBLISH: 'publish'
+} as const;
@@ -51,7 +51,7 @@ async function restorePersistedState() {
       .find(m => m.name === 'persistence') as any;
 
     if (persistenceMiddleware && persistenceMiddleware.restoreState) {
-      const restoredState = await persistenceMiddleware.restoreState();
+      const restoredState = await persistenceMiddleware.restoreState(globalStateManager.getState());
       if (restoredState) {
         globalStateManager.setState(restoredState);
         console.log('[EnhancedCommunication] State restored from persistence');
@@ -99,7 +99,10 @@ export function createDebugHelper() {
       undo: globalStateManager.undo.bind(globalStateManager),
       redo: globalStateManager.redo.bind(globalStateManager),
       getSnapshots: globalStateManager.getSnapshots.bind(globalStateManager),
-      createSnapshot: globalStateManager.createSnapshot.bind(globalStateManager)
+      createSnapshot: globalStateManager.createSnapshot.bind(globalStateManager),
+      jumpToSnapshot: globalStateManager.jumpToSnapshot.bind(globalStateManager),
+      exportHistory: globalStateManager.exportHistory.bind(globalStateManager),
+      importHistory: globalStateManager.importHistory.bind(globalStateManager)
     },
 
     // 统计信息
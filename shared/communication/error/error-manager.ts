@@ -286,6 +286,83 @@ export class ErrorManager {
     this.processError(errorInfo);
   }
 
+  /**
+   * 处理被拒绝的状态写入
+   */
+  handleStateWriteRejection(
+    appName: string,
+    reason: 'ownership' | 'validation',
+    message: string,
+    details: {
+      slices: string[];
+      issues?: Array<{ path: string; message: string }>;
+      action?: StateAction;
+    }
+  ): void {
+    const errorInfo: ErrorInfo = {
+      id: this.generateId(),
+      timestamp: new Date().toISOString(),
+      type: reason === 'ownership' ? 'permission-error' : 'validation-error',
+      level: 'medium',
+      message,
+      source: {
+        type: appName === 'main-app' ? 'main-app' : 'micro-app',
+        name: appName
+      },
+      context: details.action
+        ? { action: { type: details.action.type, payload: details.action.payload } }
+        : undefined,
+      metadata: {
+        appName,
+        reason,
+        slices: details.slices,
+        issues: details.issues
+      }
+    };
+
+    this.processError(errorInfo);
+  }
+
+  /**
+   * 处理不符合结构的事件负载
+   */
+  handleEventValidationError(
+    appName: string,
+    event: BaseEvent,
+    message: string,
+    details: {
+      mode: 'warn' | 'reject';
+      issues: Array<{ path: string; keyword: string; message: string }>;
+    }
+  ): void {
+    const errorInfo: ErrorInfo = {
+      id: this.generateId(),
+      timestamp: new Date().toISOString(),
+      type: 'validation-error',
+      level: details.mode === 'reject' ? 'medium' : 'low',
+      message,
+      source: {
+        type: appName === 'main-app' ? 'main-app' : 'micro-app',
+        name: appName
+      },
+      context: {
+        event: {
+          type: event.type,
+          source: event.source,
+          id: event.id
+        }
+      },
+      metadata: {
+        appName,
+        eventType: event.type,
+        mode: details.mode,
+        issues: details.issues
+      }
+    };
+
+    this.processError(errorInfo);
+  }
+
   /**
    * 注册错误处理器
    */
@@ -0,0 +1,44 @@
+/**
+ * EventBus 类型测试，只由 tsc 检查，不会执行
+ * @ts-expect-error 所在的下一行必须产生类型错误，否则检查失败
+ */
+import { EventBus } from './event-bus';
+import { BaseEvent, EVENT_TYPES, ThemeChangeEvent } from '../types/events';
+
+const bus = new EventBus();
+const scoped = bus.scope('type-test');
+const base = { source: 'type-test', timestamp: new Date().toISOString(), id: 'type-test' };
+
+// ==================== 按类型发射 ====================
+
+bus.emit(EVENT_TYPES.THEME_CHANGE, { theme: 'dark' });
+// @ts-expect-error 负载不符合映射表
+bus.emit(EVENT_TYPES.THEME_CHANGE, { bogus: 1 });
+
+// ==================== 完整事件写法 ====================
+
+bus.emit({ ...base, type: 'THEME_CHANGE', data: { theme: 'dark' } });
+// @ts-expect-error 内联对象的负载不符合映射表
+bus.emit({ ...base, type: 'THEME_CHANGE', data: { bogus: 1 } });
+// @ts-expect-error 内联对象的负载不符合映射表
+bus.emitAndWait({ ...base, type: 'THEME_CHANGE', data: { theme: 'blue' } });
+// @ts-expect-error 应用作用域的事件总线同样校验
+scoped.emit({ ...base, type: 'THEME_CHANGE', data: { bogus: 1 } });
+
+// 未登记和类型为 string 的事件保持宽松
+bus.emit({ ...base, type: 'CUSTOM_EVENT', data: { anything: true } });
+const untyped: BaseEvent = { ...base, type: 'THEME_CHANGE' };
+bus.emit(untyped);
+scoped.emitAndWait(untyped);
+
+// ==================== 处理器与结果 ====================
+
+bus.on(EVENT_TYPES.THEME_CHANGE, event => {
+  const theme: 'light' | 'dark' = event.data.theme;
+  return theme;
+});
+
+bus.emitAndWait({ ...base, type: 'THEME_CHANGE', data: { theme: 'light' } } as ThemeChangeEvent).then(result => {
+  const event: ThemeChangeEvent = result.event;
+  return event;
+});
@@ -0,0 +1,356 @@
+// @vitest-environment node
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { EventBus, EventRequestError, RESPONSE_EVENT_SUFFIX } from './event-bus';
+import { createInterceptMiddleware } from './middleware/event-middleware';
+import { BaseEvent, EVENT_TYPES } from '../types/events';
+
+// ==================== 辅助函数 ====================
+
+let nextId = 0;
+
+function event(type: string, data: any = {}, source: string = 'spec'): BaseEvent {
+  return { type, data, source, timestamp: new Date().toISOString(), id: `${type}-${++nextId}` };
+}
+
+/**
+ * 补发在订阅后的微任务中进行
+ */
+function flush(): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, 0));
+}
+
+async function requestError(promise: Promise<unknown>): Promise<EventRequestError> {
+  try {
+    await promise;
+  } catch (error) {
+    return error as EventRequestError;
+  }
+  throw new Error('Expected request to fail');
+}
+
+// ==================== 请求-响应 ====================
+
+describe('EventBus 请求-响应', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('响应者的返回值作为请求结果，响应事件以请求 id 关联', async () => {
+    const bus = new EventBus();
+    const responses: BaseEvent[] = [];
+    bus.handle('STOCK_QUERY', event => ({ sku: event.data.sku, stock: 3 }));
+    bus.on(`STOCK_QUERY${RESPONSE_EVENT_SUFFIX}`, event => {
+      responses.push(event);
+    });
+
+    const result = await bus.request('STOCK_QUERY', { sku: 'A-1' }, { id: 'req-1', source: 'react-order-management' });
+
+    expect(result).toEqual({ sku: 'A-1', stock: 3 });
+    expect(responses).toHaveLength(1);
+    expect(responses[0].metadata).toMatchObject({ rpc: 'response', correlationId: 'req-1' });
+  });
+
+  it('没有响应者时立即拒绝', async () => {
+    const error = await requestError(new EventBus().request('STOCK_QUERY', {}));
+
+    expect(error).toBeInstanceOf(EventRequestError);
+    expect(error.code).toBe('NO_RESPONDER');
+    expect(error.requestType).toBe('STOCK_QUERY');
+  });
+
+  it('响应者未在超时时间内返回时拒绝，迟到的响应被忽略', async () => {
+    const bus = new EventBus();
+    let respond: (value: number) => void = () => undefined;
+    bus.handle('STOCK_QUERY', () => new Promise<number>(resolve => { respond = resolve; }));
+
+    const error = await requestError(bus.request('STOCK_QUERY', {}, { timeout: 20 }));
+    expect(error.code).toBe('TIMEOUT');
+    expect(error.message).toBe('Request "STOCK_QUERY" timed out after 20ms');
+
+    respond(1);
+    await new Promise(resolve => setTimeout(resolve, 0));
+  });
+
+  it('响应者抛出异常时以 RESPONDER_ERROR 拒绝', async () => {
+    const bus = new EventBus();
+    bus.handle('STOCK_QUERY', () => {
+      throw new Error('inventory offline');
+    });
+
+    const error = await requestError(bus.request('STOCK_QUERY', {}));
+    expect(error.code).toBe('RESPONDER_ERROR');
+    expect(error.message).toContain('inventory offline');
+  });
+
+  it('请求经过中间件，被拦截时以 INTERCEPTED 拒绝', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    const bus = new EventBus();
+    const responder = vi.fn(() => 1);
+    bus.handle('STOCK_QUERY', responder);
+    bus.use(createInterceptMiddleware('permission', event => event.source === 'untrusted-app', 'not allowed'));
+
+    const error = await requestError(bus.request('STOCK_QUERY', {}, { source: 'untrusted-app' }));
+    expect(error.code).toBe('INTERCEPTED');
+    expect(responder).not.toHaveBeenCalled();
+    expect(await bus.request('STOCK_QUERY', {}, { source: 'react-order-management' })).toBe(1);
+  });
+
+  it('同一类型只保留最后注册的响应者，取消后不再响应', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const bus = new EventBus();
+    bus.handle('STOCK_QUERY', () => 'first');
+    const second = bus.handle('STOCK_QUERY', () => 'second');
+
+    expect(await bus.request('STOCK_QUERY', {})).toBe('second');
+    second.unsubscribe();
+    expect((await requestError(bus.request('STOCK_QUERY', {}))).code).toBe('NO_RESPONDER');
+  });
+});
+
+// ==================== 保留与补发 ====================
+
+describe('EventBus 保留与补发', () => {
+  it('默认只保留最近一条，replay 订阅在返回后补发', async () => {
+    const bus = new EventBus();
+    bus.setRetentionPolicy(EVENT_TYPES.THEME_CHANGE);
+    await bus.emit(event(EVENT_TYPES.THEME_CHANGE, { theme: 'light' }));
+    await bus.emit(event(EVENT_TYPES.THEME_CHANGE, { theme: 'dark' }));
+
+    const received: string[] = [];
+    bus.on(EVENT_TYPES.THEME_CHANGE, e => { received.push(e.data.theme); }, { replay: true });
+    expect(received).toEqual([]);
+
+    await flush();
+    expect(received).toEqual(['dark']);
+  });
+
+  it('按键保留每个键最新的事件，并限制数量', async () => {
+    const bus = new EventBus();
+    bus.setRetentionPolicy('ORDER_STATUS', { keyBy: e => e.data.orderId, maxEvents: 2 });
+    for (const item of ['1:created', '2:created', '1:paid', '3:created']) {
+      const [orderId, status] = item.split(':');
+      await bus.emit(event('ORDER_STATUS', { orderId, status }));
+    }
+
+    expect(bus.getRetainedEvents('ORDER_STATUS').map(e => `${e.data.orderId}:${e.data.status}`)).toEqual(['1:paid', '3:created']);
+  });
+
+  it('过期的事件不再补发', async () => {
+    const bus = new EventBus();
+    bus.setRetentionPolicy('PRICE_TICK', { ttl: 10 });
+    await bus.emit(event('PRICE_TICK', { price: 1 }));
+    await new Promise(resolve => setTimeout(resolve, 20));
+
+    const handler = vi.fn();
+    bus.on('PRICE_TICK', handler, { replay: true });
+    await flush();
+
+    expect(handler).not.toHaveBeenCalled();
+    expect(bus.getRetainedEvents('PRICE_TICK')).toEqual([]);
+  });
+
+  it('clearOn 和来源应用卸载时清除保留的事件', async () => {
+    const bus = new EventBus();
+    bus.setRetentionPolicy(EVENT_TYPES.USER_LOGIN, { clearOn: [EVENT_TYPES.USER_LOGOUT] });
+    bus.setRetentionPolicy('CART_UPDATED', { keyBy: e => e.source, clearOnUnmount: true });
+
+    await bus.emit(event(EVENT_TYPES.USER_LOGIN, { userId: 'u1' }));
+    await bus.emit(event('CART_UPDATED', { items: 1 }, 'react-order-management'));
+    await bus.emit(event('CART_UPDATED', { items: 2 }, 'react-product-management'));
+
+    await bus.emit(event(EVENT_TYPES.USER_LOGOUT, {}));
+    await bus.emit(event(EVENT_TYPES.APP_UNMOUNT, { appName: 'react-order-management' }));
+
+    expect(bus.getRetainedEvents(EVENT_TYPES.USER_LOGIN)).toEqual([]);
+    expect(bus.getRetainedEvents('CART_UPDATED').map(e => e.source)).toEqual(['react-product-management']);
+  });
+
+  it('once 只补发最新一条，通配订阅补发所有匹配类型', async () => {
+    const bus = new EventBus();
+    bus.setRetentionPolicy('ORDER_CREATED', { maxEvents: 5 });
+    bus.setRetentionPolicy('ORDER_PAID');
+    await bus.emit(event('ORDER_CREATED', { id: 1 }));
+    await bus.emit(event('ORDER_CREATED', { id: 2 }));
+    await bus.emit(event('ORDER_PAID', { id: 1 }));
+
+    const once = vi.fn();
+    const pattern: string[] = [];
+    bus.once('ORDER_CREATED', once, { replay: true });
+    bus.on('ORDER_*', e => { pattern.push(`${e.type}:${e.data.id}`); }, { replay: true });
+    await flush();
+
+    expect(once).toHaveBeenCalledTimes(1);
+    expect(once.mock.calls[0][0].data).toEqual({ id: 2 });
+    expect(bus.getListeners('ORDER_CREATED')).not.toContain(once);
+    expect(pattern).toEqual(['ORDER_CREATED:1', 'ORDER_CREATED:2', 'ORDER_PAID:1']);
+  });
+
+  it('补发前取消订阅时不再补发', async () => {
+    const bus = new EventBus();
+    bus.setRetentionPolicy(EVENT_TYPES.THEME_CHANGE);
+    await bus.emit(event(EVENT_TYPES.THEME_CHANGE, { theme: 'dark' }));
+
+    const handler = vi.fn();
+    bus.on(EVENT_TYPES.THEME_CHANGE, handler, { replay: true }).unsubscribe();
+    await flush();
+
+    expect(handler).not.toHaveBeenCalled();
+  });
+});
+
+// ==================== 优先级与等待 ====================
+
+describe('EventBus 优先级', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('按优先级调用处理器，同优先级保持订阅顺序', async () => {
+    const bus = new EventBus();
+    const calls: string[] = [];
+    bus.on(EVENT_TYPES.USER_LOGOUT, () => { calls.push('app-a'); });
+    bus.on(EVENT_TYPES.USER_LOGOUT, () => { calls.push('app-b'); });
+    bus.on(EVENT_TYPES.USER_LOGOUT, () => { calls.push('auth'); }, { priority: 0 });
+    bus.onAny(() => { calls.push('audit'); }, { priority: 200 });
+
+    await bus.emit(event(EVENT_TYPES.USER_LOGOUT));
+
+    expect(calls).toEqual(['auth', 'app-a', 'app-b', 'audit']);
+  });
+
+  it('stopPropagation 阻止优先级更低的处理器', async () => {
+    const bus = new EventBus();
+    const later = vi.fn();
+    bus.on(EVENT_TYPES.USER_LOGOUT, (_event, context) => context.stopPropagation(), { priority: 10 });
+    bus.on(EVENT_TYPES.USER_LOGOUT, later);
+
+    await bus.emit(event(EVENT_TYPES.USER_LOGOUT));
+    const result = await bus.emitAndWait(event(EVENT_TYPES.USER_LOGOUT));
+
+    expect(later).not.toHaveBeenCalled();
+    expect(result).toMatchObject({ handled: 1, stopped: true, intercepted: false });
+  });
+
+  it('emit 不等待异步处理器，emitAndWait 依次等待并报告失败', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    const bus = new EventBus();
+    const calls: string[] = [];
+    const failing = async () => {
+      throw new Error('cleanup failed');
+    };
+    bus.on(EVENT_TYPES.USER_LOGOUT, async () => {
+      await new Promise(resolve => setTimeout(resolve, 10));
+      calls.push('auth-done');
+    }, { priority: 0 });
+    bus.on(EVENT_TYPES.USER_LOGOUT, () => { calls.push('app'); });
+    bus.on(EVENT_TYPES.USER_LOGOUT, failing, { priority: 150 });
+
+    await bus.emit(event(EVENT_TYPES.USER_LOGOUT));
+    expect(calls).toEqual(['app']);
+    await new Promise(resolve => setTimeout(resolve, 20));
+
+    calls.length = 0;
+    const result = await bus.emitAndWait(event(EVENT_TYPES.USER_LOGOUT));
+    expect(calls).toEqual(['auth-done', 'app']);
+    expect(result.handled).toBe(3);
+    expect(result.failures).toHaveLength(1);
+    expect(result.failures[0]).toMatchObject({ subscribedTo: EVENT_TYPES.USER_LOGOUT, priority: 150, handler: failing });
+    expect(result.failures[0].error.message).toBe('cleanup failed');
+  });
+
+  it('被中间件拦截时不分发并标记 intercepted', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    const bus = new EventBus();
+    const handler = vi.fn();
+    bus.on(EVENT_TYPES.USER_LOGOUT, handler);
+    bus.use(createInterceptMiddleware('block-all', () => true, 'blocked'));
+
+    const result = await bus.emitAndWait(event(EVENT_TYPES.USER_LOGOUT));
+
+    expect(result).toMatchObject({ intercepted: true, handled: 0 });
+    expect(handler).not.toHaveBeenCalled();
+  });
+});
+
+// ==================== 应用作用域 ====================
+
+describe('ScopedEventBus', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('未指定来源时以应用名作为 source', async () => {
+    const bus = new EventBus();
+    const sources: string[] = [];
+    bus.onAny(e => { sources.push(e.source); });
+    const scoped = bus.scope('react-dashboard');
+
+    await scoped.emit(EVENT_TYPES.THEME_CHANGE, { theme: 'dark' });
+    await scoped.emit({ ...event(EVENT_TYPES.THEME_CHANGE, { theme: 'dark' }), source: '' });
+    await scoped.emit(event(EVENT_TYPES.THEME_CHANGE, { theme: 'dark' }, 'main-app'));
+
+    expect(sources).toEqual(['react-dashboard', 'react-dashboard', 'main-app']);
+  });
+
+  it('clear 只移除本应用的订阅，同一处理器在其他地方的订阅保留', async () => {
+    const bus = new EventBus();
+    const handler = vi.fn();
+    const scoped = bus.scope('react-dashboard');
+    bus.on(EVENT_TYPES.USER_LOGOUT, handler);
+    scoped.on(EVENT_TYPES.USER_LOGOUT, handler);
+    scoped.onAny(handler);
+    scoped.handle('DASHBOARD_QUERY', () => 1);
+
+    scoped.clear();
+    await bus.emit(event(EVENT_TYPES.USER_LOGOUT));
+
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(scoped.size).toBe(0);
+    expect(bus.getStats().responders).toEqual([]);
+  });
+
+  it('getStats 按应用列出存活的订阅，once 触发后不再计入', async () => {
+    const bus = new EventBus();
+    const orders = bus.scope('react-order-management');
+    orders.on(EVENT_TYPES.USER_LOGOUT, () => undefined);
+    orders.once(EVENT_TYPES.THEME_CHANGE, () => undefined);
+    bus.scope('react-dashboard').handle('DASHBOARD_QUERY', () => 1);
+
+    expect(bus.getStats().scopes).toEqual({
+      'react-order-management': {
+        listeners: 1,
+        onceListeners: 1,
+        anyListeners: 0,
+        responders: 0,
+        eventTypes: { [EVENT_TYPES.USER_LOGOUT]: 1, [EVENT_TYPES.THEME_CHANGE]: 1 }
+      },
+      'react-dashboard': { listeners: 0, onceListeners: 0, anyListeners: 0, responders: 1, eventTypes: { DASHBOARD_QUERY: 1 } }
+    });
+
+    await bus.emit(event(EVENT_TYPES.THEME_CHANGE, { theme: 'dark' }));
+    expect(orders.getStats()).toMatchObject({ listeners: 1, onceListeners: 0 });
+  });
+
+  it('once 处理器的结果交给 emitAndWait，失败会被报告', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    const bus = new EventBus();
+    bus.scope('react-dashboard').once(EVENT_TYPES.USER_LOGOUT, async () => {
+      throw new Error('save failed');
+    });
+
+    const result = await bus.emitAndWait(event(EVENT_TYPES.USER_LOGOUT));
+
+    expect(result.failures.map(failure => failure.error.message)).toEqual(['save failed']);
+  });
+
+  it('同一应用返回同一实例，取消订阅后从记录中移除', () => {
+    const bus = new EventBus();
+    const scoped = bus.scope('react-dashboard');
+    const subscription = scoped.on(EVENT_TYPES.USER_LOGOUT, () => undefined);
+
+    expect(bus.scope('react-dashboard')).toBe(scoped);
+    subscription.unsubscribe();
+    expect(scoped.size).toBe(0);
+    expect(bus.getListeners(EVENT_TYPES.USER_LOGOUT)).toEqual([]);
+  });
+});
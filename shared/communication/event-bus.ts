@@ -3,19 +3,127 @@
  * 提供发布订阅模式的事件通信机制，支持中间件处理流程
  */
 
-import { EventBusInterface, EventHandler, EventSubscription, BaseEvent } from '../types/events';
-import { EventMiddlewareManager, EventMiddleware } from './middleware/event-middleware';
+import {
+  EventHandler,
+  EventDispatchContext,
+  EventSubscription,
+  BaseEvent,
+  MicroFrontendEventMap,
+  TypedEventBus,
+  EventMapOf,
+  EventKey,
+  EventOf,
+  EventDataOf,
+  CheckedEvent,
+  EmitOptions,
+  RequestHandler,
+  RequestOptions,
+  SubscribeOptions,
+  EmitResult,
+  ListenerFailure,
+  RetentionPolicy,
+  EVENT_TYPES
+} from '../types/events';
+import { EventMiddlewareManager, EventMiddleware, MiddlewareInterceptor } from './middleware/event-middleware';
+import { MiddlewareChainEntry } from './middleware/middleware-composition';
+import { EventPatternTrie, createEventPatternMatcher, isEventPattern } from './event-pattern';
 
 // 类型声明
 declare const process: any;
 
+/**
+ * 请求-响应错误码
+ */
+export type EventRequestErrorCode = 'NO_RESPONDER' | 'TIMEOUT' | 'RESPONDER_ERROR' | 'INTERCEPTED';
+
+/**
+ * 请求-响应错误
+ */
+export class EventRequestError extends Error {
+  constructor(
+    public code: EventRequestErrorCode,
+    public requestType: string,
+    public requestId: string,
+    message: string,
+    public cause?: any
+  ) {
+    super(message);
+    this.name = 'EventRequestError';
+  }
+}
+
+/**
+ * 响应事件类型后缀
+ */
+export const RESPONSE_EVENT_SUFFIX = '_RESPONSE';
+
+/**
+ * 默认请求超时时间（毫秒）
+ */
+const DEFAULT_REQUEST_TIMEOUT = 5000;
+
+/**
+ * 默认处理器优先级（数字越小越先执行）
+ */
+export const DEFAULT_LISTENER_PRIORITY = 100;
+
+/**
+ * onAny 处理器在分发记录中的订阅标识
+ */
+const ANY_EVENT_KEY = '**';
+
+interface ListenerEntry {
+  handler: EventHandler;
+  priority: number;
+}
+
+interface DispatchTarget extends ListenerEntry {
+  subscribedTo: string;
+}
+
+/**
+ * 作用域事件总线的订阅统计（用于排查未取消的订阅）
+ */
+export interface ScopeStats {
+  listeners: number;
+  onceListeners: number;
+  anyListeners: number;
+  responders: number;
+
+  /**
+   * 事件类型 -> 仍然存活的监听器数量
+   */
+  eventTypes: Record<string, number>;
+}
+
+interface RetainedEvent {
+  event: BaseEvent;
+  key?: string;
+  retainedAt: number;
+}
+
+interface PendingRequest {
+  type: string;
+  resolve: (value: any) => void;
+  reject: (error: EventRequestError) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
 /**
  * 增强事件总线实现类
+ * 泛型参数 M 为事件映射表，默认使用 MicroFrontendEventMap
  */
-export class EventBus implements EventBusInterface {
-  private listeners: Map<string, Set<EventHandler>> = new Map();
-  private onceListeners: Map<string, Set<EventHandler>> = new Map();
-  private anyListeners: Set<EventHandler> = new Set(); // 监听所有事件的处理器
+export class EventBus<M extends EventMapOf<M> = MicroFrontendEventMap> implements TypedEventBus<M> {
+  private listeners: Map<string, Map<EventHandler, ListenerEntry>> = new Map();
+  private onceListeners: Map<string, Map<EventHandler, ListenerEntry>> = new Map();
+  private anyListeners: Map<EventHandler, ListenerEntry> = new Map(); // 监听所有事件的处理器
+  private responders: Map<string, RequestHandler> = new Map(); // 请求-响应模式的响应者
+  private pendingRequests: Map<string, PendingRequest> = new Map(); // 等待响应的请求（以事件ID关联）
+  private patternTrie: EventPatternTrie = new EventPatternTrie(); // 通配模式订阅
+  private patternMatches: Map<string, Set<string>> = new Map(); // 模式 -> 已匹配的事件类型
+  private retentionPolicies: Map<string, RetentionPolicy> = new Map(); // 事件保留策略
+  private retainedEvents: Map<string, RetainedEvent[]> = new Map(); // 已保留的事件（按事件类型）
+  private scopes: Map<string, ScopedEventBus<M>> = new Map(); // 按应用划分的作用域事件总线
   private maxListeners: number = 100;
   private debug: boolean = false;
   private middlewareManager: EventMiddlewareManager;
@@ -31,8 +139,14 @@ export class EventBus implements EventBusInterface {
 
   /**
    * 发射事件 - 增强版本，支持中间件处理
+   * 支持 emit(type, data, options) 的类型化写法与 emit(event) 的完整事件写法
    */
-  async emit<T extends BaseEvent>(event: T): Promise<void> {
+  async emit<K extends EventKey<M>>(type: K, data: EventDataOf<M, K>, options?: EmitOptions): Promise<void>;
+  async emit<T extends BaseEvent, K extends string = string>(event: CheckedEvent<M, T, K>): Promise<void>;
+  async emit(typeOrEvent: string | BaseEvent, data?: any, options?: EmitOptions): Promise<void> {
+    const event = typeof typeOrEvent === 'string'
+      ? this.createEvent(typeOrEvent, data, options)
+      : typeOrEvent;
     const { type } = event;
     
     if (this.debug) {
@@ -54,45 +168,192 @@ export class EventBus implements EventBusInterface {
     }
   }
 
+  /**
+   * 发射事件并等待所有处理器（包括异步处理器）执行完成
+   * 处理器按优先级依次执行并逐个等待，返回执行失败的处理器列表
+   */
+  async emitAndWait<K extends EventKey<M>>(type: K, data: EventDataOf<M, K>, options?: EmitOptions): Promise<EmitResult<EventOf<M, K>>>;
+  async emitAndWait<T extends BaseEvent, K extends string = string>(event: CheckedEvent<M, T, K>): Promise<EmitResult<T>>;
+  async emitAndWait(typeOrEvent: string | BaseEvent, data?: any, options?: EmitOptions): Promise<EmitResult<any>> {
+    const event = typeof typeOrEvent === 'string'
+      ? this.createEvent(typeOrEvent, data, options)
+      : typeOrEvent;
+
+    if (this.debug) {
+      console.log(`[EventBus] Emitting event and waiting: ${event.type}`, event);
+    }
+
+    let processedEvent: BaseEvent;
+    try {
+      processedEvent = await this.middlewareManager.processEvent(event);
+    } catch (error) {
+      console.error(`[EventBus] Error processing event ${event.type}:`, error);
+      if (!this.shouldContinueOnError(error)) {
+        return { event, intercepted: true, handled: 0, stopped: false, failures: [] };
+      }
+      processedEvent = event;
+    }
+
+    return this.emitProcessedEventAndWait(processedEvent);
+  }
+
+  /**
+   * 根据事件类型和负载构造完整事件
+   */
+  private createEvent(type: string, data: any, options?: EmitOptions): BaseEvent {
+    return {
+      type,
+      source: options?.source || 'event-bus',
+      timestamp: new Date().toISOString(),
+      id: options?.id || generateEventId(),
+      data,
+      metadata: options?.metadata
+    };
+  }
+
   /**
    * 发射已处理的事件（原始逻辑）
+   * 处理器按优先级同步调用，异步处理器不等待，其拒绝会被记录
    */
   private emitProcessedEvent<T extends BaseEvent>(event: T): void {
     const { type } = event;
+    let stopped = false;
+
+    for (const target of this.prepareDispatch(event)) {
+      const context = this.createDispatchContext(target.priority, () => { stopped = true; });
 
-    // 触发监听所有事件的处理器
-    this.anyListeners.forEach(handler => {
       try {
-        handler(event);
+        const result: unknown = target.handler(event, context);
+        if (isPromiseLike(result)) {
+          result.then(undefined, error => {
+            console.error(`[EventBus] Error in async event handler (${target.subscribedTo}) for ${type}:`, error);
+          });
+        }
       } catch (error) {
-        console.error(`[EventBus] Error in any event handler for ${type}:`, error);
+        console.error(`[EventBus] Error in event handler (${target.subscribedTo}) for ${type}:`, error);
       }
-    });
 
-    // 触发普通监听器
-    const listeners = this.listeners.get(type);
-    if (listeners) {
-      listeners.forEach(handler => {
-        try {
-          handler(event);
-        } catch (error) {
-          console.error(`[EventBus] Error in event handler for ${type}:`, error);
+      if (stopped) {
+        if (this.debug) {
+          console.log(`[EventBus] Propagation stopped for event: ${type}`);
         }
-      });
+        break;
+      }
     }
+  }
+
+  /**
+   * 发射已处理的事件，并依次等待每个处理器完成
+   */
+  private async emitProcessedEventAndWait<T extends BaseEvent>(event: T): Promise<EmitResult<T>> {
+    const failures: ListenerFailure[] = [];
+    let handled = 0;
+    let stopped = false;
+
+    for (const target of this.prepareDispatch(event)) {
+      const context = this.createDispatchContext(target.priority, () => { stopped = true; });
+      handled++;
+
+      try {
+        await target.handler(event, context);
+      } catch (error) {
+        console.error(`[EventBus] Error in event handler (${target.subscribedTo}) for ${event.type}:`, error);
+        failures.push({
+          subscribedTo: target.subscribedTo,
+          priority: target.priority,
+          handler: target.handler,
+          error
+        });
+      }
+
+      if (stopped) {
+        break;
+      }
+    }
+
+    return { event, intercepted: false, handled, stopped, failures };
+  }
+
+  /**
+   * 分发前的处理：结算响应、应用保留策略，并按优先级收集处理器
+   */
+  private prepareDispatch(event: BaseEvent): DispatchTarget[] {
+    // 响应事件：结算对应的等待请求
+    if (event.metadata?.rpc === 'response') {
+      this.settleRequest(event);
+    }
+
+    // 按保留策略保留事件，并处理清除条件
+    this.applyRetention(event);
+
+    return this.collectDispatchTargets(event.type);
+  }
+
+  /**
+   * 收集事件的所有处理器并按优先级排序
+   * 同优先级保持原有的分发顺序：onAny、普通监听器、一次性监听器、通配模式监听器；
+   * 一次性监听器在收集时即被移除
+   */
+  private collectDispatchTargets(type: string): DispatchTarget[] {
+    const targets: DispatchTarget[] = [];
+    const collect = (entries: Map<EventHandler, ListenerEntry> | undefined, subscribedTo: string) => {
+      entries?.forEach(entry => targets.push({ ...entry, subscribedTo }));
+    };
+
+    collect(this.anyListeners, ANY_EVENT_KEY);
+    collect(this.listeners.get(type), type);
 
-    // 触发一次性监听器
     const onceListeners = this.onceListeners.get(type);
     if (onceListeners) {
-      onceListeners.forEach(handler => {
-        try {
-          handler(event);
-        } catch (error) {
-          console.error(`[EventBus] Error in once event handler for ${type}:`, error);
-        }
-      });
-      // 清除一次性监听器
       this.onceListeners.delete(type);
+      collect(onceListeners, type);
+    }
+
+    this.patternTrie.match(type).forEach(pattern => {
+      this.recordPatternMatch(pattern, type);
+      collect(this.listeners.get(pattern), pattern);
+
+      const patternOnceListeners = this.onceListeners.get(pattern);
+      if (patternOnceListeners) {
+        this.onceListeners.delete(pattern);
+        this.releasePattern(pattern);
+        collect(patternOnceListeners, pattern);
+      }
+    });
+
+    // Array.prototype.sort 是稳定排序，同优先级保持收集顺序
+    return targets.sort((a, b) => a.priority - b.priority);
+  }
+
+  /**
+   * 创建传给处理器的分发上下文
+   */
+  private createDispatchContext(priority: number, onStop: () => void = () => {}): EventDispatchContext {
+    return {
+      priority,
+      stopPropagation: onStop
+    };
+  }
+
+  /**
+   * 记录模式匹配到的事件类型
+   */
+  private recordPatternMatch(pattern: string, eventType: string): void {
+    let matched = this.patternMatches.get(pattern);
+    if (!matched) {
+      matched = new Set();
+      this.patternMatches.set(pattern, matched);
+    }
+    matched.add(eventType);
+  }
+
+  /**
+   * 模式不再有监听器时从前缀树中移除
+   */
+  private releasePattern(pattern: string): void {
+    if (isEventPattern(pattern) && !this.listeners.has(pattern) && !this.onceListeners.has(pattern)) {
+      this.patternTrie.remove(pattern);
+      this.patternMatches.delete(pattern);
     }
   }
 
@@ -111,9 +372,13 @@ export class EventBus implements EventBusInterface {
   /**
    * 监听事件
    */
-  on<T extends BaseEvent>(eventType: string, handler: EventHandler<T>): EventSubscription {
+  on<K extends string, T extends BaseEvent = BaseEvent>(
+    eventType: K,
+    handler: EventHandler<EventOf<M, K, T>>,
+    options?: SubscribeOptions
+  ): EventSubscription {
     if (!this.listeners.has(eventType)) {
-      this.listeners.set(eventType, new Set());
+      this.listeners.set(eventType, new Map());
     }
 
     const listeners = this.listeners.get(eventType)!;
@@ -123,12 +388,23 @@ export class EventBus implements EventBusInterface {
       console.warn(`[EventBus] Too many listeners for event ${eventType}. Maximum is ${this.maxListeners}`);
     }
 
-    listeners.add(handler as EventHandler);
+    listeners.set(handler as EventHandler, {
+      handler: handler as EventHandler,
+      priority: options?.priority ?? DEFAULT_LISTENER_PRIORITY
+    });
+
+    if (isEventPattern(eventType)) {
+      this.patternTrie.add(eventType);
+    }
 
     if (this.debug) {
       console.log(`[EventBus] Added listener for event: ${eventType}`);
     }
 
+    if (options?.replay) {
+      this.replayRetainedEvents(eventType, handler as EventHandler, false);
+    }
+
     return {
       unsubscribe: () => this.off(eventType, handler)
     };
@@ -137,7 +413,7 @@ export class EventBus implements EventBusInterface {
   /**
    * 移除事件监听器
    */
-  off<T extends BaseEvent>(eventType: string, handler: EventHandler<T>): void {
+  off<K extends string, T extends BaseEvent = BaseEvent>(eventType: K, handler: EventHandler<EventOf<M, K, T>>): void {
     const listeners = this.listeners.get(eventType);
     if (listeners) {
       listeners.delete(handler as EventHandler);
@@ -154,6 +430,8 @@ export class EventBus implements EventBusInterface {
       }
     }
 
+    this.releasePattern(eventType);
+
     if (this.debug) {
       console.log(`[EventBus] Removed listener for event: ${eventType}`);
     }
@@ -162,33 +440,194 @@ export class EventBus implements EventBusInterface {
   /**
    * 监听事件一次
    */
-  once<T extends BaseEvent>(eventType: string, handler: EventHandler<T>): EventSubscription {
+  once<K extends string, T extends BaseEvent = BaseEvent>(
+    eventType: K,
+    handler: EventHandler<EventOf<M, K, T>>,
+    options?: SubscribeOptions
+  ): EventSubscription {
     if (!this.onceListeners.has(eventType)) {
-      this.onceListeners.set(eventType, new Set());
+      this.onceListeners.set(eventType, new Map());
     }
 
     const onceListeners = this.onceListeners.get(eventType)!;
-    onceListeners.add(handler as EventHandler);
+    onceListeners.set(handler as EventHandler, {
+      handler: handler as EventHandler,
+      priority: options?.priority ?? DEFAULT_LISTENER_PRIORITY
+    });
+
+    if (isEventPattern(eventType)) {
+      this.patternTrie.add(eventType);
+    }
 
     if (this.debug) {
       console.log(`[EventBus] Added once listener for event: ${eventType}`);
     }
 
+    if (options?.replay) {
+      this.replayRetainedEvents(eventType, handler as EventHandler, true);
+    }
+
     return {
       unsubscribe: () => this.off(eventType, handler)
     };
   }
 
+  /**
+   * 设置事件保留策略
+   */
+  setRetentionPolicy<K extends string, T extends BaseEvent = BaseEvent>(
+    eventType: K,
+    policy: RetentionPolicy<EventOf<M, K, T>> = {}
+  ): void {
+    this.retentionPolicies.set(eventType, policy as RetentionPolicy);
+
+    if (this.debug) {
+      console.log(`[EventBus] Set retention policy for event: ${eventType}`, policy);
+    }
+  }
+
+  /**
+   * 移除事件保留策略，并清除已保留的事件
+   */
+  removeRetentionPolicy(eventType: string): boolean {
+    this.retainedEvents.delete(eventType);
+    return this.retentionPolicies.delete(eventType);
+  }
+
+  /**
+   * 获取已保留的事件（按发生顺序，已过期的事件会被剔除）
+   */
+  getRetainedEvents(eventType: string): BaseEvent[] {
+    const types = isEventPattern(eventType)
+      ? Array.from(this.retainedEvents.keys()).filter(createEventPatternMatcher([eventType]))
+      : [eventType];
+
+    const entries: RetainedEvent[] = [];
+    types.forEach(type => {
+      this.pruneExpired(type);
+      entries.push(...(this.retainedEvents.get(type) || []));
+    });
+
+    return entries
+      .sort((a, b) => a.retainedAt - b.retainedAt)
+      .map(entry => entry.event);
+  }
+
+  /**
+   * 清除已保留的事件，可按来源应用过滤
+   */
+  clearRetainedEvents(eventType?: string, source?: string): void {
+    const types = eventType ? [eventType] : Array.from(this.retainedEvents.keys());
+
+    types.forEach(type => {
+      if (!source) {
+        this.retainedEvents.delete(type);
+        return;
+      }
+
+      const remaining = (this.retainedEvents.get(type) || []).filter(entry => entry.event.source !== source);
+      if (remaining.length > 0) {
+        this.retainedEvents.set(type, remaining);
+      } else {
+        this.retainedEvents.delete(type);
+      }
+    });
+  }
+
+  /**
+   * 按保留策略保留事件，并处理 clearOn / clearOnUnmount
+   */
+  private applyRetention(event: BaseEvent): void {
+    this.retentionPolicies.forEach((policy, type) => {
+      if (policy.clearOn?.includes(event.type)) {
+        this.clearRetainedEvents(type);
+      }
+
+      if (policy.clearOnUnmount && event.type === EVENT_TYPES.APP_UNMOUNT && event.data?.appName) {
+        this.clearRetainedEvents(type, event.data.appName);
+      }
+    });
+
+    const policy = this.retentionPolicies.get(event.type);
+    if (!policy) {
+      return;
+    }
+
+    const key = policy.keyBy ? policy.keyBy(event) : undefined;
+    const entries = (this.retainedEvents.get(event.type) || [])
+      .filter(entry => key === undefined || entry.key !== key);
+
+    entries.push({ event, key, retainedAt: Date.now() });
+
+    const maxEvents = policy.maxEvents ?? (policy.keyBy ? Infinity : 1);
+    this.retainedEvents.set(event.type, entries.slice(-maxEvents));
+  }
+
+  /**
+   * 剔除过期的保留事件
+   */
+  private pruneExpired(eventType: string): void {
+    const ttl = this.retentionPolicies.get(eventType)?.ttl;
+    const entries = this.retainedEvents.get(eventType);
+    if (!ttl || !entries) {
+      return;
+    }
+
+    const now = Date.now();
+    const alive = entries.filter(entry => now - entry.retainedAt <= ttl);
+    if (alive.length > 0) {
+      this.retainedEvents.set(eventType, alive);
+    } else {
+      this.retainedEvents.delete(eventType);
+    }
+  }
+
+  /**
+   * 向新订阅者补发已保留的事件
+   * 异步补发，保证订阅调用先返回；补发前再次确认监听器仍然有效
+   */
+  private replayRetainedEvents(eventType: string, handler: EventHandler, once: boolean): void {
+    const retained = this.getRetainedEvents(eventType);
+    if (retained.length === 0) {
+      return;
+    }
+
+    const events = once ? retained.slice(-1) : retained;
+    const registry = once ? this.onceListeners : this.listeners;
+
+    Promise.resolve().then(() => {
+      for (const event of events) {
+        const entry = registry.get(eventType)?.get(handler);
+        if (!entry) {
+          return;
+        }
+
+        if (once) {
+          this.off(eventType, handler);
+        }
+
+        try {
+          handler(event, this.createDispatchContext(entry.priority));
+        } catch (error) {
+          console.error(`[EventBus] Error replaying event ${event.type}:`, error);
+        }
+      }
+    });
+  }
+
   /**
    * 监听所有事件
    */
-  onAny<T extends BaseEvent>(handler: EventHandler<T>): EventSubscription {
+  onAny<T extends BaseEvent>(handler: EventHandler<T>, options?: Pick<SubscribeOptions, 'priority'>): EventSubscription {
     // 检查监听器数量限制
     if (this.anyListeners.size >= this.maxListeners) {
       console.warn(`[EventBus] Too many any listeners. Maximum is ${this.maxListeners}`);
     }
 
-    this.anyListeners.add(handler as EventHandler);
+    this.anyListeners.set(handler as EventHandler, {
+      handler: handler as EventHandler,
+      priority: options?.priority ?? DEFAULT_LISTENER_PRIORITY
+    });
 
     if (this.debug) {
       console.log('[EventBus] Added any event listener');
@@ -210,13 +649,177 @@ export class EventBus implements EventBusInterface {
     }
   }
 
+  /**
+   * 发送请求并等待响应者返回结果
+   * 请求与响应都会经过中间件管道，通过请求事件的 id 关联
+   */
+  async request<R = any, K extends string = string>(
+    type: K,
+    data: K extends keyof M ? EventDataOf<M, K> : any,
+    options?: RequestOptions
+  ): Promise<R> {
+    const event = this.createEvent(type, data, {
+      ...options,
+      metadata: { ...options?.metadata, rpc: 'request' }
+    });
+
+    if (!this.responders.has(type)) {
+      throw new EventRequestError('NO_RESPONDER', type, event.id, `No responder registered for request "${type}"`);
+    }
+
+    const timeout = options?.timeout ?? DEFAULT_REQUEST_TIMEOUT;
+
+    const result = new Promise<R>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pendingRequests.delete(event.id);
+        reject(new EventRequestError('TIMEOUT', type, event.id, `Request "${type}" timed out after ${timeout}ms`));
+      }, timeout);
+
+      this.pendingRequests.set(event.id, { type, resolve, reject, timer });
+    });
+
+    if (this.debug) {
+      console.log(`[EventBus] Sending request: ${type}`, event);
+    }
+
+    let processedEvent: BaseEvent;
+    try {
+      processedEvent = await this.middlewareManager.processEvent(event);
+    } catch (error) {
+      if (error instanceof MiddlewareInterceptor) {
+        this.rejectRequest(event.id, new EventRequestError('INTERCEPTED', type, event.id, error.message, error));
+        return result;
+      }
+      console.error(`[EventBus] Error processing request ${type}:`, error);
+      processedEvent = event;
+    }
+
+    this.emitProcessedEvent(processedEvent);
+    this.respond(processedEvent);
+
+    return result;
+  }
+
+  /**
+   * 注册请求响应者，每种请求类型只允许一个响应者
+   */
+  handle<K extends string, T extends BaseEvent = BaseEvent, R = any>(
+    type: K,
+    handler: RequestHandler<EventOf<M, K, T>, R>
+  ): EventSubscription {
+    if (this.responders.has(type)) {
+      console.warn(`[EventBus] Responder for request "${type}" already exists, replacing...`);
+    }
+
+    this.responders.set(type, handler as RequestHandler);
+
+    if (this.debug) {
+      console.log(`[EventBus] Added responder for request: ${type}`);
+    }
+
+    return {
+      unsubscribe: () => {
+        if (this.responders.get(type) === handler) {
+          this.responders.delete(type);
+        }
+      }
+    };
+  }
+
+  /**
+   * 调用响应者并将结果作为响应事件发出
+   */
+  private async respond(request: BaseEvent): Promise<void> {
+    const responder = this.responders.get(request.type);
+    if (!responder) {
+      this.rejectRequest(request.id, new EventRequestError(
+        'NO_RESPONDER', request.type, request.id, `No responder registered for request "${request.type}"`
+      ));
+      return;
+    }
+
+    const metadata: Record<string, any> = { rpc: 'response', correlationId: request.id };
+    let data: any;
+
+    try {
+      data = await responder(request);
+    } catch (error) {
+      const err = error as Error;
+      metadata.error = { name: err?.name, message: err?.message ?? String(error) };
+    }
+
+    const response: BaseEvent = {
+      type: `${request.type}${RESPONSE_EVENT_SUFFIX}`,
+      source: 'event-bus',
+      timestamp: new Date().toISOString(),
+      id: generateEventId(),
+      data,
+      metadata
+    };
+
+    try {
+      this.emitProcessedEvent(await this.middlewareManager.processEvent(response));
+    } catch (error) {
+      if (error instanceof MiddlewareInterceptor) {
+        this.rejectRequest(request.id, new EventRequestError('INTERCEPTED', request.type, request.id, error.message, error));
+        return;
+      }
+      console.error(`[EventBus] Error processing response ${response.type}:`, error);
+      this.emitProcessedEvent(response);
+    }
+  }
+
+  /**
+   * 根据响应事件结算等待中的请求
+   */
+  private settleRequest(response: BaseEvent): void {
+    const correlationId = response.metadata?.correlationId;
+    const pending = correlationId && this.pendingRequests.get(correlationId);
+    if (!pending) {
+      return;
+    }
+
+    this.pendingRequests.delete(correlationId);
+    clearTimeout(pending.timer);
+
+    const responderError = response.metadata?.error;
+    if (responderError) {
+      pending.reject(new EventRequestError(
+        'RESPONDER_ERROR',
+        pending.type,
+        correlationId,
+        `Responder for request "${pending.type}" failed: ${responderError.message}`,
+        responderError
+      ));
+    } else {
+      pending.resolve(response.data);
+    }
+  }
+
+  /**
+   * 以错误结束等待中的请求
+   */
+  private rejectRequest(requestId: string, error: EventRequestError): void {
+    const pending = this.pendingRequests.get(requestId);
+    if (pending) {
+      this.pendingRequests.delete(requestId);
+      clearTimeout(pending.timer);
+      pending.reject(error);
+    }
+  }
+
   /**
    * 清除所有监听器
    */
   clear(): void {
+    this.scopes.forEach(scope => scope.clear());
     this.listeners.clear();
     this.onceListeners.clear();
     this.anyListeners.clear();
+    this.responders.clear();
+    this.patternTrie.clear();
+    this.patternMatches.clear();
+    this.retainedEvents.clear();
     
     if (this.debug) {
       console.log('[EventBus] Cleared all listeners');
@@ -224,78 +827,154 @@ export class EventBus implements EventBusInterface {
   }
 
   /**
-   * 获取指定事件类型的监听器列表
+   * 获取指定事件类型的监听器列表（包含匹配该类型的通配模式监听器）
    */
   getListeners(eventType: string): EventHandler[] {
-    const listeners = this.listeners.get(eventType);
-    const onceListeners = this.onceListeners.get(eventType);
-    
     const allListeners: EventHandler[] = [];
-    
-    if (listeners) {
-      allListeners.push(...Array.from(listeners));
-    }
-    
-    if (onceListeners) {
-      allListeners.push(...Array.from(onceListeners));
-    }
+    const keys = isEventPattern(eventType)
+      ? [eventType]
+      : [eventType, ...this.patternTrie.match(eventType)];
+
+    keys.forEach(key => {
+      const listeners = this.listeners.get(key);
+      const onceListeners = this.onceListeners.get(key);
+
+      if (listeners) {
+        allListeners.push(...Array.from(listeners.keys()));
+      }
+
+      if (onceListeners) {
+        allListeners.push(...Array.from(onceListeners.keys()));
+      }
+    });
     
     return allListeners;
   }
 
   /**
-   * 获取所有事件类型
+   * 获取所有事件类型（包含已被通配模式匹配过的事件类型，不含模式本身）
    */
   getEventTypes(): string[] {
     const types = new Set<string>();
     
-    this.listeners.forEach((_, type) => types.add(type));
-    this.onceListeners.forEach((_, type) => types.add(type));
+    const addType = (_: Map<EventHandler, ListenerEntry>, type: string) => {
+      if (!isEventPattern(type)) {
+        types.add(type);
+      }
+    };
+
+    this.listeners.forEach(addType);
+    this.onceListeners.forEach(addType);
+    this.patternMatches.forEach(matched => matched.forEach(type => types.add(type)));
     
     return Array.from(types);
   }
 
+  /**
+   * 获取所有通配模式
+   */
+  getPatterns(): string[] {
+    return this.patternTrie.getPatterns();
+  }
+
+  /**
+   * 获取与事件类型匹配的通配模式
+   */
+  getMatchingPatterns(eventType: string): string[] {
+    return [...this.patternTrie.match(eventType)];
+  }
+
   /**
    * 获取监听器统计信息
    */
   getStats(): {
     totalEventTypes: number;
+    totalPatterns: number;
     totalListeners: number;
     anyListeners: number;
-    eventTypeStats: Record<string, { listeners: number; onceListeners: number }>;
+    responders: string[];
+    pendingRequests: number;
+    eventTypeStats: Record<string, { listeners: number; onceListeners: number; matchedPatterns: string[] }>;
+    patternStats: Record<string, { listeners: number; onceListeners: number; matchedEventTypes: string[] }>;
+    scopes: Record<string, ScopeStats>;
   } {
-    const eventTypeStats: Record<string, { listeners: number; onceListeners: number }> = {};
+    const eventTypeStats: Record<string, { listeners: number; onceListeners: number; matchedPatterns: string[] }> = {};
+    const patternStats: Record<string, { listeners: number; onceListeners: number; matchedEventTypes: string[] }> = {};
     let totalListeners = 0;
 
-    // 统计普通监听器
-    this.listeners.forEach((listeners, type) => {
+    const getEntry = (type: string) => {
+      if (isEventPattern(type)) {
+        if (!patternStats[type]) {
+          patternStats[type] = {
+            listeners: 0,
+            onceListeners: 0,
+            matchedEventTypes: Array.from(this.patternMatches.get(type) || [])
+          };
+        }
+        return patternStats[type];
+      }
+
       if (!eventTypeStats[type]) {
-        eventTypeStats[type] = { listeners: 0, onceListeners: 0 };
+        eventTypeStats[type] = { listeners: 0, onceListeners: 0, matchedPatterns: this.getMatchingPatterns(type) };
       }
-      eventTypeStats[type].listeners = listeners.size;
+      return eventTypeStats[type];
+    };
+
+    // 统计普通监听器
+    this.listeners.forEach((listeners, type) => {
+      getEntry(type).listeners = listeners.size;
       totalListeners += listeners.size;
     });
 
     // 统计一次性监听器
     this.onceListeners.forEach((listeners, type) => {
-      if (!eventTypeStats[type]) {
-        eventTypeStats[type] = { listeners: 0, onceListeners: 0 };
-      }
-      eventTypeStats[type].onceListeners = listeners.size;
+      getEntry(type).onceListeners = listeners.size;
       totalListeners += listeners.size;
     });
 
+    // 仅由通配模式接收过的事件类型
+    this.patternMatches.forEach(matched => matched.forEach(type => getEntry(type)));
+
     // 包含监听所有事件的处理器
     totalListeners += this.anyListeners.size;
 
     return {
       totalEventTypes: Object.keys(eventTypeStats).length,
+      totalPatterns: Object.keys(patternStats).length,
       totalListeners,
       anyListeners: this.anyListeners.size,
-      eventTypeStats
+      responders: Array.from(this.responders.keys()),
+      pendingRequests: this.pendingRequests.size,
+      eventTypeStats,
+      patternStats,
+      scopes: this.getScopeStats()
     };
   }
 
+  /**
+   * 获取应用的作用域事件总线
+   * 同一应用多次调用返回同一实例，应用重新挂载时可以继续使用
+   */
+  scope(appName: string): ScopedEventBus<M> {
+    let scoped = this.scopes.get(appName);
+    if (!scoped) {
+      scoped = new ScopedEventBus<M>(this, appName);
+      this.scopes.set(appName, scoped);
+    }
+    return scoped;
+  }
+
+  /**
+   * 获取各应用作用域中仍然存活的订阅
+   */
+  getScopeStats(): Record<string, ScopeStats> {
+    const stats: Record<string, ScopeStats> = {};
+    this.scopes.forEach((scoped, appName) => {
+      stats[appName] = scoped.getStats();
+    });
+    return stats;
+  }
+
   /**
    * 设置调试模式
    */
@@ -345,12 +1024,277 @@ export class EventBus implements EventBusInterface {
     return this.middlewareManager.getStats();
   }
 
+  /**
+   * 获取事件经过的中间件链路，未提供的事件字段使用默认值
+   */
+  getMiddlewareChain(event: Partial<BaseEvent> & { type: string }): MiddlewareChainEntry[] {
+    return this.middlewareManager.getEffectiveChain({
+      source: 'unknown',
+      timestamp: new Date().toISOString(),
+      id: '',
+      ...event
+    });
+  }
+
   /**
    * 清除所有中间件
    */
   clearMiddleware(): void {
     this.middlewareManager.clear();
   }
+
+  /**
+   * 扩展事件映射表 - 子应用登记自己的领域事件后获得类型化视图
+   * 返回的是同一个事件总线实例，不会创建新的监听器集合
+   */
+  withEvents<E extends EventMapOf<E>>(): EventBus<M & E> {
+    return this as unknown as EventBus<M & E>;
+  }
+}
+
+/**
+ * 作用域订阅记录
+ */
+interface ScopedSubscription {
+  kind: 'on' | 'once' | 'any' | 'handle';
+  eventType: string;
+  handler: Function;
+  subscription: EventSubscription;
+}
+
+/**
+ * 应用作用域事件总线
+ * 事件发往父总线并自动带上应用名作为 source；记录该应用的所有订阅，
+ * 应用卸载时通过 clear() 一次性取消，避免遗留的监听器继续触发
+ */
+export class ScopedEventBus<M extends EventMapOf<M> = MicroFrontendEventMap> implements TypedEventBus<M> {
+  private parent: EventBus<any>;
+  private subscriptions: Set<ScopedSubscription> = new Set();
+
+  constructor(parent: EventBus<M>, public readonly appName: string) {
+    this.parent = parent;
+  }
+
+  /**
+   * 发射事件，未指定 source 时使用应用名
+   */
+  async emit<K extends EventKey<M>>(type: K, data: EventDataOf<M, K>, options?: EmitOptions): Promise<void>;
+  async emit<T extends BaseEvent, K extends string = string>(event: CheckedEvent<M, T, K>): Promise<void>;
+  async emit(typeOrEvent: string | BaseEvent, data?: any, options?: EmitOptions): Promise<void> {
+    if (typeof typeOrEvent === 'string') {
+      return this.parent.emit(typeOrEvent, data, this.withSource(options));
+    }
+    return this.parent.emit(this.stampEvent(typeOrEvent));
+  }
+
+  /**
+   * 发射事件并等待所有处理器完成，未指定 source 时使用应用名
+   */
+  async emitAndWait<K extends EventKey<M>>(type: K, data: EventDataOf<M, K>, options?: EmitOptions): Promise<EmitResult<EventOf<M, K>>>;
+  async emitAndWait<T extends BaseEvent, K extends string = string>(event: CheckedEvent<M, T, K>): Promise<EmitResult<T>>;
+  async emitAndWait(typeOrEvent: string | BaseEvent, data?: any, options?: EmitOptions): Promise<EmitResult<any>> {
+    if (typeof typeOrEvent === 'string') {
+      return this.parent.emitAndWait(typeOrEvent, data, this.withSource(options));
+    }
+    return this.parent.emitAndWait(this.stampEvent(typeOrEvent));
+  }
+
+  /**
+   * 监听事件
+   */
+  on<K extends string, T extends BaseEvent = BaseEvent>(
+    eventType: K,
+    handler: EventHandler<EventOf<M, K, T>>,
+    options?: SubscribeOptions
+  ): EventSubscription {
+    // 包装处理器，使同一函数在父总线和作用域中的订阅互不影响
+    const wrapped: EventHandler = (event, context) => (handler as EventHandler)(event, context);
+    return this.track('on', eventType, handler, this.parent.on(eventType, wrapped, options));
+  }
+
+  /**
+   * 监听事件一次，触发后自动从作用域记录中移除
+   */
+  once<K extends string, T extends BaseEvent = BaseEvent>(
+    eventType: K,
+    handler: EventHandler<EventOf<M, K, T>>,
+    options?: SubscribeOptions
+  ): EventSubscription {
+    let record: ScopedSubscription | undefined;
+    const wrapped: EventHandler = (event, context) => {
+      if (record) {
+        this.subscriptions.delete(record);
+      }
+      return (handler as EventHandler)(event, context);
+    };
+
+    const subscription = this.track('once', eventType, handler, this.parent.once(eventType, wrapped, options));
+    record = this.findRecord('once', eventType, handler);
+    return subscription;
+  }
+
+  /**
+   * 监听所有事件
+   */
+  onAny<T extends BaseEvent>(handler: EventHandler<T>, options?: Pick<SubscribeOptions, 'priority'>): EventSubscription {
+    const wrapped: EventHandler = (event, context) => (handler as EventHandler)(event, context);
+    return this.track('any', '*', handler, this.parent.onAny(wrapped, options));
+  }
+
+  /**
+   * 移除事件监听器
+   */
+  off<K extends string, T extends BaseEvent = BaseEvent>(eventType: K, handler: EventHandler<EventOf<M, K, T>>): void {
+    this.subscriptions.forEach(record => {
+      if ((record.kind === 'on' || record.kind === 'once') && record.eventType === eventType && record.handler === handler) {
+        this.untrack(record);
+      }
+    });
+  }
+
+  /**
+   * 移除监听所有事件的处理器
+   */
+  offAny<T extends BaseEvent>(handler: EventHandler<T>): void {
+    this.subscriptions.forEach(record => {
+      if (record.kind === 'any' && record.handler === handler) {
+        this.untrack(record);
+      }
+    });
+  }
+
+  /**
+   * 发送请求，未指定 source 时使用应用名
+   */
+  request<R = any, K extends string = string>(
+    type: K,
+    data: K extends keyof M ? EventDataOf<M, K> : any,
+    options?: RequestOptions
+  ): Promise<R> {
+    return this.parent.request<R>(type, data, this.withSource(options));
+  }
+
+  /**
+   * 注册请求响应者
+   */
+  handle<K extends string, T extends BaseEvent = BaseEvent, R = any>(
+    type: K,
+    handler: RequestHandler<EventOf<M, K, T>, R>
+  ): EventSubscription {
+    return this.track('handle', type, handler, this.parent.handle(type, handler as RequestHandler));
+  }
+
+  /**
+   * 取消作用域内的所有订阅，不影响其他应用的订阅
+   */
+  clear(): void {
+    this.subscriptions.forEach(record => record.subscription.unsubscribe());
+    this.subscriptions.clear();
+  }
+
+  /**
+   * 获取作用域内指定事件类型的监听器
+   */
+  getListeners(eventType: string): EventHandler[] {
+    const handlers: EventHandler[] = [];
+    this.subscriptions.forEach(record => {
+      if ((record.kind === 'on' || record.kind === 'once') && record.eventType === eventType) {
+        handlers.push(record.handler as EventHandler);
+      }
+    });
+    return handlers;
+  }
+
+  /**
+   * 获取作用域内仍然存活的订阅统计
+   */
+  getStats(): ScopeStats {
+    const stats: ScopeStats = { listeners: 0, onceListeners: 0, anyListeners: 0, responders: 0, eventTypes: {} };
+
+    this.subscriptions.forEach(record => {
+      switch (record.kind) {
+        case 'on':
+          stats.listeners++;
+          break;
+        case 'once':
+          stats.onceListeners++;
+          break;
+        case 'any':
+          stats.anyListeners++;
+          break;
+        case 'handle':
+          stats.responders++;
+          break;
+      }
+      stats.eventTypes[record.eventType] = (stats.eventTypes[record.eventType] || 0) + 1;
+    });
+
+    return stats;
+  }
+
+  /**
+   * 作用域内存活的订阅数量
+   */
+  get size(): number {
+    return this.subscriptions.size;
+  }
+
+  private track(
+    kind: ScopedSubscription['kind'],
+    eventType: string,
+    handler: Function,
+    subscription: EventSubscription
+  ): EventSubscription {
+    // 重复订阅同一处理器时替换旧记录
+    const existing = this.findRecord(kind, eventType, handler);
+    if (existing) {
+      this.untrack(existing);
+    }
+
+    const record: ScopedSubscription = { kind, eventType, handler, subscription };
+    this.subscriptions.add(record);
+
+    return {
+      unsubscribe: () => this.untrack(record)
+    };
+  }
+
+  private untrack(record: ScopedSubscription): void {
+    if (this.subscriptions.delete(record)) {
+      record.subscription.unsubscribe();
+    }
+  }
+
+  private findRecord(kind: ScopedSubscription['kind'], eventType: string, handler: Function): ScopedSubscription | undefined {
+    for (const record of this.subscriptions) {
+      if (record.kind === kind && record.eventType === eventType && record.handler === handler) {
+        return record;
+      }
+    }
+    return undefined;
+  }
+
+  private withSource<O extends EmitOptions>(options?: O): O {
+    return { ...options, source: options?.source ?? this.appName } as O;
+  }
+
+  private stampEvent<T extends BaseEvent>(event: T): T {
+    return event.source ? event : { ...event, source: this.appName };
+  }
+}
+
+/**
+ * 生成事件ID
+ */
+function generateEventId(): string {
+  return `event_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
+
+/**
+ * 判断处理器返回值是否为 Promise
+ */
+function isPromiseLike(value: unknown): value is PromiseLike<unknown> {
+  return !!value && typeof (value as PromiseLike<unknown>).then === 'function';
 }
 
 /**
@@ -361,8 +1305,10 @@ export const globalEventBus = new EventBus({ debug: process.env.NODE_ENV === 'de
 /**
  * 事件总线工厂函数
  */
-export function createEventBus(options?: { maxListeners?: number; debug?: boolean }): EventBus {
-  return new EventBus(options);
+export function createEventBus<M extends EventMapOf<M> = MicroFrontendEventMap>(
+  options?: { maxListeners?: number; debug?: boolean }
+): EventBus<M> {
+  return new EventBus<M>(options);
 }
 
 /**
@@ -390,22 +1336,23 @@ export function EventListener(eventType: string) {
 /**
  * 自动事件管理 Mixin
  */
-export class EventMixin {
+export class EventMixin<M extends EventMapOf<M> = MicroFrontendEventMap> {
   private _subscriptions: EventSubscription[] = [];
-  private _eventBus: EventBus;
+  private _eventBus: EventBus<M>;
 
-  constructor(eventBus: EventBus = globalEventBus) {
+  constructor(eventBus: EventBus<M> = globalEventBus as unknown as EventBus<M>) {
     this._eventBus = eventBus;
   }
 
   /**
    * 监听事件并自动管理订阅
    */
-  protected listen<T extends BaseEvent>(
-    eventType: string, 
-    handler: EventHandler<T>
+  protected listen<K extends string, T extends BaseEvent = BaseEvent>(
+    eventType: K, 
+    handler: EventHandler<EventOf<M, K, T>>,
+    options?: SubscribeOptions
   ): EventSubscription {
-    const subscription = this._eventBus.on(eventType, handler);
+    const subscription = this._eventBus.on(eventType, handler, options);
     this._subscriptions.push(subscription);
     return subscription;
   }
@@ -413,11 +1360,12 @@ export class EventMixin {
   /**
    * 监听事件一次并自动管理订阅
    */
-  protected listenOnce<T extends BaseEvent>(
-    eventType: string, 
-    handler: EventHandler<T>
+  protected listenOnce<K extends string, T extends BaseEvent = BaseEvent>(
+    eventType: K, 
+    handler: EventHandler<EventOf<M, K, T>>,
+    options?: SubscribeOptions
   ): EventSubscription {
-    const subscription = this._eventBus.once(eventType, handler);
+    const subscription = this._eventBus.once(eventType, handler, options);
     this._subscriptions.push(subscription);
     return subscription;
   }
@@ -425,9 +1373,16 @@ export class EventMixin {
   /**
    * 发射事件
    */
-  protected async emit<T extends BaseEvent>(event: T): Promise<void> {
-    await this._eventBus.emit(event);
-  }
+  protected emit: EventBus<M>['emit'] = async (typeOrEvent: any, data?: any, options?: EmitOptions) => {
+    await this._eventBus.emit(typeOrEvent, data, options);
+  };
+
+  /**
+   * 发射事件并等待所有处理器完成
+   */
+  protected emitAndWait: EventBus<M>['emitAndWait'] = (typeOrEvent: any, data?: any, options?: EmitOptions) => {
+    return this._eventBus.emitAndWait(typeOrEvent, data, options);
+  };
 
   /**
    * 清理所有订阅
@@ -448,21 +1403,35 @@ export class EventMixin {
 /**
  * React Hook - 用于在React组件中使用事件总线
  */
-export function useEventBus(eventBus: EventBus = globalEventBus) {
+export function useEventBus<M extends EventMapOf<M> = MicroFrontendEventMap>(
+  eventBus: EventBus<M> = globalEventBus as unknown as EventBus<M>
+) {
   const subscriptions = new Set<EventSubscription>();
 
-  const emit = async <T extends BaseEvent>(event: T) => {
-    await eventBus.emit(event);
+  const emit: EventBus<M>['emit'] = async (typeOrEvent: any, data?: any, options?: EmitOptions) => {
+    await eventBus.emit(typeOrEvent, data, options);
+  };
+
+  const emitAndWait: EventBus<M>['emitAndWait'] = (typeOrEvent: any, data?: any, options?: EmitOptions) => {
+    return eventBus.emitAndWait(typeOrEvent, data, options);
   };
 
-  const on = <T extends BaseEvent>(eventType: string, handler: EventHandler<T>) => {
-    const subscription = eventBus.on(eventType, handler);
+  const on = <K extends string, T extends BaseEvent = BaseEvent>(
+    eventType: K,
+    handler: EventHandler<EventOf<M, K, T>>,
+    options?: SubscribeOptions
+  ) => {
+    const subscription = eventBus.on(eventType, handler, options);
     subscriptions.add(subscription);
     return subscription;
   };
 
-  const once = <T extends BaseEvent>(eventType: string, handler: EventHandler<T>) => {
-    const subscription = eventBus.once(eventType, handler);
+  const once = <K extends string, T extends BaseEvent = BaseEvent>(
+    eventType: K,
+    handler: EventHandler<EventOf<M, K, T>>,
+    options?: SubscribeOptions
+  ) => {
+    const subscription = eventBus.once(eventType, handler, options);
     subscriptions.add(subscription);
     return subscription;
   };
@@ -474,6 +1443,7 @@ export function useEventBus(eventBus: EventBus = globalEventBus) {
 
   return {
     emit,
+    emitAndWait,
     on,
     once,
     cleanup
@@ -483,21 +1453,35 @@ export function useEventBus(eventBus: EventBus = globalEventBus) {
 /**
  * Vue 3 Composition API Hook
  */
-export function useEventBusVue(eventBus: EventBus = globalEventBus) {
+export function useEventBusVue<M extends EventMapOf<M> = MicroFrontendEventMap>(
+  eventBus: EventBus<M> = globalEventBus as unknown as EventBus<M>
+) {
   const subscriptions: EventSubscription[] = [];
 
-  const emit = async <T extends BaseEvent>(event: T) => {
-    await eventBus.emit(event);
+  const emit: EventBus<M>['emit'] = async (typeOrEvent: any, data?: any, options?: EmitOptions) => {
+    await eventBus.emit(typeOrEvent, data, options);
   };
 
-  const on = <T extends BaseEvent>(eventType: string, handler: EventHandler<T>) => {
-    const subscription = eventBus.on(eventType, handler);
+  const emitAndWait: EventBus<M>['emitAndWait'] = (typeOrEvent: any, data?: any, options?: EmitOptions) => {
+    return eventBus.emitAndWait(typeOrEvent, data, options);
+  };
+
+  const on = <K extends string, T extends BaseEvent = BaseEvent>(
+    eventType: K,
+    handler: EventHandler<EventOf<M, K, T>>,
+    options?: SubscribeOptions
+  ) => {
+    const subscription = eventBus.on(eventType, handler, options);
     subscriptions.push(subscription);
     return subscription;
   };
 
-  const once = <T extends BaseEvent>(eventType: string, handler: EventHandler<T>) => {
-    const subscription = eventBus.once(eventType, handler);
+  const once = <K extends string, T extends BaseEvent = BaseEvent>(
+    eventType: K,
+    handler: EventHandler<EventOf<M, K, T>>,
+    options?: SubscribeOptions
+  ) => {
+    const subscription = eventBus.once(eventType, handler, options);
     subscriptions.push(subscription);
     return subscription;
   };
@@ -511,7 +1495,8 @@ export function useEventBusVue(eventBus: EventBus = globalEventBus) {
 
   return {
     emit,
+    emitAndWait,
     on,
     once
   };
-}
\ No newline at end of file
+}
@@ -0,0 +1,79 @@
+// @vitest-environment node
+import { describe, expect, it } from 'vitest';
+import { EventPatternTrie, createEventPatternMatcher, matchEventPattern } from './event-pattern';
+
+// ==================== 单个模式 ====================
+
+describe('matchEventPattern', () => {
+  it.each([
+    ['ORDER:*', 'ORDER:CREATED', true],
+    ['ORDER:*', 'ORDER:ITEM:ADDED', false],
+    ['ORDER:**', 'ORDER', true],
+    ['ORDER:**', 'ORDER:ITEM:ADDED', true],
+    ['**:ADDED', 'ORDER:ITEM:ADDED', true],
+    ['ORDER_*', 'ORDER_STATUS_CHANGE', true],
+    ['ORDER_*', 'PRODUCT_UPDATE', false],
+    ['order.*', 'order:created', true],
+    ['USER_LOGIN', 'USER_LOGIN', true],
+    ['USER_LOGIN', 'USER_LOGOUT', false]
+  ])('%s 匹配 %s: %s', (pattern, eventType, expected) => {
+    expect(matchEventPattern(pattern, eventType)).toBe(expected);
+  });
+});
+
+// ==================== 前缀树 ====================
+
+describe('EventPatternTrie', () => {
+  it('返回所有匹配的模式，包括落在同一节点的不同写法', () => {
+    const trie = new EventPatternTrie();
+    ['a:*', 'a.*', 'a:**', 'b:*', 'a:x_*'].forEach(pattern => trie.add(pattern));
+
+    expect(trie.match('a:x_1').sort()).toEqual(['a.*', 'a:*', 'a:**', 'a:x_*']);
+    expect(trie.match('b:1')).toEqual(['b:*']);
+    expect(trie.match('c:1')).toEqual([]);
+  });
+
+  it('移除模式后不再匹配，缓存随之失效', () => {
+    const trie = new EventPatternTrie();
+    trie.add('a:*');
+    expect(trie.match('a:1')).toEqual(['a:*']);
+
+    expect(trie.remove('a:*')).toBe(true);
+    expect(trie.match('a:1')).toEqual([]);
+    expect(trie.remove('a:*')).toBe(false);
+    expect(trie.size).toBe(0);
+  });
+
+  it('匹配结果缓存有上限，淘汰最久未使用的事件类型', () => {
+    const trie = new EventPatternTrie({ cacheSize: 2 });
+    trie.add('a:*');
+
+    trie.match('a:1');
+    trie.match('a:2');
+    trie.match('a:1');
+    trie.match('a:3');
+    expect(trie.cachedTypes).toBe(2);
+
+    for (let i = 0; i < 1000; i++) {
+      trie.match(`a:dynamic-${i}`);
+    }
+    expect(trie.cachedTypes).toBe(2);
+    expect(trie.match('a:dynamic-999')).toEqual(['a:*']);
+  });
+});
+
+// ==================== 编译后的匹配函数 ====================
+
+describe('createEventPatternMatcher', () => {
+  it('同时支持字面量和通配模式', () => {
+    const matches = createEventPatternMatcher(['USER_LOGIN', 'ORDER:**']);
+
+    expect(matches('USER_LOGIN')).toBe(true);
+    expect(matches('ORDER:ITEM:ADDED')).toBe(true);
+    expect(matches('USER_LOGOUT')).toBe(false);
+  });
+
+  it('没有模式时不匹配任何事件', () => {
+    expect(createEventPatternMatcher([])('ANY')).toBe(false);
+  });
+});
@@ -0,0 +1,286 @@
+/**
+ * 事件通配模式 - 基于前缀树的模式订阅匹配
+ * 事件类型按 ':' 或 '.' 切分为命名空间段：
+ *  - '*'  匹配恰好一段
+ *  - '**' 匹配零段或多段
+ *  - 段内的 '*'（如 'ORDER_*'）匹配该段内任意字符
+ */
+
+// ==================== 工具函数 ====================
+
+/**
+ * 命名空间分隔符
+ */
+const SEGMENT_SEPARATOR = /[:.]/;
+
+/**
+ * 判断事件类型是否为通配模式
+ */
+export function isEventPattern(eventType: string): boolean {
+  return eventType.includes('*');
+}
+
+/**
+ * 将事件类型切分为命名空间段
+ */
+export function splitEventType(eventType: string): string[] {
+  return eventType.split(SEGMENT_SEPARATOR);
+}
+
+/**
+ * 将段内通配（如 'ORDER_*'）编译为正则
+ */
+function compileSegmentGlob(segment: string): RegExp {
+  const source = segment
+    .split('*')
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * 匹配结果缓存的默认条数
+ */
+export const DEFAULT_MATCH_CACHE_SIZE = 500;
+
+/**
+ * 判断单个模式是否匹配事件类型
+ * 每次调用都会编译模式，需要反复匹配时使用 createEventPatternMatcher
+ */
+export function matchEventPattern(pattern: string, eventType: string): boolean {
+  if (!isEventPattern(pattern)) {
+    return pattern === eventType;
+  }
+
+  const trie = new EventPatternTrie();
+  trie.add(pattern);
+  return trie.match(eventType).length > 0;
+}
+
+/**
+ * 将一组模式编译为匹配函数：字面量直接查表，通配模式共用一棵前缀树
+ * 适合模式固定、需要反复匹配的场景
+ */
+export function createEventPatternMatcher(patterns: string[]): (eventType: string) => boolean {
+  const literals = new Set(patterns.filter(pattern => !isEventPattern(pattern)));
+  const trie = new EventPatternTrie();
+  patterns.filter(isEventPattern).forEach(pattern => trie.add(pattern));
+
+  return eventType => literals.has(eventType) || (trie.size > 0 && trie.match(eventType).length > 0);
+}
+
+// ==================== 前缀树实现 ====================
+
+interface PatternTrieNode {
+  /**
+   * 字面量段以及 '*'、'**' 子节点
+   */
+  children: Map<string, PatternTrieNode>;
+
+  /**
+   * 段内通配子节点
+   */
+  globChildren: Map<string, { matcher: RegExp; node: PatternTrieNode }>;
+
+  /**
+   * 在此节点结束的模式；'a:*' 和 'a.*' 切分后的段相同，会落在同一节点
+   */
+  patterns: Set<string>;
+}
+
+function createNode(): PatternTrieNode {
+  return {
+    children: new Map(),
+    globChildren: new Map(),
+    patterns: new Set()
+  };
+}
+
+export interface EventPatternTrieOptions {
+  /**
+   * 匹配结果最多缓存的事件类型数，超出时淘汰最久未使用的，默认 500
+   */
+  cacheSize?: number;
+}
+
+/**
+ * 事件模式前缀树
+ * 匹配开销取决于事件类型的段数和沿途的通配分支，而不是已注册模式的总数；
+ * 匹配结果按事件类型缓存（LRU），模式变化时失效
+ */
+export class EventPatternTrie {
+  private root: PatternTrieNode = createNode();
+  private patterns: Set<string> = new Set();
+  private matchCache: Map<string, string[]> = new Map(); // 按最近使用排序，最早的在前
+  private cacheSize: number;
+
+  constructor(options: EventPatternTrieOptions = {}) {
+    this.cacheSize = options.cacheSize ?? DEFAULT_MATCH_CACHE_SIZE;
+  }
+
+  /**
+   * 添加模式
+   */
+  add(pattern: string): void {
+    if (this.patterns.has(pattern)) {
+      return;
+    }
+
+    let node = this.root;
+    for (const segment of splitEventType(pattern)) {
+      if (segment !== '*' && segment !== '**' && isEventPattern(segment)) {
+        let globChild = node.globChildren.get(segment);
+        if (!globChild) {
+          globChild = { matcher: compileSegmentGlob(segment), node: createNode() };
+          node.globChildren.set(segment, globChild);
+        }
+        node = globChild.node;
+        continue;
+      }
+
+      let child = node.children.get(segment);
+      if (!child) {
+        child = createNode();
+        node.children.set(segment, child);
+      }
+      node = child;
+    }
+
+    node.patterns.add(pattern);
+    this.patterns.add(pattern);
+    this.matchCache.clear();
+  }
+
+  /**
+   * 移除模式
+   */
+  remove(pattern: string): boolean {
+    if (!this.patterns.has(pattern)) {
+      return false;
+    }
+
+    this.removeFrom(this.root, splitEventType(pattern), 0, pattern);
+    this.patterns.delete(pattern);
+    this.matchCache.clear();
+    return true;
+  }
+
+  /**
+   * 递归移除，并清理空节点；返回节点是否可以被删除
+   */
+  private removeFrom(node: PatternTrieNode, segments: string[], index: number, pattern: string): boolean {
+    if (index === segments.length) {
+      node.patterns.delete(pattern);
+    } else {
+      const segment = segments[index];
+      const isGlob = segment !== '*' && segment !== '**' && isEventPattern(segment);
+      const child = isGlob ? node.globChildren.get(segment)?.node : node.children.get(segment);
+
+      if (child && this.removeFrom(child, segments, index + 1, pattern)) {
+        if (isGlob) {
+          node.globChildren.delete(segment);
+        } else {
+          node.children.delete(segment);
+        }
+      }
+    }
+
+    return node.patterns.size === 0 && node.children.size === 0 && node.globChildren.size === 0;
+  }
+
+  /**
+   * 查找与事件类型匹配的所有模式
+   */
+  match(eventType: string): string[] {
+    const cached = this.matchCache.get(eventType);
+    if (cached) {
+      this.matchCache.delete(eventType);
+      this.matchCache.set(eventType, cached);
+      return cached;
+    }
+
+    const matched = new Set<string>();
+    if (this.patterns.size > 0) {
+      this.collect(this.root, splitEventType(eventType), 0, matched);
+    }
+
+    const result = Array.from(matched);
+    if (this.cacheSize > 0) {
+      this.matchCache.set(eventType, result);
+      if (this.matchCache.size > this.cacheSize) {
+        this.matchCache.delete(this.matchCache.keys().next().value);
+      }
+    }
+    return result;
+  }
+
+  private collect(node: PatternTrieNode, segments: string[], index: number, matched: Set<string>): void {
+    // '**' 可以匹配零段或多段
+    const multi = node.children.get('**');
+    if (multi) {
+      for (let i = index; i <= segments.length; i++) {
+        this.collect(multi, segments, i, matched);
+      }
+    }
+
+    if (index === segments.length) {
+      node.patterns.forEach(pattern => matched.add(pattern));
+      return;
+    }
+
+    const segment = segments[index];
+
+    const literal = node.children.get(segment);
+    if (literal) {
+      this.collect(literal, segments, index + 1, matched);
+    }
+
+    const single = node.children.get('*');
+    if (single) {
+      this.collect(single, segments, index + 1, matched);
+    }
+
+    node.globChildren.forEach(({ matcher, node: child }) => {
+      if (matcher.test(segment)) {
+        this.collect(child, segments, index + 1, matched);
+      }
+    });
+  }
+
+  /**
+   * 是否包含模式
+   */
+  has(pattern: string): boolean {
+    return this.patterns.has(pattern);
+  }
+
+  /**
+   * 获取所有模式
+   */
+  getPatterns(): string[] {
+    return Array.from(this.patterns);
+  }
+
+  /**
+   * 已缓存匹配结果的事件类型数
+   */
+  get cachedTypes(): number {
+    return this.matchCache.size;
+  }
+
+  /**
+   * 模式数量
+   */
+  get size(): number {
+    return this.patterns.size;
+  }
+
+  /**
+   * 清除所有模式
+   */
+  clear(): void {
+    this.root = createNode();
+    this.patterns.clear();
+    this.matchCache.clear();
+  }
+}
@@ -0,0 +1,280 @@
+/**
+ * 事件负载结构校验 - 按 JSON Schema 校验事件的 data
+ * 内置结构与 shared/types/events.ts 中的事件接口对应，接口变化时需要同步更新
+ */
+
+import { EVENT_TYPES } from '../types/events';
+
+// ==================== JSON Schema 类型 ====================
+
+export type JsonSchemaType = 'string' | 'number' | 'integer' | 'boolean' | 'object' | 'array' | 'null';
+
+/**
+ * 支持的 JSON Schema（draft-07）子集
+ */
+export interface JsonSchema {
+  $id?: string;
+  $schema?: string;
+  $ref?: string;
+  title?: string;
+  description?: string;
+  definitions?: Record<string, JsonSchema>;
+
+  type?: JsonSchemaType | JsonSchemaType[];
+  enum?: any[];
+  const?: any;
+
+  // 对象
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: JsonSchema | boolean;
+
+  // 数组
+  items?: JsonSchema;
+  minItems?: number;
+  maxItems?: number;
+
+  // 字符串
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  format?: 'date-time' | 'email' | 'uri';
+
+  // 数字
+  minimum?: number;
+  maximum?: number;
+
+  // 组合
+  anyOf?: JsonSchema[];
+  oneOf?: JsonSchema[];
+}
+
+export interface SchemaValidationIssue {
+  /**
+   * 出错的位置，如 'data.user.id'、'data.actions[0].label'
+   */
+  path: string;
+
+  /**
+   * 未通过的关键字，如 'type'、'required'
+   */
+  keyword: string;
+
+  message: string;
+}
+
+// ==================== 校验 ====================
+
+const FORMAT_PATTERNS: Record<NonNullable<JsonSchema['format']>, RegExp> = {
+  'date-time': /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?(Z|[+-]\d{2}:\d{2})$/,
+  email: /^[^\s@]+@[^\s@]+\.[^\s@]+$/,
+  uri: /^[a-zA-Z][a-zA-Z\d+.-]*:/
+};
+
+/**
+ * 按结构校验值，返回所有问题；$ref 只支持 '#/definitions/<name>'
+ */
+export function validateJsonSchema(schema: JsonSchema, value: any, path: string = 'data', root: JsonSchema = schema): SchemaValidationIssue[] {
+  const issues: SchemaValidationIssue[] = [];
+  const issue = (keyword: string, message: string, at: string = path) => issues.push({ path: at, keyword, message });
+
+  if (schema.$ref) {
+    const target = resolveRef(root, schema.$ref);
+    if (!target) {
+      issue('$ref', `Unresolvable reference ${schema.$ref}`);
+      return issues;
+    }
+    return validateJsonSchema(target, value, path, root);
+  }
+
+  if (schema.type !== undefined) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    const actual = typeOf(value);
+    const matched = types.some(type => type === actual || (type === 'number' && actual === 'integer'));
+    if (!matched) {
+      issue('type', `Expected ${types.join(' | ')}, got ${actual}`);
+      return issues;
+    }
+  }
+
+  if (schema.const !== undefined && !isEqual(schema.const, value)) {
+    issue('const', `Expected ${JSON.stringify(schema.const)}`);
+  }
+
+  if (schema.enum && !schema.enum.some(item => isEqual(item, value))) {
+    issue('enum', `Expected one of ${schema.enum.map(item => JSON.stringify(item)).join(', ')}, got ${JSON.stringify(value)}`);
+  }
+
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      issue('minLength', `Expected at least ${schema.minLength} characters`);
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      issue('maxLength', `Expected at most ${schema.maxLength} characters`);
+    }
+    if (schema.pattern !== undefined && !new RegExp(schema.pattern).test(value)) {
+      issue('pattern', `Does not match pattern ${schema.pattern}`);
+    }
+    if (schema.format && FORMAT_PATTERNS[schema.format] && !FORMAT_PATTERNS[schema.format].test(value)) {
+      issue('format', `Expected ${schema.format} format`);
+    }
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      issue('minimum', `Expected >= ${schema.minimum}, got ${value}`);
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      issue('maximum', `Expected <= ${schema.maximum}, got ${value}`);
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      issue('minItems', `Expected at least ${schema.minItems} items`);
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      issue('maxItems', `Expected at most ${schema.maxItems} items`);
+    }
+    if (schema.items) {
+      value.forEach((item, index) => {
+        issues.push(...validateJsonSchema(schema.items!, item, `${path}[${index}]`, root));
+      });
+    }
+  } else if (value !== null && typeof value === 'object') {
+    const properties = schema.properties || {};
+
+    (schema.required || []).forEach(key => {
+      if (value[key] === undefined) {
+        issue('required', 'Required property is missing', `${path}.${key}`);
+      }
+    });
+
+    Object.keys(value).forEach(key => {
+      const childPath = `${path}.${key}`;
+      if (properties[key]) {
+        if (value[key] !== undefined) {
+          issues.push(...validateJsonSchema(properties[key], value[key], childPath, root));
+        }
+        return;
+      }
+
+      if (schema.additionalProperties === false) {
+        issue('additionalProperties', 'Unknown property', childPath);
+      } else if (typeof schema.additionalProperties === 'object') {
+        issues.push(...validateJsonSchema(schema.additionalProperties, value[key], childPath, root));
+      }
+    });
+  }
+
+  if (schema.anyOf && !schema.anyOf.some(option => validateJsonSchema(option, value, path, root).length === 0)) {
+    issue('anyOf', 'Does not match any of the allowed schemas');
+  }
+
+  if (schema.oneOf) {
+    const matches = schema.oneOf.filter(option => validateJsonSchema(option, value, path, root).length === 0).length;
+    if (matches !== 1) {
+      issue('oneOf', `Expected exactly one matching schema, matched ${matches}`);
+    }
+  }
+
+  return issues;
+}
+
+function resolveRef(root: JsonSchema, ref: string): JsonSchema | undefined {
+  const match = /^#\/definitions\/(.+)$/.exec(ref);
+  return match ? root.definitions?.[match[1]] : undefined;
+}
+
+function typeOf(value: any): JsonSchemaType | 'undefined' | 'function' {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number';
+  if (typeof value === 'bigint') return 'integer';
+  if (typeof value === 'symbol') return 'string';
+  return typeof value as JsonSchemaType | 'undefined' | 'function';
+}
+
+function isEqual(a: any, b: any): boolean {
+  return a === b || JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * 格式化问题列表
+ */
+export function formatSchemaIssues(issues: SchemaValidationIssue[]): string[] {
+  return issues.map(issue => `${issue.path}: ${issue.message}`);
+}
+
+// ==================== 内置事件结构 ====================
+
+const str: JsonSchema = { type: 'string' };
+const strArray: JsonSchema = { type: 'array', items: str };
+const anyObject: JsonSchema = { type: 'object' };
+const crudAction: JsonSchema = { type: 'string', enum: ['create', 'update', 'delete'] };
+
+const objectOf = (properties: Record<string, JsonSchema>, required: string[]): JsonSchema => ({
+  type: 'object',
+  properties,
+  required
+});
+
+/**
+ * shared/types/events.ts 中各事件 data 的结构
+ * 未列出的字段允许存在，便于各应用在不破坏校验的情况下附加信息
+ */
+export const eventPayloadSchemas: Record<string, JsonSchema> = {
+  [EVENT_TYPES.USER_LOGIN]: objectOf({ user: anyObject, token: str, permissions: strArray }, ['user', 'token', 'permissions']),
+  [EVENT_TYPES.USER_LOGOUT]: objectOf({ userId: str, reason: str }, ['userId']),
+  [EVENT_TYPES.USER_UPDATE]: objectOf({ user: anyObject, changedFields: strArray }, ['user', 'changedFields']),
+  [EVENT_TYPES.USER_PERMISSION_CHANGE]: objectOf({ userId: str, permissions: strArray, roles: strArray }, ['userId', 'permissions', 'roles']),
+
+  [EVENT_TYPES.THEME_CHANGE]: objectOf({
+    theme: { type: 'string', enum: ['light', 'dark'] },
+    colors: { type: 'object', additionalProperties: str }
+  }, ['theme']),
+  [EVENT_TYPES.LANGUAGE_CHANGE]: objectOf({ language: str, locale: str }, ['language', 'locale']),
+
+  [EVENT_TYPES.ROUTE_CHANGE]: objectOf({ from: str, to: str, params: anyObject, query: anyObject }, ['from', 'to']),
+  [EVENT_TYPES.NAVIGATION]: objectOf({ path: str, replace: { type: 'boolean' } }, ['path']),
+
+  [EVENT_TYPES.APP_MOUNT]: objectOf({ appName: str, props: anyObject }, ['appName', 'props']),
+  [EVENT_TYPES.APP_UNMOUNT]: objectOf({ appName: str }, ['appName']),
+  [EVENT_TYPES.APP_ERROR]: objectOf({ appName: str, error: anyObject }, ['appName', 'error']),
+
+  [EVENT_TYPES.DATA_UPDATE]: objectOf({ entity: str, action: crudAction, id: str }, ['entity', 'action', 'data']),
+  [EVENT_TYPES.CACHE_INVALIDATE]: objectOf({ keys: strArray, pattern: str }, ['keys']),
+
+  [EVENT_TYPES.NOTIFICATION]: objectOf({
+    title: str,
+    message: str,
+    type: { type: 'string', enum: ['success', 'error', 'warning', 'info'] },
+    duration: { type: 'number', minimum: 0 },
+    actions: { type: 'array', items: objectOf({ label: str }, ['label', 'action']) }
+  }, ['title', 'message', 'type']),
+  [EVENT_TYPES.MESSAGE_RECEIVE]: objectOf({ sender: str, channel: str }, ['message', 'sender']),
+
+  [EVENT_TYPES.SYSTEM_STATUS]: objectOf({
+    status: { type: 'string', enum: ['online', 'offline', 'maintenance', 'error'] },
+    message: str
+  }, ['status']),
+  [EVENT_TYPES.CONFIG_UPDATE]: objectOf({ config: anyObject, changedKeys: strArray }, ['config', 'changedKeys']),
+
+  [EVENT_TYPES.ORDER_STATUS_CHANGE]: objectOf({ orderId: str, oldStatus: str, newStatus: str, reason: str }, ['orderId', 'oldStatus', 'newStatus']),
+  [EVENT_TYPES.PRODUCT_UPDATE]: objectOf({ productId: str, changes: anyObject, action: crudAction }, ['productId', 'changes', 'action']),
+  [EVENT_TYPES.INVENTORY_CHANGE]: objectOf({
+    productId: str,
+    oldQuantity: { type: 'number' },
+    newQuantity: { type: 'number' },
+    reason: str
+  }, ['productId', 'oldQuantity', 'newQuantity', 'reason']),
+
+  [EVENT_TYPES.FILE_UPLOAD]: objectOf({
+    fileId: str,
+    fileName: str,
+    status: { type: 'string', enum: ['uploading', 'success', 'error'] },
+    progress: { type: 'number', minimum: 0, maximum: 100 },
+    error: str
+  }, ['fileId', 'fileName', 'status']),
+  [EVENT_TYPES.FILE_DELETE]: objectOf({ fileId: str, fileName: str, path: str }, ['fileId', 'fileName', 'path'])
+};
@@ -0,0 +1,253 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { GlobalStateManager, PendingAction, actions } from './global-state';
+import { globalErrorManager } from './error/error-manager';
+import { MemoryPersistence } from './middleware/persistence-middleware';
+
+// ==================== 辅助函数 ====================
+
+function createManager(storage?: MemoryPersistence): GlobalStateManager {
+  return new GlobalStateManager(undefined, {
+    debug: false,
+    historyOptions: { storage, persistDelay: 0 }
+  });
+}
+
+// ==================== 状态历史 ====================
+
+describe('状态历史', () => {
+  it('撤销、重做恢复对应的状态', async () => {
+    const manager = createManager();
+    await manager.dispatch(actions.setTheme('dark'));
+    await manager.dispatch(actions.setActiveMicroApp('orders'));
+
+    expect(manager.undo()).toBe(true);
+    expect(manager.getState().app.activeMicroApp).not.toBe('orders');
+    expect(manager.getState().theme.current).toBe('dark');
+
+    expect(manager.undo()).toBe(true);
+    expect(manager.getState().theme.current).toBe('light');
+    expect(manager.canUndo()).toBe(false);
+
+    expect(manager.redo()).toBe(true);
+    expect(manager.getState().theme.current).toBe('dark');
+    expect(manager.canRedo()).toBe(true);
+  });
+
+  it('撤销后读取较新的快照，再写入时截断重做历史', async () => {
+    const manager = createManager();
+    await manager.dispatch(actions.setTheme('dark'));
+    await manager.dispatch(actions.setActiveMicroApp('orders'));
+    const latest = manager.getCurrentSnapshot()!;
+
+    manager.undo();
+    manager.undo();
+    expect(manager.getSnapshotState(latest.id)!.app.activeMicroApp).toBe('orders');
+
+    await manager.dispatch(actions.setActiveMicroApp('products'));
+    await manager.dispatch(actions.setTheme('dark'));
+
+    expect(manager.getSnapshots()).toHaveLength(3);
+    expect(manager.getState().app.activeMicroApp).toBe('products');
+    expect(manager.undo()).toBe(true);
+    expect(manager.getState().theme.current).toBe('light');
+    expect(manager.getState().app.activeMicroApp).toBe('products');
+  });
+
+  it('状态中有循环引用和函数时仍可统计、导出和持久化', async () => {
+    const storage = new MemoryPersistence();
+    const manager = createManager(storage);
+    const bus: any = { emit: () => undefined };
+    bus.self = bus;
+
+    await manager.dispatch(actions.setMicroApps([{ name: 'orders', status: 'mounted', props: { bus } }]));
+
+    expect(manager.canUndo()).toBe(true);
+    expect(manager.getHistoryStats().memoryUsage).toBeGreaterThan(0);
+
+    const exported = manager.exportHistory();
+    expect(() => JSON.stringify(exported)).not.toThrow();
+    const added = exported.snapshots[1].patch.find(operation => operation.path === '/app/microApps');
+    expect(added!.value).toEqual([{ name: 'orders', status: 'mounted', props: { bus: { self: '[Circular]' } } }]);
+
+    manager.clearHistory();
+    const persisted = await storage.getItem('qiankun-state-history');
+    expect(JSON.parse(persisted!).snapshots).toHaveLength(1);
+  });
+
+  it('导出的历史可以导入到新的管理器', async () => {
+    const manager = createManager();
+    await manager.dispatch(actions.setTheme('dark'));
+
+    const target = createManager();
+    expect(target.importHistory(JSON.stringify(manager.exportHistory()))).toBe(true);
+    expect(target.getState().theme.current).toBe('dark');
+    expect(target.undo()).toBe(true);
+    expect(target.getState().theme.current).toBe('light');
+  });
+});
+
+// ==================== 分支写入权限 ====================
+
+describe('分支写入权限', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('声明过的分支只允许所属应用写入，未声明的分支不限制', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const rejected = vi.spyOn(globalErrorManager, 'handleStateWriteRejection').mockImplementation(() => undefined);
+    const manager = createManager();
+    manager.setSliceOwners({ theme: ['main-app', 'react-settings'] });
+
+    expect(manager.getSliceOwners()).toEqual({ theme: ['main-app', 'react-settings'] });
+    expect(manager.canWrite('react-dashboard', 'theme')).toBe(false);
+    expect(manager.canWrite('react-dashboard', 'app')).toBe(true);
+
+    const theme = { ...manager.getState().theme, current: 'dark' as const };
+    expect(manager.setState({ theme }, { source: 'react-dashboard' })).toBe(false);
+    expect(manager.getState().theme.current).toBe('light');
+    expect(rejected).toHaveBeenCalledWith('react-dashboard', 'ownership', expect.stringContaining('theme'), { slices: ['theme'], action: undefined });
+
+    expect(manager.setState({ theme }, { source: 'react-settings' })).toBe(true);
+    expect(manager.getState().theme.current).toBe('dark');
+
+    await manager.dispatch({ ...actions.setActiveMicroApp('orders'), meta: { timestamp: new Date().toISOString(), source: 'react-dashboard' } });
+    expect(manager.getState().app.activeMicroApp).toBe('orders');
+  });
+
+  it('动作写入按 meta.source 检查归属，值未变化的分支不检查', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const rejected = vi.spyOn(globalErrorManager, 'handleStateWriteRejection').mockImplementation(() => undefined);
+    const manager = createManager();
+    manager.setSliceOwners({ theme: ['main-app'] });
+
+    const action = { ...actions.setTheme('dark'), meta: { timestamp: new Date().toISOString(), source: 'react-dashboard' } };
+    await manager.dispatch(action);
+    expect(manager.getState().theme.current).toBe('light');
+    expect(rejected).toHaveBeenCalledWith('react-dashboard', 'ownership', expect.any(String), { slices: ['theme'], action });
+    expect(manager.canUndo()).toBe(false);
+
+    expect(manager.setState({ theme: manager.getState().theme }, { source: 'react-dashboard' })).toBe(true);
+    expect(rejected).toHaveBeenCalledTimes(1);
+  });
+
+  it('不符合状态结构的写入被拒绝并附带问题列表', () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const rejected = vi.spyOn(globalErrorManager, 'handleStateWriteRejection').mockImplementation(() => undefined);
+    const manager = createManager();
+
+    const theme = { ...manager.getState().theme, current: 'purple' as any };
+    expect(manager.setState({ theme }, { source: 'react-settings' })).toBe(false);
+    expect(manager.getState().theme.current).toBe('light');
+
+    const [source, reason, , details] = rejected.mock.calls[0];
+    expect([source, reason]).toEqual(['react-settings', 'validation']);
+    expect(details.slices).toEqual(['theme']);
+    expect(details.issues!.map(issue => issue.path)).toEqual(['theme.current']);
+  });
+
+  it('关闭校验后只检查归属', () => {
+    const manager = new GlobalStateManager(undefined, { debug: false, validateWrites: false });
+    const theme = { ...manager.getState().theme, current: 'purple' as any };
+
+    expect(manager.setState({ theme })).toBe(true);
+    expect(manager.getState().theme.current).toBe('purple');
+  });
+});
+
+// ==================== 乐观更新 ====================
+
+function deferred<T = void>() {
+  let resolve!: (value: T) => void;
+  let reject!: (error: unknown) => void;
+  const promise = new Promise<T>((res, rej) => {
+    resolve = res;
+    reject = rej;
+  });
+  return { promise, resolve, reject };
+}
+
+describe('乐观更新', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('立即应用并标记为等待确认，commit 成功后确认', async () => {
+    const manager = createManager();
+    const snapshots: PendingAction[][] = [];
+    manager.subscribePendingActions(pending => snapshots.push(pending));
+    const commit = deferred<string>();
+    const onConfirm = vi.fn(() => actions.setActiveMicroApp('orders'));
+
+    const result = manager.dispatchOptimistic(actions.setTheme('dark'), commit.promise, { onConfirm });
+    await Promise.resolve();
+
+    expect(manager.getState().theme.current).toBe('dark');
+    expect(manager.hasPendingActions()).toBe(true);
+    expect(manager.hasPendingActions('theme')).toBe(true);
+    expect(manager.hasPendingActions('user')).toBe(false);
+    expect(manager.getPendingActions()[0]).toMatchObject({ slices: ['theme'], action: { type: 'SET_THEME', loading: true } });
+
+    commit.resolve('ok');
+    expect(await result).toBe('ok');
+    expect(onConfirm).toHaveBeenCalledWith('ok');
+    expect(manager.getState().app.activeMicroApp).toBe('orders');
+    expect(manager.hasPendingActions()).toBe(false);
+    expect(snapshots.map(pending => pending.length)).toEqual([1, 0]);
+  });
+
+  it('commit 失败时回滚并抛出错误', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const manager = createManager();
+    const onRollback = vi.fn();
+    const error = new Error('rejected by server');
+
+    await expect(manager.dispatchOptimistic(actions.setTheme('dark'), () => Promise.reject(error), { onRollback })).rejects.toBe(error);
+
+    expect(manager.getState().theme.current).toBe('light');
+    expect(manager.hasPendingActions()).toBe(false);
+    expect(onRollback).toHaveBeenCalledWith(error);
+    expect(manager.getCurrentSnapshot()!.description).toBe('Rollback: SET_THEME');
+  });
+
+  it('回滚只撤销失败的动作，之后的动作和写入重新应用', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const manager = createManager();
+    const failing = deferred();
+    const succeeding = deferred();
+
+    const first = manager.dispatchOptimistic(actions.setTheme('dark'), failing.promise);
+    const second = manager.dispatchOptimistic(actions.setActiveMicroApp('orders'), succeeding.promise);
+    await Promise.resolve();
+    manager.setIn('user.permissions', ['orders:read']);
+
+    succeeding.resolve();
+    await second;
+    expect(manager.hasPendingActions('app')).toBe(false);
+    expect(manager.hasPendingActions('theme')).toBe(true);
+
+    failing.reject(new Error('conflict'));
+    await expect(first).rejects.toThrow('conflict');
+
+    const state = manager.getState();
+    expect(state.theme.current).toBe('light');
+    expect(state.app.activeMicroApp).toBe('orders');
+    expect(state.user.permissions).toEqual(['orders:read']);
+    expect(manager.hasPendingActions()).toBe(false);
+  });
+
+  it('重置后失败的动作不再回滚', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const manager = createManager();
+    const commit = deferred();
+
+    const result = manager.dispatchOptimistic(actions.setTheme('dark'), commit.promise);
+    await Promise.resolve();
+    manager.reset();
+    await manager.dispatch(actions.setActiveMicroApp('orders'));
+
+    commit.reject(new Error('offline'));
+    await expect(result).rejects.toThrow('offline');
+    expect(manager.getState().app.activeMicroApp).toBe('orders');
+  });
+});
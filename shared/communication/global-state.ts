@@ -4,9 +4,29 @@
  */
 
 import { globalEventBus } from './event-bus';
-import { GlobalState, StateListener, StateAction } from '../types/store';
+import {
+  GlobalState,
+  StateListener,
+  StateAction,
+  AsyncAction,
+  StatePath,
+  StatePathValue,
+  StatePathListener,
+  StateSelector,
+  DerivedStatePath,
+  StateWriteOptions,
+  StateSliceOwnership
+} from '../types/store';
 import { EVENT_TYPES } from '../types/events';
 import { StateMiddlewareManager, StateMiddleware } from './middleware/state-middleware';
+import { MiddlewareChainEntry } from './middleware/middleware-composition';
+import { getIn, setIn, mergeShallow, parseStatePath } from './state-path';
+import { MemoizedSelector, createMemoizedSelector, getSelectorPaths, selectPath, shallowEqual } from './state-selectors';
+import { validateStateUpdate } from './state-schema';
+import { diffState, applyPatch, fromPatchPath, StatePatchOperation } from './state-patch';
+import { PersistenceStorage, IndexedDBPersistence } from './middleware/persistence-middleware';
+import { globalErrorManager } from './error/error-manager';
+import { toSerializable } from '../utils';
 
 // React import (only available in React environments)
 let React: any;
@@ -21,14 +41,57 @@ try {
 // 类型声明
 declare const process: any;
 
+/**
+ * 未指定写入方时的默认应用名
+ */
+export const DEFAULT_STATE_WRITER = 'main-app';
+
 // ==================== 状态历史管理 ====================
 
+/**
+ * 状态历史导出/持久化格式版本
+ */
+export const STATE_HISTORY_FORMAT_VERSION = 1;
+
+/**
+ * 状态快照
+ * 只保存与上一个快照之间的补丁，完整状态按需从基准状态重放得到
+ */
 export interface StateSnapshot {
   id: string;
   timestamp: string;
-  state: GlobalState;
   action?: StateAction;
   description?: string;
+
+  /**
+   * 写入方应用
+   */
+  source?: string;
+
+  /**
+   * 从上一个快照到此快照的补丁，第一个快照为空
+   */
+  patch: StatePatchOperation[];
+
+  /**
+   * 从此快照回到上一个快照的补丁
+   */
+  inverse: StatePatchOperation[];
+}
+
+/**
+ * 导出/持久化的状态历史
+ */
+export interface StateHistoryExport {
+  version: number;
+  exportedAt: string;
+
+  /**
+   * 第一个快照对应的完整状态
+   */
+  baseState: GlobalState | null;
+  snapshots: StateSnapshot[];
+  currentIndex: number;
 }
 
 export interface StateHistoryOptions {
@@ -36,55 +99,135 @@ export interface StateHistoryOptions {
   enableTimeTravel?: boolean;
   autoSnapshot?: boolean;
   snapshotInterval?: number;
+
+  /**
+   * 历史持久化存储，不设置时只保存在内存中
+   */
+  storage?: PersistenceStorage;
+
+  /**
+   * 持久化键名
+   */
+  storageKey?: string;
+
+  /**
+   * 持久化防抖延迟（毫秒）
+   */
+  persistDelay?: number;
+
+  /**
+   * 不写入存储的分支，默认 ['auth']，避免令牌明文保存；恢复时沿用本次会话的值
+   */
+  excludeSlices?: (keyof GlobalState)[];
 }
 
 export class StateHistoryManager {
   private snapshots: StateSnapshot[] = [];
   private currentIndex: number = -1;
+  private baseState: GlobalState | null = null;
+  private cursor: { index: number; state: GlobalState } | null = null; // 最近一次重放的位置
   private maxSnapshots: number;
   private enableTimeTravel: boolean;
   private autoSnapshot: boolean;
   private snapshotInterval: number;
   private lastSnapshotTime: number = 0;
+  private storage?: PersistenceStorage;
+  private storageKey: string;
+  private persistDelay: number;
+  private persistTimer?: any;
+  private excludeSlices: (keyof GlobalState)[];
+  private patchSizes: WeakMap<StateSnapshot, number> = new WeakMap(); // 快照补丁的序列化长度
 
   constructor(options: StateHistoryOptions = {}) {
     this.maxSnapshots = options.maxSnapshots || 50;
     this.enableTimeTravel = options.enableTimeTravel !== false;
     this.autoSnapshot = options.autoSnapshot !== false;
     this.snapshotInterval = options.snapshotInterval || 1000; // 1秒
+    this.storage = options.storage;
+    this.storageKey = options.storageKey || 'qiankun-state-history';
+    this.persistDelay = options.persistDelay ?? 1000;
+    this.excludeSlices = options.excludeSlices ?? ['auth'];
   }
 
   /**
    * 创建状态快照
+   * 记录与上一个快照之间的补丁，状态按结构共享更新，比较只涉及变化的分支
    */
-  createSnapshot(state: GlobalState, action?: StateAction, description?: string): StateSnapshot {
+  createSnapshot(state: GlobalState, action?: StateAction, description?: string, source?: string): StateSnapshot {
+    // 如果启用时间旅行，移除当前位置之后的快照
+    if (this.enableTimeTravel && this.currentIndex < this.snapshots.length - 1) {
+      // 重放位置在被移除的快照上时先退回当前位置
+      if (this.cursor && this.cursor.index > this.currentIndex) {
+        this.stateAt(this.currentIndex);
+      }
+      this.snapshots = this.snapshots.slice(0, this.currentIndex + 1);
+    }
+
+    const prevState = this.snapshots.length > 0 ? this.stateAt(this.snapshots.length - 1) : null;
+    const { patch, inverse } = prevState ? diffState(prevState, state) : { patch: [], inverse: [] };
+
     const snapshot: StateSnapshot = {
       id: `snapshot-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
       timestamp: new Date().toISOString(),
-      state: JSON.parse(JSON.stringify(state)), // 深拷贝
       action,
-      description
+      description,
+      source,
+      patch,
+      inverse
     };
 
-    // 如果启用时间旅行，移除当前位置之后的快照
-    if (this.enableTimeTravel && this.currentIndex < this.snapshots.length - 1) {
-      this.snapshots = this.snapshots.slice(0, this.currentIndex + 1);
+    if (!prevState) {
+      this.baseState = state;
     }
 
     this.snapshots.push(snapshot);
     this.currentIndex = this.snapshots.length - 1;
+    this.cursor = { index: this.currentIndex, state };
 
-    // 保持快照数量在限制内
-    if (this.snapshots.length > this.maxSnapshots) {
-      const removeCount = this.snapshots.length - this.maxSnapshots;
-      this.snapshots.splice(0, removeCount);
-      this.currentIndex -= removeCount;
-    }
+    this.trim();
 
     this.lastSnapshotTime = Date.now();
+    this.schedulePersist();
     return snapshot;
   }
 
+  /**
+   * 保持快照数量在限制内，被移除的快照并入基准状态
+   */
+  private trim(): void {
+    while (this.snapshots.length > this.maxSnapshots) {
+      this.baseState = applyPatch(this.baseState!, this.snapshots[1].patch);
+      this.snapshots.shift();
+      this.snapshots[0] = { ...this.snapshots[0], patch: [], inverse: [] };
+      this.currentIndex = Math.max(this.currentIndex - 1, 0);
+
+      if (this.cursor) {
+        this.cursor = this.cursor.index > 0
+          ? { index: this.cursor.index - 1, state: this.cursor.state }
+          : null;
+      }
+    }
+  }
+
+  /**
+   * 重放补丁得到指定位置的完整状态，从最近一次重放的位置出发
+   */
+  private stateAt(index: number): GlobalState {
+    let { index: position, state } = this.cursor || { index: 0, state: this.baseState! };
+
+    while (position < index) {
+      position++;
+      state = applyPatch(state, this.snapshots[position].patch);
+    }
+    while (position > index) {
+      state = applyPatch(state, this.snapshots[position].inverse);
+      position--;
+    }
+
+    this.cursor = { index, state };
+    return state;
+  }
+
   /**
    * 检查是否应该创建自动快照
    */
@@ -102,6 +245,7 @@ export class StateHistoryManager {
     }
 
     this.currentIndex--;
+    this.schedulePersist();
     return this.snapshots[this.currentIndex];
   }
 
@@ -114,6 +258,7 @@ export class StateHistoryManager {
     }
 
     this.currentIndex++;
+    this.schedulePersist();
     return this.snapshots[this.currentIndex];
   }
 
@@ -127,9 +272,25 @@ export class StateHistoryManager {
     if (index === -1) return null;
 
     this.currentIndex = index;
+    this.schedulePersist();
     return this.snapshots[index];
   }
 
+  /**
+   * 获取当前快照对应的完整状态
+   */
+  getCurrentState(): GlobalState | null {
+    return this.currentIndex >= 0 ? this.stateAt(this.currentIndex) : null;
+  }
+
+  /**
+   * 获取指定快照对应的完整状态
+   */
+  getSnapshotState(snapshotId: string): GlobalState | null {
+    const index = this.snapshots.findIndex(s => s.id === snapshotId);
+    return index === -1 ? null : this.stateAt(index);
+  }
+
   /**
    * 获取所有快照
    */
@@ -150,6 +311,173 @@ export class StateHistoryManager {
   clear(): void {
     this.snapshots = [];
     this.currentIndex = -1;
+    this.baseState = null;
+    this.cursor = null;
+    this.schedulePersist();
+  }
+
+  // ==================== 导出与导入 ====================
+
+  /**
+   * 导出历史（基准状态 + 补丁），可保存为文件附在问题报告中
+   * 状态中无法序列化的值（函数、循环引用）在导出时去掉或替换
+   */
+  export(): StateHistoryExport {
+    return {
+      version: STATE_HISTORY_FORMAT_VERSION,
+      exportedAt: new Date().toISOString(),
+      baseState: toSerializable(this.baseState),
+      snapshots: toSerializable(this.snapshots),
+      currentIndex: this.currentIndex
+    };
+  }
+
+  /**
+   * 导入历史，替换当前的全部快照
+   * @returns 数据格式是否有效
+   */
+  import(data: StateHistoryExport): boolean {
+    if (!isStateHistoryExport(data)) {
+      return false;
+    }
+
+    this.baseState = data.baseState;
+    this.snapshots = [...data.snapshots];
+    this.currentIndex = Math.min(Math.max(data.currentIndex, 0), data.snapshots.length - 1);
+    this.cursor = null;
+    this.trim();
+    this.schedulePersist();
+    return true;
+  }
+
+  // ==================== 持久化 ====================
+
+  /**
+   * 从存储恢复上次会话的历史
+   * 本次会话已产生的快照接在恢复的历史之后，第一个快照改为相对上次会话最后状态的补丁
+   * @returns 是否恢复了历史
+   */
+  async restore(): Promise<boolean> {
+    if (!this.storage) {
+      return false;
+    }
+
+    let data: StateHistoryExport;
+    try {
+      const serialized = await this.storage.getItem(this.storageKey);
+      if (!serialized) {
+        return false;
+      }
+      data = JSON.parse(serialized);
+    } catch (error) {
+      console.warn('[StateHistory] Failed to restore persisted history:', error);
+      return false;
+    }
+
+    if (!isStateHistoryExport(data) || data.snapshots.length === 0) {
+      return false;
+    }
+
+    // 存储中没有的分支取本次会话的值，时间旅行不会改变这些分支
+    if (this.baseState) {
+      const baseState: any = { ...data.baseState };
+      this.excludeSlices.forEach(slice => {
+        baseState[slice] = this.baseState![slice];
+      });
+      data = { ...data, baseState };
+    }
+
+    const restored = new StateHistoryManager({ maxSnapshots: Number.MAX_SAFE_INTEGER });
+    restored.import(data);
+    const restoredHead = restored.stateAt(data.snapshots.length - 1);
+
+    const session = this.snapshots;
+    const sessionBase = this.baseState;
+    const sessionIndex = this.currentIndex;
+
+    this.baseState = data.baseState;
+    this.snapshots = [...data.snapshots];
+
+    if (sessionBase && session.length > 0) {
+      const { patch, inverse } = diffState(restoredHead, sessionBase);
+      this.snapshots.push({ ...session[0], patch, inverse }, ...session.slice(1));
+    }
+
+    this.currentIndex = sessionIndex >= 0
+      ? data.snapshots.length + sessionIndex
+      : this.snapshots.length - 1;
+    this.cursor = null;
+    this.trim();
+    this.schedulePersist();
+    return true;
+  }
+
+  /**
+   * 立即写入存储
+   */
+  async persist(): Promise<void> {
+    if (this.persistTimer) {
+      clearTimeout(this.persistTimer);
+      this.persistTimer = undefined;
+    }
+    if (!this.storage) {
+      return;
+    }
+
+    try {
+      if (this.snapshots.length === 0) {
+        await this.storage.removeItem(this.storageKey);
+      } else {
+        await this.storage.setItem(this.storageKey, JSON.stringify(this.redact(this.export())));
+      }
+    } catch (error) {
+      console.warn('[StateHistory] Failed to persist history:', error);
+    }
+  }
+
+  /**
+   * 去掉不写入存储的分支：基准状态中的分支、补丁中的对应操作，以及修改过这些分支的动作的 payload
+   */
+  private redact(data: StateHistoryExport): StateHistoryExport {
+    if (this.excludeSlices.length === 0) {
+      return data;
+    }
+
+    const excluded = new Set<string>(this.excludeSlices);
+    const keep = (operation: StatePatchOperation) => !excluded.has(fromPatchPath(operation.path)[0]);
+
+    const baseState: any = data.baseState ? { ...data.baseState } : data.baseState;
+    if (baseState) {
+      excluded.forEach(slice => delete baseState[slice]);
+    }
+
+    const snapshots = data.snapshots.map(snapshot => {
+      const patch = snapshot.patch.filter(keep);
+      if (patch.length === snapshot.patch.length) {
+        return snapshot;
+      }
+      return {
+        ...snapshot,
+        action: snapshot.action && { ...snapshot.action, payload: undefined },
+        patch,
+        inverse: snapshot.inverse.filter(keep)
+      };
+    });
+
+    return { ...data, baseState, snapshots };
+  }
+
+  private schedulePersist(): void {
+    if (!this.storage) {
+      return;
+    }
+    if (this.persistTimer) {
+      clearTimeout(this.persistTimer);
+    }
+    this.persistTimer = setTimeout(() => {
+      this.persistTimer = undefined;
+      this.persist();
+    }, this.persistDelay);
   }
 
   /**
@@ -161,17 +489,100 @@ export class StateHistoryManager {
     canUndo: boolean;
     canRedo: boolean;
     memoryUsage: number;
+    persistent: boolean;
   } {
-    const memoryUsage = JSON.stringify(this.snapshots).length;
-    
+    const memoryUsage = this.snapshots.reduce((total, snapshot) => total + this.patchSize(snapshot), 0);
+
     return {
       totalSnapshots: this.snapshots.length,
       currentIndex: this.currentIndex,
-      canUndo: this.currentIndex > 0,
-      canRedo: this.currentIndex < this.snapshots.length - 1,
-      memoryUsage
+      canUndo: this.canUndo(),
+      canRedo: this.canRedo(),
+      memoryUsage,
+      persistent: !!this.storage
     };
   }
+
+  canUndo(): boolean {
+    return this.enableTimeTravel && this.currentIndex > 0;
+  }
+
+  canRedo(): boolean {
+    return this.enableTimeTravel && this.currentIndex < this.snapshots.length - 1;
+  }
+
+  /**
+   * 快照补丁的序列化长度，快照不可变，按快照缓存
+   */
+  private patchSize(snapshot: StateSnapshot): number {
+    let size = this.patchSizes.get(snapshot);
+    if (size === undefined) {
+      size = JSON.stringify(toSerializable([snapshot.patch, snapshot.inverse])).length;
+      this.patchSizes.set(snapshot, size);
+    }
+    return size;
+  }
+}
+
+/**
+ * 检查导入数据的格式
+ */
+function isStateHistoryExport(data: any): data is StateHistoryExport {
+  return !!data
+    && data.version === STATE_HISTORY_FORMAT_VERSION
+    && Array.isArray(data.snapshots)
+    && typeof data.currentIndex === 'number'
+    && (data.snapshots.length === 0 || (!!data.baseState && typeof data.baseState === 'object'))
+    && data.snapshots.every((snapshot: any) =>
+      snapshot && typeof snapshot.id === 'string' && Array.isArray(snapshot.patch) && Array.isArray(snapshot.inverse)
+    );
+}
+
+// ==================== 乐观更新 ====================
+
+/**
+ * 等待服务端确认的乐观动作
+ */
+export interface PendingAction {
+  id: string;
+  action: AsyncAction;
+  startedAt: string;
+
+  /**
+   * 受影响的状态分支
+   */
+  slices: (keyof GlobalState)[];
+}
+
+export interface OptimisticActionOptions<T = any> {
+  /**
+   * 确认成功后调用，可返回一个修正动作（如使用服务端生成的ID）
+   */
+  onConfirm?: (result: T) => StateAction | void;
+
+  /**
+   * 回滚后调用
+   */
+  onRollback?: (error: unknown) => void;
+}
+
+export type PendingActionsListener = (pending: PendingAction[]) => void;
+
+/**
+ * 乐观更新基准之后应用的写入，回滚时在基准状态上按顺序重放
+ */
+interface OptimisticLogEntry {
+  action?: StateAction;
+
+  /**
+   * 非动作写入只记录实际变化的路径，重放整个分支会把被回滚的乐观修改带回来
+   */
+  patch?: StatePatchOperation[];
+
+  /**
+   * 所属的乐观动作，确认前为 pending
+   */
+  optimisticId?: string;
 }
 
 /**
@@ -180,19 +591,30 @@ export class StateHistoryManager {
 export class GlobalStateManager {
   private state: GlobalState;
   private listeners: Set<StateListener> = new Set();
+  private pathListeners: Map<string, Set<StatePathListener>> = new Map(); // 路径 -> 路径订阅
   private middleware: Array<(action: StateAction, state: GlobalState, next: Function) => void> = [];
   private middlewareManager: StateMiddlewareManager;
   private historyManager: StateHistoryManager;
+  private sliceOwners: Map<keyof GlobalState, Set<string>> = new Map(); // 分支 -> 允许写入的应用
+  private validateWrites: boolean;
   private debug: boolean = false;
+  private optimisticBase: GlobalState | null = null; // 最早未确认的乐观动作之前的状态
+  private optimisticLog: OptimisticLogEntry[] = [];
+  private pendingActions: Map<string, PendingAction> = new Map();
+  private pendingListeners: Set<PendingActionsListener> = new Set();
+  private derivedSelectors: Map<string, StateSelector> = new Map(); // 派生状态名 -> 选择器
+  private derivedValues: Map<string, any> = new Map();
 
   constructor(
     initialState?: Partial<GlobalState>,
     options?: {
       historyOptions?: StateHistoryOptions;
+      validateWrites?: boolean;
       debug?: boolean;
     }
   ) {
     this.state = this.createInitialState(initialState);
+    this.validateWrites = options?.validateWrites !== false;
     this.debug = options?.debug ?? (typeof process !== 'undefined' && process.env?.NODE_ENV === 'development');
     
     // 初始化中间件管理器
@@ -206,6 +628,13 @@ export class GlobalStateManager {
 
     // 创建初始快照
     this.historyManager.createSnapshot(this.state, undefined, 'Initial state');
+
+    // 恢复上次会话持久化的历史
+    if (options?.historyOptions?.storage) {
+      this.restoreHistory().catch(err => {
+        console.error('[GlobalState] Failed to restore state history:', err);
+      });
+    }
   }
 
   /**
@@ -416,28 +845,46 @@ export class GlobalStateManager {
 
   /**
    * 设置状态
+   * 写入前检查分支归属并按 GlobalState 结构校验，被拒绝的写入不会生效并上报到 globalErrorManager
+   * @returns 写入是否生效
    */
-  setState(newState: Partial<GlobalState>): void {
-    const prevState = { ...this.state };
-    this.state = { ...this.state, ...newState };
+  setState(newState: Partial<GlobalState>, options?: StateWriteOptions): boolean {
+    return this.applyState(newState, options?.source ?? DEFAULT_STATE_WRITER);
+  }
+
+  private applyState(newState: Partial<GlobalState>, source: string, action?: StateAction): boolean {
+    if (!this.checkWrite(newState, source, action)) {
+      return false;
+    }
+
+    const prevState = this.state;
+    this.state = mergeShallow(this.state, newState);
+
+    // 存在未确认的乐观动作时记录写入，回滚时重放
+    if (this.optimisticBase) {
+      if (action) {
+        this.optimisticLog.push({ action, optimisticId: action.meta?.optimisticId });
+      } else if (this.state !== prevState) {
+        this.optimisticLog.push({ patch: diffState(prevState, this.state).patch });
+      }
+    }
+
+    // 没有任何字段变化时不通知
+    if (this.state === prevState) {
+      return true;
+    }
 
     if (this.debug) {
       console.log('[GlobalState] State updated:', { prevState, newState: this.state });
     }
 
-    // 创建状态快照（如果需要）
-    if (this.historyManager.shouldCreateAutoSnapshot()) {
-      this.historyManager.createSnapshot(this.state, undefined, 'Auto snapshot');
+    // 创建状态快照（如果需要），动作产生的变化由 dispatch 记录快照
+    if (!action && this.historyManager.shouldCreateAutoSnapshot()) {
+      this.historyManager.createSnapshot(this.state, undefined, 'Auto snapshot', source);
     }
 
     // 通知所有监听器
-    this.listeners.forEach(listener => {
-      try {
-        listener(this.state, prevState);
-      } catch (err) {
-        console.error('[GlobalState] Error in state listener:', err);
-      }
-    });
+    this.notifyListeners(prevState);
 
     // 发射状态更新事件
     globalEventBus.emit({
@@ -451,26 +898,256 @@ export class GlobalStateManager {
         data: newState
       }
     });
+
+    return true;
+  }
+
+  /**
+   * 检查写入：只检查值发生变化的分支
+   */
+  private checkWrite(newState: Partial<GlobalState>, source: string, action?: StateAction): boolean {
+    const changed = (Object.keys(newState) as (keyof GlobalState)[])
+      .filter(slice => !Object.is(this.state[slice], newState[slice]));
+
+    if (changed.length === 0) {
+      return true;
+    }
+
+    const denied = changed.filter(slice => !this.canWrite(source, slice));
+    if (denied.length > 0) {
+      const message = `State write rejected: "${source}" is not allowed to write ${denied.join(', ')}`;
+      console.warn(`[GlobalState] ${message}`);
+      globalErrorManager.handleStateWriteRejection(source, 'ownership', message, { slices: denied, action });
+      return false;
+    }
+
+    if (this.validateWrites) {
+      const update: Partial<GlobalState> = {};
+      changed.forEach(slice => {
+        (update as any)[slice] = newState[slice];
+      });
+
+      const issues = validateStateUpdate(update);
+      if (issues.length > 0) {
+        const message = `State write rejected: invalid value from "${source}" at ${issues.map(issue => issue.path).join(', ')}`;
+        console.warn(`[GlobalState] ${message}`, issues);
+        globalErrorManager.handleStateWriteRejection(source, 'validation', message, { slices: changed, issues, action });
+        return false;
+      }
+    }
+
+    return true;
+  }
+
+  /**
+   * 声明分支归属：声明过的分支只允许列出的应用写入，未声明的分支不限制
+   */
+  setSliceOwners(ownership: StateSliceOwnership): void {
+    (Object.keys(ownership) as (keyof GlobalState)[]).forEach(slice => {
+      this.sliceOwners.set(slice, new Set(ownership[slice]));
+    });
+  }
+
+  /**
+   * 获取分支归属
+   */
+  getSliceOwners(): StateSliceOwnership {
+    const ownership: StateSliceOwnership = {};
+    this.sliceOwners.forEach((owners, slice) => {
+      ownership[slice] = Array.from(owners);
+    });
+    return ownership;
+  }
+
+  /**
+   * 判断应用是否可以写入分支
+   */
+  canWrite(appName: string, slice: keyof GlobalState): boolean {
+    const owners = this.sliceOwners.get(slice);
+    return !owners || owners.has(appName);
+  }
+
+  /**
+   * 按路径读取状态
+   */
+  select<P extends StatePath>(path: P): StatePathValue<GlobalState, P> {
+    return getIn(this.state, path);
+  }
+
+  /**
+   * 按路径更新状态，只复制路径上的对象
+   */
+  setIn<P extends StatePath>(path: P, value: StatePathValue<GlobalState, P>, options?: StateWriteOptions): boolean {
+    const [root] = parseStatePath(path);
+    const nextState = setIn(this.state, path, value);
+
+    if (nextState === this.state) {
+      return true;
+    }
+    return this.setState({ [root]: nextState[root as keyof GlobalState] } as Partial<GlobalState>, options);
   }
 
   /**
    * 订阅状态变化
+   * 传入路径时仅在该路径上的值引用变化时触发，如 subscribe('user.preferences', listener)
    */
-  subscribe(listener: StateListener): () => void {
-    this.listeners.add(listener);
+  subscribe(listener: StateListener): () => void;
+  subscribe<P extends StatePath>(path: P, listener: StatePathListener<StatePathValue<GlobalState, P>>): () => void;
+  subscribe<T = any>(path: DerivedStatePath, listener: StatePathListener<T>): () => void;
+  subscribe(pathOrListener: string | StateListener, pathListener?: StatePathListener): () => void {
+    if (typeof pathOrListener === 'function') {
+      const listener = pathOrListener;
+      this.listeners.add(listener);
+
+      if (this.debug) {
+        console.log('[GlobalState] Added state listener');
+      }
+
+      return () => {
+        this.listeners.delete(listener);
+        if (this.debug) {
+          console.log('[GlobalState] Removed state listener');
+        }
+      };
+    }
+
+    const path = pathOrListener;
+    const listener = pathListener!;
+    if (!this.pathListeners.has(path)) {
+      this.pathListeners.set(path, new Set());
+    }
+    this.pathListeners.get(path)!.add(listener);
 
     if (this.debug) {
-      console.log('[GlobalState] Added state listener');
+      console.log(`[GlobalState] Added state listener for path: ${path}`);
     }
 
     return () => {
-      this.listeners.delete(listener);
+      const listeners = this.pathListeners.get(path);
+      if (listeners) {
+        listeners.delete(listener);
+        if (listeners.size === 0) {
+          this.pathListeners.delete(path);
+        }
+      }
       if (this.debug) {
-        console.log('[GlobalState] Removed state listener');
+        console.log(`[GlobalState] Removed state listener for path: ${path}`);
       }
     };
   }
 
+  /**
+   * 通知监听器：全量监听器总是触发，路径监听器仅在路径上的值变化时触发
+   */
+  private notifyListeners(prevState: GlobalState): void {
+    const prevDerived = this.refreshDerived();
+
+    this.listeners.forEach(listener => {
+      try {
+        listener(this.state, prevState);
+      } catch (err) {
+        console.error('[GlobalState] Error in state listener:', err);
+      }
+    });
+
+    this.pathListeners.forEach((listeners, path) => {
+      const segments = parseStatePath(path);
+      const value = this.readPath(this.state, segments, this.derivedValues);
+      const prevValue = this.readPath(prevState, segments, prevDerived);
+      if (Object.is(value, prevValue)) {
+        return;
+      }
+
+      listeners.forEach(listener => {
+        try {
+          listener(value, prevValue, this.state);
+        } catch (err) {
+          console.error(`[GlobalState] Error in state listener for path ${path}:`, err);
+        }
+      });
+    });
+  }
+
+  /**
+   * 读取路径，'derived.<name>' 开头的路径从派生状态读取
+   */
+  private readPath(state: GlobalState, segments: string[], derived: Map<string, any>): any {
+    if (segments[0] === 'derived' && segments.length > 1) {
+      return getIn(derived.get(segments[1]), segments.slice(2));
+    }
+    return getIn(state, segments);
+  }
+
+  // ==================== 派生状态 ====================
+
+  /**
+   * 注册派生状态，可通过 getDerived 读取，或像普通路径一样订阅 'derived.<name>'
+   * 传入依赖时创建带记忆的选择器，只在依赖的值变化后重新计算
+   */
+  defineDerived<T>(name: string, selector: StateSelector<T>): StateSelector<T>;
+  defineDerived<T>(name: string, dependencies: Array<StatePath | StateSelector>, compute: (...values: any[]) => T): MemoizedSelector<T>;
+  defineDerived<T>(
+    name: string,
+    selectorOrDependencies: StateSelector<T> | Array<StatePath | StateSelector>,
+    compute?: (...values: any[]) => T
+  ): StateSelector<T> {
+    const selector = Array.isArray(selectorOrDependencies)
+      ? createMemoizedSelector(
+          selectorOrDependencies.map(dependency => typeof dependency === 'string' ? selectPath(dependency) : dependency),
+          compute!
+        )
+      : selectorOrDependencies;
+
+    if (this.derivedSelectors.has(name)) {
+      console.warn(`[GlobalState] Derived state "${name}" already exists, replacing...`);
+    }
+
+    this.derivedSelectors.set(name, selector);
+    this.derivedValues.set(name, selector(this.state));
+    return selector;
+  }
+
+  /**
+   * 移除派生状态
+   */
+  removeDerived(name: string): boolean {
+    this.derivedValues.delete(name);
+    return this.derivedSelectors.delete(name);
+  }
+
+  /**
+   * 读取派生状态
+   */
+  getDerived<T = any>(name: string): T | undefined {
+    const selector = this.derivedSelectors.get(name);
+    return selector ? selector(this.state) : undefined;
+  }
+
+  /**
+   * 获取派生状态依赖的状态路径，依赖未知（普通函数选择器）时返回 null
+   */
+  getDerivedDependencies(name: string): string[] | null {
+    const selector = this.derivedSelectors.get(name);
+    return selector ? getSelectorPaths(selector) : null;
+  }
+
+  /**
+   * 重新计算派生状态，返回计算前的值
+   */
+  private refreshDerived(): Map<string, any> {
+    const prevDerived = new Map(this.derivedValues);
+
+    this.derivedSelectors.forEach((selector, name) => {
+      try {
+        this.derivedValues.set(name, selector(this.state));
+      } catch (err) {
+        console.error(`[GlobalState] Error computing derived state "${name}":`, err);
+      }
+    });
+
+    return prevDerived;
+  }
+
   /**
    * 派发动作 - 增强版本，支持状态中间件
    */
@@ -479,8 +1156,8 @@ export class GlobalStateManager {
       console.log('[GlobalState] Dispatching action:', action);
     }
 
-    // 创建动作快照
-    const prevState = { ...this.state };
+    // 记录动作前的状态（状态不可变更新，保存引用即可）
+    const prevState = this.state;
 
     try {
       // 通过状态中间件处理动作
@@ -489,8 +1166,8 @@ export class GlobalStateManager {
       });
 
       // 如果状态发生变化，创建快照
-      if (JSON.stringify(prevState) !== JSON.stringify(this.state)) {
-        this.historyManager.createSnapshot(this.state, action, `Action: ${action.type}`);
+      if (prevState !== this.state) {
+        this.historyManager.createSnapshot(this.state, action, `Action: ${action.type}`, action.meta?.source ?? DEFAULT_STATE_WRITER);
       }
 
     } catch (err) {
@@ -518,56 +1195,222 @@ export class GlobalStateManager {
    * 执行动作
    */
   private executeAction(action: StateAction): void {
+    const update = this.reduceAction(this.state, action);
+
+    if (!update) {
+      console.warn(`[GlobalState] Unknown action type: ${action.type}`);
+      return;
+    }
+
+    this.applyState(update, action.meta?.source ?? DEFAULT_STATE_WRITER, action);
+  }
+
+  /**
+   * 计算动作产生的状态更新，未知动作返回 null
+   */
+  private reduceAction(state: GlobalState, action: StateAction): Partial<GlobalState> | null {
     const { type, payload } = action;
 
     switch (type) {
       case 'SET_USER':
-        this.setState({
-          user: { ...this.state.user, ...payload }
-        });
-        break;
+        return { user: mergeShallow(state.user, payload) };
 
       case 'SET_THEME':
-        this.setState({
-          theme: { ...this.state.theme, ...payload }
-        });
-        break;
+        return { theme: mergeShallow(state.theme, payload) };
 
       case 'SET_AUTH':
-        this.setState({
-          auth: { ...this.state.auth, ...payload }
-        });
-        break;
+        return { auth: mergeShallow(state.auth, payload) };
 
       case 'SET_ROUTER':
-        this.setState({
-          router: { ...this.state.router, ...payload }
-        });
-        break;
+        return { router: mergeShallow(state.router, payload) };
 
       case 'SET_NOTIFICATION':
-        this.setState({
-          notification: { ...this.state.notification, ...payload }
-        });
-        break;
+        return { notification: mergeShallow(state.notification, payload) };
 
       case 'SET_SYSTEM':
-        this.setState({
-          system: { ...this.state.system, ...payload }
-        });
-        break;
+        return { system: mergeShallow(state.system, payload) };
 
       case 'SET_APP':
-        this.setState({
-          app: { ...this.state.app, ...payload }
-        });
-        break;
+        return { app: mergeShallow(state.app, payload) };
 
       default:
-        console.warn(`[GlobalState] Unknown action type: ${type}`);
+        return null;
+    }
+  }
+
+  // ==================== 乐观更新 ====================
+
+  /**
+   * 派发乐观动作：立即应用并标记为等待确认，commit 成功后确认，失败时回滚
+   * 回滚时撤销该动作，之后的动作和写入在回滚后的状态上重新应用
+   * @returns commit 的结果；失败时抛出 commit 的错误
+   */
+  async dispatchOptimistic<T>(
+    action: StateAction,
+    commit: Promise<T> | (() => Promise<T>),
+    options: OptimisticActionOptions<T> = {}
+  ): Promise<T> {
+    const id = `optimistic_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    const tagged: StateAction = {
+      ...action,
+      meta: {
+        timestamp: new Date().toISOString(),
+        source: DEFAULT_STATE_WRITER,
+        ...action.meta,
+        optimisticId: id
+      }
+    };
+
+    if (!this.optimisticBase) {
+      this.optimisticBase = this.state;
+      this.optimisticLog = [];
+    }
+
+    const update = this.reduceAction(this.state, tagged);
+    this.pendingActions.set(id, {
+      id,
+      action: { ...tagged, loading: true, error: null },
+      startedAt: tagged.meta!.timestamp,
+      slices: update ? (Object.keys(update) as (keyof GlobalState)[]) : []
+    });
+    this.notifyPendingListeners();
+
+    try {
+      await this.dispatch(tagged);
+    } catch (err) {
+      this.rollback(id, err);
+      options.onRollback?.(err);
+      throw err;
+    }
+
+    let result: T;
+    try {
+      result = await (typeof commit === 'function' ? commit() : commit);
+    } catch (err) {
+      this.rollback(id, err);
+      options.onRollback?.(err);
+      throw err;
+    }
+
+    this.confirm(id);
+
+    const correction = options.onConfirm?.(result);
+    if (correction) {
+      await this.dispatch(correction);
+    }
+
+    return result;
+  }
+
+  /**
+   * 获取等待确认的乐观动作
+   */
+  getPendingActions(): PendingAction[] {
+    return Array.from(this.pendingActions.values());
+  }
+
+  /**
+   * 是否有等待确认的乐观动作，可按分支过滤
+   */
+  hasPendingActions(slice?: keyof GlobalState): boolean {
+    if (!slice) {
+      return this.pendingActions.size > 0;
+    }
+    return this.getPendingActions().some(pending => pending.slices.includes(slice));
+  }
+
+  /**
+   * 订阅等待确认的乐观动作变化，用于显示同步状态
+   */
+  subscribePendingActions(listener: PendingActionsListener): () => void {
+    this.pendingListeners.add(listener);
+    return () => {
+      this.pendingListeners.delete(listener);
+    };
+  }
+
+  private confirm(id: string): void {
+    this.pendingActions.delete(id);
+    this.optimisticLog.forEach(entry => {
+      if (entry.optimisticId === id) {
+        entry.optimisticId = undefined;
+      }
+    });
+    this.compactOptimisticLog();
+    this.notifyPendingListeners();
+
+    if (this.debug) {
+      console.log(`[GlobalState] Optimistic action confirmed: ${id}`);
+    }
+  }
+
+  private rollback(id: string, error: unknown): void {
+    const pending = this.pendingActions.get(id);
+    this.pendingActions.delete(id);
+
+    if (this.optimisticBase) {
+      this.optimisticLog = this.optimisticLog.filter(entry => entry.optimisticId !== id);
+
+      // 在基准状态上重放剩余的写入
+      const prevState = this.state;
+      this.state = this.optimisticLog.reduce((state, entry) => this.replayEntry(state, entry), this.optimisticBase);
+      this.compactOptimisticLog();
+
+      if (this.state !== prevState) {
+        this.historyManager.createSnapshot(this.state, pending?.action, `Rollback: ${pending?.action.type ?? id}`);
+        this.notifyListeners(prevState);
+      }
+    }
+
+    console.warn(`[GlobalState] Optimistic action rolled back: ${pending?.action.type ?? id}`, error);
+    this.notifyPendingListeners();
+  }
+
+  private replayEntry(state: GlobalState, entry: OptimisticLogEntry): GlobalState {
+    if (!entry.action) {
+      return entry.patch ? applyPatch(state, entry.patch) : state;
+    }
+    const update = this.reduceAction(state, entry.action);
+    return update ? mergeShallow(state, update) : state;
+  }
+
+  /**
+   * 把已确认的前缀合并进基准状态，没有等待确认的动作时结束记录
+   */
+  private compactOptimisticLog(): void {
+    if (!this.optimisticBase) {
+      return;
+    }
+
+    if (this.pendingActions.size === 0) {
+      this.clearOptimisticLog();
+      return;
+    }
+
+    while (this.optimisticLog.length > 0 && !this.optimisticLog[0].optimisticId) {
+      this.optimisticBase = this.replayEntry(this.optimisticBase, this.optimisticLog.shift()!);
     }
   }
 
+  /**
+   * 停止记录；重置或时间旅行后状态不再以乐观基准为前提，之后失败的动作不再回滚
+   */
+  private clearOptimisticLog(): void {
+    this.optimisticBase = null;
+    this.optimisticLog = [];
+  }
+
+  private notifyPendingListeners(): void {
+    const pending = this.getPendingActions();
+    this.pendingListeners.forEach(listener => {
+      try {
+        listener(pending);
+      } catch (err) {
+        console.error('[GlobalState] Error in pending actions listener:', err);
+      }
+    });
+  }
+
   /**
    * 添加中间件
    */
@@ -580,25 +1423,21 @@ export class GlobalStateManager {
    */
   clearListeners(): void {
     this.listeners.clear();
+    this.pathListeners.clear();
   }
 
   /**
    * 重置状态
    */
   reset(): void {
-    const prevState = { ...this.state };
+    const prevState = this.state;
     this.state = this.createInitialState();
+    this.clearOptimisticLog();
     
     // 创建重置快照
     this.historyManager.createSnapshot(this.state, undefined, 'State reset');
     
-    this.listeners.forEach(listener => {
-      try {
-        listener(this.state, prevState);
-      } catch (err) {
-        console.error('[GlobalState] Error in state listener during reset:', err);
-      }
-    });
+    this.notifyListeners(prevState);
   }
 
   /**
@@ -646,6 +1485,13 @@ export class GlobalStateManager {
     return this.middlewareManager.getStats();
   }
 
+  /**
+   * 获取状态动作经过的中间件链路
+   */
+  getStateMiddlewareChain(action: StateAction): MiddlewareChainEntry[] {
+    return this.middlewareManager.getEffectiveChain(action, this.state);
+  }
+
   /**
    * 清除所有状态中间件
    */
@@ -668,17 +1514,12 @@ export class GlobalStateManager {
   undo(): boolean {
     const snapshot = this.historyManager.undo();
     if (snapshot) {
-      const prevState = { ...this.state };
-      this.state = snapshot.state;
+      const prevState = this.state;
+      this.state = this.historyManager.getCurrentState()!;
+      this.clearOptimisticLog();
       
       // 通知监听器
-      this.listeners.forEach(listener => {
-        try {
-          listener(this.state, prevState);
-        } catch (err) {
-          console.error('[GlobalState] Error in state listener during undo:', err);
-        }
-      });
+      this.notifyListeners(prevState);
 
       if (this.debug) {
         console.log('[GlobalState] State undone to snapshot:', snapshot.id);
@@ -695,17 +1536,12 @@ export class GlobalStateManager {
   redo(): boolean {
     const snapshot = this.historyManager.redo();
     if (snapshot) {
-      const prevState = { ...this.state };
-      this.state = snapshot.state;
+      const prevState = this.state;
+      this.state = this.historyManager.getCurrentState()!;
+      this.clearOptimisticLog();
       
       // 通知监听器
-      this.listeners.forEach(listener => {
-        try {
-          listener(this.state, prevState);
-        } catch (err) {
-          console.error('[GlobalState] Error in state listener during redo:', err);
-        }
-      });
+      this.notifyListeners(prevState);
 
       if (this.debug) {
         console.log('[GlobalState] State redone to snapshot:', snapshot.id);
@@ -722,17 +1558,12 @@ export class GlobalStateManager {
   jumpToSnapshot(snapshotId: string): boolean {
     const snapshot = this.historyManager.jumpTo(snapshotId);
     if (snapshot) {
-      const prevState = { ...this.state };
-      this.state = snapshot.state;
+      const prevState = this.state;
+      this.state = this.historyManager.getCurrentState()!;
+      this.clearOptimisticLog();
       
       // 通知监听器
-      this.listeners.forEach(listener => {
-        try {
-          listener(this.state, prevState);
-        } catch (err) {
-          console.error('[GlobalState] Error in state listener during jump:', err);
-        }
-      });
+      this.notifyListeners(prevState);
 
       if (this.debug) {
         console.log('[GlobalState] State jumped to snapshot:', snapshot.id);
@@ -758,12 +1589,66 @@ export class GlobalStateManager {
   }
 
   /**
-   * 清除状态历史
+   * 获取指定快照对应的完整状态
+   */
+  getSnapshotState(snapshotId: string): GlobalState | null {
+    return this.historyManager.getSnapshotState(snapshotId);
+  }
+
+  /**
+   * 导出状态历史
+   */
+  exportHistory(): StateHistoryExport {
+    return this.historyManager.export();
+  }
+
+  /**
+   * 导入状态历史（如问题报告附带的历史文件），并切换到导入历史的当前快照
+   * @returns 数据格式是否有效
+   */
+  importHistory(data: StateHistoryExport | string): boolean {
+    let history: StateHistoryExport;
+    try {
+      history = typeof data === 'string' ? JSON.parse(data) : data;
+    } catch (err) {
+      console.error('[GlobalState] Failed to parse state history:', err);
+      return false;
+    }
+
+    if (!this.historyManager.import(history)) {
+      console.warn('[GlobalState] Invalid state history format');
+      return false;
+    }
+
+    const restoredState = this.historyManager.getCurrentState();
+    if (restoredState && restoredState !== this.state) {
+      const prevState = this.state;
+      this.state = restoredState;
+      this.notifyListeners(prevState);
+    }
+    return true;
+  }
+
+  /**
+   * 从持久化存储恢复历史，当前状态保持不变
+   */
+  async restoreHistory(): Promise<boolean> {
+    const restored = await this.historyManager.restore();
+
+    if (restored && this.debug) {
+      console.log('[GlobalState] State history restored:', this.historyManager.getStats());
+    }
+    return restored;
+  }
+
+  /**
+   * 清除状态历史，并立即覆盖持久化的历史
    */
   clearHistory(): void {
     this.historyManager.clear();
     // 创建当前状态的快照
     this.historyManager.createSnapshot(this.state, undefined, 'History cleared');
+    this.historyManager.persist();
   }
 
   /**
@@ -777,14 +1662,14 @@ export class GlobalStateManager {
    * 检查是否可以撤销
    */
   canUndo(): boolean {
-    return this.historyManager.getStats().canUndo;
+    return this.historyManager.canUndo();
   }
 
   /**
    * 检查是否可以重做
    */
   canRedo(): boolean {
-    return this.historyManager.getStats().canRedo;
+    return this.historyManager.canRedo();
   }
 }
 
@@ -797,15 +1682,27 @@ export const globalStateManager = new GlobalStateManager(undefined, {
     maxSnapshots: 50,
     enableTimeTravel: true,
     autoSnapshot: true,
-    snapshotInterval: 2000 // 2秒
+    snapshotInterval: 2000, // 2秒
+    storage: IndexedDBPersistence.isSupported() ? new IndexedDBPersistence() : undefined
   }
 });
 
 /**
  * 状态选择器工具函数
  */
-export function createSelector<T>(selector: (state: GlobalState) => T) {
-  return (state: GlobalState) => selector(state);
+export function createSelector<T>(selector: StateSelector<T>): StateSelector<T>;
+export function createSelector<S extends readonly StateSelector[], T>(
+  inputs: readonly [...S],
+  combiner: (...values: { [K in keyof S]: S[K] extends StateSelector<infer R> ? R : never }) => T
+): MemoizedSelector<T>;
+export function createSelector(selectorOrInputs: StateSelector | readonly StateSelector[], combiner?: (...values: any[]) => any) {
+  if (Array.isArray(selectorOrInputs)) {
+    return createMemoizedSelector(selectorOrInputs, combiner!);
+  }
+
+  // 各分支引用都未变化时复用上次结果（getState 每次返回新的顶层对象）
+  const selector = selectorOrInputs as StateSelector;
+  return createMemoizedSelector([(state: GlobalState) => state], selector, { inputEquals: shallowEqual });
 }
 
 /**
@@ -907,22 +1804,33 @@ export function useGlobalState() {
   }
 
   const [state, setState] = React.useState(globalStateManager.getState());
+  const [pendingActions, setPendingActions] = React.useState(globalStateManager.getPendingActions());
 
   React.useEffect(() => {
     const unsubscribe = globalStateManager.subscribe((newState) => {
       setState(newState);
     });
+    const unsubscribePending = globalStateManager.subscribePendingActions(setPendingActions);
 
-    return unsubscribe;
+    return () => {
+      unsubscribe();
+      unsubscribePending();
+    };
   }, []);
 
   const dispatch = React.useCallback(async (action: StateAction) => {
     await globalStateManager.dispatch(action);
   }, []);
 
+  const dispatchOptimistic = React.useCallback(<T,>(action: StateAction, commit: Promise<T> | (() => Promise<T>), options?: OptimisticActionOptions<T>) => {
+    return globalStateManager.dispatchOptimistic(action, commit, options);
+  }, []);
+
   return {
     state,
     dispatch,
+    dispatchOptimistic,
+    pendingActions,
     actions,
     selectors: Object.keys(selectors).reduce((acc, key) => {
       acc[key] = selectors[key as keyof typeof selectors](state);
@@ -931,6 +1839,24 @@ export function useGlobalState() {
   };
 }
 
+/**
+ * React Hook for derived state
+ */
+export function useDerivedState<T = any>(name: string): T | undefined {
+  if (!React) {
+    throw new Error('React is not available. Make sure you are using this hook in a React environment.');
+  }
+
+  const [value, setValue] = React.useState(() => globalStateManager.getDerived<T>(name));
+
+  React.useEffect(() => {
+    setValue(globalStateManager.getDerived<T>(name));
+    return globalStateManager.subscribe<T>(`derived.${name}`, (newValue: T) => setValue(() => newValue));
+  }, [name]);
+
+  return value;
+}
+
 /**
  * 状态持久化
  */
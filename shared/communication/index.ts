@@ -5,7 +5,15 @@
 
 // 基础通信系统
 export * from './event-bus';
+export * from './event-pattern';
 export * from './global-state';
+export * from './state-path';
+export * from './state-selectors';
+export * from './state-patch';
+export * from './state-schema';
+export * from './state-migration';
+export * from './event-schema';
+export * from './serialization';
 
 // 中间件系统
 export * from './middleware';
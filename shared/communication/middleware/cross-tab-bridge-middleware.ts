@@ -0,0 +1,466 @@
+/**
+ * 跨标签页桥接中间件 - 在同源的多个窗口/标签页之间同步事件
+ * 优先使用 BroadcastChannel，不支持时回退到 localStorage 的 storage 事件
+ */
+
+import { BaseEvent } from '../../types/events';
+import { createEventPatternMatcher } from '../event-pattern';
+import { EventMiddleware } from './event-middleware';
+import { PayloadSerializer, SerializedPayload } from '../serialization';
+
+// ==================== 传输层类型定义 ====================
+
+/**
+ * 跨标签页传输的消息
+ */
+export interface CrossTabMessage {
+  /**
+   * 发送方标签页ID
+   */
+  origin: string;
+
+  /**
+   * 被同步的事件；设置 payload 时只包含 id、type 等头部字段
+   */
+  event: BaseEvent;
+
+  /**
+   * 序列化后的完整事件
+   */
+  payload?: SerializedPayload;
+
+  /**
+   * 发送时间
+   */
+  sentAt: number;
+}
+
+/**
+ * 跨标签页传输接口
+ */
+export interface CrossTabTransport {
+  /**
+   * 传输方式名称
+   */
+  readonly kind: string;
+
+  /**
+   * 是否可以直接传递二进制数据（结构化克隆）
+   */
+  readonly binary?: boolean;
+
+  post(message: CrossTabMessage): void;
+  subscribe(handler: (message: CrossTabMessage) => void): () => void;
+  close(): void;
+}
+
+/**
+ * 事件上的跨标签页元数据
+ */
+export interface CrossTabEventMetadata {
+  origin: string;
+  receivedAt: number;
+}
+
+// ==================== BroadcastChannel 传输 ====================
+
+export class BroadcastChannelTransport implements CrossTabTransport {
+  public readonly kind = 'broadcast-channel';
+  public readonly binary = true;
+  private channel: BroadcastChannel;
+
+  constructor(channelName: string) {
+    this.channel = new BroadcastChannel(channelName);
+  }
+
+  post(message: CrossTabMessage): void {
+    this.channel.postMessage(message);
+  }
+
+  subscribe(handler: (message: CrossTabMessage) => void): () => void {
+    const listener = (e: MessageEvent) => handler(e.data as CrossTabMessage);
+    this.channel.addEventListener('message', listener);
+    return () => this.channel.removeEventListener('message', listener);
+  }
+
+  close(): void {
+    this.channel.close();
+  }
+}
+
+// ==================== localStorage 传输 ====================
+
+/**
+ * 通过写入 localStorage 触发其他标签页的 storage 事件
+ * storage 事件不会在写入方标签页触发，写入后立即删除以免残留
+ */
+export class StorageEventTransport implements CrossTabTransport {
+  public readonly kind = 'storage-event';
+  private storageKey: string;
+
+  constructor(channelName: string) {
+    this.storageKey = `__cross_tab__${channelName}`;
+  }
+
+  post(message: CrossTabMessage): void {
+    try {
+      localStorage.setItem(this.storageKey, JSON.stringify(message));
+      localStorage.removeItem(this.storageKey);
+    } catch (error) {
+      console.warn('[CrossTabBridge] Failed to write storage message:', error);
+    }
+  }
+
+  subscribe(handler: (message: CrossTabMessage) => void): () => void {
+    const listener = (e: StorageEvent) => {
+      if (e.key !== this.storageKey || !e.newValue) {
+        return;
+      }
+
+      try {
+        handler(JSON.parse(e.newValue) as CrossTabMessage);
+      } catch (error) {
+        console.warn('[CrossTabBridge] Failed to parse storage message:', error);
+      }
+    };
+
+    window.addEventListener('storage', listener);
+    return () => window.removeEventListener('storage', listener);
+  }
+
+  close(): void {
+    // storage 事件无需关闭
+  }
+}
+
+/**
+ * 根据运行环境选择传输方式
+ */
+export function createCrossTabTransport(channelName: string): CrossTabTransport | null {
+  if (typeof BroadcastChannel !== 'undefined') {
+    return new BroadcastChannelTransport(channelName);
+  }
+  if (typeof window !== 'undefined' && typeof localStorage !== 'undefined') {
+    return new StorageEventTransport(channelName);
+  }
+  return null;
+}
+
+// ==================== 跨标签页桥接中间件 ====================
+
+/**
+ * 可重新发射远端事件的事件总线
+ */
+export interface CrossTabEventTarget {
+  emit(event: BaseEvent): Promise<void>;
+}
+
+export interface CrossTabBridgeMiddlewareOptions {
+  /**
+   * 通道名称，同名通道的标签页之间互相同步
+   */
+  channelName?: string;
+
+  /**
+   * 需要同步的事件类型，支持通配模式
+   */
+  include?: string[];
+
+  /**
+   * 不同步的事件类型，优先于 include，支持通配模式
+   */
+  exclude?: string[];
+
+  /**
+   * 自定义传输方式
+   */
+  transport?: CrossTabTransport;
+
+  /**
+   * 去重记录的最大事件ID数
+   */
+  maxSeenIds?: number;
+
+  /**
+   * 序列化器，传输方式支持二进制时使用（MessagePack/CBOR，大负载可压缩），否则回退到 JSON
+   */
+  serializer?: PayloadSerializer;
+
+  debug?: boolean;
+}
+
+export class CrossTabBridgeMiddleware implements EventMiddleware {
+  public readonly name = 'cross-tab-bridge';
+  public readonly priority = 95; // 最后执行，只同步通过其他中间件检查的事件
+  public enabled?: boolean;
+
+  /**
+   * 当前标签页ID
+   */
+  public readonly tabId: string;
+
+  private include: Set<string>;
+  private exclude: Set<string>;
+  private isIncluded: (eventType: string) => boolean = () => false; // include/exclude 编译后的匹配函数
+  private isExcluded: (eventType: string) => boolean = () => false;
+  private transport: CrossTabTransport | null;
+  private unsubscribe?: () => void;
+  private eventBus?: CrossTabEventTarget;
+  private seenIds: Set<string> = new Set();
+  private maxSeenIds: number;
+  private serializer?: PayloadSerializer;
+  private receiveChain: Promise<void> = Promise.resolve();
+  private debug: boolean;
+
+  constructor(options: CrossTabBridgeMiddlewareOptions = {}) {
+    this.tabId = `tab_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    this.include = new Set(options.include || []);
+    this.exclude = new Set(options.exclude || []);
+    this.compileMatchers();
+    this.transport = options.transport || createCrossTabTransport(options.channelName || 'micro-frontend-events');
+    this.maxSeenIds = options.maxSeenIds || 500;
+    this.serializer = options.serializer;
+    this.debug = options.debug || false;
+
+    if (!this.transport && this.debug) {
+      console.warn('[CrossTabBridge] No cross-tab transport available, bridge disabled');
+    }
+  }
+
+  /**
+   * 连接事件总线，开始接收其他标签页的事件
+   */
+  connect(eventBus: CrossTabEventTarget): void {
+    this.disconnect();
+    this.eventBus = eventBus;
+
+    if (this.transport) {
+      this.unsubscribe = this.transport.subscribe(message => this.receive(message));
+    }
+  }
+
+  /**
+   * 断开事件总线
+   */
+  disconnect(): void {
+    if (this.unsubscribe) {
+      this.unsubscribe();
+      this.unsubscribe = undefined;
+    }
+    this.eventBus = undefined;
+  }
+
+  async process<T extends BaseEvent>(event: T, next: (event: T) => Promise<void>): Promise<void> {
+    await next(event);
+
+    if (!this.transport || !this.shouldBridge(event)) {
+      return;
+    }
+
+    this.markSeen(event.id);
+
+    try {
+      this.transport.post(await this.createMessage(event));
+
+      if (this.debug) {
+        console.log(`[CrossTabBridge] Broadcast event: ${event.type}`, event);
+      }
+    } catch (error) {
+      console.warn(`[CrossTabBridge] Failed to broadcast event ${event.type}:`, error);
+    }
+  }
+
+  private async createMessage(event: BaseEvent): Promise<CrossTabMessage> {
+    if (this.serializer && this.transport?.binary) {
+      const { id, type, source, timestamp } = event;
+      return {
+        origin: this.tabId,
+        event: { id, type, source, timestamp },
+        payload: await this.serializer.serialize(event),
+        sentAt: Date.now()
+      };
+    }
+
+    // 经过 JSON 序列化，去掉函数等无法跨上下文传递的值
+    return JSON.parse(JSON.stringify({
+      origin: this.tabId,
+      event,
+      sentAt: Date.now()
+    }));
+  }
+
+  /**
+   * 处理其他标签页发来的消息
+   */
+  private receive(message: CrossTabMessage): void {
+    if (this.enabled === false || !this.eventBus) {
+      return;
+    }
+
+    const { origin, event, payload } = message || ({} as CrossTabMessage);
+    if (!event || !event.id || origin === this.tabId || this.seenIds.has(event.id)) {
+      return;
+    }
+
+    if (!this.isTypeBridged(event.type)) {
+      return;
+    }
+
+    this.markSeen(event.id);
+
+    if (!payload) {
+      this.emitRemote(origin, event);
+      return;
+    }
+
+    if (!this.serializer) {
+      console.warn(`[CrossTabBridge] Received serialized event ${event.type} without a serializer`);
+      return;
+    }
+
+    // 解码可能需要异步解压，按接收顺序依次发射
+    const serializer = this.serializer;
+    this.receiveChain = this.receiveChain
+      .then(() => serializer.deserialize(payload))
+      .then((decoded: BaseEvent) => this.emitRemote(origin, decoded))
+      .catch(error => {
+        console.warn(`[CrossTabBridge] Failed to decode event ${event.type}:`, error);
+      });
+  }
+
+  private emitRemote(origin: string, event: BaseEvent): void {
+    if (!this.eventBus) {
+      return;
+    }
+
+    const crossTab: CrossTabEventMetadata = { origin, receivedAt: Date.now() };
+    const remoteEvent: BaseEvent = {
+      ...event,
+      metadata: { ...event.metadata, crossTab }
+    };
+
+    if (this.debug) {
+      console.log(`[CrossTabBridge] Received event from ${origin}: ${event.type}`, remoteEvent);
+    }
+
+    this.eventBus.emit(remoteEvent).catch(error => {
+      console.error(`[CrossTabBridge] Failed to emit remote event ${event.type}:`, error);
+    });
+  }
+
+  /**
+   * 判断事件是否需要同步到其他标签页
+   */
+  private shouldBridge(event: BaseEvent): boolean {
+    const metadata = event.metadata || {};
+
+    // 远端事件不再转发，避免回环
+    if (metadata.crossTab) {
+      return false;
+    }
+
+    // 单个事件可通过 metadata.crossTab === false 退出同步
+    if (metadata.crossTab === false) {
+      return false;
+    }
+
+    // 请求-响应只在本标签页内有效
+    if (metadata.rpc) {
+      return false;
+    }
+
+    if (this.seenIds.has(event.id)) {
+      return false;
+    }
+
+    return this.isTypeBridged(event.type);
+  }
+
+  /**
+   * 判断事件类型是否在同步范围内
+   */
+  isTypeBridged(eventType: string): boolean {
+    return !this.isExcluded(eventType) && this.isIncluded(eventType);
+  }
+
+  /**
+   * 同步范围变化时重新编译匹配函数
+   */
+  private compileMatchers(): void {
+    this.isIncluded = createEventPatternMatcher(Array.from(this.include));
+    this.isExcluded = createEventPatternMatcher(Array.from(this.exclude));
+  }
+
+  private markSeen(eventId: string): void {
+    this.seenIds.add(eventId);
+
+    // 超出上限时淘汰最早的记录
+    if (this.seenIds.size > this.maxSeenIds) {
+      const oldest = this.seenIds.values().next().value;
+      if (oldest !== undefined) {
+        this.seenIds.delete(oldest);
+      }
+    }
+  }
+
+  /**
+   * 加入同步的事件类型
+   */
+  includeTypes(...eventTypes: string[]): void {
+    eventTypes.forEach(type => {
+      this.include.add(type);
+      this.exclude.delete(type);
+    });
+    this.compileMatchers();
+  }
+
+  /**
+   * 退出同步的事件类型
+   */
+  excludeTypes(...eventTypes: string[]): void {
+    eventTypes.forEach(type => {
+      this.include.delete(type);
+      this.exclude.add(type);
+    });
+    this.compileMatchers();
+  }
+
+  /**
+   * 获取桥接状态
+   */
+  getStats() {
+    return {
+      tabId: this.tabId,
+      transport: this.transport ? this.transport.kind : null,
+      connected: !!this.eventBus,
+      include: Array.from(this.include),
+      exclude: Array.from(this.exclude),
+      seenIds: this.seenIds.size
+    };
+  }
+
+  /**
+   * 关闭桥接
+   */
+  destroy(): void {
+    this.disconnect();
+    if (this.transport) {
+      this.transport.close();
+    }
+    this.seenIds.clear();
+  }
+}
+
+// ==================== 工厂函数 ====================
+
+/**
+ * 创建跨标签页桥接中间件，并连接到事件总线
+ */
+export function createCrossTabBridgeMiddleware(
+  eventBus: CrossTabEventTarget,
+  options: CrossTabBridgeMiddlewareOptions = {}
+): CrossTabBridgeMiddleware {
+  const middleware = new CrossTabBridgeMiddleware(options);
+  middleware.connect(eventBus);
+  return middleware;
+}
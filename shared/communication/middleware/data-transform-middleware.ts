@@ -4,7 +4,10 @@
  */
 
 import { BaseEvent } from '../../types/events';
-import { EventMiddleware } from './event-middleware';
+import { EventMiddleware, MiddlewareInterceptor } from './event-middleware';
+import { JsonSchema, SchemaValidationIssue, eventPayloadSchemas, formatSchemaIssues, validateJsonSchema } from '../event-schema';
+import { globalErrorManager } from '../error/error-manager';
+import { PayloadFormat, PayloadSerializer, SerializedPayload, createPayloadSerializer } from '../serialization';
 
 // 类型声明
 declare const process: any;
@@ -43,7 +46,13 @@ export interface ValidationResult {
 }
 
 export interface SerializationConfig {
-  format: 'json' | 'msgpack' | 'protobuf' | 'custom';
+  format: 'json' | 'msgpack' | 'cbor' | 'protobuf' | 'custom';
+
+  /**
+   * 编码后超过该字节数时使用 deflate 压缩，默认 16KB；设置为 0 时不压缩
+   */
+  compressThreshold?: number;
+
   customSerializer?: DataSerializer;
   customDeserializer?: DataDeserializer;
 }
@@ -357,6 +366,130 @@ export class DataSizeValidator implements DataValidator {
   }
 }
 
+/**
+ * 事件负载结构校验模式：'warn' 只报告，'reject' 报告并拒绝事件
+ */
+export type SchemaValidationMode = 'warn' | 'reject';
+
+export interface JsonSchemaValidatorOptions {
+  /**
+   * 各事件类型 data 的结构，默认为 shared/types/events.ts 对应的内置结构
+   */
+  schemas?: Record<string, JsonSchema>;
+
+  /**
+   * 默认模式，默认 'warn'
+   */
+  mode?: SchemaValidationMode;
+
+  /**
+   * 按事件类型覆盖模式
+   */
+  modes?: Record<string, SchemaValidationMode>;
+
+  /**
+   * 是否上报到 globalErrorManager，默认 true
+   */
+  report?: boolean;
+
+  onViolation?: (event: BaseEvent, issues: SchemaValidationIssue[], mode: SchemaValidationMode) => void;
+}
+
+/**
+ * JSON Schema 负载验证器
+ * 没有结构的事件类型直接通过；违规按发送应用（event.source）上报
+ */
+export class JsonSchemaValidator implements DataValidator {
+  public readonly name = 'json-schema';
+
+  private schemas: Map<string, JsonSchema>;
+  private mode: SchemaValidationMode;
+  private modes: Map<string, SchemaValidationMode>;
+  private report: boolean;
+  private onViolation?: (event: BaseEvent, issues: SchemaValidationIssue[], mode: SchemaValidationMode) => void;
+
+  constructor(options: JsonSchemaValidatorOptions = {}) {
+    this.schemas = new Map(Object.entries(options.schemas || eventPayloadSchemas));
+    this.mode = options.mode || 'warn';
+    this.modes = new Map(Object.entries(options.modes || {}));
+    this.report = options.report ?? true;
+    this.onViolation = options.onViolation;
+  }
+
+  validate(event: BaseEvent): ValidationResult {
+    const schema = this.schemas.get(event.type);
+    if (!schema) {
+      return { valid: true, errors: [], warnings: [] };
+    }
+
+    const issues = validateJsonSchema(schema, event.data);
+    if (issues.length === 0) {
+      return { valid: true, errors: [], warnings: [] };
+    }
+
+    const mode = this.getMode(event.type);
+    const messages = formatSchemaIssues(issues);
+
+    if (this.report) {
+      globalErrorManager.handleEventValidationError(
+        event.source,
+        event,
+        `Invalid payload for ${event.type} from ${event.source}: ${messages.join('; ')}`,
+        { mode, issues }
+      );
+    }
+
+    if (this.onViolation) {
+      this.onViolation(event, issues, mode);
+    }
+
+    return mode === 'reject'
+      ? { valid: false, errors: messages, warnings: [] }
+      : { valid: true, errors: [], warnings: messages };
+  }
+
+  /**
+   * 添加或替换事件结构，支持 JSON 字符串
+   */
+  addSchema(eventType: string, schema: JsonSchema | string): void {
+    this.schemas.set(eventType, typeof schema === 'string' ? JSON.parse(schema) : schema);
+  }
+
+  /**
+   * 批量加载事件结构，如从 JSON 文件读取的 { [eventType]: schema }
+   */
+  loadSchemas(schemas: Record<string, JsonSchema> | string): void {
+    const parsed: Record<string, JsonSchema> = typeof schemas === 'string' ? JSON.parse(schemas) : schemas;
+    Object.entries(parsed).forEach(([eventType, schema]) => this.addSchema(eventType, schema));
+  }
+
+  /**
+   * 移除事件结构
+   */
+  removeSchema(eventType: string): void {
+    this.schemas.delete(eventType);
+  }
+
+  /**
+   * 设置模式，指定事件类型时只影响该类型
+   */
+  setMode(mode: SchemaValidationMode, eventType?: string): void {
+    if (eventType) {
+      this.modes.set(eventType, mode);
+    } else {
+      this.mode = mode;
+    }
+  }
+
+  getMode(eventType: string): SchemaValidationMode {
+    return this.modes.get(eventType) || this.mode;
+  }
+
+  getSchemas(): Record<string, JsonSchema> {
+    return Object.fromEntries(this.schemas);
+  }
+}
+
 // ==================== 数据转换中间件 ====================
 
 export interface DataTransformMiddlewareOptions {
@@ -375,6 +508,7 @@ export class DataTransformMiddleware implements EventMiddleware {
   private transformRules: TransformRule[] = [];
   private validationRules: ValidationRule[] = [];
   private serializationConfig?: SerializationConfig;
+  private serializer?: PayloadSerializer;
   private debug: boolean;
   private onValidationError?: (event: BaseEvent, errors: string[]) => void;
   private onTransformError?: (event: BaseEvent, error: Error, transformer: DataTransformer) => void;
@@ -382,7 +516,7 @@ export class DataTransformMiddleware implements EventMiddleware {
   constructor(options: DataTransformMiddlewareOptions = {}) {
     this.transformRules = options.transformRules || [];
     this.validationRules = options.validationRules || [];
-    this.serializationConfig = options.serializationConfig;
+    this.setSerializationConfig(options.serializationConfig);
     this.debug = options.debug || false;
     this.onValidationError = options.onValidationError;
     this.onTransformError = options.onTransformError;
@@ -462,7 +596,8 @@ export class DataTransformMiddleware implements EventMiddleware {
             this.onValidationError(event, result.errors);
           }
 
-          throw new Error(`Validation failed: ${result.errors.join(', ')}`);
+          // 使用拦截错误，事件总线不会再发送该事件
+          throw new MiddlewareInterceptor(`Validation failed: ${result.errors.join(', ')}`, this.name);
         }
       } catch (error) {
         if (rule.required) {
@@ -515,7 +650,7 @@ export class DataTransformMiddleware implements EventMiddleware {
   }
 
   /**
-   * 序列化事件
+   * 序列化事件：在元数据中标记内容类型，实际编码在传输层通过 encodeEvent 完成
    */
   private serializeEvent<T extends BaseEvent>(event: T): T {
     if (!this.serializationConfig) {
@@ -523,15 +658,56 @@ export class DataTransformMiddleware implements EventMiddleware {
     }
 
     try {
-      // 这里可以根据配置进行序列化
-      // 目前保持原样，可以扩展支持不同的序列化格式
-      return event;
+      const contentType = this.serializer?.contentType;
+      if (!contentType) {
+        return event;
+      }
+
+      return {
+        ...event,
+        metadata: { ...event.metadata, contentType }
+      };
     } catch (error) {
       console.error('[DataTransformMiddleware] Serialization error:', error);
       return event;
     }
   }
 
+  /**
+   * 设置序列化配置，json/msgpack/cbor 使用内置序列化器
+   */
+  setSerializationConfig(config?: SerializationConfig): void {
+    this.serializationConfig = config;
+    this.serializer = config && ['json', 'msgpack', 'cbor'].includes(config.format)
+      ? createPayloadSerializer({ format: config.format as PayloadFormat, compressThreshold: config.compressThreshold })
+      : undefined;
+  }
+
+  /**
+   * 获取内置序列化器，可传给 WebSocket 连接或跨标签页桥接
+   */
+  getSerializer(): PayloadSerializer | undefined {
+    return this.serializer;
+  }
+
+  /**
+   * 按配置的格式编码事件
+   */
+  async encodeEvent(event: BaseEvent): Promise<SerializedPayload> {
+    if (!this.serializer) {
+      throw new Error(`[DataTransformMiddleware] No built-in serializer for format: ${this.serializationConfig?.format ?? 'none'}`);
+    }
+    return this.serializer.serialize(event);
+  }
+
+  /**
+   * 解码事件，按负载自带的内容类型选择格式
+   */
+  async decodeEvent<T extends BaseEvent = BaseEvent>(payload: SerializedPayload): Promise<T> {
+    const serializer = this.serializer || createPayloadSerializer();
+    return serializer.deserialize(payload);
+  }
+
   /**
    * 添加转换规则
    */
@@ -598,6 +774,18 @@ export function createDataTransformMiddleware(options: DataTransformMiddlewareOp
   return new DataTransformMiddleware(options);
 }
 
+/**
+ * 创建 JSON Schema 负载验证规则
+ */
+export function createJsonSchemaValidationRule(options: JsonSchemaValidatorOptions = {}): ValidationRule {
+  return {
+    eventTypes: ['*'],
+    validator: new JsonSchemaValidator(options),
+    // reject 模式下验证器返回 valid: false，需要作为必需规则才会拒绝事件
+    required: true
+  };
+}
+
 /**
  * 创建基础数据转换中间件
  */
@@ -4,6 +4,7 @@
  */
 
 import { BaseEvent } from '../../types/events';
+import { MiddlewareChainEntry, describeConditions } from './middleware-composition';
 
 // ==================== 中间件接口定义 ====================
 
@@ -32,6 +33,11 @@ export interface EventMiddleware {
    * 是否启用
    */
   enabled?: boolean;
+
+  /**
+   * 是否处理该事件，返回 false 时管理器跳过此中间件（见 when/forTypes/forApps）
+   */
+  appliesTo?(event: BaseEvent): boolean;
 }
 
 /**
@@ -181,6 +187,7 @@ export class EventMiddlewareManager {
     // 创建中间件执行链
     let processedEvent = event;
     let currentIndex = 0;
+    let interceptor: MiddlewareInterceptor | undefined;
 
     const executeNext = async (evt: T): Promise<void> => {
       if (currentIndex >= enabledMiddleware.length || context.intercepted) {
@@ -190,6 +197,13 @@ export class EventMiddlewareManager {
       const middleware = enabledMiddleware[currentIndex++];
       const middlewareStartTime = Date.now();
 
+      // 按当前事件判断，前面的中间件可能已修改事件
+      if (middleware.appliesTo && !middleware.appliesTo(evt)) {
+        processedEvent = evt;
+        await executeNext(evt);
+        return;
+      }
+
       try {
         if (this.debug) {
           console.log(`[EventMiddleware] Executing middleware: ${middleware.name}`);
@@ -227,6 +241,14 @@ export class EventMiddlewareManager {
           console.error(`[EventMiddleware] Error in middleware "${middleware.name}":`, middlewareError);
         }
 
+        // 拦截器错误：终止管道，并在管道结束后抛给调用方
+        if (middlewareError instanceof MiddlewareInterceptor) {
+          context.intercepted = true;
+          context.interceptReason = middlewareError.reason;
+          interceptor = middlewareError;
+          return;
+        }
+
         // 决定是否继续执行后续中间件
         if (this.shouldStopOnError(middlewareError, middleware)) {
           context.intercepted = true;
@@ -249,9 +271,37 @@ export class EventMiddlewareManager {
       });
     }
 
+    if (interceptor) {
+      throw interceptor;
+    }
+
     return processedEvent;
   }
 
+  /**
+   * 获取事件经过的中间件链路（按执行顺序），用于排查顺序和挂载条件
+   */
+  getEffectiveChain(event: BaseEvent): MiddlewareChainEntry[] {
+    return this.middleware.map(middleware => {
+      const entry: MiddlewareChainEntry = {
+        name: middleware.name,
+        priority: middleware.priority || 100,
+        active: true,
+        conditions: describeConditions(middleware)
+      };
+
+      if (middleware.enabled === false) {
+        entry.active = false;
+        entry.skipReason = 'disabled';
+      } else if (middleware.appliesTo && !middleware.appliesTo(event)) {
+        entry.active = false;
+        entry.skipReason = 'condition';
+      }
+
+      return entry;
+    });
+  }
+
   /**
    * 判断是否应该在错误时停止执行
    */
@@ -5,23 +5,29 @@
 
 // 事件中间件
 export { EventMiddlewareManager, createMiddleware, createInterceptMiddleware, MiddlewareInterceptor } from './event-middleware';
-export { LoggingMiddleware, MemoryLogStorage, ConsoleLogStorage, CompositeLogStorage, createLoggingMiddleware, createDevLoggingMiddleware, createProdLoggingMiddleware } from './logging-middleware';
-export { PermissionMiddleware, DefaultPermissionStrategy, createPermissionMiddleware, createDevPermissionMiddleware, createProdPermissionMiddleware } from './permission-middleware';
-export { RateLimitMiddleware, MemoryRateLimitStorage, SlidingWindowAlgorithm, TokenBucketAlgorithm, FixedWindowAlgorithm, createRateLimitMiddleware, createBasicRateLimitConfig, createDevRateLimitMiddleware, createProdRateLimitMiddleware } from './rate-limit-middleware';
-export { DataTransformMiddleware, DateTransformer, NumberTransformer, StringSanitizerTransformer, EventStructureValidator, DataSizeValidator, createDataTransformMiddleware, createBasicDataTransformMiddleware } from './data-transform-middleware';
+export { LoggingMiddleware, MemoryLogStorage, ConsoleLogStorage, CompositeLogStorage, HttpLogStorage, IndexedDBLogStorage, LogQuery, matchesLogFilter, filterLogs, toSerializableLogEntry, toNDJSON, resolveTraceId, connectLoggerToStorage, createLogQuery, createLoggingMiddleware, createDevLoggingMiddleware, createProdLoggingMiddleware } from './logging-middleware';
+export { PermissionMiddleware, StatePermissionMiddleware, DefaultPermissionStrategy, createPermissionMiddleware, createStatePermissionMiddleware, createDevPermissionMiddleware, createProdPermissionMiddleware } from './permission-middleware';
+export { PolicyEngine, PolicyPermissionStrategy, parsePolicySet, createPolicyPermissionStrategy } from './policy-engine';
+export { RateLimitMiddleware, RateLimitExceeded, MemoryRateLimitStorage, SharedRateLimitStorage, SlidingWindowAlgorithm, TokenBucketAlgorithm, FixedWindowAlgorithm, createRateLimitMiddleware, createBasicRateLimitConfig, createDevRateLimitMiddleware, createProdRateLimitMiddleware } from './rate-limit-middleware';
+export { DataTransformMiddleware, DateTransformer, NumberTransformer, StringSanitizerTransformer, EventStructureValidator, DataSizeValidator, JsonSchemaValidator, createDataTransformMiddleware, createJsonSchemaValidationRule, createBasicDataTransformMiddleware } from './data-transform-middleware';
+export { CrossTabBridgeMiddleware, BroadcastChannelTransport, StorageEventTransport, createCrossTabTransport, createCrossTabBridgeMiddleware } from './cross-tab-bridge-middleware';
+export { ConditionalMiddleware, ConditionalStateMiddleware, when, forTypes, forApps, whenState, forActionTypes, forStateApps, unwrapMiddleware, describeConditions } from './middleware-composition';
 
 // 状态中间件
 export { StateMiddlewareManager, createStateMiddleware, createInterceptStateMiddleware, StateMiddlewareInterceptor } from './state-middleware';
-export { PersistenceMiddleware, LocalStoragePersistence, SessionStoragePersistence, MemoryPersistence, createPersistenceMiddleware, createBasicPersistenceConfig, createDevPersistenceMiddleware, createProdPersistenceMiddleware } from './persistence-middleware';
+export { PersistenceMiddleware, LocalStoragePersistence, SessionStoragePersistence, MemoryPersistence, IndexedDBPersistence, EncryptedPersistence, DEFAULT_PERSISTENCE_STORAGE, SECURE_PERSISTENCE_STORAGE, createPersistenceMiddleware, createBasicPersistenceConfig, createDevPersistenceMiddleware, createProdPersistenceMiddleware } from './persistence-middleware';
 
 // 类型导出
 export type { EventMiddleware, MiddlewareContext, MiddlewareErrorHandler } from './event-middleware';
-export type { LogEntry, LogStorage, LogFilter, LoggingMiddlewareOptions } from './logging-middleware';
-export type { Permission, Role, User, PermissionCondition, PermissionContext, PermissionStrategy, PermissionResult, PermissionMiddlewareOptions } from './permission-middleware';
-export type { RateLimitConfig, RateLimitResult, RateLimitEntry, RateLimitStorage, RateLimitMiddlewareOptions } from './rate-limit-middleware';
-export type { DataTransformer, TransformRule, ValidationRule, DataValidator, ValidationResult, SerializationConfig, DataTransformMiddlewareOptions } from './data-transform-middleware';
+export type { LogEntry, LogStorage, LogFilter, LoggingMiddlewareOptions, HttpLogStorageOptions, IndexedDBLogStorageOptions, LogCorrelation } from './logging-middleware';
+export type { Permission, Role, User, PermissionCondition, PermissionContext, PermissionResource, PermissionStrategy, PermissionResult, PermissionMiddlewareOptions, StatePermissionMiddlewareOptions } from './permission-middleware';
+export type { PolicyEffect, PolicyOperator, PolicyCondition, PolicyRule, PolicySet, PolicyRequest, PolicyRuleEvaluation, PolicyDecision, PolicyEngineOptions, PolicyPermissionStrategyOptions } from './policy-engine';
+export type { RateLimitConfig, RateLimitResult, RateLimitEntry, RateLimitStorage, SharedRateLimitStorageOptions, RateLimitMiddlewareOptions, AppQuotaStatus, ThrottledEventRecord } from './rate-limit-middleware';
+export type { DataTransformer, TransformRule, ValidationRule, DataValidator, ValidationResult, SerializationConfig, SchemaValidationMode, JsonSchemaValidatorOptions, DataTransformMiddlewareOptions } from './data-transform-middleware';
+export type { CrossTabMessage, CrossTabTransport, CrossTabEventMetadata, CrossTabEventTarget, CrossTabBridgeMiddlewareOptions } from './cross-tab-bridge-middleware';
+export type { EventMiddlewarePredicate, StateMiddlewarePredicate, MiddlewareChainEntry } from './middleware-composition';
 export type { StateMiddleware, StateMiddlewareContext, StateMiddlewareErrorHandler } from './state-middleware';
-export type { PersistenceStorage, PersistenceConfig, PersistenceMiddlewareOptions } from './persistence-middleware';
+export type { PersistenceStorage, PersistenceConfig, PersistPathConfig, EncryptedPersistenceOptions, PersistenceMiddlewareOptions } from './persistence-middleware';
 
 // 工厂函数 - 创建预配置的中间件集合
 
@@ -29,7 +35,7 @@ export type { PersistenceStorage, PersistenceConfig, PersistenceMiddlewareOption
 import { LoggingMiddleware } from './logging-middleware';
 import { PermissionMiddleware } from './permission-middleware';
 import { RateLimitMiddleware } from './rate-limit-middleware';
-import { DataTransformMiddleware } from './data-transform-middleware';
+import { DataTransformMiddleware, createJsonSchemaValidationRule } from './data-transform-middleware';
 import { PersistenceMiddleware } from './persistence-middleware';
 
 /**
@@ -40,6 +46,8 @@ export function createDevMiddlewareConfig() {
   const permission = new PermissionMiddleware({ debug: true });
   const rateLimit = new RateLimitMiddleware({ debug: true });
   const dataTransform = new DataTransformMiddleware({ debug: true });
+  // 开发环境拒绝不符合结构的事件，尽早暴露问题
+  dataTransform.addValidationRule(createJsonSchemaValidationRule({ mode: 'reject' }));
   const persistence = new PersistenceMiddleware({ debug: true });
 
   return {
@@ -59,6 +67,8 @@ export function createProdMiddlewareConfig(getCurrentUser?: () => Promise<any>)
   const permission = new PermissionMiddleware({ getCurrentUser, debug: false });
   const rateLimit = new RateLimitMiddleware({ debug: false });
   const dataTransform = new DataTransformMiddleware({ debug: false });
+  // 生产环境只上报，不影响用户操作
+  dataTransform.addValidationRule(createJsonSchemaValidationRule({ mode: 'warn' }));
   const persistence = new PersistenceMiddleware({ debug: false });
 
   return {
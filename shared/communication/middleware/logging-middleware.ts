@@ -5,6 +5,8 @@
 
 import { BaseEvent } from '../../types/events';
 import { EventMiddleware } from './event-middleware';
+import type { Logger, LogEntry as LoggerEntry } from '../../utils/logger';
+import { toSerializable } from '../../utils';
 
 // ==================== 日志级别定义 ====================
 
@@ -27,6 +29,12 @@ export interface LogEntry {
   source: string;
   message: string;
   duration?: number;
+
+  /**
+   * 链路ID，同一次操作在各应用中产生的日志共享该ID
+   */
+  traceId?: string;
+
   metadata?: Record<string, any>;
   error?: Error;
 }
@@ -44,11 +52,60 @@ export interface LogFilter {
   level?: LogLevel;
   eventType?: string;
   source?: string;
+  eventId?: string;
+  traceId?: string;
+
+  /**
+   * 按消息内容模糊匹配（不区分大小写）
+   */
+  search?: string;
+
   startTime?: string;
   endTime?: string;
   limit?: number;
 }
 
+/**
+ * 判断日志是否满足过滤条件（不含 limit）
+ */
+export function matchesLogFilter(log: LogEntry, filter: LogFilter): boolean {
+  if (filter.level !== undefined && log.level < filter.level) return false;
+  if (filter.eventType && log.eventType !== filter.eventType) return false;
+  if (filter.source && log.source !== filter.source) return false;
+  if (filter.eventId && log.eventId !== filter.eventId) return false;
+  if (filter.traceId && log.traceId !== filter.traceId) return false;
+  if (filter.search && !log.message.toLowerCase().includes(filter.search.toLowerCase())) return false;
+  if (filter.startTime && log.timestamp < filter.startTime) return false;
+  if (filter.endTime && log.timestamp > filter.endTime) return false;
+  return true;
+}
+
+/**
+ * 按过滤条件筛选日志，limit 保留最新的若干条
+ */
+export function filterLogs(logs: LogEntry[], filter?: LogFilter): LogEntry[] {
+  if (!filter) {
+    return [...logs];
+  }
+
+  const filtered = logs.filter(log => matchesLogFilter(log, filter));
+  return filter.limit ? filtered.slice(-filter.limit) : filtered;
+}
+
+/**
+ * 转换为可 JSON 序列化的日志：错误展开为普通对象，去掉循环引用和函数
+ */
+export function toSerializableLogEntry(entry: LogEntry): LogEntry {
+  return JSON.parse(JSON.stringify(toSerializable(entry)));
+}
+
+/**
+ * 编码为 NDJSON（每行一条日志）
+ */
+export function toNDJSON(entries: LogEntry[]): string {
+  return entries.map(entry => JSON.stringify(toSerializableLogEntry(entry))).join('\n') + '\n';
+}
+
 // ==================== 内存日志存储 ====================
 
 export class MemoryLogStorage implements LogStorage {
@@ -69,35 +126,7 @@ export class MemoryLogStorage implements LogStorage {
   }
 
   async read(filter?: LogFilter): Promise<LogEntry[]> {
-    let filteredLogs = [...this.logs];
-
-    if (filter) {
-      if (filter.level !== undefined) {
-        filteredLogs = filteredLogs.filter(log => log.level >= filter.level!);
-      }
-      
-      if (filter.eventType) {
-        filteredLogs = filteredLogs.filter(log => log.eventType === filter.eventType);
-      }
-      
-      if (filter.source) {
-        filteredLogs = filteredLogs.filter(log => log.source === filter.source);
-      }
-      
-      if (filter.startTime) {
-        filteredLogs = filteredLogs.filter(log => log.timestamp >= filter.startTime!);
-      }
-      
-      if (filter.endTime) {
-        filteredLogs = filteredLogs.filter(log => log.timestamp <= filter.endTime!);
-      }
-      
-      if (filter.limit) {
-        filteredLogs = filteredLogs.slice(-filter.limit);
-      }
-    }
-
-    return filteredLogs;
+    return filterLogs(this.logs, filter);
   }
 
   async clear(): Promise<void> {
@@ -197,6 +226,384 @@ export class CompositeLogStorage implements LogStorage {
   }
 }
 
+// ==================== HTTP 日志存储 ====================
+
+export interface HttpLogStorageOptions {
+  /**
+   * 接收 NDJSON 的地址
+   */
+  endpoint: string;
+
+  /**
+   * 每批发送的最大条数，默认 50
+   */
+  batchSize?: number;
+
+  /**
+   * 未攒满一批时的发送间隔（毫秒），默认 5000
+   */
+  flushInterval?: number;
+
+  /**
+   * 单批失败后的重试次数，默认 3
+   */
+  maxRetries?: number;
+
+  /**
+   * 首次重试延迟（毫秒），之后按指数退避，默认 1000
+   */
+  retryDelay?: number;
+
+  /**
+   * 离线或发送失败时最多缓存的条数，超出后丢弃最早的日志，默认 5000
+   */
+  maxBufferSize?: number;
+
+  headers?: Record<string, string>;
+}
+
+/**
+ * 批量以 NDJSON 格式发送日志
+ * 离线或发送失败时保留在缓冲区，恢复网络（online 事件）或下一次定时发送时重试
+ */
+export class HttpLogStorage implements LogStorage {
+  private options: Required<Omit<HttpLogStorageOptions, 'headers'>> & { headers: Record<string, string> };
+  private buffer: LogEntry[] = [];
+  private flushTimer: ReturnType<typeof setTimeout> | null = null;
+  private flushing: Promise<void> | null = null;
+  private stats = { sent: 0, dropped: 0, failedBatches: 0 };
+  private handleOnline = () => {
+    void this.flush();
+  };
+
+  constructor(options: HttpLogStorageOptions) {
+    this.options = {
+      batchSize: 50,
+      flushInterval: 5000,
+      maxRetries: 3,
+      retryDelay: 1000,
+      maxBufferSize: 5000,
+      ...options,
+      headers: options.headers || {}
+    };
+
+    if (typeof window !== 'undefined') {
+      window.addEventListener('online', this.handleOnline);
+      window.addEventListener('pagehide', this.handleOnline);
+    }
+  }
+
+  async write(entry: LogEntry): Promise<void> {
+    this.buffer.push(entry);
+    this.trimBuffer();
+
+    if (this.buffer.length >= this.options.batchSize) {
+      void this.flush();
+    } else {
+      this.scheduleFlush();
+    }
+  }
+
+  /**
+   * 只能读取尚未发送的日志
+   */
+  async read(filter?: LogFilter): Promise<LogEntry[]> {
+    return filterLogs(this.buffer, filter);
+  }
+
+  async clear(): Promise<void> {
+    this.buffer = [];
+  }
+
+  async getSize(): Promise<number> {
+    return this.buffer.length;
+  }
+
+  /**
+   * 立即发送缓冲区中的日志
+   */
+  flush(): Promise<void> {
+    if (!this.flushing) {
+      this.flushing = this.sendAll().finally(() => {
+        this.flushing = null;
+        if (this.buffer.length > 0) {
+          this.scheduleFlush();
+        }
+      });
+    }
+    return this.flushing;
+  }
+
+  getStats() {
+    return {
+      pending: this.buffer.length,
+      ...this.stats
+    };
+  }
+
+  destroy(): void {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+    if (typeof window !== 'undefined') {
+      window.removeEventListener('online', this.handleOnline);
+      window.removeEventListener('pagehide', this.handleOnline);
+    }
+  }
+
+  private scheduleFlush(): void {
+    if (this.flushTimer) {
+      return;
+    }
+    this.flushTimer = setTimeout(() => {
+      this.flushTimer = null;
+      void this.flush();
+    }, this.options.flushInterval);
+  }
+
+  private async sendAll(): Promise<void> {
+    while (this.buffer.length > 0 && this.isOnline()) {
+      const batch = this.buffer.splice(0, this.options.batchSize);
+
+      if (!(await this.send(batch))) {
+        // 放回缓冲区，等待下次重试
+        this.stats.failedBatches++;
+        this.buffer = batch.concat(this.buffer);
+        this.trimBuffer();
+        return;
+      }
+    }
+  }
+
+  /**
+   * 发送一批日志，返回是否可以从缓冲区移除
+   */
+  private async send(batch: LogEntry[]): Promise<boolean> {
+    const body = toNDJSON(batch);
+
+    for (let attempt = 0; attempt <= this.options.maxRetries; attempt++) {
+      if (attempt > 0) {
+        await new Promise(resolve => setTimeout(resolve, this.options.retryDelay * Math.pow(2, attempt - 1)));
+      }
+
+      try {
+        const response = await fetch(this.options.endpoint, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/x-ndjson', ...this.options.headers },
+          body,
+          keepalive: body.length < 60 * 1024 // keepalive 请求体有 64KB 限制
+        });
+
+        if (response.ok) {
+          this.stats.sent += batch.length;
+          return true;
+        }
+
+        // 4xx（429 除外）重试也不会成功，直接丢弃
+        if (response.status >= 400 && response.status < 500 && response.status !== 429) {
+          console.warn(`[HttpLogStorage] Endpoint rejected ${batch.length} log(s) with HTTP ${response.status}`);
+          this.stats.dropped += batch.length;
+          return true;
+        }
+      } catch (error) {
+        // 网络错误，继续重试
+      }
+
+      if (!this.isOnline()) {
+        break;
+      }
+    }
+
+    return false;
+  }
+
+  private trimBuffer(): void {
+    const overflow = this.buffer.length - this.options.maxBufferSize;
+    if (overflow > 0) {
+      this.buffer.splice(0, overflow);
+      this.stats.dropped += overflow;
+    }
+  }
+
+  private isOnline(): boolean {
+    return typeof navigator === 'undefined' || navigator.onLine !== false;
+  }
+}
+
+// ==================== IndexedDB 日志存储 ====================
+
+export interface IndexedDBLogStorageOptions {
+  dbName?: string;
+  storeName?: string;
+
+  /**
+   * 环形缓冲区容量，超出后删除最早的日志，默认 5000
+   */
+  maxEntries?: number;
+}
+
+/**
+ * IndexedDB 环形缓冲区，刷新页面后日志仍然保留
+ * 同一轮事件循环内的写入合并到一个事务中提交
+ */
+export class IndexedDBLogStorage implements LogStorage {
+  private dbName: string;
+  private storeName: string;
+  private maxEntries: number;
+  private dbPromise: Promise<IDBDatabase> | null = null;
+  private pending: LogEntry[] = [];
+  private flushPromise: Promise<void> | null = null;
+
+  constructor(options: IndexedDBLogStorageOptions = {}) {
+    this.dbName = options.dbName || 'qiankun-logs';
+    this.storeName = options.storeName || 'logs';
+    this.maxEntries = options.maxEntries || 5000;
+  }
+
+  /**
+   * 当前环境是否支持 IndexedDB
+   */
+  static isSupported(): boolean {
+    return typeof indexedDB !== 'undefined';
+  }
+
+  write(entry: LogEntry): Promise<void> {
+    this.pending.push(toSerializableLogEntry(entry));
+    if (!this.flushPromise) {
+      this.flushPromise = Promise.resolve().then(() => this.commit());
+    }
+    return this.flushPromise;
+  }
+
+  async read(filter?: LogFilter): Promise<LogEntry[]> {
+    let stored: LogEntry[] = [];
+
+    try {
+      const db = await this.open();
+      stored = await new Promise<LogEntry[]>((resolve, reject) => {
+        const store = db.transaction(this.storeName, 'readonly').objectStore(this.storeName);
+        // 按链路或事件查询时使用索引
+        const request = filter?.traceId
+          ? store.index('traceId').getAll(filter.traceId)
+          : filter?.eventId
+            ? store.index('eventId').getAll(filter.eventId)
+            : store.getAll();
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+    } catch (error) {
+      console.error('[IndexedDBLogStorage] Failed to read logs:', error);
+    }
+
+    const logs = stored.concat(this.pending).map(({ seq, ...entry }: LogEntry & { seq?: number }) => entry);
+    return filterLogs(logs, filter);
+  }
+
+  async clear(): Promise<void> {
+    this.pending = [];
+
+    try {
+      await this.run(store => {
+        store.clear();
+      });
+    } catch (error) {
+      console.error('[IndexedDBLogStorage] Failed to clear logs:', error);
+    }
+  }
+
+  async getSize(): Promise<number> {
+    try {
+      const db = await this.open();
+      const count = await new Promise<number>((resolve, reject) => {
+        const request = db.transaction(this.storeName, 'readonly').objectStore(this.storeName).count();
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+      return count + this.pending.length;
+    } catch (error) {
+      return this.pending.length;
+    }
+  }
+
+  /**
+   * 等待待写入的日志提交完成
+   */
+  flush(): Promise<void> {
+    return this.flushPromise || Promise.resolve();
+  }
+
+  private async commit(): Promise<void> {
+    const batch = this.pending;
+    this.pending = [];
+    this.flushPromise = null;
+
+    if (batch.length === 0) {
+      return;
+    }
+
+    try {
+      await this.run(store => {
+        batch.forEach(entry => store.add(entry));
+
+        // 超出容量时从最早的日志开始删除
+        const countRequest = store.count();
+        countRequest.onsuccess = () => {
+          let excess = countRequest.result - this.maxEntries;
+          if (excess <= 0) {
+            return;
+          }
+
+          const cursorRequest = store.openCursor();
+          cursorRequest.onsuccess = () => {
+            const cursor = cursorRequest.result;
+            if (cursor && excess-- > 0) {
+              cursor.delete();
+              cursor.continue();
+            }
+          };
+        };
+      });
+    } catch (error) {
+      console.error(`[IndexedDBLogStorage] Failed to commit ${batch.length} log(s):`, error);
+    }
+  }
+
+  private async run(operation: (store: IDBObjectStore) => void): Promise<void> {
+    const db = await this.open();
+    await new Promise<void>((resolve, reject) => {
+      const transaction = db.transaction(this.storeName, 'readwrite');
+      operation(transaction.objectStore(this.storeName));
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(this.dbName, 1);
+        request.onupgradeneeded = () => {
+          if (!request.result.objectStoreNames.contains(this.storeName)) {
+            const store = request.result.createObjectStore(this.storeName, { keyPath: 'seq', autoIncrement: true });
+            store.createIndex('eventId', 'eventId');
+            store.createIndex('traceId', 'traceId');
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+
+      // 打开失败后允许下次重试
+      this.dbPromise.catch(() => {
+        this.dbPromise = null;
+      });
+    }
+    return this.dbPromise;
+  }
+}
+
 // ==================== 日志中间件 ====================
 
 export interface LoggingMiddlewareOptions {
@@ -207,6 +614,11 @@ export interface LoggingMiddlewareOptions {
   eventTypeFilter?: string[];
   sourceFilter?: string[];
   customFormatter?: (event: BaseEvent, duration?: number) => string;
+
+  /**
+   * 为没有链路ID的事件写入 metadata.traceId，使下游应用和其他标签页的日志可以关联，默认 true
+   */
+  propagateTraceId?: boolean;
 }
 
 export class LoggingMiddleware implements EventMiddleware {
@@ -220,6 +632,7 @@ export class LoggingMiddleware implements EventMiddleware {
   private eventTypeFilter?: string[];
   private sourceFilter?: string[];
   private customFormatter?: (event: BaseEvent, duration?: number) => string;
+  private propagateTraceId: boolean;
 
   constructor(options: LoggingMiddlewareOptions = {}) {
     this.level = options.level ?? LogLevel.INFO;
@@ -229,6 +642,7 @@ export class LoggingMiddleware implements EventMiddleware {
     this.eventTypeFilter = options.eventTypeFilter;
     this.sourceFilter = options.sourceFilter;
     this.customFormatter = options.customFormatter;
+    this.propagateTraceId = options.propagateTraceId ?? true;
   }
 
   async process<T extends BaseEvent>(event: T, next: (event: T) => Promise<void>): Promise<void> {
@@ -238,6 +652,10 @@ export class LoggingMiddleware implements EventMiddleware {
       return;
     }
 
+    if (this.propagateTraceId && !event.metadata?.traceId) {
+      event = { ...event, metadata: { ...event.metadata, traceId: resolveTraceId(event) } };
+    }
+
     const startTime = Date.now();
     let error: Error | undefined;
 
@@ -298,6 +716,7 @@ export class LoggingMiddleware implements EventMiddleware {
         level: LogLevel.DEBUG,
         eventType: event.type,
         eventId: event.id,
+        traceId: resolveTraceId(event),
         source: event.source,
         message,
         metadata: this.includeMetadata ? { event } : undefined
@@ -320,6 +739,7 @@ export class LoggingMiddleware implements EventMiddleware {
         level: LogLevel.INFO,
         eventType: event.type,
         eventId: event.id,
+        traceId: resolveTraceId(event),
         source: event.source,
         message,
         duration,
@@ -341,6 +761,7 @@ export class LoggingMiddleware implements EventMiddleware {
         level: LogLevel.ERROR,
         eventType: event.type,
         eventId: event.id,
+        traceId: resolveTraceId(event),
         source: event.source,
         message,
         duration,
@@ -420,6 +841,136 @@ export class LoggingMiddleware implements EventMiddleware {
   }
 }
 
+/**
+ * 事件的链路ID：显式的 traceId，其次是请求-响应的 correlationId，否则以事件自身为链路起点
+ */
+export function resolveTraceId(event: BaseEvent): string {
+  return event.metadata?.traceId || event.metadata?.correlationId || event.id;
+}
+
+// ==================== 日志查询 ====================
+
+export interface LogCorrelation {
+  /**
+   * 查询的事件ID或链路ID
+   */
+  id: string;
+
+  traceIds: string[];
+  entries: LogEntry[];
+
+  /**
+   * 参与该链路的应用
+   */
+  sources: string[];
+
+  startTime?: string;
+  endTime?: string;
+  duration?: number;
+}
+
+/**
+ * 跨多个日志存储查询，结果按时间合并去重
+ */
+export class LogQuery {
+  private sources: LogStorage[];
+
+  constructor(sources: LogStorage[] = []) {
+    this.sources = [...sources];
+  }
+
+  addSource(storage: LogStorage): void {
+    if (!this.sources.includes(storage)) {
+      this.sources.push(storage);
+    }
+  }
+
+  removeSource(storage: LogStorage): void {
+    this.sources = this.sources.filter(source => source !== storage);
+  }
+
+  async query(filter: LogFilter = {}): Promise<LogEntry[]> {
+    const { limit, ...conditions } = filter;
+    const results = await Promise.all(this.sources.map(async source => {
+      try {
+        return await source.read(conditions);
+      } catch (error) {
+        console.warn('[LogQuery] Failed to read log source:', error);
+        return [];
+      }
+    }));
+
+    // 同一条日志可能同时写入多个存储
+    const merged = new Map<string, LogEntry>();
+    results.flat().forEach(entry => {
+      merged.set(`${entry.id}|${entry.timestamp}`, entry);
+    });
+
+    const entries = Array.from(merged.values()).sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+    return limit ? entries.slice(-limit) : entries;
+  }
+
+  /**
+   * 按事件ID或链路ID关联各应用的日志
+   */
+  async correlate(id: string): Promise<LogCorrelation> {
+    const direct = await Promise.all([this.query({ eventId: id }), this.query({ traceId: id })]);
+    const traceIds = new Set<string>();
+    direct.flat().forEach(entry => {
+      if (entry.traceId) {
+        traceIds.add(entry.traceId);
+      }
+    });
+
+    const byTrace = await Promise.all(Array.from(traceIds).map(traceId => this.query({ traceId })));
+    const merged = new Map<string, LogEntry>();
+    direct.concat(byTrace).flat().forEach(entry => {
+      merged.set(`${entry.id}|${entry.timestamp}`, entry);
+    });
+
+    const entries = Array.from(merged.values()).sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+    const startTime = entries[0]?.timestamp;
+    const endTime = entries[entries.length - 1]?.timestamp;
+
+    return {
+      id,
+      traceIds: Array.from(traceIds),
+      entries,
+      sources: Array.from(new Set(entries.map(entry => entry.source))),
+      startTime,
+      endTime,
+      duration: startTime && endTime ? new Date(endTime).getTime() - new Date(startTime).getTime() : undefined
+    };
+  }
+}
+
+/**
+ * 将 shared/utils/logger 的日志写入 LogStorage，返回断开函数
+ * 日志元数据中的 eventId、traceId、eventType 用于关联事件
+ */
+export function connectLoggerToStorage(logger: Logger, storage: LogStorage): () => void {
+  let sequence = 0;
+
+  return logger.addSink((entry: LoggerEntry) => {
+    const metadata = entry.metadata || {};
+    const logEntry: LogEntry = {
+      id: `log_${Date.now()}_${sequence++}`,
+      timestamp: entry.timestamp,
+      level: Math.min(entry.level, LogLevel.ERROR),
+      eventType: metadata.eventType || 'log',
+      eventId: metadata.eventId || '',
+      traceId: metadata.traceId,
+      source: entry.source,
+      message: entry.message,
+      metadata
+    };
+
+    storage.write(logEntry).catch(error => {
+      console.error('[LoggingMiddleware] Failed to write logger entry:', error);
+    });
+  });
+}
+
 // ==================== 工厂函数 ====================
 
 /**
@@ -429,6 +980,13 @@ export function createLoggingMiddleware(options: LoggingMiddlewareOptions = {}):
   return new LoggingMiddleware(options);
 }
 
+/**
+ * 创建日志查询
+ */
+export function createLogQuery(sources: LogStorage[] = []): LogQuery {
+  return new LogQuery(sources);
+}
+
 /**
  * 创建开发环境日志中间件
  */
@@ -445,12 +1003,14 @@ export function createDevLoggingMiddleware(): LoggingMiddleware {
 }
 
 /**
- * 创建生产环境日志中间件
+ * 创建生产环境日志中间件，设置 endpoint 时同时批量上报
  */
-export function createProdLoggingMiddleware(): LoggingMiddleware {
+export function createProdLoggingMiddleware(endpoint?: string): LoggingMiddleware {
+  const memory = new MemoryLogStorage(100);
+
   return new LoggingMiddleware({
     level: LogLevel.WARN,
-    storage: new MemoryLogStorage(100),
+    storage: endpoint ? new CompositeLogStorage([memory, new HttpLogStorage({ endpoint })]) : memory,
     includeMetadata: false,
     performanceTracking: false
   });
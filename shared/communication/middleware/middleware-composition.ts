@@ -0,0 +1,237 @@
+/**
+ * 中间件组合 - 按条件、事件类型或应用挂载中间件
+ * 条件不满足时中间件会被管理器跳过，不出现在该事件的有效链路中
+ */
+
+import { BaseEvent } from '../../types/events';
+import { GlobalState, StateAction } from '../../types/store';
+import { createEventPatternMatcher } from '../event-pattern';
+import { EventMiddleware } from './event-middleware';
+import { StateMiddleware } from './state-middleware';
+
+// ==================== 类型定义 ====================
+
+export type EventMiddlewarePredicate = (event: BaseEvent) => boolean;
+
+export type StateMiddlewarePredicate = (action: StateAction, state: GlobalState) => boolean;
+
+/**
+ * 有效链路中的一项
+ */
+export interface MiddlewareChainEntry {
+  name: string;
+  priority: number;
+
+  /**
+   * 是否会处理该事件/动作
+   */
+  active: boolean;
+
+  /**
+   * 未处理的原因
+   */
+  skipReason?: 'disabled' | 'condition';
+
+  /**
+   * 挂载条件的描述，如 'types: USER_LOGIN'
+   */
+  conditions: string[];
+}
+
+// ==================== 事件中间件组合 ====================
+
+/**
+ * 带条件的事件中间件，名称、优先级和启用状态与被包装的中间件一致
+ */
+export class ConditionalMiddleware implements EventMiddleware {
+  // 管理器先调用 appliesTo 再调用 process，记下已判定通过的事件，避免重复判断
+  private approved: WeakSet<BaseEvent> = new WeakSet();
+
+  constructor(
+    public readonly inner: EventMiddleware,
+    private predicate: EventMiddlewarePredicate,
+    public readonly condition: string
+  ) {}
+
+  get name(): string {
+    return this.inner.name;
+  }
+
+  get priority(): number | undefined {
+    return this.inner.priority;
+  }
+
+  get enabled(): boolean | undefined {
+    return this.inner.enabled;
+  }
+
+  set enabled(value: boolean | undefined) {
+    this.inner.enabled = value;
+  }
+
+  appliesTo(event: BaseEvent): boolean {
+    const applies = this.predicate(event) && (!this.inner.appliesTo || this.inner.appliesTo(event));
+    if (applies) {
+      this.approved.add(event);
+    }
+    return applies;
+  }
+
+  async process<T extends BaseEvent>(event: T, next: (event: T) => Promise<void>): Promise<void> {
+    if (!this.approved.delete(event) && !this.appliesTo(event)) {
+      await next(event);
+      return;
+    }
+    await this.inner.process(event, next);
+  }
+}
+
+/**
+ * 满足条件时才执行中间件
+ */
+export function when(
+  predicate: EventMiddlewarePredicate,
+  middleware: EventMiddleware,
+  description: string = 'custom'
+): ConditionalMiddleware {
+  return new ConditionalMiddleware(middleware, predicate, description);
+}
+
+/**
+ * 只处理指定类型的事件，支持通配模式
+ */
+export function forTypes(eventTypes: string[], middleware: EventMiddleware): ConditionalMiddleware {
+  const matches = createEventPatternMatcher(eventTypes);
+  return when(
+    event => matches(event.type),
+    middleware,
+    `types: ${eventTypes.join(', ')}`
+  );
+}
+
+/**
+ * 只处理指定应用发出（source）或发往（metadata.target）的事件
+ */
+export function forApps(apps: string[], middleware: EventMiddleware): ConditionalMiddleware {
+  return when(
+    event => getEventApps(event).some(app => apps.includes(app)),
+    middleware,
+    `apps: ${apps.join(', ')}`
+  );
+}
+
+function getEventApps(event: BaseEvent): string[] {
+  const target = event.metadata?.target;
+  const targets: string[] = Array.isArray(target) ? target : target ? [target] : [];
+  return [event.source, ...targets];
+}
+
+// ==================== 状态中间件组合 ====================
+
+/**
+ * 带条件的状态中间件
+ */
+export class ConditionalStateMiddleware implements StateMiddleware {
+  private approved: WeakSet<StateAction> = new WeakSet();
+
+  constructor(
+    public readonly inner: StateMiddleware,
+    private predicate: StateMiddlewarePredicate,
+    public readonly condition: string
+  ) {}
+
+  get name(): string {
+    return this.inner.name;
+  }
+
+  get priority(): number | undefined {
+    return this.inner.priority;
+  }
+
+  get enabled(): boolean | undefined {
+    return this.inner.enabled;
+  }
+
+  set enabled(value: boolean | undefined) {
+    this.inner.enabled = value;
+  }
+
+  appliesTo(action: StateAction, state: GlobalState): boolean {
+    const applies = this.predicate(action, state) && (!this.inner.appliesTo || this.inner.appliesTo(action, state));
+    if (applies) {
+      this.approved.add(action);
+    }
+    return applies;
+  }
+
+  process(action: StateAction, currentState: GlobalState, next: (action: StateAction) => void): void | Promise<void> {
+    if (!this.approved.delete(action) && !this.appliesTo(action, currentState)) {
+      return next(action);
+    }
+    return this.inner.process(action, currentState, next);
+  }
+}
+
+/**
+ * 满足条件时才执行状态中间件
+ */
+export function whenState(
+  predicate: StateMiddlewarePredicate,
+  middleware: StateMiddleware,
+  description: string = 'custom'
+): ConditionalStateMiddleware {
+  return new ConditionalStateMiddleware(middleware, predicate, description);
+}
+
+/**
+ * 只处理指定类型的状态动作，支持通配模式
+ */
+export function forActionTypes(actionTypes: string[], middleware: StateMiddleware): ConditionalStateMiddleware {
+  const matches = createEventPatternMatcher(actionTypes);
+  return whenState(
+    action => matches(action.type),
+    middleware,
+    `types: ${actionTypes.join(', ')}`
+  );
+}
+
+/**
+ * 只处理指定应用发起（action.meta.source）的状态动作
+ */
+export function forStateApps(apps: string[], middleware: StateMiddleware): ConditionalStateMiddleware {
+  return whenState(
+    action => !!action.meta?.source && apps.includes(action.meta.source),
+    middleware,
+    `apps: ${apps.join(', ')}`
+  );
+}
+
+// ==================== 链路检查 ====================
+
+/**
+ * 取出被条件包装的原始中间件
+ */
+export function unwrapMiddleware<M extends EventMiddleware | StateMiddleware>(middleware: M): M {
+  let current: EventMiddleware | StateMiddleware = middleware;
+  while (current instanceof ConditionalMiddleware || current instanceof ConditionalStateMiddleware) {
+    current = current.inner;
+  }
+  // 事件中间件的 inner 仍是事件中间件，状态中间件同理
+  return current as M;
+}
+
+/**
+ * 收集嵌套条件的描述
+ */
+export function describeConditions(middleware: EventMiddleware | StateMiddleware): string[] {
+  const conditions: string[] = [];
+  let current: EventMiddleware | StateMiddleware = middleware;
+  while (current instanceof ConditionalMiddleware || current instanceof ConditionalStateMiddleware) {
+    conditions.push(current.condition);
+    current = current.inner;
+  }
+  return conditions;
+}
+
+// ==================== 导出 ====================
+// 所有导出已在上面通过 export 关键字直接声明，无需重复导出
@@ -4,7 +4,10 @@
  */
 
 import { BaseEvent } from '../../types/events';
+import { StateAction } from '../../types/store';
 import { EventMiddleware, MiddlewareInterceptor } from './event-middleware';
+import { StateMiddleware, StateMiddlewareInterceptor } from './state-middleware';
+import type { PolicyDecision } from './policy-engine';
 
 // ==================== 权限相关类型定义 ====================
 
@@ -28,6 +31,11 @@ export interface User {
   name: string;
   roles: Role[];
   permissions: Permission[];
+
+  /**
+   * 附加属性（如部门、租户），供策略引擎使用
+   */
+  attributes?: Record<string, any>;
 }
 
 export interface PermissionCondition {
@@ -42,6 +50,22 @@ export interface PermissionContext {
   event: BaseEvent;
   timestamp: number;
   metadata: Record<string, any>;
+
+  /**
+   * 请求的动作，事件默认为 'emit'，状态写入为 'write'
+   */
+  action?: string;
+
+  /**
+   * 请求的资源，事件默认为 { type: 'event', id: 事件类型 }
+   */
+  resource?: PermissionResource;
+}
+
+export interface PermissionResource {
+  type: string;
+  id: string;
+  [key: string]: any;
 }
 
 // ==================== 权限策略接口 ====================
@@ -68,6 +92,11 @@ export interface PermissionResult {
   reason?: string;
   requiredPermissions?: string[];
   missingPermissions?: string[];
+
+  /**
+   * 策略引擎的决策详情
+   */
+  decision?: PolicyDecision;
 }
 
 // ==================== 默认权限策略 ====================
@@ -406,6 +435,107 @@ export class PermissionMiddleware implements EventMiddleware {
   }
 }
 
+// ==================== 状态权限中间件 ====================
+
+export interface StatePermissionMiddlewareOptions {
+  strategy?: PermissionStrategy;
+  getCurrentUser?: () => Promise<User | undefined>;
+  onPermissionDenied?: (context: PermissionContext, result: PermissionResult) => void;
+  skipPermissionCheck?: (action: StateAction) => boolean;
+  debug?: boolean;
+}
+
+/**
+ * 状态权限中间件 - 使用与事件相同的权限策略检查状态写入
+ * 请求的动作为 'write'，资源为 { type: 'state', id: 状态分支, actionType }
+ */
+export class StatePermissionMiddleware implements StateMiddleware {
+  public readonly name = 'state-permission';
+  public readonly priority = 10; // 在校验和持久化之前
+
+  private strategy: PermissionStrategy;
+  private getCurrentUser?: () => Promise<User | undefined>;
+  private onPermissionDenied?: (context: PermissionContext, result: PermissionResult) => void;
+  private skipPermissionCheck?: (action: StateAction) => boolean;
+  private debug: boolean;
+
+  constructor(options: StatePermissionMiddlewareOptions = {}) {
+    this.strategy = options.strategy || new DefaultPermissionStrategy();
+    this.getCurrentUser = options.getCurrentUser;
+    this.onPermissionDenied = options.onPermissionDenied;
+    this.skipPermissionCheck = options.skipPermissionCheck;
+    this.debug = options.debug || false;
+  }
+
+  async process(action: StateAction, _currentState: any, next: (action: StateAction) => void): Promise<void> {
+    if (this.skipPermissionCheck && this.skipPermissionCheck(action)) {
+      await next(action);
+      return;
+    }
+
+    const user = this.getCurrentUser ? await this.getCurrentUser() : undefined;
+    const source = action.meta?.source || 'unknown';
+
+    const context: PermissionContext = {
+      user,
+      event: {
+        type: action.type,
+        source,
+        timestamp: new Date(action.meta?.timestamp || Date.now()).toISOString(),
+        id: `state-action-${Date.now()}`,
+        data: action.payload
+      },
+      timestamp: Date.now(),
+      metadata: {},
+      action: 'write',
+      resource: {
+        type: 'state',
+        id: getActionSlice(action.type),
+        actionType: action.type,
+        source
+      }
+    };
+
+    const result = await this.strategy.checkPermission(context);
+
+    if (!result.allowed) {
+      if (this.debug) {
+        console.warn(`[StatePermissionMiddleware] Permission denied for action: ${action.type}, reason: ${result.reason}`);
+      }
+
+      if (this.onPermissionDenied) {
+        this.onPermissionDenied(context, result);
+      }
+
+      // 不调用 next，动作不会被执行
+      throw new StateMiddlewareInterceptor(result.reason || 'Permission denied', this.name);
+    }
+
+    await next(action);
+  }
+
+  /**
+   * 设置权限策略
+   */
+  setStrategy(strategy: PermissionStrategy): void {
+    this.strategy = strategy;
+  }
+
+  /**
+   * 设置当前用户获取函数
+   */
+  setCurrentUserProvider(provider: () => Promise<User | undefined>): void {
+    this.getCurrentUser = provider;
+  }
+}
+
+/**
+ * 由动作类型推断状态分支，如 SET_USER -> user
+ */
+function getActionSlice(actionType: string): string {
+  return actionType.startsWith('SET_') ? actionType.slice(4).toLowerCase() : actionType;
+}
+
 // ==================== 工厂函数 ====================
 
 /**
@@ -415,6 +545,13 @@ export function createPermissionMiddleware(options: PermissionMiddlewareOptions
   return new PermissionMiddleware(options);
 }
 
+/**
+ * 创建状态权限中间件
+ */
+export function createStatePermissionMiddleware(options: StatePermissionMiddlewareOptions = {}): StatePermissionMiddleware {
+  return new StatePermissionMiddleware(options);
+}
+
 /**
  * 创建开发环境权限中间件（宽松权限）
  */
@@ -5,6 +5,8 @@
 
 import { GlobalState, StateAction } from '../../types/store';
 import { StateMiddleware } from './state-middleware';
+import { MigrationRegistry, globalStateMigrations } from '../state-migration';
+import { validateStatePaths } from '../state-schema';
 
 // ==================== 持久化存储接口 ====================
 
@@ -158,8 +160,397 @@ export class MemoryPersistence implements PersistenceStorage {
   }
 }
 
+/**
+ * IndexedDB 存储实现（容量比 localStorage 大，适合状态历史等较大的数据）
+ * 同一轮事件循环内的写入和删除合并到一个事务中批量提交
+ */
+export class IndexedDBPersistence implements PersistenceStorage {
+  private dbName: string;
+  private storeName: string;
+  private dbPromise: Promise<IDBDatabase> | null = null;
+  private pending: Map<string, string | null> = new Map(); // 待提交的写入，null 表示删除
+  private flushPromise: Promise<void> | null = null;
+
+  constructor(dbName: string = 'qiankun-state', storeName: string = 'keyval') {
+    this.dbName = dbName;
+    this.storeName = storeName;
+  }
+
+  /**
+   * 当前环境是否支持 IndexedDB
+   */
+  static isSupported(): boolean {
+    return typeof indexedDB !== 'undefined';
+  }
+
+  setItem(key: string, value: string): Promise<void> {
+    this.pending.set(key, value);
+    return this.scheduleFlush();
+  }
+
+  async getItem(key: string): Promise<string | null> {
+    // 优先读取尚未提交的写入
+    if (this.pending.has(key)) {
+      return this.pending.get(key)!;
+    }
+
+    try {
+      const value = await this.request('readonly', store => store.get(key));
+      return typeof value === 'string' ? value : null;
+    } catch (error) {
+      console.error('[IndexedDBPersistence] Failed to read from IndexedDB:', error);
+      return null;
+    }
+  }
+
+  removeItem(key: string): Promise<void> {
+    this.pending.set(key, null);
+    return this.scheduleFlush();
+  }
+
+  async clear(): Promise<void> {
+    this.pending.clear();
+
+    try {
+      await this.request('readwrite', store => store.clear());
+    } catch (error) {
+      console.error('[IndexedDBPersistence] Failed to clear IndexedDB:', error);
+    }
+  }
+
+  async getAllKeys(): Promise<string[]> {
+    try {
+      const stored = await this.request('readonly', store => store.getAllKeys());
+      const keys = new Set(stored.map(key => String(key)));
+      this.pending.forEach((value, key) => {
+        if (value === null) {
+          keys.delete(key);
+        } else {
+          keys.add(key);
+        }
+      });
+      return Array.from(keys);
+    } catch (error) {
+      console.error('[IndexedDBPersistence] Failed to get keys from IndexedDB:', error);
+      return [];
+    }
+  }
+
+  /**
+   * 等待待写入的数据提交完成
+   */
+  flush(): Promise<void> {
+    return this.flushPromise || Promise.resolve();
+  }
+
+  private scheduleFlush(): Promise<void> {
+    if (!this.flushPromise) {
+      this.flushPromise = Promise.resolve().then(() => this.commit());
+    }
+    return this.flushPromise;
+  }
+
+  /**
+   * 在一个事务中提交所有待写入的数据
+   */
+  private async commit(): Promise<void> {
+    const batch = this.pending;
+    this.pending = new Map();
+    this.flushPromise = null;
+
+    if (batch.size === 0) {
+      return;
+    }
+
+    try {
+      const db = await this.open();
+      await new Promise<void>((resolve, reject) => {
+        const transaction = db.transaction(this.storeName, 'readwrite');
+        const store = transaction.objectStore(this.storeName);
+
+        batch.forEach((value, key) => {
+          if (value === null) {
+            store.delete(key);
+          } else {
+            store.put(value, key);
+          }
+        });
+
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+        transaction.onabort = () => reject(transaction.error);
+      });
+    } catch (error) {
+      console.error(`[IndexedDBPersistence] Failed to commit ${batch.size} write(s) to IndexedDB:`, error);
+    }
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(this.dbName, 1);
+        request.onupgradeneeded = () => {
+          if (!request.result.objectStoreNames.contains(this.storeName)) {
+            request.result.createObjectStore(this.storeName);
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+
+      // 打开失败后允许下次重试
+      this.dbPromise.catch(() => {
+        this.dbPromise = null;
+      });
+    }
+    return this.dbPromise;
+  }
+
+  private async request<T>(mode: IDBTransactionMode, operation: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+    const db = await this.open();
+    return new Promise((resolve, reject) => {
+      const request = operation(db.transaction(this.storeName, mode).objectStore(this.storeName));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+}
+
+// ==================== 加密存储 ====================
+
+export interface EncryptedPersistenceOptions {
+  /**
+   * 派生密钥的口令；不设置时使用保存在 IndexedDB 中的随机密钥，
+   * 密钥不可导出，同源的所有标签页共用。不支持 IndexedDB 的环境必须设置
+   */
+  secret?: string;
+
+  /**
+   * 派生密钥的盐，仅用于 secret
+   */
+  salt?: string;
+
+  /**
+   * PBKDF2 迭代次数，仅用于 secret
+   */
+  iterations?: number;
+
+  /**
+   * 随机密钥在 IndexedDB 中的键名
+   */
+  keyName?: string;
+}
+
+/**
+ * 加密存储包装：使用 WebCrypto AES-GCM 加密后写入内部存储
+ * 存储格式为 'enc:v1:<iv>:<密文>'（base64）
+ */
+export class EncryptedPersistence implements PersistenceStorage {
+  private static readonly PREFIX = 'enc:v1:';
+
+  private inner: PersistenceStorage;
+  private options: EncryptedPersistenceOptions;
+  private keyPromise: Promise<CryptoKey> | null = null;
+
+  constructor(inner: PersistenceStorage, options: EncryptedPersistenceOptions = {}) {
+    this.inner = inner;
+    this.options = options;
+  }
+
+  /**
+   * 当前环境是否支持 WebCrypto（需要安全上下文）
+   */
+  static isSupported(): boolean {
+    return typeof crypto !== 'undefined' && !!crypto.subtle;
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    const cryptoKey = await this.getKey();
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const encrypted = await crypto.subtle.encrypt(
+      { name: 'AES-GCM', iv },
+      cryptoKey,
+      new TextEncoder().encode(value)
+    );
+
+    await this.inner.setItem(
+      key,
+      `${EncryptedPersistence.PREFIX}${toBase64(iv)}:${toBase64(new Uint8Array(encrypted))}`
+    );
+  }
+
+  async getItem(key: string): Promise<string | null> {
+    const stored = await this.inner.getItem(key);
+    if (!stored) {
+      return null;
+    }
+
+    if (!stored.startsWith(EncryptedPersistence.PREFIX)) {
+      console.warn(`[EncryptedPersistence] Ignoring unencrypted value for key: ${key}`);
+      return null;
+    }
+
+    try {
+      const [iv, data] = stored.slice(EncryptedPersistence.PREFIX.length).split(':');
+      const decrypted = await crypto.subtle.decrypt(
+        { name: 'AES-GCM', iv: fromBase64(iv) },
+        await this.getKey(),
+        fromBase64(data)
+      );
+      return new TextDecoder().decode(decrypted);
+    } catch (error) {
+      // 密钥已变化（如浏览器数据被清除）或数据被篡改
+      console.warn(`[EncryptedPersistence] Failed to decrypt value for key: ${key}`, error);
+      return null;
+    }
+  }
+
+  removeItem(key: string): Promise<void> | void {
+    return this.inner.removeItem(key);
+  }
+
+  clear(): Promise<void> | void {
+    return this.inner.clear();
+  }
+
+  getAllKeys(): Promise<string[]> | string[] {
+    return this.inner.getAllKeys ? this.inner.getAllKeys() : [];
+  }
+
+  private getKey(): Promise<CryptoKey> {
+    if (!this.keyPromise) {
+      this.keyPromise = this.options.secret === undefined
+        ? this.loadSharedKey()
+        : this.deriveKey(this.options.secret);
+      this.keyPromise.catch(() => {
+        this.keyPromise = null;
+      });
+    }
+    return this.keyPromise;
+  }
+
+  private async deriveKey(secret: string): Promise<CryptoKey> {
+    const encoder = new TextEncoder();
+    const material = await crypto.subtle.importKey(
+      'raw',
+      encoder.encode(secret),
+      'PBKDF2',
+      false,
+      ['deriveKey']
+    );
+
+    return crypto.subtle.deriveKey(
+      {
+        name: 'PBKDF2',
+        salt: encoder.encode(this.options.salt || 'qiankun-persistence'),
+        iterations: this.options.iterations || 100000,
+        hash: 'SHA-256'
+      },
+      material,
+      { name: 'AES-GCM', length: 256 },
+      false,
+      ['encrypt', 'decrypt']
+    );
+  }
+
+  /**
+   * 读取或创建 IndexedDB 中的随机密钥
+   * 密文可能写在各标签页共享的存储中，密钥也必须共享；多个标签页同时创建时以先写入的为准
+   */
+  private async loadSharedKey(): Promise<CryptoKey> {
+    if (!IndexedDBPersistence.isSupported()) {
+      throw new Error('[EncryptedPersistence] IndexedDB is not available, options.secret is required');
+    }
+
+    const keyName = this.options.keyName || 'qiankun-persistence-key';
+    const candidate = await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, false, ['encrypt', 'decrypt']);
+    const db = await openKeyDatabase();
+
+    try {
+      return await new Promise<CryptoKey>((resolve, reject) => {
+        const transaction = db.transaction(KEY_STORE_NAME, 'readwrite');
+        const store = transaction.objectStore(KEY_STORE_NAME);
+        let key = candidate;
+
+        const request = store.get(keyName);
+        request.onsuccess = () => {
+          if (request.result) {
+            key = request.result;
+          } else {
+            store.put(candidate, keyName);
+          }
+        };
+
+        transaction.oncomplete = () => resolve(key);
+        transaction.onerror = () => reject(transaction.error);
+        transaction.onabort = () => reject(transaction.error);
+      });
+    } finally {
+      db.close();
+    }
+  }
+}
+
+/**
+ * 保存加密密钥的数据库，与数据分开存放，清除数据存储时不会丢失密钥
+ */
+const KEY_DATABASE_NAME = 'qiankun-keys';
+const KEY_STORE_NAME = 'keys';
+
+function openKeyDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(KEY_DATABASE_NAME, 1);
+    request.onupgradeneeded = () => {
+      if (!request.result.objectStoreNames.contains(KEY_STORE_NAME)) {
+        request.result.createObjectStore(KEY_STORE_NAME);
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  bytes.forEach(byte => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary);
+}
+
+function fromBase64(value: string): Uint8Array {
+  const binary = atob(value);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
 // ==================== 持久化配置 ====================
 
+/**
+ * 默认存储名称
+ */
+export const DEFAULT_PERSISTENCE_STORAGE = 'default';
+
+/**
+ * 内置工厂函数中加密存储的名称
+ */
+export const SECURE_PERSISTENCE_STORAGE = 'secure';
+
+/**
+ * 单个持久化路径的配置
+ */
+export interface PersistPathConfig {
+  path: string;
+
+  /**
+   * 使用的存储名称，对应 PersistenceMiddlewareOptions.storages，不设置时使用默认存储
+   */
+  storage?: string;
+}
+
 export interface PersistenceConfig {
   /**
    * 存储键前缀
@@ -167,9 +558,9 @@ export interface PersistenceConfig {
   keyPrefix: string;
 
   /**
-   * 需要持久化的状态路径
+   * 需要持久化的状态路径，可按路径指定存储，如 { path: 'auth.accessToken', storage: 'secure' }
    */
-  persistPaths: string[];
+  persistPaths: Array<string | PersistPathConfig>;
 
   /**
    * 需要排除的状态路径
@@ -197,14 +588,20 @@ export interface PersistenceConfig {
   debounceMs?: number;
 
   /**
-   * 版本号（用于数据迁移）
+   * 版本号（用于数据迁移），配置 migrations 时以注册表的最新版本为准
    */
-  version?: string;
+  version?: string | number;
 
   /**
-   * 数据迁移函数
+   * 数据迁移函数，配置 migrations 时不再使用
    */
   migrate?: (persistedState: any, version: string) => any;
+
+  /**
+   * 版本迁移注册表：按存储的版本逐步迁移，迁移结果按 GlobalState 结构校验，
+   * 无法迁移的数据移到 '<存储键>-quarantine' 并跳过恢复
+   */
+  migrations?: MigrationRegistry;
 }
 
 // ==================== 状态路径工具 ====================
@@ -272,7 +669,7 @@ class StatePathUtils {
     persistPaths: string[],
     excludePaths: string[] = []
   ): Partial<GlobalState> {
-    const result: any = {};
+    let result: any = {};
     
     for (const path of persistPaths) {
       if (this.isPathMatched(path, excludePaths)) {
@@ -281,7 +678,7 @@ class StatePathUtils {
       
       const value = this.getValueByPath(state, path);
       if (value !== undefined) {
-        this.setValueByPath(result, path, value);
+        result = this.setValueByPath(result, path, value);
       }
     }
     
@@ -292,7 +689,16 @@ class StatePathUtils {
 // ==================== 持久化中间件 ====================
 
 export interface PersistenceMiddlewareOptions {
+  /**
+   * 默认存储
+   */
   storage?: PersistenceStorage;
+
+  /**
+   * 具名存储，供 persistPaths 中的路径选择，如 { secure: new EncryptedPersistence(new IndexedDBPersistence()) }
+   */
+  storages?: Record<string, PersistenceStorage>;
+
   config?: PersistenceConfig;
   debug?: boolean;
   onPersistError?: (error: Error, action: StateAction) => void;
@@ -304,14 +710,17 @@ export class PersistenceMiddleware implements StateMiddleware {
   public readonly priority = 90; // 较低优先级，在其他中间件之后执行
 
   private storage: PersistenceStorage;
+  private storages: Map<string, PersistenceStorage>;
   private config: PersistenceConfig;
   private debug: boolean;
   private onPersistError?: (error: Error, action: StateAction) => void;
   private onRestoreError?: (error: Error, key: string) => void;
   private debounceTimer?: any;
+  private warnedStorages: Set<string> = new Set();
 
   constructor(options: PersistenceMiddlewareOptions = {}) {
     this.storage = options.storage || new LocalStoragePersistence();
+    this.storages = new Map(Object.entries(options.storages || {}));
     this.config = {
       keyPrefix: 'qiankun-state',
       persistPaths: ['user', 'auth', 'theme'],
@@ -354,6 +763,45 @@ export class PersistenceMiddleware implements StateMiddleware {
     }, this.config.debounceMs);
   }
 
+  /**
+   * 按存储名称分组持久化路径
+   */
+  private getPathGroups(): Map<string, string[]> {
+    const groups = new Map<string, string[]>();
+
+    this.config.persistPaths.forEach(entry => {
+      const { path, storage = DEFAULT_PERSISTENCE_STORAGE } = typeof entry === 'string' ? { path: entry } : entry;
+      if (!groups.has(storage)) {
+        groups.set(storage, []);
+      }
+      groups.get(storage)!.push(path);
+    });
+
+    return groups;
+  }
+
+  /**
+   * 获取具名存储；路径指定的存储不存在时不回退到默认存储，避免敏感数据以明文写入
+   */
+  private getStorage(name: string): PersistenceStorage | undefined {
+    if (name === DEFAULT_PERSISTENCE_STORAGE) {
+      return this.storage;
+    }
+
+    const storage = this.storages.get(name);
+    if (!storage && !this.warnedStorages.has(name)) {
+      this.warnedStorages.add(name);
+      console.warn(`[PersistenceMiddleware] Storage "${name}" is not configured, its paths will not be persisted`);
+    }
+    return storage;
+  }
+
+  private getStorageKey(name: string): string {
+    return name === DEFAULT_PERSISTENCE_STORAGE
+      ? `${this.config.keyPrefix}-state`
+      : `${this.config.keyPrefix}-state-${name}`;
+  }
+
   /**
    * 持久化状态
    */
@@ -363,26 +811,33 @@ export class PersistenceMiddleware implements StateMiddleware {
         console.log('[PersistenceMiddleware] Persisting state...', action?.type);
       }
 
-      // 提取需要持久化的状态
-      const persistentState = StatePathUtils.extractPersistentState(
-        state,
-        this.config.persistPaths,
-        this.config.excludePaths
-      );
+      const writes: Promise<void>[] = [];
 
-      // 添加版本信息
-      const dataToSave = {
-        version: this.config.version,
-        timestamp: new Date().toISOString(),
-        state: persistentState
-      };
+      this.getPathGroups().forEach((paths, name) => {
+        const storage = this.getStorage(name);
+        if (!storage) {
+          return;
+        }
+
+        // 提取需要持久化的状态
+        const persistentState = StatePathUtils.extractPersistentState(
+          state,
+          paths,
+          this.config.excludePaths
+        );
 
-      // 序列化数据
-      const serializedData = this.config.serialize!(dataToSave);
+        // 添加版本信息
+        const dataToSave = {
+          version: this.getCurrentVersion(),
+          timestamp: new Date().toISOString(),
+          state: persistentState
+        };
 
-      // 保存到存储
-      const key = `${this.config.keyPrefix}-state`;
-      await this.storage.setItem(key, serializedData);
+        // 序列化并保存到存储
+        writes.push(Promise.resolve(storage.setItem(this.getStorageKey(name), this.config.serialize!(dataToSave))));
+      });
+
+      await Promise.all(writes);
 
       if (this.debug) {
         console.log('[PersistenceMiddleware] State persisted successfully');
@@ -399,45 +854,149 @@ export class PersistenceMiddleware implements StateMiddleware {
 
   /**
    * 恢复状态
+   * 传入 baseState 时，恢复的路径合并到其对应分支上，返回的分支可以直接用于 setState
    */
-  async restoreState(): Promise<Partial<GlobalState> | null> {
-    try {
-      const key = `${this.config.keyPrefix}-state`;
-      const serializedData = await this.storage.getItem(key);
+  async restoreState(baseState?: GlobalState): Promise<Partial<GlobalState> | null> {
+    let restored: any = null;
+    const restoredPaths: string[] = [];
 
-      if (!serializedData) {
-        if (this.debug) {
-          console.log('[PersistenceMiddleware] No persisted state found');
-        }
-        return null;
+    for (const [name, paths] of Array.from(this.getPathGroups())) {
+      const storage = this.getStorage(name);
+      if (!storage) {
+        continue;
       }
 
-      // 反序列化数据
-      const data = this.config.deserialize!(serializedData);
+      const key = this.getStorageKey(name);
+      try {
+        const serializedData = await storage.getItem(key);
+        if (!serializedData) {
+          continue;
+        }
 
-      // 检查版本并执行迁移
-      if (data.version !== this.config.version && this.config.migrate) {
-        if (this.debug) {
-          console.log(`[PersistenceMiddleware] Migrating state from version ${data.version} to ${this.config.version}`);
+        // 反序列化数据
+        let data: any;
+        try {
+          data = this.config.deserialize!(serializedData);
+        } catch (error) {
+          await this.quarantine(storage, key, serializedData, `Failed to deserialize: ${(error as Error).message}`);
+          continue;
+        }
+
+        // 检查版本并执行迁移
+        const state = await this.migrateData(data, key, paths, storage, serializedData);
+        if (state === null) {
+          continue;
+        }
+
+        paths.forEach(path => {
+          const value = StatePathUtils.getValueByPath(state, path);
+          if (value !== undefined) {
+            restored = StatePathUtils.setValueByPath(restored || {}, path, value);
+            restoredPaths.push(path);
+          }
+        });
+
+      } catch (error) {
+        console.error(`[PersistenceMiddleware] Failed to restore state from ${key}:`, error);
+        
+        if (this.onRestoreError) {
+          this.onRestoreError(error as Error, key);
         }
-        data.state = this.config.migrate(data.state, data.version);
       }
+    }
 
+    if (!restored) {
       if (this.debug) {
-        console.log('[PersistenceMiddleware] State restored successfully');
+        console.log('[PersistenceMiddleware] No persisted state found');
       }
+      return null;
+    }
 
-      return data.state;
+    if (this.debug) {
+      console.log('[PersistenceMiddleware] State restored successfully');
+    }
 
-    } catch (error) {
-      console.error('[PersistenceMiddleware] Failed to restore state:', error);
-      
-      if (this.onRestoreError) {
-        this.onRestoreError(error as Error, `${this.config.keyPrefix}-state`);
+    if (!baseState) {
+      return restored;
+    }
+
+    const merged = restoredPaths.reduce(
+      (state, path) => StatePathUtils.setValueByPath(state, path, StatePathUtils.getValueByPath(restored, path)),
+      baseState as any
+    );
+
+    const slices: any = {};
+    Object.keys(restored).forEach(slice => {
+      slices[slice] = merged[slice];
+    });
+    return slices;
+  }
+
+  /**
+   * 当前写入的版本
+   */
+  private getCurrentVersion(): string | number | undefined {
+    return this.config.migrations ? this.config.migrations.latestVersion : this.config.version;
+  }
+
+  /**
+   * 将存储的数据迁移到当前版本，无法迁移时隔离并返回 null
+   */
+  private async migrateData(
+    data: any,
+    key: string,
+    paths: string[],
+    storage: PersistenceStorage,
+    serializedData: string
+  ): Promise<any> {
+    const migrations = this.config.migrations;
+
+    if (!migrations) {
+      if (data.version !== this.config.version && this.config.migrate) {
+        if (this.debug) {
+          console.log(`[PersistenceMiddleware] Migrating ${key} from version ${data.version} to ${this.config.version}`);
+        }
+        return this.config.migrate(data.state, data.version);
       }
-      
+      return data.state;
+    }
+
+    const result = migrations.migrate(data.state, data.version, {
+      key,
+      validate: state => validateStatePaths(state, paths).map(issue => `${issue.path}: ${issue.message}`)
+    });
+
+    if (result.status === 'failed') {
+      const reason = result.issues ? `${result.error}: ${result.issues.join('; ')}` : result.error!;
+      await this.quarantine(storage, key, serializedData, reason);
       return null;
     }
+
+    if (result.status === 'migrated' && this.debug) {
+      console.log(`[PersistenceMiddleware] Migrated ${key}: ${result.applied.join(', ')}`);
+    }
+
+    return result.state;
+  }
+
+  /**
+   * 隔离无法恢复的数据：移到 '<存储键>-quarantine'，保留原始内容便于排查
+   */
+  private async quarantine(storage: PersistenceStorage, key: string, serializedData: string, reason: string): Promise<void> {
+    const quarantineKey = `${key}-quarantine`;
+
+    try {
+      await storage.setItem(quarantineKey, serializedData);
+      await storage.removeItem(key);
+    } catch (error) {
+      console.error(`[PersistenceMiddleware] Failed to quarantine ${key}:`, error);
+    }
+
+    console.warn(`[PersistenceMiddleware] Quarantined ${key} to ${quarantineKey}: ${reason}`);
+
+    if (this.onRestoreError) {
+      this.onRestoreError(new Error(reason), key);
+    }
   }
 
   /**
@@ -445,8 +1004,14 @@ export class PersistenceMiddleware implements StateMiddleware {
    */
   async clearPersistedState(): Promise<void> {
     try {
-      const key = `${this.config.keyPrefix}-state`;
-      await this.storage.removeItem(key);
+      const removals: Promise<void>[] = [];
+      this.getPathGroups().forEach((_paths, name) => {
+        const storage = this.getStorage(name);
+        if (storage) {
+          removals.push(Promise.resolve(storage.removeItem(this.getStorageKey(name))));
+        }
+      });
+      await Promise.all(removals);
       
       if (this.debug) {
         console.log('[PersistenceMiddleware] Persisted state cleared');
@@ -464,29 +1029,47 @@ export class PersistenceMiddleware implements StateMiddleware {
   }
 
   /**
-   * 获取持久化信息
+   * 获取持久化信息（汇总所有存储）
    */
   async getPersistenceInfo(): Promise<{
     hasPersistedData: boolean;
     timestamp?: string;
-    version?: string;
+    version?: string | number;
     size?: number;
+    storages?: string[];
   }> {
     try {
-      const key = `${this.config.keyPrefix}-state`;
-      const serializedData = await this.storage.getItem(key);
+      let timestamp: string | undefined;
+      let version: string | number | undefined;
+      let size = 0;
+      const storages: string[] = [];
+
+      for (const [name] of Array.from(this.getPathGroups())) {
+        const storage = this.getStorage(name);
+        const serializedData = storage ? await storage.getItem(this.getStorageKey(name)) : null;
+        if (!serializedData) {
+          continue;
+        }
+
+        const data = this.config.deserialize!(serializedData);
+        storages.push(name);
+        size += serializedData.length;
+        version = version || data.version;
+        if (!timestamp || data.timestamp > timestamp) {
+          timestamp = data.timestamp;
+        }
+      }
 
-      if (!serializedData) {
+      if (storages.length === 0) {
         return { hasPersistedData: false };
       }
 
-      const data = this.config.deserialize!(serializedData);
-      
       return {
         hasPersistedData: true,
-        timestamp: data.timestamp,
-        version: data.version,
-        size: serializedData.length
+        timestamp,
+        version,
+        size,
+        storages
       };
     } catch (error) {
       console.error('[PersistenceMiddleware] Failed to get persistence info:', error);
@@ -502,10 +1085,15 @@ export class PersistenceMiddleware implements StateMiddleware {
   }
 
   /**
-   * 设置存储
+   * 设置存储，不传名称时设置默认存储
    */
-  setStorage(storage: PersistenceStorage): void {
-    this.storage = storage;
+  setStorage(storage: PersistenceStorage, name: string = DEFAULT_PERSISTENCE_STORAGE): void {
+    if (name === DEFAULT_PERSISTENCE_STORAGE) {
+      this.storage = storage;
+    } else {
+      this.storages.set(name, storage);
+      this.warnedStorages.delete(name);
+    }
   }
 }
 
@@ -528,8 +1116,8 @@ export function createBasicPersistenceConfig(): PersistenceConfig {
       'user.currentUser',
       'user.preferences',
       'user.isAuthenticated',
-      'auth.accessToken',
-      'auth.refreshToken',
+      { path: 'auth.accessToken', storage: SECURE_PERSISTENCE_STORAGE },
+      { path: 'auth.refreshToken', storage: SECURE_PERSISTENCE_STORAGE },
       'auth.isLoggedIn',
       'theme.current',
       'theme.config'
@@ -541,16 +1129,27 @@ export function createBasicPersistenceConfig(): PersistenceConfig {
     ],
     trigger: 'action',
     debounceMs: 500,
-    version: '1.0.0'
+    version: '1.0.0',
+    migrations: globalStateMigrations
   };
 }
 
+/**
+ * 创建加密的具名存储；环境不支持 WebCrypto 或 IndexedDB（保存密钥）时不创建，对应路径不会被持久化
+ */
+function createSecureStorages(inner: PersistenceStorage): Record<string, PersistenceStorage> {
+  return EncryptedPersistence.isSupported() && IndexedDBPersistence.isSupported()
+    ? { [SECURE_PERSISTENCE_STORAGE]: new EncryptedPersistence(inner) }
+    : {};
+}
+
 /**
  * 创建开发环境持久化中间件
  */
 export function createDevPersistenceMiddleware(): PersistenceMiddleware {
   return new PersistenceMiddleware({
     storage: new SessionStoragePersistence(), // 开发环境使用 sessionStorage
+    storages: createSecureStorages(new SessionStoragePersistence()),
     config: {
       ...createBasicPersistenceConfig(),
       debounceMs: 100, // 更快的响应
@@ -564,8 +1163,11 @@ export function createDevPersistenceMiddleware(): PersistenceMiddleware {
  * 创建生产环境持久化中间件
  */
 export function createProdPersistenceMiddleware(): PersistenceMiddleware {
+  const storage = IndexedDBPersistence.isSupported() ? new IndexedDBPersistence() : new LocalStoragePersistence();
+
   return new PersistenceMiddleware({
-    storage: new LocalStoragePersistence(),
+    storage,
+    storages: createSecureStorages(storage),
     config: createBasicPersistenceConfig(),
     debug: false
   });
@@ -0,0 +1,151 @@
+// @vitest-environment node
+import { describe, expect, it } from 'vitest';
+import { PolicyEngine, PolicyRequest, PolicySet, parsePolicySet } from './policy-engine';
+
+// ==================== 测试数据 ====================
+
+const POLICY_SET: PolicySet = {
+  id: 'orders',
+  rules: [
+    {
+      id: 'admins-write-state',
+      effect: 'allow',
+      actions: ['write'],
+      resources: ['state:*'],
+      conditions: [{ attribute: 'subject.roles', operator: 'contains', value: 'admin' }]
+    },
+    {
+      id: 'order-events',
+      effect: 'allow',
+      actions: ['emit'],
+      resources: ['event:ORDER_*'],
+      conditions: [{ attribute: 'subject.authenticated', operator: 'eq', value: true }]
+    },
+    {
+      id: 'no-auth-writes-from-apps',
+      effect: 'deny',
+      actions: ['write'],
+      resources: ['state:auth'],
+      conditions: [{ attribute: 'resource.source', operator: 'matches', value: '^react-' }]
+    },
+    {
+      id: 'office-hours',
+      effect: 'deny',
+      resources: ['event:ORDER_DELETE'],
+      conditions: [{ attribute: 'environment.hour', operator: 'between', value: [0, 7] }]
+    }
+  ]
+};
+
+function request(overrides: Partial<PolicyRequest>): PolicyRequest {
+  return {
+    subject: { authenticated: true, roles: ['user'] },
+    resource: { type: 'event', id: 'ORDER_CREATE' },
+    action: 'emit',
+    environment: { hour: 12 },
+    ...overrides
+  };
+}
+
+// ==================== 评估 ====================
+
+describe('PolicyEngine', () => {
+  const engine = new PolicyEngine({ policySets: [POLICY_SET] });
+
+  it('动作、资源匹配且条件满足时允许', () => {
+    const decision = engine.evaluate(request({}));
+
+    expect(decision.allowed).toBe(true);
+    expect(decision.matchedRule?.ruleId).toBe('order-events');
+  });
+
+  it('显式拒绝优先于允许', () => {
+    const decision = engine.evaluate(request({
+      subject: { authenticated: true, roles: ['admin'] },
+      action: 'write',
+      resource: { type: 'state', id: 'auth', source: 'react-order-management' }
+    }));
+
+    expect(decision.allowed).toBe(false);
+    expect(decision.effect).toBe('deny');
+    expect(decision.matchedRule?.ruleId).toBe('no-auth-writes-from-apps');
+  });
+
+  it('按环境属性拒绝', () => {
+    const decision = engine.evaluate(request({ resource: { type: 'event', id: 'ORDER_DELETE' }, environment: { hour: 3 } }));
+    expect(decision.matchedRule?.ruleId).toBe('office-hours');
+  });
+
+  it('没有规则生效时使用默认结果', () => {
+    const decision = engine.evaluate(request({ resource: { type: 'event', id: 'USER_LOGIN' } }));
+
+    expect(decision.allowed).toBe(false);
+    expect(decision.effect).toBe('not_applicable');
+    expect(new PolicyEngine({ defaultEffect: 'allow' }).evaluate(request({})).allowed).toBe(true);
+  });
+
+  it('explain 列出每条规则的评估过程', () => {
+    const decision = engine.explain(request({ subject: { authenticated: false } }));
+
+    expect(decision.allowed).toBe(false);
+    expect(decision.evaluations).toHaveLength(POLICY_SET.rules.length);
+    expect(decision.evaluations![1]).toMatchObject({
+      ruleId: 'order-events',
+      applicable: true,
+      matched: false,
+      failedCondition: 'subject.authenticated eq true'
+    });
+    expect(decision.evaluations![0].applicable).toBe(false);
+  });
+
+  it('同 id 的策略集被替换', () => {
+    const local = new PolicyEngine({ policySets: [POLICY_SET] });
+    local.loadPolicySet({ id: 'orders', rules: [] });
+
+    expect(local.getPolicySets()).toHaveLength(1);
+    expect(local.evaluate(request({})).effect).toBe('not_applicable');
+  });
+});
+
+// ==================== 解析 ====================
+
+describe('parsePolicySet', () => {
+  const withPattern = (value: string): PolicySet => ({
+    id: 'patterns',
+    rules: [{ id: 'rule', effect: 'allow', conditions: [{ attribute: 'action', operator: 'matches', value }] }]
+  });
+
+  it('从 JSON 字符串解析', () => {
+    expect(parsePolicySet(JSON.stringify(POLICY_SET)).rules).toHaveLength(4);
+  });
+
+  it('拒绝格式错误的策略集', () => {
+    expect(() => parsePolicySet({ id: '', rules: [] })).toThrow('requires an id');
+    expect(() => parsePolicySet({ id: 'x', rules: [{ id: 'a', effect: 'maybe' as any }] })).toThrow('Invalid effect');
+    expect(() => parsePolicySet({ id: 'x', rules: [{ id: 'a', effect: 'allow' }, { id: 'a', effect: 'deny' }] })).toThrow('Duplicate rule id');
+    expect(() => parsePolicySet({ id: 'x', rules: [{ id: 'a', effect: 'allow', actions: 'emit' as any }] })).toThrow('actions must be an array');
+  });
+
+  it.each([
+    '(a+)+',
+    '(.*)*',
+    '(a|aa)+',
+    '(a|a)*b',
+    '((a|b))+',
+    '(?:x+){2,}',
+    '([a-z]+)*$'
+  ])('拒绝可能灾难性回溯的模式 %s', pattern => {
+    expect(() => parsePolicySet(withPattern(pattern))).toThrow('repeats a group');
+  });
+
+  it.each([
+    '^react-',
+    '(ab)+',
+    '(a|b)',
+    '[(|+)]+',
+    '\\(a|b\\)+',
+    '(?<app>react)-(?:order|product)$'
+  ])('接受安全的模式 %s', pattern => {
+    expect(() => parsePolicySet(withPattern(pattern))).not.toThrow();
+  });
+});
@@ -0,0 +1,631 @@
+/**
+ * 属性访问控制（ABAC）策略引擎 - 基于主体、资源、动作和环境属性的声明式授权
+ * 规则按 allow/deny 声明，显式拒绝优先；策略集可从 JSON 加载，并提供决策解释
+ */
+
+import { createEventPatternMatcher } from '../event-pattern';
+import {
+  Permission,
+  PermissionContext,
+  PermissionResult,
+  PermissionStrategy,
+  Role,
+  User
+} from './permission-middleware';
+
+// ==================== 策略类型定义 ====================
+
+export type PolicyEffect = 'allow' | 'deny';
+
+export type PolicyOperator =
+  | 'eq'
+  | 'ne'
+  | 'in'
+  | 'not_in'
+  | 'gt'
+  | 'gte'
+  | 'lt'
+  | 'lte'
+  | 'between'
+  | 'contains'
+  | 'contains_any'
+  | 'matches'
+  | 'exists';
+
+/**
+ * 属性条件
+ */
+export interface PolicyCondition {
+  /**
+   * 属性路径，如 'subject.roles'、'resource.source'、'environment.hour'、'action'
+   */
+  attribute: string;
+
+  operator: PolicyOperator;
+
+  /**
+   * 比较值
+   */
+  value?: any;
+
+  /**
+   * 与另一个属性比较，如 'subject.id'；设置后忽略 value
+   */
+  valueFrom?: string;
+}
+
+export interface PolicyRule {
+  id: string;
+  effect: PolicyEffect;
+  description?: string;
+
+  /**
+   * 匹配的动作（如 'emit'、'write'），支持通配模式，不设置时匹配所有动作
+   */
+  actions?: string[];
+
+  /**
+   * 匹配的资源 '<类型>:<标识>'（如 'event:USER_*'、'state:auth'），支持通配模式，不设置时匹配所有资源
+   */
+  resources?: string[];
+
+  /**
+   * 所有条件都满足时规则生效
+   */
+  conditions?: PolicyCondition[];
+}
+
+export interface PolicySet {
+  id: string;
+  version?: string;
+  description?: string;
+  rules: PolicyRule[];
+}
+
+/**
+ * 授权请求
+ */
+export interface PolicyRequest {
+  subject: Record<string, any>;
+  resource: { type: string; id: string; [key: string]: any };
+  action: string;
+  environment: Record<string, any>;
+}
+
+/**
+ * 单条规则的评估过程
+ */
+export interface PolicyRuleEvaluation {
+  policySet: string;
+  ruleId: string;
+  effect: PolicyEffect;
+
+  /**
+   * 动作和资源是否匹配
+   */
+  applicable: boolean;
+
+  /**
+   * 规则是否生效（匹配且条件全部满足）
+   */
+  matched: boolean;
+
+  /**
+   * 第一个不满足的条件
+   */
+  failedCondition?: string;
+}
+
+export interface PolicyDecision {
+  allowed: boolean;
+
+  /**
+   * 'not_applicable' 表示没有规则生效，按默认结果处理
+   */
+  effect: PolicyEffect | 'not_applicable';
+
+  /**
+   * 决定结果的规则
+   */
+  matchedRule?: {
+    policySet: string;
+    ruleId: string;
+    effect: PolicyEffect;
+    description?: string;
+  };
+
+  reason: string;
+
+  /**
+   * 所有规则的评估过程，仅在 explain 时提供
+   */
+  evaluations?: PolicyRuleEvaluation[];
+}
+
+export interface PolicyEngineOptions {
+  /**
+   * 没有规则生效时的结果，默认 'deny'
+   */
+  defaultEffect?: PolicyEffect;
+  policySets?: Array<PolicySet | string>;
+}
+
+const POLICY_OPERATORS: PolicyOperator[] = [
+  'eq', 'ne', 'in', 'not_in', 'gt', 'gte', 'lt', 'lte', 'between', 'contains', 'contains_any', 'matches', 'exists'
+];
+
+/**
+ * matches 模式的最大长度
+ */
+const MAX_PATTERN_LENGTH = 256;
+
+/**
+ * 解析时编译的 matches 正则，评估时直接使用
+ */
+const compiledPatterns: WeakMap<PolicyCondition, RegExp> = new WeakMap();
+
+/**
+ * 规则的动作和资源匹配函数，未设置时匹配全部
+ */
+interface RuleMatchers {
+  action?: (action: string) => boolean;
+  resource?: (resource: string) => boolean;
+}
+
+const compiledRules: WeakMap<PolicyRule, RuleMatchers> = new WeakMap();
+
+// ==================== 策略解析 ====================
+
+/**
+ * 解析并校验策略集，格式错误时抛出
+ */
+export function parsePolicySet(input: PolicySet | string): PolicySet {
+  const policySet: PolicySet = typeof input === 'string' ? JSON.parse(input) : input;
+
+  if (!policySet || typeof policySet.id !== 'string' || !policySet.id) {
+    throw new Error('[PolicyEngine] Policy set requires an id');
+  }
+  if (!Array.isArray(policySet.rules)) {
+    throw new Error(`[PolicyEngine] Policy set "${policySet.id}" requires a rules array`);
+  }
+
+  const ruleIds = new Set<string>();
+  policySet.rules.forEach((rule, index) => {
+    const where = `policy set "${policySet.id}" rule #${index}`;
+    if (!rule || typeof rule.id !== 'string' || !rule.id) {
+      throw new Error(`[PolicyEngine] Missing id in ${where}`);
+    }
+    if (ruleIds.has(rule.id)) {
+      throw new Error(`[PolicyEngine] Duplicate rule id "${rule.id}" in policy set "${policySet.id}"`);
+    }
+    ruleIds.add(rule.id);
+
+    if (rule.effect !== 'allow' && rule.effect !== 'deny') {
+      throw new Error(`[PolicyEngine] Invalid effect "${rule.effect}" in ${where}`);
+    }
+    (['actions', 'resources'] as const).forEach(field => {
+      const patterns = rule[field];
+      if (patterns !== undefined && (!Array.isArray(patterns) || patterns.some(pattern => typeof pattern !== 'string'))) {
+        throw new Error(`[PolicyEngine] ${field} must be an array of strings in ${where}`);
+      }
+    });
+    compiledRules.set(rule, compileRuleMatchers(rule));
+    (rule.conditions || []).forEach(condition => {
+      if (!condition || typeof condition.attribute !== 'string') {
+        throw new Error(`[PolicyEngine] Condition without attribute in ${where}`);
+      }
+      if (!POLICY_OPERATORS.includes(condition.operator)) {
+        throw new Error(`[PolicyEngine] Unknown operator "${condition.operator}" in ${where}`);
+      }
+      if (condition.operator === 'matches') {
+        compiledPatterns.set(condition, compileConditionPattern(condition, where));
+      }
+    });
+  });
+
+  return policySet;
+}
+
+/**
+ * 将规则的动作和资源模式编译为匹配函数
+ */
+function compileRuleMatchers(rule: PolicyRule): RuleMatchers {
+  return {
+    action: rule.actions && createEventPatternMatcher(rule.actions),
+    resource: rule.resources && createEventPatternMatcher(rule.resources)
+  };
+}
+
+/**
+ * 检查正则中是否有可能引发灾难性回溯的重复分组：
+ * 分组内带量词或分支（'|'），分组后又跟 '+'、'*' 或 '{n'，如 '(a+)+'、'(.*)*'、'(a|aa)+'、'(a|a)*b'
+ * 外层分组包含这样的内层分组时同样视为有风险，如 '((a|b))+'
+ */
+function hasAmbiguousRepetition(pattern: string): boolean {
+  const groups: boolean[] = []; // 每层未闭合的分组内是否出现过量词或分支
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+
+    if (char === '\\') {
+      i++;
+    } else if (char === '[') {
+      // 字符类内的字符都是字面量
+      for (i++; i < pattern.length && pattern[i] !== ']'; i++) {
+        if (pattern[i] === '\\') {
+          i++;
+        }
+      }
+    } else if (char === '(') {
+      groups.push(false);
+      // 跳过 '(?:'、'(?='、'(?!'、'(?<='、'(?<!'、'(?<name>' 等分组语法
+      if (pattern[i + 1] === '?') {
+        i += 2;
+        if (pattern[i] === '<' && pattern[i + 1] !== '=' && pattern[i + 1] !== '!') {
+          i = pattern.indexOf('>', i);
+          if (i === -1) {
+            return false;
+          }
+        } else if (pattern[i] === '<') {
+          i++;
+        }
+      }
+    } else if (char === ')') {
+      const ambiguous = groups.pop();
+      const next = pattern[i + 1];
+      const repeated = next === '+' || next === '*' || (next === '{' && /\d/.test(pattern[i + 2] || ''));
+      if (ambiguous && repeated) {
+        return true;
+      }
+      if (ambiguous && groups.length > 0) {
+        groups[groups.length - 1] = true;
+      }
+    } else if (groups.length > 0 && (char === '|' || char === '+' || char === '*' || (char === '{' && /\d/.test(pattern[i + 1] || '')))) {
+      groups[groups.length - 1] = true;
+    }
+  }
+
+  return false;
+}
+
+/**
+ * 编译并校验 matches 条件的正则：只接受字面量模式，拒绝无效和可能引发灾难性回溯的模式
+ */
+function compileConditionPattern(condition: PolicyCondition, where: string): RegExp {
+  const pattern = condition.value;
+  if (condition.valueFrom !== undefined || typeof pattern !== 'string') {
+    throw new Error(`[PolicyEngine] Operator "matches" requires a string pattern in value in ${where}`);
+  }
+  if (pattern.length > MAX_PATTERN_LENGTH) {
+    throw new Error(`[PolicyEngine] Pattern longer than ${MAX_PATTERN_LENGTH} characters in ${where}`);
+  }
+  if (hasAmbiguousRepetition(pattern)) {
+    throw new Error(`[PolicyEngine] Pattern "${pattern}" repeats a group with quantifiers or alternation in ${where}`);
+  }
+
+  try {
+    return new RegExp(pattern);
+  } catch (error) {
+    throw new Error(`[PolicyEngine] Invalid pattern "${pattern}" in ${where}: ${(error as Error).message}`);
+  }
+}
+
+// ==================== 策略引擎 ====================
+
+export class PolicyEngine {
+  private policySets: Map<string, PolicySet> = new Map();
+  private defaultEffect: PolicyEffect;
+
+  constructor(options: PolicyEngineOptions = {}) {
+    this.defaultEffect = options.defaultEffect || 'deny';
+    (options.policySets || []).forEach(policySet => this.loadPolicySet(policySet));
+  }
+
+  /**
+   * 加载策略集（对象或 JSON 字符串），同 id 的策略集会被替换
+   */
+  loadPolicySet(input: PolicySet | string): PolicySet {
+    const policySet = parsePolicySet(input);
+    this.policySets.set(policySet.id, policySet);
+    return policySet;
+  }
+
+  /**
+   * 移除策略集
+   */
+  removePolicySet(id: string): boolean {
+    return this.policySets.delete(id);
+  }
+
+  /**
+   * 获取所有策略集
+   */
+  getPolicySets(): PolicySet[] {
+    return Array.from(this.policySets.values());
+  }
+
+  /**
+   * 评估请求：任一 deny 规则生效即拒绝；否则任一 allow 规则生效即允许；都没有时使用默认结果
+   */
+  evaluate(request: PolicyRequest, options: { explain?: boolean } = {}): PolicyDecision {
+    const evaluations: PolicyRuleEvaluation[] = [];
+    let firstAllow: PolicyDecision['matchedRule'];
+    let firstDeny: PolicyDecision['matchedRule'];
+
+    for (const policySet of Array.from(this.policySets.values())) {
+      for (const rule of policySet.rules) {
+        // 已有 deny 生效且不需要解释时，无需继续评估
+        if (firstDeny && !options.explain) {
+          break;
+        }
+
+        const evaluation = this.evaluateRule(policySet.id, rule, request);
+        evaluations.push(evaluation);
+
+        if (!evaluation.matched) {
+          continue;
+        }
+
+        const matchedRule = { policySet: policySet.id, ruleId: rule.id, effect: rule.effect, description: rule.description };
+        if (rule.effect === 'deny' && !firstDeny) {
+          firstDeny = matchedRule;
+        } else if (rule.effect === 'allow' && !firstAllow) {
+          firstAllow = matchedRule;
+        }
+      }
+    }
+
+    const matchedRule = firstDeny || firstAllow;
+    const decision: PolicyDecision = matchedRule
+      ? {
+        allowed: matchedRule.effect === 'allow',
+        effect: matchedRule.effect,
+        matchedRule,
+        reason: `${matchedRule.effect === 'deny' ? 'Denied' : 'Allowed'} by rule "${matchedRule.ruleId}" in policy set "${matchedRule.policySet}"`
+          + (matchedRule.description ? `: ${matchedRule.description}` : '')
+      }
+      : {
+        allowed: this.defaultEffect === 'allow',
+        effect: 'not_applicable',
+        reason: `No policy rule matched ${request.action} on ${request.resource.type}:${request.resource.id}, default ${this.defaultEffect}`
+      };
+
+    if (options.explain) {
+      decision.evaluations = evaluations;
+    }
+    return decision;
+  }
+
+  /**
+   * 评估并返回每条规则的评估过程
+   */
+  explain(request: PolicyRequest): PolicyDecision {
+    return this.evaluate(request, { explain: true });
+  }
+
+  private evaluateRule(policySet: string, rule: PolicyRule, request: PolicyRequest): PolicyRuleEvaluation {
+    const evaluation: PolicyRuleEvaluation = {
+      policySet,
+      ruleId: rule.id,
+      effect: rule.effect,
+      applicable: false,
+      matched: false
+    };
+
+    // 策略集都经过 parsePolicySet，规则在加载后被替换时按需编译
+    let matchers = compiledRules.get(rule);
+    if (!matchers) {
+      matchers = compileRuleMatchers(rule);
+      compiledRules.set(rule, matchers);
+    }
+
+    const resourceKey = `${request.resource.type}:${request.resource.id}`;
+    const actionMatched = !matchers.action || matchers.action(request.action);
+    const resourceMatched = !matchers.resource || matchers.resource(resourceKey);
+    if (!actionMatched || !resourceMatched) {
+      return evaluation;
+    }
+    evaluation.applicable = true;
+
+    for (const condition of rule.conditions || []) {
+      if (!evaluateCondition(condition, request)) {
+        evaluation.failedCondition = describeCondition(condition);
+        return evaluation;
+      }
+    }
+
+    evaluation.matched = true;
+    return evaluation;
+  }
+}
+
+// ==================== 条件评估 ====================
+
+function resolveAttribute(request: PolicyRequest, path: string): any {
+  return path.split('.').reduce((current: any, segment) => (current === null || current === undefined ? undefined : current[segment]), request);
+}
+
+function evaluateCondition(condition: PolicyCondition, request: PolicyRequest): boolean {
+  const actual = resolveAttribute(request, condition.attribute);
+  const expected = condition.valueFrom ? resolveAttribute(request, condition.valueFrom) : condition.value;
+
+  switch (condition.operator) {
+    case 'eq':
+      return actual === expected;
+    case 'ne':
+      return actual !== expected;
+    case 'in':
+      return Array.isArray(expected) && expected.includes(actual);
+    case 'not_in':
+      return Array.isArray(expected) && !expected.includes(actual);
+    case 'gt':
+      return typeof actual === 'number' && actual > expected;
+    case 'gte':
+      return typeof actual === 'number' && actual >= expected;
+    case 'lt':
+      return typeof actual === 'number' && actual < expected;
+    case 'lte':
+      return typeof actual === 'number' && actual <= expected;
+    case 'between': {
+      const [min, max] = Array.isArray(expected) ? expected : [];
+      return typeof actual === 'number' && actual >= min && actual <= max;
+    }
+    case 'contains':
+      return (Array.isArray(actual) || typeof actual === 'string') && actual.includes(expected);
+    case 'contains_any':
+      return Array.isArray(actual) && Array.isArray(expected) && expected.some(item => actual.includes(item));
+    case 'matches': {
+      // 策略集都经过 parsePolicySet，未编译说明条件在加载后被改动，不予匹配
+      const pattern = compiledPatterns.get(condition);
+      return typeof actual === 'string' && !!pattern && pattern.test(actual);
+    }
+    case 'exists':
+      return (actual !== undefined && actual !== null) === (expected !== false);
+    default:
+      return false;
+  }
+}
+
+function describeCondition(condition: PolicyCondition): string {
+  const expected = condition.valueFrom ? condition.valueFrom : JSON.stringify(condition.value);
+  return `${condition.attribute} ${condition.operator} ${expected}`;
+}
+
+// ==================== 策略权限策略 ====================
+
+export interface PolicyPermissionStrategyOptions {
+  engine?: PolicyEngine;
+  policySets?: Array<PolicySet | string>;
+  defaultEffect?: PolicyEffect;
+
+  /**
+   * 补充主体属性（如部门、租户），与用户信息合并
+   */
+  getSubjectAttributes?: (user: User | undefined) => Record<string, any>;
+
+  /**
+   * 补充环境属性
+   */
+  getEnvironment?: () => Record<string, any>;
+}
+
+/**
+ * 基于策略引擎的权限策略，可用于事件总线的 PermissionMiddleware 和状态的 StatePermissionMiddleware
+ * 事件请求的动作为 'emit'、资源为 'event:<事件类型>'；状态请求的动作为 'write'、资源为 'state:<分支>'
+ */
+export class PolicyPermissionStrategy implements PermissionStrategy {
+  public readonly engine: PolicyEngine;
+
+  private users: Map<string, User> = new Map();
+  private getSubjectAttributes?: (user: User | undefined) => Record<string, any>;
+  private getEnvironment?: () => Record<string, any>;
+
+  constructor(options: PolicyPermissionStrategyOptions = {}) {
+    this.engine = options.engine || new PolicyEngine({
+      defaultEffect: options.defaultEffect,
+      policySets: options.policySets
+    });
+    if (options.engine && options.policySets) {
+      options.policySets.forEach(policySet => this.engine.loadPolicySet(policySet));
+    }
+    this.getSubjectAttributes = options.getSubjectAttributes;
+    this.getEnvironment = options.getEnvironment;
+  }
+
+  async checkPermission(context: PermissionContext): Promise<PermissionResult> {
+    const decision = this.engine.evaluate(this.buildRequest(context));
+
+    return {
+      allowed: decision.allowed,
+      reason: decision.reason,
+      decision
+    };
+  }
+
+  /**
+   * 解释权限决策
+   */
+  explain(context: PermissionContext): PolicyDecision {
+    return this.engine.explain(this.buildRequest(context));
+  }
+
+  /**
+   * 由权限上下文构造授权请求
+   */
+  buildRequest(context: PermissionContext): PolicyRequest {
+    const { user, event } = context;
+    const date = new Date(context.timestamp);
+
+    return {
+      subject: {
+        ...this.buildSubject(user),
+        ...(this.getSubjectAttributes ? this.getSubjectAttributes(user) : {})
+      },
+      resource: context.resource || {
+        type: 'event',
+        id: event.type,
+        source: event.source
+      },
+      action: context.action || 'emit',
+      environment: {
+        timestamp: context.timestamp,
+        hour: date.getHours(),
+        weekday: date.getDay(),
+        ...context.metadata,
+        ...(this.getEnvironment ? this.getEnvironment() : {})
+      }
+    };
+  }
+
+  private buildSubject(user: User | undefined): Record<string, any> {
+    if (!user) {
+      return { authenticated: false };
+    }
+
+    const roles = user.roles || [];
+    const permissions = [
+      ...(user.permissions || []),
+      ...roles.flatMap(role => role.permissions || [])
+    ];
+
+    return {
+      ...user.attributes,
+      authenticated: true,
+      id: user.id,
+      name: user.name,
+      roles: roles.map(role => role.name),
+      roleIds: roles.map(role => role.id),
+      level: roles.reduce((max, role) => Math.max(max, role.level), 0),
+      permissions: Array.from(new Set(permissions.map(p => `${p.resource}.${p.action}`)))
+    };
+  }
+
+  async getUserPermissions(userId: string): Promise<Permission[]> {
+    const user = this.users.get(userId);
+    if (!user) {
+      return [];
+    }
+    return [...user.permissions, ...user.roles.flatMap(role => role.permissions)];
+  }
+
+  async getUserRoles(userId: string): Promise<Role[]> {
+    const user = this.users.get(userId);
+    return user ? user.roles : [];
+  }
+
+  /**
+   * 注册用户
+   */
+  registerUser(user: User): void {
+    this.users.set(user.id, user);
+  }
+}
+
+// ==================== 工厂函数 ====================
+
+/**
+ * 创建策略权限策略
+ */
+export function createPolicyPermissionStrategy(options: PolicyPermissionStrategyOptions = {}): PolicyPermissionStrategy {
+  return new PolicyPermissionStrategy(options);
+}
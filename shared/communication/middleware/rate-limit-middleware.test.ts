@@ -0,0 +1,126 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  RateLimitExceeded,
+  RateLimitMiddleware,
+  SharedRateLimitStorage,
+  createProdRateLimitMiddleware
+} from './rate-limit-middleware';
+import { BaseEvent } from '../../types/events';
+
+// ==================== 辅助函数 ====================
+
+function createEvent(source: string, type: string = 'ORDER_UPDATE'): BaseEvent {
+  return { type, source, timestamp: new Date().toISOString(), id: `${type}-${Math.random()}` };
+}
+
+function createMiddleware(mode: 'drop' | 'cooldown'): RateLimitMiddleware {
+  return new RateLimitMiddleware({
+    defaultConfig: { windowMs: 60000, maxRequests: 1000 },
+    defaultAppQuota: { windowMs: 50, maxRequests: 2, algorithm: 'fixed-window', mode, maxDelayMs: 100, maxRetries: 3 }
+  });
+}
+
+// ==================== 应用配额 ====================
+
+describe('RateLimitMiddleware 应用配额', () => {
+  afterEach(() => {
+    localStorage.clear();
+    vi.useRealTimers();
+  });
+
+  it('drop 模式下超出配额立即拒绝并记录', async () => {
+    const middleware = createMiddleware('drop');
+    const next = vi.fn(async () => undefined);
+
+    await middleware.process(createEvent('app-a'), next);
+    await middleware.process(createEvent('app-a'), next);
+    await expect(middleware.process(createEvent('app-a'), next)).rejects.toBeInstanceOf(RateLimitExceeded);
+    await middleware.process(createEvent('app-b'), next);
+
+    expect(next).toHaveBeenCalledTimes(3);
+    const status = middleware.getQuotaStatus().find(item => item.source === 'app-a')!;
+    expect(status).toMatchObject({ limit: 2, remaining: 0, allowed: 2, dropped: 1 });
+    expect(status.throttledEvents[0].outcome).toBe('dropped');
+    middleware.destroy();
+  });
+
+  it('cooldown 模式下等待配额恢复后放行', async () => {
+    const middleware = createMiddleware('cooldown');
+    const next = vi.fn(async () => undefined);
+
+    await middleware.process(createEvent('app-a'), next);
+    await middleware.process(createEvent('app-a'), next);
+    await middleware.process(createEvent('app-a'), next);
+
+    expect(next).toHaveBeenCalledTimes(3);
+    const status = middleware.getQuotaStatus()[0];
+    expect(status.delayed).toBe(1);
+    expect(status.throttledEvents.map(record => record.outcome)).toContain('delayed');
+    middleware.destroy();
+  });
+
+  it('生产环境默认配额超出时直接拒绝，不阻塞发送方', async () => {
+    const middleware = createProdRateLimitMiddleware();
+    const next = vi.fn(async () => undefined);
+
+    for (let i = 0; i < 300; i++) {
+      await middleware.process(createEvent('chatty-app', `CUSTOM_${i % 50}`), next);
+    }
+
+    const startedAt = Date.now();
+    await expect(middleware.process(createEvent('chatty-app', 'USER_LOGOUT'), next)).rejects.toBeInstanceOf(RateLimitExceeded);
+    expect(Date.now() - startedAt).toBeLessThan(1000);
+    middleware.destroy();
+  });
+});
+
+// ==================== 跨标签页存储 ====================
+
+describe('SharedRateLimitStorage', () => {
+  afterEach(() => {
+    localStorage.clear();
+    vi.restoreAllMocks();
+    vi.useRealTimers();
+  });
+
+  it('不同实例共享同一份计数', async () => {
+    const first = new SharedRateLimitStorage({ prefix: 'spec-shared' });
+    const second = new SharedRateLimitStorage({ prefix: 'spec-shared' });
+    const entry = { count: 3, resetTime: Date.now() + 60000, firstRequest: Date.now() };
+
+    await first.set('app:a', entry);
+    expect(await second.get('app:a')).toEqual(entry);
+    expect(second.getEntries()).toEqual([['app:a', entry]]);
+
+    first.destroy();
+    second.destroy();
+  });
+
+  it('创建时不启动定时器，有条目时运行，条目全部过期后停止', async () => {
+    vi.useFakeTimers();
+    const storage = new SharedRateLimitStorage({ prefix: 'spec-timers', cleanupIntervalMs: 1000 });
+    expect(vi.getTimerCount()).toBe(0);
+
+    await storage.set('app:a', { count: 1, resetTime: Date.now() + 500, firstRequest: Date.now() });
+    await storage.set('app:b', { count: 1, resetTime: Date.now() + 500, firstRequest: Date.now() });
+    vi.advanceTimersByTime(0); // jsdom 写入 localStorage 时排队的 storage 事件
+    expect(vi.getTimerCount()).toBe(1);
+
+    // 条目过期后清理一次即停止，不再有周期定时器
+    vi.advanceTimersByTime(5000);
+    expect(vi.getTimerCount()).toBe(0);
+    expect(storage.getEntries()).toEqual([]);
+    storage.destroy();
+  });
+
+  it('localStorage 不可用时 clear 不抛出', async () => {
+    const storage = new SharedRateLimitStorage({ prefix: 'spec-clear' });
+    await storage.set('app:a', { count: 1, resetTime: Date.now() + 60000, firstRequest: Date.now() });
+    vi.spyOn(Storage.prototype, 'removeItem').mockImplementation(() => {
+      throw new Error('SecurityError');
+    });
+
+    await expect(storage.clear()).resolves.toBeUndefined();
+    storage.destroy();
+  });
+});
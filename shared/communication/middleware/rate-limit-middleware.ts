@@ -38,6 +38,27 @@ export interface RateLimitConfig {
    * 限流算法
    */
   algorithm?: 'sliding-window' | 'token-bucket' | 'fixed-window';
+
+  /**
+   * 超限处理方式：'drop' 直接拒绝；'cooldown' 等待配额恢复后重试，多次超限时退避等待
+   * cooldown 在中间件内等待，等待期间 emit 不会完成，只适合可以容忍延迟的事件
+   */
+  mode?: 'drop' | 'cooldown';
+
+  /**
+   * cooldown 模式下单次等待的上限（毫秒），默认 5000
+   */
+  maxDelayMs?: number;
+
+  /**
+   * cooldown 模式下的重试次数，用尽后拒绝，默认 3
+   */
+  maxRetries?: number;
+
+  /**
+   * cooldown 模式下连续超限时等待时间的倍数，默认 2
+   */
+  backoffFactor?: number;
 }
 
 export interface RateLimitResult {
@@ -60,6 +81,16 @@ export interface RateLimitStorage {
   set(key: string, entry: RateLimitEntry): Promise<void>;
   delete(key: string): Promise<void>;
   clear(): Promise<void>;
+
+  /**
+   * 串行执行同一个键的读-改-写，共享存储用它避免多个标签页同时消耗配额
+   */
+  transaction?<T>(key: string, operation: () => Promise<T>): Promise<T>;
+
+  /**
+   * 释放定时器和通信通道
+   */
+  destroy?(): void;
 }
 
 // ==================== 内存限流存储 ====================
@@ -116,6 +147,282 @@ export class MemoryRateLimitStorage implements RateLimitStorage {
   }
 }
 
+// ==================== 跨标签页限流存储 ====================
+
+export interface SharedRateLimitStorageOptions {
+  /**
+   * localStorage 键前缀，也用作 BroadcastChannel 名称
+   */
+  prefix?: string;
+  cleanupIntervalMs?: number;
+}
+
+interface RateLimitStorageMessage {
+  type: 'set' | 'delete' | 'clear';
+  tabId: string;
+  key?: string;
+  entry?: RateLimitEntry;
+}
+
+/**
+ * 基于 localStorage 的限流存储，所有标签页共享同一份配额，刷新页面后配额不会重置
+ * 读-改-写通过 Web Locks 在标签页之间串行执行；不支持时只在当前标签页内串行
+ * 变更通过 BroadcastChannel 通知其他标签页，用于配额面板实时刷新
+ * 通道在第一次写入或订阅时打开，清理定时器只在存在条目时运行
+ */
+export class SharedRateLimitStorage implements RateLimitStorage {
+  private prefix: string;
+  private tabId: string = `tab-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+  private channel: BroadcastChannel | null = null;
+  private listeners: Set<(key: string | null, entry: RateLimitEntry | null) => void> = new Set();
+  private pending: Map<string, Promise<unknown>> = new Map();
+
+  // localStorage 写入失败（如配额已满）时的后备
+  private fallback: Map<string, RateLimitEntry> = new Map();
+  private cleanupInterval: any;
+  private cleanupIntervalMs: number;
+
+  constructor(options: SharedRateLimitStorageOptions = {}) {
+    this.prefix = options.prefix || 'qiankun-rate-limit';
+    this.cleanupIntervalMs = options.cleanupIntervalMs || 60000;
+  }
+
+  /**
+   * 检查运行环境是否支持
+   */
+  static isSupported(): boolean {
+    try {
+      return typeof localStorage !== 'undefined';
+    } catch {
+      return false;
+    }
+  }
+
+  async get(key: string): Promise<RateLimitEntry | null> {
+    const entry = this.read(key);
+
+    if (entry && Date.now() > entry.resetTime) {
+      await this.delete(key);
+      return null;
+    }
+
+    return entry;
+  }
+
+  async set(key: string, entry: RateLimitEntry): Promise<void> {
+    this.write(key, entry);
+    this.broadcast({ type: 'set', tabId: this.tabId, key, entry });
+    this.notify(key, entry);
+  }
+
+  async delete(key: string): Promise<void> {
+    this.fallback.delete(key);
+    try {
+      localStorage.removeItem(this.storageKey(key));
+    } catch {
+      // localStorage 不可用时只清理后备存储
+    }
+    this.broadcast({ type: 'delete', tabId: this.tabId, key });
+    this.notify(key, null);
+  }
+
+  async clear(): Promise<void> {
+    this.fallback.clear();
+    this.storageKeys().forEach(storageKey => this.removeStorageKey(storageKey));
+    this.broadcast({ type: 'clear', tabId: this.tabId });
+    this.notify(null, null);
+  }
+
+  async transaction<T>(key: string, operation: () => Promise<T>): Promise<T> {
+    if (typeof navigator !== 'undefined' && navigator.locks) {
+      return navigator.locks.request(`${this.prefix}:${key}`, operation);
+    }
+
+    // 不支持 Web Locks 时在当前标签页内按键串行
+    const previous = this.pending.get(key) || Promise.resolve();
+    const current = previous.catch(() => undefined).then(operation);
+    this.pending.set(key, current);
+
+    try {
+      return await current;
+    } finally {
+      if (this.pending.get(key) === current) {
+        this.pending.delete(key);
+      }
+    }
+  }
+
+  /**
+   * 获取所有未过期的条目
+   */
+  getEntries(): Array<[string, RateLimitEntry]> {
+    const now = Date.now();
+    const entries = new Map<string, RateLimitEntry>(this.fallback);
+
+    this.storageKeys().forEach(storageKey => {
+      const key = storageKey.slice(this.prefix.length + 1);
+      const entry = this.read(key);
+      if (entry) {
+        entries.set(key, entry);
+      }
+    });
+
+    return Array.from(entries.entries()).filter(([, entry]) => now <= entry.resetTime);
+  }
+
+  /**
+   * 订阅任意标签页的变更，key 为 null 表示全部清除
+   */
+  subscribe(listener: (key: string | null, entry: RateLimitEntry | null) => void): () => void {
+    this.openChannel();
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  private handleMessage(message: RateLimitStorageMessage): void {
+    if (!message || message.tabId === this.tabId) {
+      return;
+    }
+
+    if (message.type === 'clear') {
+      this.fallback.clear();
+      this.notify(null, null);
+      return;
+    }
+
+    if (message.key) {
+      this.notify(message.key, message.type === 'set' ? message.entry || null : null);
+    }
+  }
+
+  private read(key: string): RateLimitEntry | null {
+    try {
+      const raw = localStorage.getItem(this.storageKey(key));
+      if (raw) {
+        return JSON.parse(raw) as RateLimitEntry;
+      }
+    } catch {
+      // 数据损坏或 localStorage 不可用时使用后备存储
+    }
+    return this.fallback.get(key) || null;
+  }
+
+  private write(key: string, entry: RateLimitEntry): void {
+    try {
+      localStorage.setItem(this.storageKey(key), JSON.stringify(entry));
+      this.fallback.delete(key);
+    } catch (error) {
+      this.fallback.set(key, entry);
+    }
+    this.startCleanup();
+  }
+
+  private removeStorageKey(storageKey: string): void {
+    try {
+      localStorage.removeItem(storageKey);
+    } catch {
+      // localStorage 不可用
+    }
+  }
+
+  private storageKey(key: string): string {
+    return `${this.prefix}:${key}`;
+  }
+
+  private storageKeys(): string[] {
+    const keys: string[] = [];
+    try {
+      for (let i = 0; i < localStorage.length; i++) {
+        const storageKey = localStorage.key(i);
+        if (storageKey && storageKey.startsWith(`${this.prefix}:`)) {
+          keys.push(storageKey);
+        }
+      }
+    } catch {
+      // localStorage 不可用
+    }
+    return keys;
+  }
+
+  private notify(key: string | null, entry: RateLimitEntry | null): void {
+    this.listeners.forEach(listener => {
+      try {
+        listener(key, entry);
+      } catch (error) {
+        console.error('[SharedRateLimitStorage] Error in change listener:', error);
+      }
+    });
+  }
+
+  private openChannel(): void {
+    if (this.channel || typeof BroadcastChannel === 'undefined') {
+      return;
+    }
+    this.channel = new BroadcastChannel(this.prefix);
+    this.channel.onmessage = (e: MessageEvent) => this.handleMessage(e.data as RateLimitStorageMessage);
+  }
+
+  private broadcast(message: RateLimitStorageMessage): void {
+    try {
+      this.openChannel();
+      this.channel?.postMessage(message);
+    } catch (error) {
+      console.warn('[SharedRateLimitStorage] Failed to broadcast change:', error);
+    }
+  }
+
+  private startCleanup(): void {
+    if (!this.cleanupInterval) {
+      this.cleanupInterval = setInterval(() => {
+        this.cleanup();
+      }, this.cleanupIntervalMs);
+    }
+  }
+
+  private stopCleanup(): void {
+    if (this.cleanupInterval) {
+      clearInterval(this.cleanupInterval);
+      this.cleanupInterval = undefined;
+    }
+  }
+
+  /**
+   * 清理过期条目，没有剩余条目时停止定时器
+   */
+  private cleanup(): void {
+    const now = Date.now();
+    let remaining = 0;
+    this.storageKeys().forEach(storageKey => {
+      try {
+        const entry = JSON.parse(localStorage.getItem(storageKey) || 'null') as RateLimitEntry | null;
+        if (!entry || now > entry.resetTime) {
+          this.removeStorageKey(storageKey);
+        } else {
+          remaining++;
+        }
+      } catch {
+        this.removeStorageKey(storageKey);
+      }
+    });
+    for (const [key, entry] of this.fallback.entries()) {
+      if (now > entry.resetTime) {
+        this.fallback.delete(key);
+      }
+    }
+
+    if (remaining === 0 && this.fallback.size === 0) {
+      this.stopCleanup();
+    }
+  }
+
+  destroy(): void {
+    this.stopCleanup();
+    this.channel?.close();
+    this.channel = null;
+    this.listeners.clear();
+  }
+}
+
 // ==================== 限流算法实现 ====================
 
 export abstract class RateLimitAlgorithm {
@@ -302,15 +609,76 @@ export class FixedWindowAlgorithm extends RateLimitAlgorithm {
   }
 }
 
+// ==================== 限流错误 ====================
+
+/**
+ * 限流拒绝，携带建议的重试等待时间
+ * 保留 MiddlewareInterceptor 的 name，事件总线据此停止后续处理
+ */
+export class RateLimitExceeded extends MiddlewareInterceptor {
+  constructor(public retryAfter: number | undefined, middlewareName: string) {
+    super(`Rate limit exceeded. Retry after ${retryAfter}ms`, middlewareName);
+  }
+}
+
 // ==================== 限流中间件 ====================
 
 export interface RateLimitMiddlewareOptions {
   configs?: Map<string, RateLimitConfig>;
   defaultConfig?: RateLimitConfig;
   storage?: RateLimitStorage;
+
+  /**
+   * 按来源应用（BaseEvent.source）的总配额，在事件类型限流之前检查
+   */
+  appQuotas?: Record<string, RateLimitConfig>;
+
+  /**
+   * 未单独配置的应用使用的配额，不设置时不限制
+   */
+  defaultAppQuota?: RateLimitConfig;
+
   debug?: boolean;
 }
 
+/**
+ * 被限流的事件
+ */
+export interface ThrottledEventRecord {
+  type: string;
+  timestamp: number;
+  outcome: 'delayed' | 'dropped';
+  retryAfter?: number;
+}
+
+/**
+ * 单个应用的配额状态
+ */
+export interface AppQuotaStatus {
+  source: string;
+
+  /**
+   * 应用配额，未配置时为空
+   */
+  limit?: number;
+  remaining?: number;
+  resetTime?: number;
+
+  /**
+   * 本标签页中通过、等待后通过和被拒绝的事件数
+   */
+  allowed: number;
+  delayed: number;
+  dropped: number;
+
+  /**
+   * 最近被限流的事件
+   */
+  throttledEvents: ThrottledEventRecord[];
+}
+
+const MAX_THROTTLED_RECORDS = 20;
+
 export class RateLimitMiddleware implements EventMiddleware {
   public readonly name = 'rate-limit';
   public readonly priority = 30; // 在权限检查之后
@@ -319,6 +687,11 @@ export class RateLimitMiddleware implements EventMiddleware {
   private defaultConfig: RateLimitConfig;
   private storage: RateLimitStorage;
   private algorithms: Map<string, RateLimitAlgorithm> = new Map();
+  private appQuotas: Record<string, RateLimitConfig>;
+  private defaultAppQuota?: RateLimitConfig;
+  private appAlgorithms: Map<string, RateLimitAlgorithm> = new Map();
+  private quotaStatus: Map<string, AppQuotaStatus> = new Map();
+  private backoffStreaks: Map<string, number> = new Map();
   private debug: boolean;
 
   constructor(options: RateLimitMiddlewareOptions = {}) {
@@ -329,6 +702,8 @@ export class RateLimitMiddleware implements EventMiddleware {
       algorithm: 'sliding-window'
     };
     this.storage = options.storage || new MemoryRateLimitStorage();
+    this.appQuotas = options.appQuotas || {};
+    this.defaultAppQuota = options.defaultAppQuota;
     this.debug = options.debug || false;
 
     this.initializeAlgorithms();
@@ -369,42 +744,141 @@ export class RateLimitMiddleware implements EventMiddleware {
       return;
     }
 
-    // 生成限流键
-    const key = config.keyGenerator ? config.keyGenerator(event) : this.defaultKeyGenerator(event);
+    let delayed = false;
+    try {
+      // 先检查来源应用的总配额
+      const appQuota = this.getAppQuota(event.source);
+      if (appQuota && !(appQuota.skip && appQuota.skip(event))) {
+        const appKey = `app:${event.source}`;
+        delayed = await this.enforce(appKey, appQuota, this.getAppAlgorithm(event.source, appQuota), event, true);
+      }
 
-    // 获取对应的算法
-    const algorithm = this.algorithms.get(event.type) || this.algorithms.get('default')!;
+      // 生成限流键
+      const key = config.keyGenerator ? config.keyGenerator(event) : this.defaultKeyGenerator(event);
 
-    if (this.debug) {
-      console.log(`[RateLimitMiddleware] Checking rate limit for key: ${key}, event: ${event.type}`);
+      // 获取对应的算法
+      const algorithm = this.algorithms.get(event.type) || this.algorithms.get('default')!;
+
+      if (this.debug) {
+        console.log(`[RateLimitMiddleware] Checking rate limit for key: ${key}, event: ${event.type}`);
+      }
+
+      delayed = (await this.enforce(key, config, algorithm, event, false)) || delayed;
+    } catch (error) {
+      this.recordOutcome(event, 'dropped', error instanceof RateLimitExceeded ? error.retryAfter : undefined);
+      throw error;
     }
 
-    // 执行限流检查
-    const result = await algorithm.checkLimit(key, event);
+    this.recordOutcome(event, delayed ? 'delayed' : 'allowed');
 
-    if (!result.allowed) {
-      if (this.debug) {
-        console.warn(`[RateLimitMiddleware] Rate limit exceeded for key: ${key}, retry after: ${result.retryAfter}ms`);
+    // 限流检查通过，继续执行
+    await next(event);
+  }
+
+  /**
+   * 执行限流检查；cooldown 模式下等待后重试，返回是否发生过等待
+   */
+  private async enforce(
+    key: string,
+    config: RateLimitConfig,
+    algorithm: RateLimitAlgorithm,
+    event: BaseEvent,
+    isAppQuota: boolean
+  ): Promise<boolean> {
+    const maxRetries = config.mode === 'cooldown' ? config.maxRetries ?? 3 : 0;
+
+    for (let attempt = 0; ; attempt++) {
+      const result = this.storage.transaction
+        ? await this.storage.transaction(key, () => algorithm.checkLimit(key, event))
+        : await algorithm.checkLimit(key, event);
+
+      if (isAppQuota) {
+        this.updateQuota(event.source, config, result);
       }
 
-      // 调用限流触发回调
-      if (config.onLimitReached) {
-        config.onLimitReached(key, event);
+      if (result.allowed) {
+        this.backoffStreaks.delete(key);
+        if (this.debug) {
+          console.log(`[RateLimitMiddleware] Rate limit check passed for key: ${key}, remaining: ${result.remaining}`);
+        }
+        return attempt > 0;
+      }
+
+      if (attempt >= maxRetries) {
+        if (this.debug) {
+          console.warn(`[RateLimitMiddleware] Rate limit exceeded for key: ${key}, retry after: ${result.retryAfter}ms`);
+        }
+
+        // 调用限流触发回调
+        if (config.onLimitReached) {
+          config.onLimitReached(key, event);
+        }
+
+        // 抛出限流错误
+        throw new RateLimitExceeded(result.retryAfter, this.name);
       }
 
-      // 抛出限流错误
-      throw new MiddlewareInterceptor(
-        `Rate limit exceeded. Retry after ${result.retryAfter}ms`,
-        this.name
+      // 连续超限时按倍数延长等待
+      const streak = (this.backoffStreaks.get(key) || 0) + 1;
+      this.backoffStreaks.set(key, streak);
+      const delay = Math.min(
+        (result.retryAfter ?? config.windowMs) * Math.pow(config.backoffFactor ?? 2, streak - 1),
+        config.maxDelayMs ?? 5000
       );
+
+      if (this.debug) {
+        console.warn(`[RateLimitMiddleware] Rate limit exceeded for key: ${key}, cooling down for ${delay}ms`);
+      }
+
+      this.recordThrottled(event, { type: event.type, timestamp: Date.now(), outcome: 'delayed', retryAfter: delay });
+      await new Promise(resolve => setTimeout(resolve, delay));
     }
+  }
+
+  private getAppQuota(source: string): RateLimitConfig | undefined {
+    return this.appQuotas[source] || this.defaultAppQuota;
+  }
 
-    if (this.debug) {
-      console.log(`[RateLimitMiddleware] Rate limit check passed for key: ${key}, remaining: ${result.remaining}`);
+  private getAppAlgorithm(source: string, config: RateLimitConfig): RateLimitAlgorithm {
+    let algorithm = this.appAlgorithms.get(source);
+    if (!algorithm) {
+      algorithm = this.createAlgorithm(config);
+      this.appAlgorithms.set(source, algorithm);
     }
+    return algorithm;
+  }
 
-    // 限流检查通过，继续执行
-    await next(event);
+  private getStatus(source: string): AppQuotaStatus {
+    let status = this.quotaStatus.get(source);
+    if (!status) {
+      status = { source, allowed: 0, delayed: 0, dropped: 0, throttledEvents: [] };
+      this.quotaStatus.set(source, status);
+    }
+    return status;
+  }
+
+  private updateQuota(source: string, config: RateLimitConfig, result: RateLimitResult): void {
+    const status = this.getStatus(source);
+    status.limit = config.maxRequests;
+    status.remaining = result.remaining;
+    status.resetTime = result.resetTime;
+  }
+
+  private recordOutcome(event: BaseEvent, outcome: 'allowed' | 'delayed' | 'dropped', retryAfter?: number): void {
+    const status = this.getStatus(event.source);
+    status[outcome]++;
+
+    if (outcome === 'dropped') {
+      this.recordThrottled(event, { type: event.type, timestamp: Date.now(), outcome, retryAfter });
+    }
+  }
+
+  private recordThrottled(event: BaseEvent, record: ThrottledEventRecord): void {
+    const status = this.getStatus(event.source);
+    status.throttledEvents.push(record);
+    if (status.throttledEvents.length > MAX_THROTTLED_RECORDS) {
+      status.throttledEvents.shift();
+    }
   }
 
   /**
@@ -450,11 +924,37 @@ export class RateLimitMiddleware implements EventMiddleware {
     return await algorithm.checkLimit(key, tempEvent);
   }
 
+  /**
+   * 设置应用配额
+   */
+  setAppQuota(source: string, config: RateLimitConfig): void {
+    this.appQuotas[source] = config;
+    this.appAlgorithms.delete(source);
+  }
+
+  /**
+   * 获取各应用的配额状态，窗口已过期的应用显示完整配额
+   */
+  getQuotaStatus(): AppQuotaStatus[] {
+    const now = Date.now();
+
+    return Array.from(this.quotaStatus.values()).map(status => {
+      const expired = status.resetTime !== undefined && now > status.resetTime;
+      return {
+        ...status,
+        remaining: expired ? status.limit : status.remaining,
+        throttledEvents: [...status.throttledEvents]
+      };
+    });
+  }
+
   /**
    * 清除限流记录
    */
   async clearRateLimitData(): Promise<void> {
     await this.storage.clear();
+    this.quotaStatus.clear();
+    this.backoffStreaks.clear();
   }
 
   /**
@@ -463,6 +963,13 @@ export class RateLimitMiddleware implements EventMiddleware {
   getConfigs(): Map<string, RateLimitConfig> {
     return new Map(this.configs);
   }
+
+  /**
+   * 释放存储的定时器和通信通道，从事件总线移除中间件后调用
+   */
+  destroy(): void {
+    this.storage.destroy?.();
+  }
 }
 
 // ==================== 工厂函数 ====================
@@ -545,6 +1052,15 @@ export function createProdRateLimitMiddleware(): RateLimitMiddleware {
       maxRequests: 100,
       algorithm: 'sliding-window'
     },
+    // 配额在所有标签页之间共享，刷新页面不会重置
+    storage: SharedRateLimitStorage.isSupported() ? new SharedRateLimitStorage() : undefined,
+    // 单个应用每 10 秒最多 300 个事件，超出时直接拒绝，不阻塞发送方的 emit
+    defaultAppQuota: {
+      windowMs: 10000,
+      maxRequests: 300,
+      algorithm: 'fixed-window',
+      mode: 'drop'
+    },
     debug: false
   });
 }
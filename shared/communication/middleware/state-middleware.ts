@@ -4,6 +4,7 @@
  */
 
 import { GlobalState, StateAction } from '../../types/store';
+import { MiddlewareChainEntry, describeConditions } from './middleware-composition';
 
 // ==================== 状态中间件接口定义 ====================
 
@@ -37,6 +38,11 @@ export interface StateMiddleware {
    * 是否启用
    */
   enabled?: boolean;
+
+  /**
+   * 是否处理该动作，返回 false 时管理器跳过此中间件（见 whenState/forActionTypes/forStateApps）
+   */
+  appliesTo?(action: StateAction, state: GlobalState): boolean;
 }
 
 /**
@@ -194,7 +200,8 @@ export class StateMiddlewareManager {
     // 创建中间件执行链
     let currentIndex = 0;
 
-    const executeNext = (actionToExecute: StateAction): void => {
+    // 异步中间件返回 Promise，使整个管道执行完毕后 processAction 才返回
+    const executeNext = (actionToExecute: StateAction): void | Promise<void> => {
       if (currentIndex >= enabledMiddleware.length || context.intercepted) {
         // 所有中间件执行完毕，执行最终动作
         executeAction(actionToExecute);
@@ -204,6 +211,10 @@ export class StateMiddlewareManager {
       const middleware = enabledMiddleware[currentIndex++];
       const middlewareStartTime = Date.now();
 
+      if (middleware.appliesTo && !middleware.appliesTo(actionToExecute, currentState)) {
+        return executeNext(actionToExecute);
+      }
+
       try {
         if (this.debug) {
           console.log(`[StateMiddleware] Executing middleware: ${middleware.name}`);
@@ -213,7 +224,7 @@ export class StateMiddlewareManager {
 
         // 处理异步中间件
         if (result instanceof Promise) {
-          result
+          return result
             .then(() => {
               // 记录中间件执行信息
               if (this.performanceTracking) {
@@ -244,7 +255,7 @@ export class StateMiddlewareManager {
     };
 
     // 开始执行中间件链
-    executeNext(action);
+    await executeNext(action);
 
     // 性能追踪
     if (this.performanceTracking && this.debug) {
@@ -289,6 +300,30 @@ export class StateMiddlewareManager {
     }
   }
 
+  /**
+   * 获取动作经过的中间件链路（按执行顺序），用于排查顺序和挂载条件
+   */
+  getEffectiveChain(action: StateAction, currentState: GlobalState): MiddlewareChainEntry[] {
+    return this.middleware.map(middleware => {
+      const entry: MiddlewareChainEntry = {
+        name: middleware.name,
+        priority: middleware.priority || 100,
+        active: true,
+        conditions: describeConditions(middleware)
+      };
+
+      if (middleware.enabled === false) {
+        entry.active = false;
+        entry.skipReason = 'disabled';
+      } else if (middleware.appliesTo && !middleware.appliesTo(action, currentState)) {
+        entry.active = false;
+        entry.skipReason = 'condition';
+      }
+
+      return entry;
+    });
+  }
+
   /**
    * 判断是否应该在错误时停止执行
    */
@@ -73,6 +73,15 @@ export interface RouteChangeEvent extends BaseEvent {
   };
 }
 
+// 将导航事件登记到全局事件映射表
+// （事件模块中存在同名接口，这里通过 import() 显式引用本模块的定义）
+declare module '../../types/events' {
+  interface MicroFrontendEventMap {
+    NAVIGATION: import('./route-manager').NavigationEvent;
+    ROUTE_CHANGE: import('./route-manager').RouteChangeEvent;
+  }
+}
+
 // ==================== 路由管理器实现 ====================
 
 export class RouteManager {
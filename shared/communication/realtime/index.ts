@@ -10,7 +10,9 @@ export {
   globalWebSocketManager,
   createWebSocketConnection,
   sendWebSocketMessage,
-  broadcastWebSocketMessage
+  broadcastWebSocketMessage,
+  DELIVERY_MESSAGE_TYPES,
+  UNACKED_OVERFLOW_ERROR
 } from './websocket-manager';
 
 export type {
@@ -19,9 +21,48 @@ export type {
   ConnectionInfo,
   WebSocketStats,
   WebSocketEventType,
-  WebSocketEventHandler
+  WebSocketEventHandler,
+  TransportChangeEvent,
+  DeliveryState
 } from './websocket-manager';
 
+// 传输层
+export {
+  WebSocketTransport,
+  SSETransport,
+  LongPollingTransport,
+  TRANSPORT_STATE,
+  registerTransport,
+  createTransport
+} from './transports';
+
+export type {
+  TransportKind,
+  RealtimeTransport,
+  TransportOptions,
+  TransportEndpoints,
+  TransportFactory,
+  TransportCloseEvent,
+  TransportMessageEvent,
+  TransportData
+} from './transports';
+
+// 多路复用连接
+export {
+  MultiplexedSocket,
+  ScopedTopicClient,
+  TOPIC_FRAME_TYPES,
+  createMultiplexedSocket
+} from './multiplexed-socket';
+
+export type {
+  TopicHandler,
+  TopicInfo,
+  MultiplexedSocketConfig,
+  MultiplexedSocketStatus,
+  SocketStatusListener
+} from './multiplexed-socket';
+
 // 实时通知服务
 export {
   NotificationService,
@@ -64,9 +105,16 @@ export type {
   RetryPolicy,
   QueueStats,
   OfflineStorage,
+  ProcessedKeyRecord,
   MessagePriority,
   MessageProcessor,
-  MessageFilter
+  MessageFilter,
+  DeadLetterPolicy,
+  IdempotencyPolicy,
+  DeadLetterReason,
+  DeadLetterInfo,
+  DeadLetterUpdate,
+  RedriveOptions
 } from './message-queue';
 
 // 工具函数
@@ -0,0 +1,151 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { MessageQueue, QueueConfig, QueueMessage } from './message-queue';
+
+// ==================== 辅助函数 ====================
+
+function createConfig(overrides: Partial<QueueConfig> = {}): QueueConfig {
+  return {
+    id: 'spec-queue',
+    name: 'Spec Queue',
+    maxSize: 100,
+    processingMode: 'fifo',
+    autoProcess: false,
+    processingInterval: 1000,
+    retryPolicy: { maxRetries: 1, initialDelay: 0, backoffMultiplier: 1, maxDelay: 0 },
+    persistOffline: true,
+    storageKey: 'spec-queue',
+    ...overrides
+  };
+}
+
+function message(type: string, idempotencyKey?: string): Omit<QueueMessage, 'id' | 'timestamp' | 'retryCount'> {
+  return { type, data: {}, priority: 'normal', maxRetries: 1, source: 'spec', idempotencyKey };
+}
+
+function deadLetter(id: string): QueueMessage {
+  return {
+    ...message('ORDER_SYNC'),
+    id,
+    timestamp: new Date().toISOString(),
+    retryCount: 1,
+    deadLetter: {
+      reason: 'max-retries',
+      error: { name: 'Error', message: 'failed' },
+      failedAt: new Date().toISOString(),
+      attempts: 1,
+      crashCount: 0,
+      redriveCount: 0,
+      poison: false
+    }
+  };
+}
+
+// ==================== 死信队列 ====================
+
+describe('MessageQueue 死信队列', () => {
+  afterEach(() => {
+    localStorage.clear();
+    vi.restoreAllMocks();
+  });
+
+  it('重试耗尽后进入死信队列，重投后重新处理', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const queue = new MessageQueue(createConfig());
+    let fail = true;
+    queue.registerProcessor('ORDER_SYNC', async () => {
+      if (fail) {
+        throw new Error('backend down');
+      }
+    });
+
+    const id = await queue.enqueue(message('ORDER_SYNC'));
+    await queue.processMessages();
+
+    expect(queue.getDeadLetter(id)!.deadLetter).toMatchObject({ reason: 'max-retries', attempts: 1, poison: false });
+    expect(JSON.parse(localStorage.getItem('spec-queue:dead-letter')!)).toHaveLength(1);
+
+    fail = false;
+    expect(await queue.redriveDeadLetter(id)).toBe(true);
+    await queue.processMessages();
+    expect(queue.getStats()).toMatchObject({ deadLetterMessages: 0, processedMessages: 1, redrivenMessages: 1 });
+    await queue.destroy();
+  });
+
+  it('反复崩溃的消息判定为毒消息，需要 force 才能重投', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const queue = new MessageQueue(createConfig({ deadLetter: { poisonThreshold: 1 } }));
+    queue.registerProcessor('ORDER_SYNC', async (msg: QueueMessage) => msg.data.items.length);
+
+    const id = await queue.enqueue({ ...message('ORDER_SYNC'), maxRetries: 5 });
+    await queue.processMessages();
+
+    expect(queue.getDeadLetter(id)!.deadLetter).toMatchObject({ reason: 'poison', crashCount: 1, poison: true });
+    expect(await queue.redriveDeadLetter(id)).toBe(false);
+    expect(await queue.redriveDeadLetter(id, { force: true })).toBe(true);
+    await queue.destroy();
+  });
+
+  it('加载的死信按 id 去重并限制容量', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    localStorage.setItem('spec-queue:dead-letter', JSON.stringify(['a', 'b', 'c', 'b', 'd'].map(deadLetter)));
+
+    const queue = new MessageQueue(createConfig({ deadLetter: { maxSize: 3 } }));
+    await queue.whenReady();
+
+    expect(queue.getDeadLetters().map(msg => msg.id)).toEqual(['c', 'b', 'd']);
+    expect(queue.getStats().deadLetterMessages).toBe(3);
+    await queue.destroy();
+  });
+});
+
+// ==================== 幂等键 ====================
+
+describe('MessageQueue 幂等键', () => {
+  afterEach(() => {
+    localStorage.clear();
+  });
+
+  it('刷新后相同幂等键的消息不会再次处理', async () => {
+    const processor = vi.fn(async () => undefined);
+    const first = new MessageQueue(createConfig());
+    first.registerProcessor('PAYMENT_CAPTURE', processor);
+
+    const id = await first.enqueue(message('PAYMENT_CAPTURE', 'payment-1'));
+    await first.processMessages();
+    expect(await first.enqueue(message('PAYMENT_CAPTURE', 'payment-1'))).toBe(id);
+    await first.destroy();
+
+    const second = new MessageQueue(createConfig());
+    second.registerProcessor('PAYMENT_CAPTURE', processor);
+    expect(await second.enqueue(message('PAYMENT_CAPTURE', 'payment-1'))).toBe(id);
+    await second.processMessages();
+
+    expect(processor).toHaveBeenCalledTimes(1);
+    expect(second.getStats().duplicatesSkipped).toBe(1);
+    await second.destroy();
+  });
+
+  it('过期的幂等键不再加载', async () => {
+    localStorage.setItem('spec-queue:processed-keys', JSON.stringify([
+      { key: 'stale', messageId: 'old', processedAt: Date.now() - 2000 },
+      { key: 'fresh', messageId: 'new', processedAt: Date.now() }
+    ]));
+
+    const queue = new MessageQueue(createConfig({ idempotency: { ttl: 1000 } }));
+
+    expect(await queue.enqueue(message('PAYMENT_CAPTURE', 'fresh'))).toBe('new');
+    expect(await queue.enqueue(message('PAYMENT_CAPTURE', 'stale'))).not.toBe('old');
+    await queue.destroy();
+  });
+
+  it('未启用离线持久化时不写入存储', async () => {
+    const queue = new MessageQueue(createConfig({ persistOffline: false }));
+    queue.registerProcessor('PAYMENT_CAPTURE', async () => undefined);
+
+    await queue.enqueue(message('PAYMENT_CAPTURE', 'payment-1'));
+    await queue.processMessages();
+
+    expect(localStorage.getItem('spec-queue:processed-keys')).toBeNull();
+    await queue.destroy();
+  });
+});
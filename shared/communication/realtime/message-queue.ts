@@ -21,6 +21,16 @@ export interface QueueMessage {
   source: string;
   target?: string;
   metadata?: Record<string, any>;
+
+  /**
+   * 幂等键，相同键的消息只会被成功处理一次
+   */
+  idempotencyKey?: string;
+
+  /**
+   * 死信信息，只有死信队列中的消息带有
+   */
+  deadLetter?: DeadLetterInfo;
 }
 
 export interface QueueConfig {
@@ -33,6 +43,8 @@ export interface QueueConfig {
   retryPolicy: RetryPolicy;
   persistOffline: boolean;
   storageKey?: string;
+  deadLetter?: DeadLetterPolicy;
+  idempotency?: IdempotencyPolicy;
 }
 
 export interface RetryPolicy {
@@ -43,6 +55,82 @@ export interface RetryPolicy {
   retryCondition?: (message: QueueMessage, error: Error) => boolean;
 }
 
+export interface DeadLetterPolicy {
+  /**
+   * 默认开启；关闭时处理失败的消息直接丢弃
+   */
+  enabled?: boolean;
+
+  /**
+   * 死信队列容量，超出时丢弃最早的死信，默认 100
+   */
+  maxSize?: number;
+
+  /**
+   * 同一消息累计导致处理器崩溃的次数达到该值即判定为毒消息，默认 3
+   */
+  poisonThreshold?: number;
+
+  /**
+   * 判断错误是否属于处理器崩溃，默认 TypeError、ReferenceError、RangeError 和 SyntaxError
+   */
+  isCrash?: (error: Error, message: QueueMessage) => boolean;
+}
+
+export interface IdempotencyPolicy {
+  /**
+   * 已处理的幂等键保留时长，默认 24 小时
+   */
+  ttl?: number;
+
+  /**
+   * 最多保留的幂等键数量，默认 1000
+   */
+  maxKeys?: number;
+}
+
+/**
+ * not-retryable：retryPolicy.retryCondition 拒绝重试
+ */
+export type DeadLetterReason = 'max-retries' | 'not-retryable' | 'poison';
+
+export interface DeadLetterInfo {
+  reason: DeadLetterReason;
+  error: { name: string; message: string; stack?: string };
+  failedAt: string;
+
+  /**
+   * 累计失败次数，重投后继续累加
+   */
+  attempts: number;
+
+  /**
+   * 累计导致处理器崩溃的次数
+   */
+  crashCount: number;
+  redriveCount: number;
+
+  /**
+   * 毒消息需要修改内容或强制重投
+   */
+  poison: boolean;
+}
+
+/**
+ * 死信可修改的字段
+ */
+export type DeadLetterUpdate = Partial<Pick<
+  QueueMessage,
+  'type' | 'data' | 'priority' | 'target' | 'expiresAt' | 'maxRetries' | 'metadata' | 'idempotencyKey'
+>>;
+
+export interface RedriveOptions {
+  /**
+   * 同时重投毒消息
+   */
+  force?: boolean;
+}
+
 export interface QueueStats {
   totalMessages: number;
   processedMessages: number;
@@ -53,6 +141,23 @@ export interface QueueStats {
   errorRate: number;
   queueSize: number;
   oldestMessage?: string;
+  deadLetterMessages: number;
+  poisonMessages: number;
+  redrivenMessages: number;
+
+  /**
+   * 因幂等键重复而跳过的消息数
+   */
+  duplicatesSkipped: number;
+}
+
+/**
+ * 已处理的幂等键，持久化后刷新页面仍能识别重复消息
+ */
+export interface ProcessedKeyRecord {
+  key: string;
+  messageId: string;
+  processedAt: number;
 }
 
 export interface OfflineStorage {
@@ -60,12 +165,30 @@ export interface OfflineStorage {
   load(key: string): Promise<QueueMessage[]>;
   clear(key: string): Promise<void>;
   exists(key: string): Promise<boolean>;
+
+  /**
+   * 未实现时已处理的幂等键只保存在内存中
+   */
+  saveProcessedKeys?(key: string, records: ProcessedKeyRecord[]): Promise<void>;
+  loadProcessedKeys?(key: string): Promise<ProcessedKeyRecord[]>;
 }
 
 export type MessagePriority = 'low' | 'normal' | 'high' | 'urgent';
 export type MessageProcessor = (message: QueueMessage) => Promise<any>;
 export type MessageFilter = (message: QueueMessage) => boolean;
 
+interface FailureRecord {
+  attempts: number;
+  crashes: number;
+  redrives: number;
+}
+
+const isProcessorCrash = (error: Error): boolean =>
+  error instanceof TypeError
+  || error instanceof ReferenceError
+  || error instanceof RangeError
+  || error instanceof SyntaxError;
+
 // ==================== 默认离线存储实现 ====================
 
 class LocalStorageOfflineStorage implements OfflineStorage {
@@ -98,6 +221,24 @@ class LocalStorageOfflineStorage implements OfflineStorage {
   async exists(key: string): Promise<boolean> {
     return localStorage.getItem(key) !== null;
   }
+
+  async saveProcessedKeys(key: string, records: ProcessedKeyRecord[]): Promise<void> {
+    try {
+      localStorage.setItem(key, JSON.stringify(records));
+    } catch (error) {
+      console.warn('[MessageQueue] Failed to save processed keys to localStorage:', error);
+    }
+  }
+
+  async loadProcessedKeys(key: string): Promise<ProcessedKeyRecord[]> {
+    try {
+      const data = localStorage.getItem(key);
+      return data ? JSON.parse(data) : [];
+    } catch (error) {
+      console.warn('[MessageQueue] Failed to load processed keys from localStorage:', error);
+      return [];
+    }
+  }
 }
 
 // ==================== 消息队列实现 ====================
@@ -115,13 +256,22 @@ export class MessageQueue {
     averageProcessingTime: 0,
     throughput: 0,
     errorRate: 0,
-    queueSize: 0
+    queueSize: 0,
+    deadLetterMessages: 0,
+    poisonMessages: 0,
+    redrivenMessages: 0,
+    duplicatesSkipped: 0
   };
+  private deadLetters: QueueMessage[] = [];
+  private failures: Map<string, FailureRecord> = new Map(); // 按消息 id 记录失败次数，重投后保留
+  private pendingKeys: Map<string, string> = new Map(); // 幂等键 -> 队列中或重试中的消息 id
+  private processedKeys: Map<string, { messageId: string; processedAt: number }> = new Map(); // 启用离线持久化时同步到存储
   private processingTimer: NodeJS.Timeout | null = null;
   private processingTimes: number[] = [];
   private isProcessing: boolean = false;
   private offlineStorage: OfflineStorage;
   private observers: Set<(stats: QueueStats) => void> = new Set();
+  private ready: Promise<void> = Promise.resolve(); // 离线数据加载完成前不入队、不处理
 
   constructor(config: QueueConfig, offlineStorage?: OfflineStorage) {
     this.config = config;
@@ -133,14 +283,23 @@ export class MessageQueue {
 
     // 如果启用离线持久化，加载离线消息
     if (config.persistOffline) {
-      this.loadOfflineMessages();
+      this.ready = this.loadOfflineMessages();
     }
   }
 
+  /**
+   * 等待离线消息、死信和已处理的幂等键加载完成
+   */
+  whenReady(): Promise<void> {
+    return this.ready;
+  }
+
   /**
    * 添加消息到队列
    */
   async enqueue(message: Omit<QueueMessage, 'id' | 'timestamp' | 'retryCount'>): Promise<string> {
+    await this.ready;
+
     const queueMessage: QueueMessage = {
       id: this.generateId(),
       timestamp: new Date().toISOString(),
@@ -148,11 +307,20 @@ export class MessageQueue {
       ...message
     };
 
+    // 相同幂等键的消息已处理或仍在队列中时，返回原消息 id
+    const duplicateOf = this.findDuplicate(queueMessage.idempotencyKey);
+    if (duplicateOf) {
+      this.stats.duplicatesSkipped++;
+      this.notifyObservers();
+      return duplicateOf;
+    }
+
     // 检查队列大小限制
     if (this.messages.length >= this.config.maxSize) {
       // 移除最旧的消息
       const removed = this.messages.shift();
       if (removed) {
+        this.releaseKey(removed);
         console.warn(`[MessageQueue] Queue full, removed message: ${removed.id}`);
       }
     }
@@ -167,6 +335,9 @@ export class MessageQueue {
 
     // 添加到队列
     this.addToQueue(queueMessage);
+    if (queueMessage.idempotencyKey) {
+      this.pendingKeys.set(queueMessage.idempotencyKey, queueMessage.id);
+    }
     
     // 更新统计
     this.stats.totalMessages++;
@@ -187,6 +358,8 @@ export class MessageQueue {
    * 处理队列中的消息
    */
   async processMessages(): Promise<void> {
+    await this.ready;
+
     if (this.isProcessing || this.messages.length === 0) {
       return;
     }
@@ -254,7 +427,8 @@ export class MessageQueue {
   removeMessage(messageId: string): boolean {
     const index = this.messages.findIndex(msg => msg.id === messageId);
     if (index > -1) {
-      this.messages.splice(index, 1);
+      const [removed] = this.messages.splice(index, 1);
+      this.releaseKey(removed);
       this.updateStats();
       this.notifyObservers();
       return true;
@@ -266,6 +440,7 @@ export class MessageQueue {
    * 清空队列
    */
   async clear(): Promise<void> {
+    this.messages.forEach(message => this.releaseKey(message));
     this.messages = [];
     this.updateStats();
     
@@ -289,6 +464,94 @@ export class MessageQueue {
     }
   }
 
+  // ==================== 死信队列 ====================
+
+  /**
+   * 获取死信
+   */
+  getDeadLetters(filter?: MessageFilter): QueueMessage[] {
+    return filter ? this.deadLetters.filter(filter) : [...this.deadLetters];
+  }
+
+  getDeadLetter(messageId: string): QueueMessage | undefined {
+    return this.deadLetters.find(msg => msg.id === messageId);
+  }
+
+  /**
+   * 修改死信内容；修改 type 或 data 后清除毒消息标记和崩溃计数
+   */
+  async updateDeadLetter(messageId: string, changes: DeadLetterUpdate): Promise<boolean> {
+    const message = this.getDeadLetter(messageId);
+    if (!message) {
+      return false;
+    }
+
+    const info = message.deadLetter!;
+    Object.assign(message, changes);
+    if ('type' in changes || 'data' in changes) {
+      info.crashCount = 0;
+      info.poison = false;
+    }
+
+    await this.persistDeadLetters();
+    this.notifyObservers();
+    return true;
+  }
+
+  /**
+   * 将死信重新放回队列，重试次数清零；毒消息需要 force
+   */
+  async redriveDeadLetter(messageId: string, options: RedriveOptions = {}): Promise<boolean> {
+    const moved = this.takeDeadLetter(messageId, options);
+    if (!moved) {
+      return false;
+    }
+
+    await this.persistDeadLetters();
+    if (this.config.persistOffline) {
+      await this.saveOfflineMessages();
+    }
+    this.notifyObservers();
+    return true;
+  }
+
+  /**
+   * 批量重投死信，返回重投的数量
+   */
+  async redriveDeadLetters(filter?: MessageFilter, options: RedriveOptions = {}): Promise<number> {
+    const redriven = this.getDeadLetters(filter).filter(message => this.takeDeadLetter(message.id, options));
+
+    if (redriven.length > 0) {
+      await this.persistDeadLetters();
+      if (this.config.persistOffline) {
+        await this.saveOfflineMessages();
+      }
+      this.notifyObservers();
+    }
+    return redriven.length;
+  }
+
+  /**
+   * 删除死信
+   */
+  async removeDeadLetter(messageId: string): Promise<boolean> {
+    const index = this.deadLetters.findIndex(msg => msg.id === messageId);
+    if (index === -1) {
+      return false;
+    }
+
+    this.deadLetters.splice(index, 1);
+    await this.persistDeadLetters();
+    this.notifyObservers();
+    return true;
+  }
+
+  async clearDeadLetters(): Promise<void> {
+    this.deadLetters = [];
+    await this.persistDeadLetters();
+    this.notifyObservers();
+  }
+
   /**
    * 获取队列统计
    */
@@ -339,6 +602,10 @@ export class MessageQueue {
     }
     
     this.messages = [];
+    this.deadLetters = [];
+    this.failures.clear();
+    this.pendingKeys.clear();
+    this.processedKeys.clear();
     this.processors.clear();
     this.filters = [];
     this.observers.clear();
@@ -396,6 +663,7 @@ export class MessageQueue {
         const expiresAt = new Date(message.expiresAt);
         if (now > expiresAt) {
           console.log(`[MessageQueue] Message expired: ${message.id}`);
+          this.releaseKey(message);
           return false;
         }
       }
@@ -406,6 +674,15 @@ export class MessageQueue {
   private async processMessage(message: QueueMessage): Promise<void> {
     const startTime = performance.now();
 
+    // 重投或重复入队的消息已经处理过时直接跳过
+    if (message.idempotencyKey && this.isProcessed(message.idempotencyKey)) {
+      this.stats.duplicatesSkipped++;
+      this.failures.delete(message.id);
+      this.removeMessage(message.id);
+      this.releaseKey(message);
+      return;
+    }
+
     try {
       const processor = this.processors.get(message.type);
       
@@ -421,7 +698,12 @@ export class MessageQueue {
       this.recordProcessingTime(processingTime);
 
       // 移除已处理的消息
+      this.failures.delete(message.id);
+      this.markProcessed(message);
       this.removeMessage(message.id);
+      if (message.idempotencyKey) {
+        await this.persistProcessedKeys();
+      }
 
     } catch (error) {
       await this.handleProcessingError(message, error as Error);
@@ -434,10 +716,31 @@ export class MessageQueue {
 
     // 检查重试策略
     const retryPolicy = this.config.retryPolicy;
+    const failure = this.recordFailure(message, error);
+
+    // 反复导致处理器崩溃的消息不再重试
+    if (this.isDeadLetterEnabled() && failure.crashes >= this.getPoisonThreshold()) {
+      await this.moveToDeadLetter(message, error, 'poison');
+
+      globalErrorManager.handleCustomError(
+        `Poison message detected after ${failure.crashes} processor crashes: ${error.message}`,
+        'runtime-error',
+        'high',
+        { props: { messageId: message.id, messageType: message.type } }
+      );
+
+      await globalNotificationService.sendSystemNotification(
+        'Poison Message Quarantined',
+        `Message ${message.id} (${message.type}) crashed its processor ${failure.crashes} times`,
+        'high'
+      );
+
+      return;
+    }
     
     if (message.retryCount >= message.maxRetries) {
-      // 超过最大重试次数，移除消息
-      this.removeMessage(message.id);
+      // 超过最大重试次数，移入死信队列
+      await this.moveToDeadLetter(message, error, 'max-retries');
       
       globalErrorManager.handleCustomError(
         `Message processing failed after ${message.retryCount} retries: ${error.message}`,
@@ -458,7 +761,7 @@ export class MessageQueue {
 
     // 检查重试条件
     if (retryPolicy.retryCondition && !retryPolicy.retryCondition(message, error)) {
-      this.removeMessage(message.id);
+      await this.moveToDeadLetter(message, error, 'not-retryable');
       return;
     }
 
@@ -480,6 +783,145 @@ export class MessageQueue {
     });
   }
 
+  private recordFailure(message: QueueMessage, error: Error): FailureRecord {
+    let failure = this.failures.get(message.id);
+    if (!failure) {
+      failure = { attempts: 0, crashes: 0, redrives: 0 };
+      this.failures.set(message.id, failure);
+    }
+
+    const isCrash = this.config.deadLetter?.isCrash || isProcessorCrash;
+    failure.attempts++;
+    if (isCrash(error, message)) {
+      failure.crashes++;
+    }
+    return failure;
+  }
+
+  private isDeadLetterEnabled(): boolean {
+    return this.config.deadLetter?.enabled !== false;
+  }
+
+  private getPoisonThreshold(): number {
+    return this.config.deadLetter?.poisonThreshold ?? 3;
+  }
+
+  private getIdempotencyTtl(): number {
+    return this.config.idempotency?.ttl ?? 24 * 60 * 60 * 1000;
+  }
+
+  private async moveToDeadLetter(message: QueueMessage, error: Error, reason: DeadLetterReason): Promise<void> {
+    const failure = this.failures.get(message.id) || { attempts: message.retryCount, crashes: 0, redrives: 0 };
+    this.failures.delete(message.id);
+    this.removeMessage(message.id);
+    this.releaseKey(message);
+
+    if (!this.isDeadLetterEnabled()) {
+      return;
+    }
+
+    message.deadLetter = {
+      reason,
+      error: { name: error.name, message: error.message, stack: error.stack },
+      failedAt: new Date().toISOString(),
+      attempts: failure.attempts,
+      crashCount: failure.crashes,
+      redriveCount: failure.redrives,
+      poison: reason === 'poison'
+    };
+    this.deadLetters.push(message);
+
+    const maxSize = this.config.deadLetter?.maxSize ?? 100;
+    if (this.deadLetters.length > maxSize) {
+      const dropped = this.deadLetters.shift();
+      console.warn(`[MessageQueue] Dead letter queue full, dropped message: ${dropped?.id}`);
+    }
+
+    this.updateStats();
+    await this.persistDeadLetters();
+    this.notifyObservers();
+  }
+
+  /**
+   * 从死信队列取出消息放回队列，失败和崩溃计数继续累加
+   */
+  private takeDeadLetter(messageId: string, options: RedriveOptions): boolean {
+    const index = this.deadLetters.findIndex(msg => msg.id === messageId);
+    if (index === -1) {
+      return false;
+    }
+
+    const message = this.deadLetters[index];
+    const info = message.deadLetter!;
+    if (info.poison && !options.force) {
+      console.warn(`[MessageQueue] Skipped redriving poison message: ${message.id}`);
+      return false;
+    }
+
+    this.deadLetters.splice(index, 1);
+    delete message.deadLetter;
+    message.retryCount = 0;
+    this.failures.set(message.id, {
+      attempts: info.attempts,
+      crashes: info.crashCount,
+      redrives: info.redriveCount + 1
+    });
+
+    this.addToQueue(message);
+    if (message.idempotencyKey && !this.pendingKeys.has(message.idempotencyKey)) {
+      this.pendingKeys.set(message.idempotencyKey, message.id);
+    }
+    this.stats.redrivenMessages++;
+    this.updateStats();
+    return true;
+  }
+
+  private findDuplicate(key?: string): string | undefined {
+    if (!key) {
+      return undefined;
+    }
+    if (this.isProcessed(key)) {
+      return this.processedKeys.get(key)!.messageId;
+    }
+    return this.pendingKeys.get(key);
+  }
+
+  private isProcessed(key: string): boolean {
+    const entry = this.processedKeys.get(key);
+    if (!entry) {
+      return false;
+    }
+
+    const ttl = this.getIdempotencyTtl();
+    if (Date.now() - entry.processedAt > ttl) {
+      this.processedKeys.delete(key);
+      return false;
+    }
+    return true;
+  }
+
+  private markProcessed(message: QueueMessage): void {
+    if (!message.idempotencyKey) {
+      return;
+    }
+
+    this.releaseKey(message);
+    this.processedKeys.delete(message.idempotencyKey);
+    this.processedKeys.set(message.idempotencyKey, { messageId: message.id, processedAt: Date.now() });
+
+    // Map 按插入顺序迭代，超出上限时移除最早的键
+    const maxKeys = this.config.idempotency?.maxKeys ?? 1000;
+    while (this.processedKeys.size > maxKeys) {
+      this.processedKeys.delete(this.processedKeys.keys().next().value);
+    }
+  }
+
+  private releaseKey(message: QueueMessage): void {
+    if (message.idempotencyKey && this.pendingKeys.get(message.idempotencyKey) === message.id) {
+      this.pendingKeys.delete(message.idempotencyKey);
+    }
+  }
+
   private recordProcessingTime(time: number): void {
     this.processingTimes.push(time);
     
@@ -510,6 +952,9 @@ export class MessageQueue {
     if (this.messages.length > 0) {
       this.stats.oldestMessage = this.messages[this.messages.length - 1].timestamp;
     }
+
+    this.stats.deadLetterMessages = this.deadLetters.length;
+    this.stats.poisonMessages = this.deadLetters.filter(message => message.deadLetter?.poison).length;
   }
 
   private async loadOfflineMessages(): Promise<void> {
@@ -529,7 +974,21 @@ export class MessageQueue {
         return true;
       });
 
+      this.messages.forEach(message => this.releaseKey(message));
       this.messages = validMessages;
+      this.messages.forEach(message => {
+        if (message.idempotencyKey) {
+          this.pendingKeys.set(message.idempotencyKey, message.id);
+        }
+      });
+
+      const deadLetters = await this.offlineStorage.load(this.getDeadLetterStorageKey()!);
+      this.deadLetters = this.mergeDeadLetters(deadLetters, this.deadLetters);
+
+      const processedKeys = await this.offlineStorage.loadProcessedKeys?.(this.getProcessedKeysStorageKey()!);
+      if (processedKeys) {
+        this.mergeProcessedKeys(processedKeys);
+      }
       this.updateStats();
       
       console.log(`[MessageQueue] Loaded ${validMessages.length} offline messages`);
@@ -559,6 +1018,96 @@ export class MessageQueue {
     }
   }
 
+  private getDeadLetterStorageKey(): string | undefined {
+    return this.config.storageKey ? `${this.config.storageKey}:dead-letter` : undefined;
+  }
+
+  private getProcessedKeysStorageKey(): string | undefined {
+    return this.config.storageKey ? `${this.config.storageKey}:processed-keys` : undefined;
+  }
+
+  /**
+   * 按 id 去重，内存中的死信较新，覆盖存储中的同一条；超出容量时保留最新的
+   */
+  private mergeDeadLetters(stored: QueueMessage[], current: QueueMessage[]): QueueMessage[] {
+    const byId = new Map<string, QueueMessage>();
+    [...stored, ...current].forEach(message => {
+      byId.delete(message.id);
+      byId.set(message.id, message);
+    });
+
+    const merged = Array.from(byId.values());
+    const maxSize = this.config.deadLetter?.maxSize ?? 100;
+    if (merged.length > maxSize) {
+      console.warn(`[MessageQueue] Dead letter queue full, dropped ${merged.length - maxSize} stored messages`);
+      return merged.slice(-maxSize);
+    }
+    return merged;
+  }
+
+  /**
+   * 合并存储中的幂等键，忽略已过期的，按处理时间保留最新的 maxKeys 个
+   */
+  private mergeProcessedKeys(records: ProcessedKeyRecord[]): void {
+    const ttl = this.getIdempotencyTtl();
+    const now = Date.now();
+    const entries = records
+      .map(({ key, messageId, processedAt }) => ({ key, messageId, processedAt }))
+      .concat(Array.from(this.processedKeys, ([key, entry]) => ({ key, ...entry })))
+      .filter(entry => now - entry.processedAt <= ttl)
+      .sort((a, b) => a.processedAt - b.processedAt);
+
+    // 按处理时间升序写入，同一个键以较新的记录为准
+    this.processedKeys.clear();
+    entries.forEach(({ key, messageId, processedAt }) => {
+      this.processedKeys.delete(key);
+      this.processedKeys.set(key, { messageId, processedAt });
+    });
+
+    const maxKeys = this.config.idempotency?.maxKeys ?? 1000;
+    while (this.processedKeys.size > maxKeys) {
+      this.processedKeys.delete(this.processedKeys.keys().next().value);
+    }
+  }
+
+  /**
+   * 只保存未过期的幂等键
+   */
+  private async persistProcessedKeys(): Promise<void> {
+    const storageKey = this.getProcessedKeysStorageKey();
+    if (!this.config.persistOffline || !storageKey || !this.offlineStorage.saveProcessedKeys) {
+      return;
+    }
+
+    const ttl = this.getIdempotencyTtl();
+    const now = Date.now();
+    const records: ProcessedKeyRecord[] = [];
+    this.processedKeys.forEach((entry, key) => {
+      if (now - entry.processedAt <= ttl) {
+        records.push({ key, messageId: entry.messageId, processedAt: entry.processedAt });
+      }
+    });
+
+    try {
+      await this.offlineStorage.saveProcessedKeys(storageKey, records);
+    } catch (error) {
+      console.warn('[MessageQueue] Failed to save processed keys:', error);
+    }
+  }
+
+  private async persistDeadLetters(): Promise<void> {
+    const storageKey = this.getDeadLetterStorageKey();
+    if (!this.config.persistOffline || !storageKey) {
+      return;
+    }
+
+    try {
+      await this.offlineStorage.save(storageKey, this.deadLetters);
+    } catch (error) {
+      console.warn('[MessageQueue] Failed to save dead letters:', error);
+    }
+  }
+
   private async clearOfflineMessages(): Promise<void> {
     if (!this.config.storageKey) {
       return;
@@ -731,6 +1280,7 @@ export async function sendMessage(
     expiresAt?: string;
     maxRetries?: number;
     metadata?: Record<string, any>;
+    idempotencyKey?: string;
   }
 ): Promise<string> {
   return defaultMessageQueue.enqueue({
@@ -741,7 +1291,8 @@ export async function sendMessage(
     expiresAt: options?.expiresAt,
     maxRetries: options?.maxRetries || 3,
     source: 'message-queue-utils',
-    metadata: options?.metadata
+    metadata: options?.metadata,
+    idempotencyKey: options?.idempotencyKey
   });
 }
 
@@ -0,0 +1,154 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { MultiplexedSocket, TOPIC_FRAME_TYPES, createMultiplexedSocket } from './multiplexed-socket';
+import { installWebSocketGlobal, startMockRealtimeServer } from '../../../mock-realtime-server/src/testing';
+import { MockRealtimeServer } from '../../../mock-realtime-server/src/server';
+
+// ==================== 辅助函数 ====================
+
+function waitFor(check: () => boolean, timeout: number = 3000): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const startedAt = Date.now();
+    const poll = () => {
+      if (check()) {
+        resolve();
+      } else if (Date.now() - startedAt > timeout) {
+        reject(new Error('Condition not met within timeout'));
+      } else {
+        setTimeout(poll, 10);
+      }
+    };
+    poll();
+  });
+}
+
+// ==================== 测试 ====================
+
+describe('MultiplexedSocket 引用计数', () => {
+  let server: MockRealtimeServer;
+  let socket: MultiplexedSocket;
+  let frames: string[];
+  let restore: () => void;
+
+  const serverTopics = (): string[] => server.getSessions().filter(session => session.transport).flatMap(session => session.topics);
+
+  beforeEach(async () => {
+    restore = installWebSocketGlobal();
+    server = await startMockRealtimeServer();
+    socket = createMultiplexedSocket({ url: server.url, enableHeartbeat: false, reconnectInterval: 20 });
+    await socket.connect();
+
+    frames = [];
+    const connection = socket.getConnection()!;
+    const send = connection.send.bind(connection);
+    vi.spyOn(connection, 'send').mockImplementation(message => {
+      frames.push(`${message.type}:${(message.data?.topics || [message.topic]).join(',')}`);
+      return send(message);
+    });
+  });
+
+  afterEach(async () => {
+    socket.close();
+    await server.stop();
+    restore();
+    vi.restoreAllMocks();
+  });
+
+  it('同一主题只向服务端订阅一次，最后一个订阅者取消后才退订', async () => {
+    const orders = socket.scope('react-order-management');
+    const dashboard = socket.scope('react-dashboard');
+    const received: string[] = [];
+
+    const stopOrders = orders.subscribe('metrics', data => received.push(`orders:${data}`));
+    dashboard.subscribe('metrics', data => received.push(`dashboard:${data}`));
+
+    expect(socket.getTopics()).toEqual([{ topic: 'metrics', refCount: 2, apps: ['react-order-management', 'react-dashboard'] }]);
+    expect(frames).toEqual([`${TOPIC_FRAME_TYPES.SUBSCRIBE}:metrics`]);
+
+    await waitFor(() => serverTopics().includes('metrics'));
+    server.publish('metrics', 1);
+    await waitFor(() => received.length === 2);
+    expect(received.sort()).toEqual(['dashboard:1', 'orders:1']);
+
+    stopOrders();
+    expect(socket.getTopics()[0].refCount).toBe(1);
+    expect(frames).toHaveLength(1);
+
+    dashboard.unsubscribe('metrics');
+    expect(socket.getTopics()).toEqual([]);
+    expect(frames[1]).toBe(`${TOPIC_FRAME_TYPES.UNSUBSCRIBE}:metrics`);
+    await waitFor(() => serverTopics().length === 0);
+  });
+
+  it('重连后重新订阅全部主题', async () => {
+    socket.scope('react-dashboard').subscribe('metrics', () => undefined);
+    await waitFor(() => serverTopics().includes('metrics'));
+
+    server.disconnectAll();
+    await waitFor(() => socket.getStatus() === 'reconnecting');
+    await waitFor(() => socket.isConnected() && serverTopics().includes('metrics'));
+    expect(server.getSessions().filter(session => session.transport)).toHaveLength(1);
+  });
+});
+
+describe('ScopedTopicClient', () => {
+  let server: MockRealtimeServer;
+  let socket: MultiplexedSocket;
+  let restore: () => void;
+
+  beforeEach(async () => {
+    restore = installWebSocketGlobal();
+    server = await startMockRealtimeServer();
+    socket = createMultiplexedSocket({ url: server.url, enableHeartbeat: false, reconnectInterval: 20 });
+    await socket.connect();
+  });
+
+  afterEach(async () => {
+    socket.close();
+    await server.stop();
+    restore();
+  });
+
+  it('按主题取消时一并移除记录的取消函数', () => {
+    const scoped = socket.scope('react-dashboard');
+    const handler = vi.fn();
+    scoped.subscribe('metrics', handler);
+    scoped.subscribe('metrics', () => undefined);
+    scoped.subscribe('alerts', handler);
+
+    scoped.unsubscribe('metrics', handler);
+    expect(scoped.size).toBe(2);
+    expect((scoped as any).unsubscribers.size).toBe(2);
+
+    scoped.unsubscribe('metrics');
+    expect(scoped.size).toBe(1);
+    expect((scoped as any).unsubscribers.size).toBe(1);
+  });
+
+  it('clear 释放订阅和通过作用域注册的状态监听', () => {
+    const scoped = socket.scope('react-dashboard');
+    const scopedListener = vi.fn();
+    const mainListener = vi.fn();
+    scoped.onStatusChange(scopedListener);
+    socket.onStatusChange(mainListener);
+    scoped.subscribe('metrics', () => undefined);
+
+    scoped.clear();
+    socket.close();
+
+    expect(scoped.size).toBe(0);
+    expect(socket.getTopics()).toEqual([]);
+    expect(scopedListener).not.toHaveBeenCalled();
+    expect(mainListener).toHaveBeenCalledWith('closed');
+  });
+
+  it('同一应用返回同一实例，取消状态监听后不再通知', () => {
+    const scoped = socket.scope('react-dashboard');
+    const listener = vi.fn();
+    const stop = scoped.onStatusChange(listener);
+
+    expect(socket.scope('react-dashboard')).toBe(scoped);
+    stop();
+    socket.close();
+    expect(listener).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,401 @@
+/**
+ * 多路复用 WebSocket - 主应用持有一条连接，各子应用按主题订阅
+ * 同一主题只向服务端订阅一次，最后一个订阅者取消后才退订；重连后自动重新订阅
+ */
+
+import { MAX_RECONNECT_ERROR, WebSocketConfig, WebSocketConnection, WebSocketMessage } from './websocket-manager';
+
+// ==================== 类型定义 ====================
+
+/**
+ * 与服务端约定的控制帧类型
+ * 订阅/退订帧：{ type: 'subscribe' | 'unsubscribe', data: { topics: string[] } }
+ * 主题消息：{ type: 'publish', topic, data }，服务端推送的任意带 topic 的消息都按主题分发
+ */
+export const TOPIC_FRAME_TYPES = {
+  SUBSCRIBE: 'subscribe',
+  UNSUBSCRIBE: 'unsubscribe',
+  PUBLISH: 'publish'
+} as const;
+
+export type TopicHandler<T = any> = (data: T, message: WebSocketMessage) => void;
+
+export type MultiplexedSocketStatus = 'idle' | 'connecting' | 'open' | 'reconnecting' | 'closed';
+
+export type SocketStatusListener = (status: MultiplexedSocketStatus) => void;
+
+export interface MultiplexedSocketConfig extends WebSocketConfig {
+  /**
+   * 首次订阅或发布时再建立连接，默认 true
+   */
+  lazyConnect?: boolean;
+}
+
+export interface TopicInfo {
+  topic: string;
+
+  /**
+   * 订阅该主题的处理器数量
+   */
+  refCount: number;
+
+  /**
+   * 订阅该主题的应用
+   */
+  apps: string[];
+}
+
+interface TopicSubscription {
+  handler: TopicHandler;
+  app: string;
+}
+
+// ==================== 多路复用连接 ====================
+
+export class MultiplexedSocket {
+  private config: MultiplexedSocketConfig;
+  private connection: WebSocketConnection | null = null;
+  private topics: Map<string, TopicSubscription[]> = new Map();
+  private scopes: Map<string, ScopedTopicClient> = new Map(); // 按应用划分的订阅接口
+  private statusListeners: Set<SocketStatusListener> = new Set();
+  private status: MultiplexedSocketStatus = 'idle';
+
+  constructor(config: MultiplexedSocketConfig) {
+    this.config = { lazyConnect: true, ...config };
+
+    if (!this.config.lazyConnect) {
+      this.connect();
+    }
+  }
+
+  /**
+   * 建立连接；连接失败时由底层连接按配置自动重连
+   */
+  async connect(): Promise<boolean> {
+    if (!this.connection) {
+      this.connection = this.createConnection();
+    }
+
+    if (this.status === 'open') {
+      return true;
+    }
+    if (this.status === 'idle' || this.status === 'closed') {
+      this.setStatus('connecting');
+    }
+
+    try {
+      return await this.connection.connect();
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * 订阅主题，返回取消订阅函数
+   */
+  subscribe<T = any>(topic: string, handler: TopicHandler<T>, app: string = 'main-app'): () => void {
+    let subscriptions = this.topics.get(topic);
+    if (!subscriptions) {
+      subscriptions = [];
+      this.topics.set(topic, subscriptions);
+      this.sendControl(TOPIC_FRAME_TYPES.SUBSCRIBE, [topic]);
+    }
+
+    const subscription: TopicSubscription = { handler, app };
+    subscriptions.push(subscription);
+    this.ensureConnected();
+
+    return () => this.removeSubscriptions(topic, item => item === subscription);
+  }
+
+  /**
+   * 取消订阅；未指定处理器时移除该应用在此主题上的全部订阅
+   */
+  unsubscribe(topic: string, handler?: TopicHandler, app?: string): void {
+    this.removeSubscriptions(topic, item =>
+      (!handler || item.handler === handler) && (!app || item.app === app)
+    );
+  }
+
+  /**
+   * 移除应用的全部订阅，返回移除的数量
+   */
+  unsubscribeApp(app: string): number {
+    let removed = 0;
+    Array.from(this.topics.keys()).forEach(topic => {
+      removed += this.removeSubscriptions(topic, item => item.app === app);
+    });
+    return removed;
+  }
+
+  /**
+   * 向主题发布消息，连接未就绪时进入底层连接的发送队列
+   */
+  publish(topic: string, data: any, source: string = 'main-app'): boolean {
+    this.ensureConnected();
+    return this.connection!.send({ type: TOPIC_FRAME_TYPES.PUBLISH, topic, data, source });
+  }
+
+  /**
+   * 获取应用的订阅接口
+   * 同一应用多次调用返回同一实例，应用重新挂载时可以继续使用
+   */
+  scope(appName: string): ScopedTopicClient {
+    let scoped = this.scopes.get(appName);
+    if (!scoped) {
+      scoped = new ScopedTopicClient(this, appName);
+      this.scopes.set(appName, scoped);
+    }
+    return scoped;
+  }
+
+  /**
+   * 获取当前订阅的主题及引用计数
+   */
+  getTopics(): TopicInfo[] {
+    return Array.from(this.topics.entries()).map(([topic, subscriptions]) => ({
+      topic,
+      refCount: subscriptions.length,
+      apps: Array.from(new Set(subscriptions.map(item => item.app)))
+    }));
+  }
+
+  /**
+   * 获取订阅数量，指定应用时只统计该应用的订阅
+   */
+  getSubscriptionCount(app?: string): number {
+    let count = 0;
+    this.topics.forEach(subscriptions => {
+      count += app ? subscriptions.filter(item => item.app === app).length : subscriptions.length;
+    });
+    return count;
+  }
+
+  getStatus(): MultiplexedSocketStatus {
+    return this.status;
+  }
+
+  isConnected(): boolean {
+    return this.status === 'open';
+  }
+
+  /**
+   * 监听连接状态变化
+   */
+  onStatusChange(listener: SocketStatusListener): () => void {
+    this.statusListeners.add(listener);
+    return () => {
+      this.statusListeners.delete(listener);
+    };
+  }
+
+  /**
+   * 获取底层连接，用于查看连接信息和统计
+   */
+  getConnection(): WebSocketConnection | null {
+    return this.connection;
+  }
+
+  /**
+   * 关闭连接；订阅保留，再次连接后重新向服务端订阅
+   */
+  close(code?: number, reason?: string): void {
+    if (this.connection) {
+      this.connection.close(code, reason);
+      this.connection = null;
+    }
+    this.setStatus('closed');
+  }
+
+  // ==================== 私有方法 ====================
+
+  private createConnection(): WebSocketConnection {
+    const { lazyConnect: _lazyConnect, ...config } = this.config;
+    const connection = new WebSocketConnection(config);
+
+    connection.on('open', () => {
+      this.setStatus('open');
+
+      // 新连接上服务端没有任何订阅，重新订阅全部主题
+      if (this.topics.size > 0) {
+        this.sendControl(TOPIC_FRAME_TYPES.SUBSCRIBE, Array.from(this.topics.keys()));
+      }
+    });
+
+    connection.on('close', () => {
+      if (this.connection === connection) {
+        this.setStatus('reconnecting');
+      }
+    });
+
+    // 底层连接放弃重连后视为关闭，下次订阅或发布时重新建立连接
+    connection.on('error', error => {
+      if (this.connection === connection && error instanceof Error && error.message === MAX_RECONNECT_ERROR) {
+        this.connection = null;
+        connection.close();
+        this.setStatus('closed');
+      }
+    });
+
+    connection.on('message', event => {
+      const message: WebSocketMessage = event.parsedData;
+      if (message?.topic) {
+        this.dispatch(message.topic, message);
+      }
+    });
+
+    return connection;
+  }
+
+  private ensureConnected(): void {
+    if (this.status === 'idle' || this.status === 'closed') {
+      this.connect();
+    }
+  }
+
+  /**
+   * 发送订阅/退订帧；连接未就绪时不发送，连接建立后统一重新订阅
+   */
+  private sendControl(type: string, topics: string[]): void {
+    if (!this.connection || this.status !== 'open') {
+      return;
+    }
+    this.connection.send({ type, data: { topics }, source: 'multiplexed-socket' });
+  }
+
+  private removeSubscriptions(topic: string, predicate: (subscription: TopicSubscription) => boolean): number {
+    const subscriptions = this.topics.get(topic);
+    if (!subscriptions) {
+      return 0;
+    }
+
+    const remaining = subscriptions.filter(item => !predicate(item));
+    const removed = subscriptions.length - remaining.length;
+
+    if (remaining.length === 0) {
+      this.topics.delete(topic);
+      this.sendControl(TOPIC_FRAME_TYPES.UNSUBSCRIBE, [topic]);
+    } else if (removed > 0) {
+      this.topics.set(topic, remaining);
+    }
+
+    return removed;
+  }
+
+  private dispatch(topic: string, message: WebSocketMessage): void {
+    const subscriptions = this.topics.get(topic);
+    if (!subscriptions) {
+      return;
+    }
+
+    subscriptions.slice().forEach(({ handler, app }) => {
+      try {
+        handler(message.data, message);
+      } catch (error) {
+        console.error(`[MultiplexedSocket] Error in handler of ${app} for topic ${topic}:`, error);
+      }
+    });
+  }
+
+  private setStatus(status: MultiplexedSocketStatus): void {
+    if (this.status === status) {
+      return;
+    }
+
+    this.status = status;
+    this.statusListeners.forEach(listener => {
+      try {
+        listener(status);
+      } catch (error) {
+        console.error('[MultiplexedSocket] Error in status listener:', error);
+      }
+    });
+  }
+}
+
+// ==================== 应用订阅接口 ====================
+
+/**
+ * 面向单个子应用的订阅接口，由主应用通过 props 传给子应用
+ * 记录应用的订阅，应用卸载时可以统一释放
+ */
+export class ScopedTopicClient {
+  private unsubscribers: Map<() => void, { topic: string; handler: TopicHandler }> = new Map(); // 取消订阅函数 -> 对应的订阅
+  private statusUnsubscribers: Set<() => void> = new Set();
+
+  constructor(private socket: MultiplexedSocket, public readonly appName: string) {}
+
+  /**
+   * 订阅主题，返回取消订阅函数
+   */
+  subscribe<T = any>(topic: string, handler: TopicHandler<T>): () => void {
+    const remove = this.socket.subscribe(topic, handler, this.appName);
+    const unsubscribe = () => {
+      this.unsubscribers.delete(unsubscribe);
+      remove();
+    };
+    this.unsubscribers.set(unsubscribe, { topic, handler });
+    return unsubscribe;
+  }
+
+  /**
+   * 取消本应用在主题上的订阅；未指定处理器时取消全部
+   */
+  unsubscribe(topic: string, handler?: TopicHandler): void {
+    this.unsubscribers.forEach((subscription, unsubscribe) => {
+      if (subscription.topic === topic && (!handler || subscription.handler === handler)) {
+        this.unsubscribers.delete(unsubscribe);
+      }
+    });
+    this.socket.unsubscribe(topic, handler, this.appName);
+  }
+
+  /**
+   * 向主题发布消息，source 为应用名
+   */
+  publish(topic: string, data: any): boolean {
+    return this.socket.publish(topic, data, this.appName);
+  }
+
+  isConnected(): boolean {
+    return this.socket.isConnected();
+  }
+
+  /**
+   * 监听连接状态变化，clear 时一并移除
+   */
+  onStatusChange(listener: SocketStatusListener): () => void {
+    const remove = this.socket.onStatusChange(listener);
+    const unsubscribe = () => {
+      this.statusUnsubscribers.delete(unsubscribe);
+      remove();
+    };
+    this.statusUnsubscribers.add(unsubscribe);
+    return unsubscribe;
+  }
+
+  /**
+   * 本应用当前的订阅数量
+   */
+  get size(): number {
+    return this.socket.getSubscriptionCount(this.appName);
+  }
+
+  /**
+   * 释放本应用的全部订阅和状态监听
+   */
+  clear(): void {
+    this.unsubscribers.clear();
+    this.socket.unsubscribeApp(this.appName);
+    this.statusUnsubscribers.forEach(unsubscribe => unsubscribe());
+  }
+}
+
+// ==================== 工具函数 ====================
+
+/**
+ * 创建多路复用连接
+ */
+export function createMultiplexedSocket(config: MultiplexedSocketConfig): MultiplexedSocket {
+  return new MultiplexedSocket(config);
+}
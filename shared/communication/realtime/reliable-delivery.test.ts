@@ -0,0 +1,207 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { UNACKED_OVERFLOW_ERROR, WebSocketConfig, WebSocketConnection } from './websocket-manager';
+import { installWebSocketGlobal, startMockRealtimeServer } from '../../../mock-realtime-server/src/testing';
+import { MockRealtimeServer } from '../../../mock-realtime-server/src/server';
+import { ClientSession } from '../../../mock-realtime-server/src/session';
+import { RealtimeMessage } from '../../../mock-realtime-server/src/types';
+
+// ==================== 辅助函数 ====================
+
+function waitFor(check: () => boolean, timeout: number = 3000): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const startedAt = Date.now();
+    const poll = () => {
+      if (check()) {
+        resolve();
+      } else if (Date.now() - startedAt > timeout) {
+        reject(new Error('Condition not met within timeout'));
+      } else {
+        setTimeout(poll, 10);
+      }
+    };
+    poll();
+  });
+}
+
+function createConnection(url: string, overrides: Partial<WebSocketConfig> = {}): WebSocketConnection {
+  return new WebSocketConnection({
+    url,
+    reliable: true,
+    enableHeartbeat: false,
+    reconnectInterval: 20,
+    maxReconnectAttempts: 20,
+    downgradeAfter: 100,
+    ...overrides
+  });
+}
+
+/**
+ * 服务端丢弃第一次收到的指定类型消息，模拟帧在途中丢失；返回是否已经丢弃
+ */
+function dropFirst(session: ClientSession, type: string): () => boolean {
+  const receive = session.receive.bind(session);
+  let dropped = false;
+  session.receive = (message: RealtimeMessage) => {
+    if (!dropped && message.type === type) {
+      dropped = true;
+      return;
+    }
+    receive(message);
+  };
+  return () => dropped;
+}
+
+// ==================== 测试 ====================
+
+describe('可靠投递', () => {
+  let server: MockRealtimeServer;
+  let connection: WebSocketConnection;
+  let received: any[];
+  let restore: () => void;
+
+  beforeEach(async () => {
+    restore = installWebSocketGlobal();
+    server = await startMockRealtimeServer();
+    connection = createConnection(server.url);
+    received = [];
+    connection.on('message', event => received.push(event.parsedData.data));
+    await connection.connect();
+  });
+
+  afterEach(async () => {
+    connection.close();
+    await server.stop();
+    restore();
+  });
+
+  it('断线重连后恢复原会话，只重放未收到的消息', async () => {
+    server.broadcast({ type: 'order', data: 1 });
+    server.broadcast({ type: 'order', data: 2 });
+    await waitFor(() => received.length === 2);
+
+    server.disconnectAll();
+    await waitFor(() => server.getSessions().every(session => session.transport === null));
+    server.broadcast({ type: 'order', data: 3 });
+
+    await waitFor(() => received.length === 3);
+    expect(received).toEqual([1, 2, 3]);
+    expect(connection.getDeliveryState().duplicatesDropped).toBe(0);
+    expect(server.getSessions().map(session => session.id)).toEqual([connection.getConnectionInfo().id]);
+  });
+
+  it('丢弃服务端重发的重复消息', async () => {
+    const id = connection.getConnectionInfo().id;
+    await waitFor(() => server.getSession(id) !== undefined);
+    const session = server.getSession(id)!;
+
+    const message = session.push({ type: 'order', data: 1 });
+    session.transport!.send(JSON.stringify(message));
+    server.broadcast({ type: 'order', data: 2 });
+
+    await waitFor(() => received.length === 2);
+    expect(received).toEqual([1, 2]);
+    expect(connection.getDeliveryState().duplicatesDropped).toBe(1);
+  });
+
+  it('服务重启后按新会话重新计数，不把新消息当作重复丢弃', async () => {
+    server.broadcast({ type: 'order', data: 1 });
+    server.broadcast({ type: 'order', data: 2 });
+    await waitFor(() => received.length === 2);
+    expect(connection.getDeliveryState().lastReceivedSeq).toBe(2);
+
+    // 模拟服务崩溃：先中断连接再停止，重启后的服务没有原会话
+    const port = server.port;
+    server.disconnectAll();
+    await server.stop();
+    server = await startMockRealtimeServer({ port });
+
+    await waitFor(() => server.getSession(connection.getConnectionInfo().id) !== undefined);
+    server.broadcast({ type: 'order', data: 'after-restart' });
+
+    await waitFor(() => received.length === 3);
+    expect(received).toEqual([1, 2, 'after-restart']);
+    expect(connection.getDeliveryState().lastReceivedSeq).toBe(1);
+  });
+});
+
+describe('客户端消息确认', () => {
+  let server: MockRealtimeServer;
+  let connection: WebSocketConnection;
+  let delivered: any[];
+  let restore: () => void;
+
+  beforeEach(async () => {
+    restore = installWebSocketGlobal();
+    server = await startMockRealtimeServer();
+    server.onMessage(message => {
+      if (message.type === 'order.create') {
+        delivered.push(message.data);
+      }
+    });
+    connection = createConnection(server.url, { ackTimeout: 100 });
+    delivered = [];
+    await connection.connect();
+    await waitFor(() => server.getSession(connection.getConnectionInfo().id) !== undefined);
+  });
+
+  afterEach(async () => {
+    connection.close();
+    await server.stop();
+    restore();
+    vi.restoreAllMocks();
+  });
+
+  it('服务端确认后移出待确认缓冲区', async () => {
+    const acked: any[] = [];
+    connection.on('ack', message => acked.push(message.data));
+
+    expect(connection.send({ type: 'order.create', data: 1 })).toBe(true);
+    expect(connection.send({ type: 'order.create', data: 2 })).toBe(true);
+
+    await waitFor(() => acked.length === 2);
+    expect(acked).toEqual([1, 2]);
+    expect(delivered).toEqual([1, 2]);
+    expect(connection.getDeliveryState()).toMatchObject({ lastSentSeq: 2, unacked: 0, retransmissions: 0 });
+  });
+
+  it('超过 ackTimeout 未确认时在当前连接上重发', async () => {
+    dropFirst(server.getSession(connection.getConnectionInfo().id)!, 'order.create');
+
+    connection.send({ type: 'order.create', data: 1 });
+
+    await waitFor(() => connection.getDeliveryState().unacked === 0);
+    expect(connection.getDeliveryState().retransmissions).toBe(1);
+    expect(delivered).toEqual([1]);
+  });
+
+  it('重连后按序号重发未确认和断线期间发送的消息', async () => {
+    const dropped = dropFirst(server.getSession(connection.getConnectionInfo().id)!, 'order.create');
+    connection.send({ type: 'order.create', data: 1 });
+    await waitFor(dropped);
+
+    server.disconnectAll();
+    await waitFor(() => server.getSessions().every(session => session.transport === null));
+    expect(connection.send({ type: 'order.create', data: 2 })).toBe(false);
+
+    await waitFor(() => connection.getDeliveryState().unacked === 0);
+    expect(delivered).toEqual([1, 2]);
+    expect(server.getSessions()).toHaveLength(1);
+  });
+
+  it('待确认缓冲区已满时拒绝新消息并触发 error', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const offline = createConnection(server.url, { maxUnacked: 2 });
+    const errors: Error[] = [];
+    offline.on('error', error => errors.push(error));
+
+    const results = [1, 2, 3].map(data => offline.send({ type: 'order.create', data }));
+    expect(results).toEqual([false, false, false]);
+    expect(offline.getDeliveryState()).toMatchObject({ lastSentSeq: 2, unacked: 2, rejected: 1 });
+    expect(errors.map(error => error.message)).toEqual([UNACKED_OVERFLOW_ERROR]);
+
+    await offline.connect();
+    await waitFor(() => offline.getDeliveryState().unacked === 0);
+    expect(delivered).toEqual([1, 2]);
+    offline.close();
+  });
+});
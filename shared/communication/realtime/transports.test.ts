@@ -0,0 +1,90 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { LongPollingTransport, TRANSPORT_STATE } from './transports';
+
+// ==================== 辅助函数 ====================
+
+interface PendingSend {
+  body: string;
+  resolve: (response: Response) => void;
+}
+
+/**
+ * 长轮询握手立即返回，之后的轮询挂起到被中止；发送请求由测试逐个完成
+ */
+function stubFetch(sends: PendingSend[]) {
+  let handshakeDone = false;
+
+  return vi.fn((url: string, init: RequestInit = {}) => {
+    if (url.includes('/send')) {
+      return new Promise<Response>(resolve => sends.push({ body: String(init.body), resolve }));
+    }
+    if (!handshakeDone) {
+      handshakeDone = true;
+      return Promise.resolve(new Response(null, { status: 204 }));
+    }
+    return new Promise<Response>((_resolve, reject) => {
+      init.signal?.addEventListener('abort', () => reject(new Error('aborted')));
+    });
+  });
+}
+
+function flush(): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, 0));
+}
+
+// ==================== HTTP 发送 ====================
+
+describe('HTTP 传输发送', () => {
+  let sends: PendingSend[];
+  let transport: LongPollingTransport;
+
+  beforeEach(async () => {
+    sends = [];
+    vi.stubGlobal('fetch', stubFetch(sends));
+    transport = new LongPollingTransport({ url: 'ws://localhost:8080/ws', clientId: 'spec' });
+    await flush();
+    expect(transport.readyState).toBe(TRANSPORT_STATE.OPEN);
+  });
+
+  afterEach(() => {
+    transport.close();
+    vi.unstubAllGlobals();
+  });
+
+  it('上一个请求完成后才发送下一帧', async () => {
+    transport.send('1');
+    transport.send('2');
+    transport.send('3');
+    await flush();
+    expect(sends.map(send => send.body)).toEqual(['1']);
+
+    sends[0].resolve(new Response(null, { status: 204 }));
+    await flush();
+    expect(sends.map(send => send.body)).toEqual(['1', '2']);
+
+    sends[1].resolve(new Response(null, { status: 204 }));
+    await flush();
+    sends[2].resolve(new Response(null, { status: 204 }));
+    await flush();
+    expect(sends.map(send => send.body)).toEqual(['1', '2', '3']);
+  });
+
+  it('发送失败时报告错误并继续发送后续帧', async () => {
+    const errors: Error[] = [];
+    transport.onerror = error => errors.push(error);
+
+    transport.send('1');
+    transport.send('2');
+    await flush();
+    sends[0].resolve(new Response(null, { status: 500 }));
+    await flush();
+
+    expect(errors.map(error => error.message)).toEqual(['Send failed with HTTP 500']);
+    expect(sends.map(send => send.body)).toEqual(['1', '2']);
+  });
+
+  it('未打开时拒绝发送', () => {
+    transport.close();
+    expect(() => transport.send('1')).toThrow('long-polling transport is not open');
+  });
+});
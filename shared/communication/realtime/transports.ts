@@ -0,0 +1,324 @@
+/**
+ * 实时传输层 - WebSocket、SSE 和 HTTP 长轮询
+ * 所有传输方式都提供与 WebSocket 相同的 readyState/send/close 和 onopen/onclose/onmessage/onerror 接口，
+ * WebSocketConnection 可以在不改变上层事件的情况下切换传输方式
+ */
+
+// ==================== 类型定义 ====================
+
+export type TransportKind = 'websocket' | 'sse' | 'long-polling' | (string & {});
+
+/**
+ * 与 WebSocket.readyState 取值一致
+ */
+export const TRANSPORT_STATE = {
+  CONNECTING: 0,
+  OPEN: 1,
+  CLOSING: 2,
+  CLOSED: 3
+} as const;
+
+export interface TransportCloseEvent {
+  code: number;
+  reason: string;
+  wasClean: boolean;
+}
+
+export interface TransportMessageEvent {
+  data: string | ArrayBuffer;
+}
+
+export type TransportData = string | ArrayBuffer | ArrayBufferView;
+
+export interface RealtimeTransport {
+  readonly kind: TransportKind;
+  readonly readyState: number;
+  binaryType?: BinaryType;
+
+  onopen: ((event: any) => void) | null;
+  onclose: ((event: TransportCloseEvent) => void) | null;
+  onmessage: ((event: TransportMessageEvent) => void) | null;
+  onerror: ((event: any) => void) | null;
+
+  send(data: TransportData): void;
+  close(code?: number, reason?: string): void;
+}
+
+/**
+ * SSE/长轮询使用的 HTTP 端点，未设置时由 WebSocket 地址推导：
+ * ws://host/ws -> http://host/ws/sse、http://host/ws/poll、http://host/ws/send
+ */
+export interface TransportEndpoints {
+  sse?: string;
+  poll?: string;
+  send?: string;
+}
+
+export interface TransportOptions {
+  url: string;
+  protocols?: string[];
+
+  /**
+   * 客户端标识，HTTP 传输通过 clientId 查询参数让服务端关联收发请求
+   */
+  clientId: string;
+  endpoints?: TransportEndpoints;
+
+  /**
+   * 长轮询请求在服务端挂起的最长时间
+   */
+  pollTimeout?: number;
+}
+
+export type TransportFactory = (options: TransportOptions) => RealtimeTransport;
+
+// ==================== WebSocket ====================
+
+export class WebSocketTransport implements RealtimeTransport {
+  readonly kind = 'websocket';
+  onopen: ((event: any) => void) | null = null;
+  onclose: ((event: TransportCloseEvent) => void) | null = null;
+  onmessage: ((event: TransportMessageEvent) => void) | null = null;
+  onerror: ((event: any) => void) | null = null;
+
+  private socket: WebSocket;
+
+  constructor(options: TransportOptions) {
+    this.socket = new WebSocket(options.url, options.protocols);
+    this.socket.onopen = event => this.onopen?.(event);
+    this.socket.onclose = event => this.onclose?.({ code: event.code, reason: event.reason, wasClean: event.wasClean });
+    this.socket.onmessage = event => this.onmessage?.({ data: event.data });
+    this.socket.onerror = event => this.onerror?.(event);
+  }
+
+  get readyState(): number {
+    return this.socket.readyState;
+  }
+
+  get binaryType(): BinaryType {
+    return this.socket.binaryType;
+  }
+
+  set binaryType(value: BinaryType) {
+    this.socket.binaryType = value;
+  }
+
+  send(data: TransportData): void {
+    this.socket.send(data);
+  }
+
+  close(code?: number, reason?: string): void {
+    this.socket.close(code, reason);
+  }
+}
+
+// ==================== HTTP 传输 ====================
+
+/**
+ * HTTP 传输的公共部分：通过 POST 发送消息，出错时以非正常关闭结束
+ */
+abstract class HttpTransport implements RealtimeTransport {
+  abstract readonly kind: TransportKind;
+  onopen: ((event: any) => void) | null = null;
+  onclose: ((event: TransportCloseEvent) => void) | null = null;
+  onmessage: ((event: TransportMessageEvent) => void) | null = null;
+  onerror: ((event: any) => void) | null = null;
+
+  protected state: number = TRANSPORT_STATE.CONNECTING;
+  private sendUrl: string;
+  private sendChain: Promise<void> = Promise.resolve();
+
+  constructor(protected options: TransportOptions) {
+    this.sendUrl = resolveEndpoint(options, 'send');
+  }
+
+  get readyState(): number {
+    return this.state;
+  }
+
+  send(data: TransportData): void {
+    if (this.state !== TRANSPORT_STATE.OPEN) {
+      throw new Error(`${this.kind} transport is not open`);
+    }
+
+    // 上一个请求完成后再发送，保证服务端按发送顺序收到
+    this.sendChain = this.sendChain
+      .then(() => fetch(this.sendUrl, {
+        method: 'POST',
+        headers: { 'Content-Type': typeof data === 'string' ? 'application/json' : 'application/octet-stream' },
+        body: data
+      }))
+      .then(response => {
+        if (!response.ok) {
+          throw new Error(`Send failed with HTTP ${response.status}`);
+        }
+      })
+      .catch(error => this.onerror?.(error));
+  }
+
+  close(code: number = 1000, reason: string = ''): void {
+    this.terminate(code, reason, true);
+  }
+
+  protected open(): void {
+    this.state = TRANSPORT_STATE.OPEN;
+    this.onopen?.({ type: 'open' });
+  }
+
+  protected fail(error: any): void {
+    if (this.state === TRANSPORT_STATE.CLOSED) {
+      return;
+    }
+    this.onerror?.(error);
+    this.terminate(1006, error instanceof Error ? error.message : `${this.kind} transport error`, false);
+  }
+
+  protected terminate(code: number, reason: string, wasClean: boolean): void {
+    if (this.state === TRANSPORT_STATE.CLOSED) {
+      return;
+    }
+    this.state = TRANSPORT_STATE.CLOSED;
+    this.release();
+    this.onclose?.({ code, reason, wasClean });
+  }
+
+  /**
+   * 释放底层连接或请求
+   */
+  protected abstract release(): void;
+}
+
+/**
+ * Server-Sent Events：EventSource 接收，POST 发送
+ */
+export class SSETransport extends HttpTransport {
+  readonly kind = 'sse';
+  private source: EventSource;
+
+  constructor(options: TransportOptions) {
+    super(options);
+
+    this.source = new EventSource(resolveEndpoint(options, 'sse'));
+    this.source.onopen = () => this.open();
+    this.source.onmessage = event => this.onmessage?.({ data: event.data });
+
+    // EventSource 出错后会自行重连，这里改为关闭，由 WebSocketConnection 统一处理重连和降级
+    this.source.onerror = event => this.fail(event);
+  }
+
+  protected release(): void {
+    this.source.close();
+  }
+}
+
+/**
+ * HTTP 长轮询：GET 挂起等待消息，POST 发送
+ * 响应格式：{ messages: any[], cursor?: string }，无消息时可以返回 204
+ */
+export class LongPollingTransport extends HttpTransport {
+  readonly kind = 'long-polling';
+  private pollUrl: string;
+  private cursor: string | null = null;
+  private controller: AbortController | null = null;
+
+  constructor(options: TransportOptions) {
+    super(options);
+    this.pollUrl = resolveEndpoint(options, 'poll');
+    this.poll();
+  }
+
+  protected release(): void {
+    this.controller?.abort();
+    this.controller = null;
+  }
+
+  private async poll(): Promise<void> {
+    const pollTimeout = this.options.pollTimeout ?? 25000;
+
+    while (this.state !== TRANSPORT_STATE.CLOSED) {
+      // 第一次请求作为握手，要求服务端立即返回
+      const wait = this.state === TRANSPORT_STATE.OPEN ? pollTimeout : 0;
+      const url = new URL(this.pollUrl);
+      url.searchParams.set('wait', String(wait));
+      if (this.cursor) {
+        url.searchParams.set('cursor', this.cursor);
+      }
+
+      const controller = new AbortController();
+      const timer = setTimeout(() => controller.abort(), wait + 10000);
+      this.controller = controller;
+
+      try {
+        const response = await fetch(url.toString(), { signal: controller.signal, headers: { Accept: 'application/json' } });
+        if (!response.ok) {
+          throw new Error(`Poll failed with HTTP ${response.status}`);
+        }
+
+        const body = response.status === 204 ? null : await response.json();
+        if (this.state === TRANSPORT_STATE.CLOSED) {
+          return;
+        }
+        if (this.state === TRANSPORT_STATE.CONNECTING) {
+          this.open();
+        }
+
+        if (body?.cursor !== undefined) {
+          this.cursor = String(body.cursor);
+        }
+        (body?.messages || []).forEach((message: any) => {
+          if (this.state === TRANSPORT_STATE.OPEN) {
+            this.onmessage?.({ data: typeof message === 'string' ? message : JSON.stringify(message) });
+          }
+        });
+      } catch (error) {
+        this.fail(error);
+        return;
+      } finally {
+        clearTimeout(timer);
+      }
+    }
+  }
+}
+
+// ==================== 传输注册 ====================
+
+const transportFactories = new Map<string, TransportFactory>([
+  ['websocket', (options: TransportOptions) => new WebSocketTransport(options)],
+  ['sse', (options: TransportOptions) => new SSETransport(options)],
+  ['long-polling', (options: TransportOptions) => new LongPollingTransport(options)]
+]);
+
+/**
+ * 注册自定义传输方式，同名时覆盖内置实现
+ */
+export function registerTransport(kind: TransportKind, factory: TransportFactory): void {
+  transportFactories.set(kind, factory);
+}
+
+/**
+ * 创建传输
+ */
+export function createTransport(kind: TransportKind, options: TransportOptions): RealtimeTransport {
+  const factory = transportFactories.get(kind);
+  if (!factory) {
+    throw new Error(`Unknown realtime transport: ${kind}`);
+  }
+  return factory(options);
+}
+
+/**
+ * 由 WebSocket 地址推导 HTTP 端点并附加 clientId
+ */
+function resolveEndpoint(options: TransportOptions, endpoint: keyof TransportEndpoints): string {
+  let url: URL;
+  if (options.endpoints?.[endpoint]) {
+    url = new URL(options.endpoints[endpoint]!, typeof location !== 'undefined' ? location.href : undefined);
+  } else {
+    url = new URL(options.url);
+    url.protocol = url.protocol === 'wss:' ? 'https:' : url.protocol === 'ws:' ? 'http:' : url.protocol;
+    url.pathname = `${url.pathname.replace(/\/$/, '')}/${endpoint}`;
+  }
+
+  url.searchParams.set('clientId', options.clientId);
+  return url.toString();
+}
@@ -5,6 +5,8 @@
 
 import { BaseEvent } from '../../types/events';
 import { globalErrorManager } from '../error/error-manager';
+import { PayloadSerializer, createPayloadSerializer, decodePayloadFrame, encodePayloadFrame, isPayloadFrame } from '../serialization';
+import { RealtimeTransport, TransportEndpoints, TransportKind, TransportMessageEvent, createTransport } from './transports';
 
 // ==================== 类型定义 ====================
 
@@ -20,6 +22,51 @@ export interface WebSocketConfig {
   enableHeartbeat?: boolean;
   enableConnectionPool?: boolean;
   maxConnections?: number;
+
+  /**
+   * 设置后消息编码为带内容类型的二进制帧（MessagePack/CBOR，可压缩），未设置时使用 JSON 文本
+   */
+  serializer?: PayloadSerializer;
+
+  /**
+   * 按优先顺序尝试的传输方式，默认只使用 WebSocket
+   */
+  transports?: TransportKind[];
+
+  /**
+   * 当前传输方式连续握手失败多少次后降级到下一种，默认 3
+   */
+  downgradeAfter?: number;
+
+  /**
+   * 降级后探测首选传输方式是否恢复的间隔，0 表示不探测，默认 60 秒
+   */
+  upgradeProbeInterval?: number;
+
+  /**
+   * SSE/长轮询的 HTTP 端点，默认由 url 推导
+   */
+  httpEndpoints?: TransportEndpoints;
+
+  /**
+   * 长轮询请求在服务端挂起的最长时间，默认 25 秒
+   */
+  pollTimeout?: number;
+
+  /**
+   * 可靠投递：消息带序号并等待服务端确认，未确认的消息在重连后重发，默认关闭
+   */
+  reliable?: boolean;
+
+  /**
+   * 等待确认的超时时间，超时后在当前连接上重发，默认 5 秒
+   */
+  ackTimeout?: number;
+
+  /**
+   * 待确认缓冲区的容量，已满时拒绝新消息并触发 'error'，默认 1000
+   */
+  maxUnacked?: number;
 }
 
 export interface WebSocketMessage {
@@ -29,6 +76,16 @@ export interface WebSocketMessage {
   timestamp: string;
   source?: string;
   target?: string;
+
+  /**
+   * 多路复用连接上的主题
+   */
+  topic?: string;
+
+  /**
+   * 可靠投递的序号，客户端和服务端各自递增
+   */
+  seq?: number;
   priority?: 'low' | 'normal' | 'high' | 'critical';
 }
 
@@ -56,24 +113,104 @@ export interface WebSocketStats {
 
 export type WebSocketEventType = 
   | 'open' | 'close' | 'error' | 'message' 
-  | 'reconnect' | 'heartbeat' | 'timeout';
+  | 'reconnect' | 'heartbeat' | 'timeout' | 'transport' | 'ack';
+
+/**
+ * 可靠投递的控制消息类型
+ * ack：{ data: { seq } }，确认该序号及之前的全部消息，双方都会发送
+ * resume：{ data: { sessionId, lastSeq } }，连接建立后告知服务端从哪个序号之后继续推送
+ * resumed：服务端沿用原会话，继续推送 lastSeq 之后的消息
+ * reset：服务端已丢失会话（重启或过期），序号从 1 重新开始
+ */
+export const DELIVERY_MESSAGE_TYPES = {
+  ACK: 'ack',
+  RESUME: 'resume',
+  RESUMED: 'resumed',
+  RESET: 'reset'
+} as const;
+
+export interface DeliveryState {
+  /**
+   * 最近分配的发送序号
+   */
+  lastSentSeq: number;
+
+  /**
+   * 已处理的最大服务端序号
+   */
+  lastReceivedSeq: number;
+
+  /**
+   * 等待确认的消息数量
+   */
+  unacked: number;
+  retransmissions: number;
+
+  /**
+   * 待确认缓冲区已满而拒绝的消息数量
+   */
+  rejected: number;
+
+  /**
+   * 丢弃的重复消息数量
+   */
+  duplicatesDropped: number;
+}
+
+/**
+ * 'transport' 事件的数据
+ */
+export interface TransportChangeEvent {
+  from: TransportKind;
+  to: TransportKind;
+  reason: 'downgrade' | 'upgrade';
+}
 
 export type WebSocketEventHandler = (event: any, connection?: ConnectionInfo) => void;
 
+/**
+ * 重连次数用尽时 'error' 事件携带的错误信息，此后连接不再自动重连
+ */
+export const MAX_RECONNECT_ERROR = 'Max reconnect attempts reached';
+
+/**
+ * 待确认缓冲区已满时 'error' 事件携带的错误信息，被拒绝的消息不会发送
+ */
+export const UNACKED_OVERFLOW_ERROR = 'Unacked message buffer is full';
+
+/**
+ * 收到服务端消息后延迟多久发送累积确认
+ */
+const INBOUND_ACK_DELAY = 100;
+
 // ==================== WebSocket连接管理器 ====================
 
 export class WebSocketConnection {
-  private socket: WebSocket | null = null;
-  private config: Required<WebSocketConfig>;
+  private socket: RealtimeTransport | null = null;
+  private config: Required<Omit<WebSocketConfig, 'serializer'>>;
+  private serializer: PayloadSerializer | null;
+  private sendChain: Promise<void> = Promise.resolve();
+  private receiveChain: Promise<void> = Promise.resolve();
   private reconnectTimer: NodeJS.Timeout | null = null;
   private heartbeatTimer: NodeJS.Timeout | null = null;
   private heartbeatTimeoutTimer: NodeJS.Timeout | null = null;
   private connectionTimeoutTimer: NodeJS.Timeout | null = null;
+  private upgradeProbeTimer: NodeJS.Timeout | null = null;
+  private upgradeProbe: RealtimeTransport | null = null;
+  private transportIndex: number = 0;
+  private handshakeFailures: number = 0;
   private reconnectCount: number = 0;
   private isReconnecting: boolean = false;
   private isDestroyed: boolean = false;
   private lastHeartbeat: number = 0;
   private messageQueue: WebSocketMessage[] = [];
+  private unacked: Map<number, { message: WebSocketMessage; timer: NodeJS.Timeout | null }> = new Map(); // 序号 -> 等待确认的消息
+  private lastSentSeq: number = 0;
+  private lastReceivedSeq: number = 0;
+  private inboundAckTimer: NodeJS.Timeout | null = null;
+  private pendingResume: Array<{ event: TransportMessageEvent; message: WebSocketMessage }> | null = null; // 等待恢复应答期间收到的消息
+  private resumeTimer: NodeJS.Timeout | null = null;
+  private deliveryStats = { retransmissions: 0, duplicatesDropped: 0, rejected: 0 };
   private eventHandlers: Map<WebSocketEventType, Set<WebSocketEventHandler>> = new Map();
   private stats: {
     connectTime: number;
@@ -106,8 +243,17 @@ export class WebSocketConnection {
       enableAutoReconnect: config.enableAutoReconnect ?? true,
       enableHeartbeat: config.enableHeartbeat ?? true,
       enableConnectionPool: config.enableConnectionPool ?? false,
-      maxConnections: config.maxConnections || 5
+      maxConnections: config.maxConnections || 5,
+      transports: config.transports?.length ? config.transports : ['websocket'],
+      downgradeAfter: config.downgradeAfter || 3,
+      upgradeProbeInterval: config.upgradeProbeInterval ?? 60000,
+      httpEndpoints: config.httpEndpoints || {},
+      pollTimeout: config.pollTimeout || 25000,
+      reliable: config.reliable ?? false,
+      ackTimeout: config.ackTimeout || 5000,
+      maxUnacked: config.maxUnacked || 1000
     };
+    this.serializer = config.serializer || null;
 
     this.initializeEventHandlers();
   }
@@ -125,22 +271,42 @@ export class WebSocketConnection {
     }
 
     return new Promise((resolve, reject) => {
+      // 握手阶段的失败计入降级次数，每次握手只计一次
+      let settled = false;
+      const failHandshake = (reason: any) => {
+        if (!settled) {
+          settled = true;
+          this.recordHandshakeFailure();
+        }
+        reject(reason);
+      };
+
       try {
-        this.socket = new WebSocket(this.config.url, this.config.protocols);
+        this.socket = this.createTransport(this.getTransport());
+        if (this.serializer) {
+          this.socket.binaryType = 'arraybuffer';
+        }
         this.stats.connectTime = Date.now();
 
         // 设置连接超时
         this.connectionTimeoutTimer = setTimeout(() => {
           if (this.socket && this.socket.readyState === WebSocket.CONNECTING) {
             this.socket.close();
-            reject(new Error('Connection timeout'));
+            failHandshake(new Error('Connection timeout'));
           }
         }, this.config.connectionTimeout);
 
         this.socket.onopen = (event) => {
+          settled = true;
           this.clearConnectionTimeout();
           this.reconnectCount = 0;
+          this.handshakeFailures = 0;
           this.isReconnecting = false;
+
+          // 先恢复可靠投递的会话，保证重发的消息排在新消息之前
+          if (this.config.reliable) {
+            this.resumeSession();
+          }
           
           this.emit('open', event);
           
@@ -149,6 +315,11 @@ export class WebSocketConnection {
             this.startHeartbeat();
           }
 
+          // 使用降级的传输方式时定期探测首选传输方式
+          if (this.transportIndex > 0) {
+            this.startUpgradeProbe();
+          }
+
           // 发送队列中的消息
           this.flushMessageQueue();
 
@@ -175,7 +346,7 @@ export class WebSocketConnection {
             { connectionId: this.id }
           );
 
-          reject(event);
+          failHandshake(event);
         };
 
         this.socket.onmessage = (event) => {
@@ -189,7 +360,7 @@ export class WebSocketConnection {
           'WebSocket',
           { connectionId: this.id }
         );
-        reject(error);
+        failHandshake(error);
       }
     });
   }
@@ -204,6 +375,10 @@ export class WebSocketConnection {
       ...message
     };
 
+    if (this.config.reliable) {
+      return this.sendReliable(fullMessage);
+    }
+
     if (!this.socket || this.socket.readyState !== WebSocket.OPEN) {
       // 连接未就绪，加入队列
       this.messageQueue.push(fullMessage);
@@ -211,7 +386,7 @@ export class WebSocketConnection {
     }
 
     try {
-      this.socket.send(JSON.stringify(fullMessage));
+      this.write(fullMessage);
       this.stats.messageCount++;
       this.stats.lastMessageTime = Date.now();
       return true;
@@ -239,6 +414,19 @@ export class WebSocketConnection {
     }
     
     this.messageQueue = [];
+    this.unacked.clear();
+  }
+
+  /**
+   * 获取可靠投递状态
+   */
+  getDeliveryState(): DeliveryState {
+    return {
+      lastSentSeq: this.lastSentSeq,
+      lastReceivedSeq: this.lastReceivedSeq,
+      unacked: this.unacked.size,
+      ...this.deliveryStats
+    };
   }
 
   /**
@@ -254,9 +442,11 @@ export class WebSocketConnection {
       reconnectCount: this.reconnectCount,
       isActive: this.socket?.readyState === WebSocket.OPEN,
       metadata: {
+        transport: this.getTransport(),
         messageCount: this.stats.messageCount,
         errorCount: this.stats.errorCount,
-        queueSize: this.messageQueue.length
+        queueSize: this.messageQueue.length,
+        unacked: this.unacked.size
       }
     };
   }
@@ -276,6 +466,13 @@ export class WebSocketConnection {
     };
   }
 
+  /**
+   * 当前使用的传输方式
+   */
+  getTransport(): TransportKind {
+    return this.config.transports[this.transportIndex];
+  }
+
   /**
    * 获取连接统计
    */
@@ -297,32 +494,362 @@ export class WebSocketConnection {
   // ==================== 私有方法 ====================
 
   private initializeEventHandlers(): void {
-    const eventTypes: WebSocketEventType[] = ['open', 'close', 'error', 'message', 'reconnect', 'heartbeat', 'timeout'];
+    const eventTypes: WebSocketEventType[] = ['open', 'close', 'error', 'message', 'reconnect', 'heartbeat', 'timeout', 'transport', 'ack'];
     eventTypes.forEach(type => {
       this.eventHandlers.set(type, new Set());
     });
   }
 
-  private handleMessage(event: MessageEvent): void {
+  private createTransport(kind: TransportKind): RealtimeTransport {
+    return createTransport(kind, {
+      url: this.config.url,
+      protocols: this.config.protocols,
+      clientId: this.id,
+      endpoints: this.config.httpEndpoints,
+      pollTimeout: this.config.pollTimeout
+    });
+  }
+
+  /**
+   * 记录握手失败，连续失败达到阈值后降级到下一种传输方式
+   */
+  private recordHandshakeFailure(): void {
+    this.handshakeFailures++;
+
+    if (this.handshakeFailures >= this.config.downgradeAfter && this.transportIndex < this.config.transports.length - 1) {
+      this.switchTransport(this.transportIndex + 1, 'downgrade');
+    }
+  }
+
+  private switchTransport(index: number, reason: TransportChangeEvent['reason']): void {
+    const from = this.getTransport();
+    this.transportIndex = index;
+    this.handshakeFailures = 0;
+    this.reconnectCount = 0;
+
+    const change: TransportChangeEvent = { from, to: this.getTransport(), reason };
+    this.emit('transport', change);
+  }
+
+  private startUpgradeProbe(): void {
+    if (!this.config.upgradeProbeInterval) return;
+
+    this.upgradeProbeTimer = setInterval(() => {
+      this.probeUpgrade();
+    }, this.config.upgradeProbeInterval);
+  }
+
+  /**
+   * 尝试首选传输方式的握手，成功后切换回首选传输方式
+   */
+  private probeUpgrade(): void {
+    if (this.upgradeProbe) return;
+
+    let probe: RealtimeTransport;
     try {
-      const message = JSON.parse(event.data) as WebSocketMessage;
-      
-      // 处理心跳响应
-      if (message.type === 'pong') {
-        this.handleHeartbeatResponse(message);
+      probe = this.createTransport(this.config.transports[0]);
+    } catch {
+      return;
+    }
+    this.upgradeProbe = probe;
+
+    const finish = (success: boolean) => {
+      clearTimeout(timeoutTimer);
+      if (this.upgradeProbe !== probe) return;
+
+      this.upgradeProbe = null;
+      probe.onopen = probe.onclose = probe.onerror = null;
+      probe.close(1000, 'Upgrade probe');
+
+      if (success) {
+        this.upgrade();
+      }
+    };
+    const timeoutTimer = setTimeout(() => finish(false), this.config.connectionTimeout);
+
+    probe.onopen = () => finish(true);
+    probe.onerror = () => finish(false);
+    probe.onclose = () => finish(false);
+  }
+
+  private upgrade(): void {
+    const current = this.socket;
+    this.clearTimers();
+    this.switchTransport(0, 'upgrade');
+
+    // 不触发旧传输的 close 事件，新连接建立后上层会收到 open
+    if (current) {
+      current.onopen = current.onclose = current.onerror = current.onmessage = null;
+      current.close(1000, 'Transport upgrade');
+    }
+    this.socket = null;
+
+    this.connect().catch(() => this.scheduleReconnect());
+  }
+
+  private stopUpgradeProbe(): void {
+    if (this.upgradeProbeTimer) {
+      clearInterval(this.upgradeProbeTimer);
+      this.upgradeProbeTimer = null;
+    }
+
+    if (this.upgradeProbe) {
+      const probe = this.upgradeProbe;
+      this.upgradeProbe = null;
+      probe.onopen = probe.onclose = probe.onerror = null;
+      probe.close();
+    }
+  }
+
+  /**
+   * 写入套接字；配置了序列化器时按顺序异步编码为二进制帧
+   */
+  private write(message: WebSocketMessage): void {
+    const socket = this.socket!;
+
+    if (!this.serializer) {
+      socket.send(JSON.stringify(message));
+      return;
+    }
+
+    const serializer = this.serializer;
+    this.sendChain = this.sendChain
+      .then(() => serializer.serialize(message))
+      .then(payload => {
+        if (socket.readyState === WebSocket.OPEN) {
+          socket.send(encodePayloadFrame(payload));
+        } else if (!this.isAwaitingAck(message)) {
+          // 编码期间连接断开，等待重连后发送；等待确认的消息会在重连后重发
+          this.messageQueue.push(message);
+        }
+      })
+      .catch(error => {
+        globalErrorManager.handleNetworkError(
+          error as Error,
+          this.config.url,
+          'WebSocket-Serialize',
+          { props: { connectionId: this.id, messageId: message.id } }
+        );
+      });
+  }
+
+  private handleMessage(event: TransportMessageEvent): void {
+    if (!this.serializer && typeof event.data === 'string') {
+      try {
+        this.dispatchMessage(event, JSON.parse(event.data));
+      } catch (error) {
+        this.handleParseError(event, error as Error);
+      }
+      return;
+    }
+
+    // 二进制帧可能需要异步解压，按接收顺序依次处理
+    this.receiveChain = this.receiveChain
+      .then(() => this.decodeMessage(event.data))
+      .then(message => this.dispatchMessage(event, message))
+      .catch(error => this.handleParseError(event, error as Error));
+  }
+
+  private async decodeMessage(data: any): Promise<WebSocketMessage> {
+    if (typeof data === 'string') {
+      return JSON.parse(data);
+    }
+
+    if (!(data instanceof ArrayBuffer) || !isPayloadFrame(data)) {
+      throw new Error('Unsupported binary message');
+    }
+
+    const serializer = this.serializer || createPayloadSerializer();
+    return serializer.deserialize(decodePayloadFrame(data));
+  }
+
+  private dispatchMessage(event: TransportMessageEvent, message: WebSocketMessage): void {
+    // 处理心跳响应
+    if (message.type === 'pong') {
+      this.handleHeartbeatResponse(message);
+      return;
+    }
+
+    if (this.config.reliable) {
+      if (message.type === DELIVERY_MESSAGE_TYPES.ACK) {
+        this.handleAck(message.data?.seq);
         return;
       }
 
-      this.emit('message', { ...event, parsedData: message });
-      
+      if (message.type === DELIVERY_MESSAGE_TYPES.RESUMED || message.type === DELIVERY_MESSAGE_TYPES.RESET) {
+        this.completeResume(message.type === DELIVERY_MESSAGE_TYPES.RESET);
+        return;
+      }
+
+      if (typeof message.seq === 'number') {
+        // 应答之前无法确定消息属于原会话还是新会话，先暂存
+        if (this.pendingResume) {
+          this.pendingResume.push({ event, message });
+          return;
+        }
+
+        // 重发或恢复会话时服务端可能再次推送已处理的消息，仍然确认但不再分发
+        const duplicate = message.seq <= this.lastReceivedSeq;
+        if (duplicate) {
+          this.deliveryStats.duplicatesDropped++;
+        } else {
+          this.lastReceivedSeq = message.seq;
+        }
+        this.scheduleInboundAck();
+        if (duplicate) {
+          return;
+        }
+      }
+    }
+
+    this.emit('message', { ...event, parsedData: message });
+  }
+
+  private handleParseError(event: TransportMessageEvent, error: Error): void {
+    globalErrorManager.handleNetworkError(
+      error,
+      this.config.url,
+      'WebSocket-Parse',
+      { props: { connectionId: this.id, rawData: event.data } }
+    );
+  }
+
+  // ==================== 可靠投递 ====================
+
+  private sendReliable(message: WebSocketMessage): boolean {
+    // 服务端长时间不确认时不再缓冲，避免内存无限增长
+    if (this.unacked.size >= this.config.maxUnacked) {
+      this.deliveryStats.rejected++;
+      const error = new Error(UNACKED_OVERFLOW_ERROR);
+      globalErrorManager.handleNetworkError(
+        error,
+        this.config.url,
+        'WebSocket-Send',
+        { props: { connectionId: this.id, messageId: message.id, unacked: this.unacked.size } }
+      );
+      this.emit('error', error);
+      return false;
+    }
+
+    message.seq = ++this.lastSentSeq;
+    this.unacked.set(message.seq, { message, timer: null });
+
+    // 连接未就绪时留在待确认缓冲区，连接建立后重发
+    if (!this.socket || this.socket.readyState !== WebSocket.OPEN) {
+      return false;
+    }
+
+    this.transmit(message);
+    return true;
+  }
+
+  private transmit(message: WebSocketMessage): void {
+    const entry = this.unacked.get(message.seq!);
+    if (!entry) return;
+
+    try {
+      this.write(message);
+      this.stats.messageCount++;
+      this.stats.lastMessageTime = Date.now();
     } catch (error) {
       globalErrorManager.handleNetworkError(
         error as Error,
         this.config.url,
-        'WebSocket-Parse',
-        { connectionId: this.id, rawData: event.data }
+        'WebSocket-Send',
+        { props: { connectionId: this.id, messageId: message.id, seq: message.seq } }
       );
     }
+
+    if (entry.timer) {
+      clearTimeout(entry.timer);
+    }
+    entry.timer = setTimeout(() => {
+      entry.timer = null;
+      if (this.unacked.has(message.seq!) && this.socket?.readyState === WebSocket.OPEN) {
+        this.deliveryStats.retransmissions++;
+        this.transmit(message);
+      }
+    }, this.config.ackTimeout);
+  }
+
+  /**
+   * 连接建立后恢复会话：告知服务端已收到的序号，并按序号重发未确认的消息
+   * 服务端以 resumed 或 reset 应答，超时未应答时按 resumed 处理
+   */
+  private resumeSession(): void {
+    this.pendingResume = [];
+    this.resumeTimer = setTimeout(() => this.completeResume(false), this.config.ackTimeout);
+
+    this.write({
+      id: this.generateId(),
+      type: DELIVERY_MESSAGE_TYPES.RESUME,
+      data: { sessionId: this.id, lastSeq: this.lastReceivedSeq },
+      timestamp: new Date().toISOString(),
+      source: 'websocket-manager'
+    });
+
+    Array.from(this.unacked.keys())
+      .sort((a, b) => a - b)
+      .forEach(seq => this.transmit(this.unacked.get(seq)!.message));
+  }
+
+  /**
+   * 收到恢复应答后处理暂存的消息
+   * reset 表示服务端会话已丢失，新会话的序号从 1 开始，保留原序号会把之后的消息全部当作重复丢弃
+   */
+  private completeResume(reset: boolean): void {
+    if (reset) {
+      this.lastReceivedSeq = 0;
+    }
+    if (this.resumeTimer) {
+      clearTimeout(this.resumeTimer);
+      this.resumeTimer = null;
+    }
+
+    const pending = this.pendingResume || [];
+    this.pendingResume = null;
+    pending.forEach(({ event, message }) => this.dispatchMessage(event, message));
+  }
+
+  /**
+   * 处理服务端确认，确认是累积的：该序号及之前的消息都已送达
+   */
+  private handleAck(seq: number): void {
+    if (typeof seq !== 'number') return;
+
+    this.unacked.forEach((entry, pendingSeq) => {
+      if (pendingSeq > seq) return;
+
+      if (entry.timer) {
+        clearTimeout(entry.timer);
+      }
+      this.unacked.delete(pendingSeq);
+      this.emit('ack', entry.message);
+    });
+  }
+
+  /**
+   * 合并短时间内收到的消息，发送一次累积确认
+   */
+  private scheduleInboundAck(): void {
+    if (this.inboundAckTimer) return;
+
+    this.inboundAckTimer = setTimeout(() => {
+      this.inboundAckTimer = null;
+      if (this.socket?.readyState !== WebSocket.OPEN) return;
+
+      this.write({
+        id: this.generateId(),
+        type: DELIVERY_MESSAGE_TYPES.ACK,
+        data: { seq: this.lastReceivedSeq },
+        timestamp: new Date().toISOString(),
+        source: 'websocket-manager'
+      });
+    }, INBOUND_ACK_DELAY);
+  }
+
+  private isAwaitingAck(message: WebSocketMessage): boolean {
+    return message.seq !== undefined && this.unacked.has(message.seq);
   }
 
   private startHeartbeat(): void {
@@ -347,7 +874,7 @@ export class WebSocketConnection {
     };
 
     try {
-      this.socket.send(JSON.stringify(heartbeatMessage));
+      this.write(heartbeatMessage);
       this.lastHeartbeat = Date.now();
       
       // 设置心跳超时
@@ -394,7 +921,7 @@ export class WebSocketConnection {
     }
 
     if (this.reconnectCount >= this.config.maxReconnectAttempts) {
-      this.emit('error', new Error('Max reconnect attempts reached'));
+      this.emit('error', new Error(MAX_RECONNECT_ERROR));
       return;
     }
 
@@ -422,7 +949,7 @@ export class WebSocketConnection {
     while (this.messageQueue.length > 0 && this.socket?.readyState === WebSocket.OPEN) {
       const message = this.messageQueue.shift()!;
       try {
-        this.socket.send(JSON.stringify(message));
+        this.write(message);
         this.stats.messageCount++;
       } catch (error) {
         // 发送失败，重新加入队列
@@ -448,6 +975,27 @@ export class WebSocketConnection {
       this.heartbeatTimeoutTimer = null;
     }
     
+    if (this.inboundAckTimer) {
+      clearTimeout(this.inboundAckTimer);
+      this.inboundAckTimer = null;
+    }
+
+    // 暂存的消息未确认，重连后服务端会重放
+    if (this.resumeTimer) {
+      clearTimeout(this.resumeTimer);
+      this.resumeTimer = null;
+    }
+    this.pendingResume = null;
+
+    // 连接断开后不再等待确认，未确认的消息在重连后统一重发
+    this.unacked.forEach(entry => {
+      if (entry.timer) {
+        clearTimeout(entry.timer);
+        entry.timer = null;
+      }
+    });
+
+    this.stopUpgradeProbe();
     this.clearConnectionTimeout();
   }
 
@@ -0,0 +1,96 @@
+// @vitest-environment node
+import { describe, expect, it } from 'vitest';
+import {
+  PayloadFormat,
+  createPayloadSerializer,
+  decodePayloadFrame,
+  encodePayloadFrame,
+  isPayloadFrame
+} from './serialization';
+
+// ==================== 测试数据 ====================
+
+const FORMATS: PayloadFormat[] = ['json', 'msgpack', 'cbor'];
+
+function createSample() {
+  return {
+    date: new Date('2024-05-01T12:34:56.789Z'),
+    map: new Map<any, any>([['a', 1], [2, { nested: 'b' }]]),
+    set: new Set<any>([1, 'x']),
+    small: BigInt(5),
+    big: BigInt(2) ** BigInt(70),
+    negative: -(BigInt(2) ** BigInt(64)),
+    nested: { list: [1, 2.5, -3, null, true, 'é'], text: 'x'.repeat(200) }
+  };
+}
+
+function expectSample(actual: any): void {
+  const expected = createSample();
+  expect(actual.date).toBeInstanceOf(Date);
+  expect(actual.date.toISOString()).toBe(expected.date.toISOString());
+  expect(actual.map).toBeInstanceOf(Map);
+  expect(Array.from(actual.map.entries())).toEqual(Array.from(expected.map.entries()));
+  expect(actual.set).toBeInstanceOf(Set);
+  expect(Array.from(actual.set)).toEqual(Array.from(expected.set));
+  expect(actual.small).toBe(expected.small);
+  expect(actual.big).toBe(expected.big);
+  expect(actual.negative).toBe(expected.negative);
+  expect(actual.nested).toEqual(expected.nested);
+}
+
+// ==================== 测试 ====================
+
+describe.each(FORMATS)('%s 负载', format => {
+  it('编解码后保留 Date、Map、Set 和 BigInt', () => {
+    const serializer = createPayloadSerializer({ format });
+    expectSample(serializer.decode(serializer.encode(createSample())));
+  });
+
+  it('超过阈值时压缩，反序列化后内容不变', async () => {
+    const serializer = createPayloadSerializer({ format, compressThreshold: 1 });
+    const payload = await serializer.serialize(createSample());
+
+    expect(payload.contentEncoding).toBe('deflate');
+    expectSample(await serializer.deserialize(payload));
+  });
+
+  it('未超过阈值时不压缩', async () => {
+    const serializer = createPayloadSerializer({ format, compressThreshold: 0 });
+    const payload = await serializer.serialize(createSample());
+
+    expect(payload.contentEncoding).toBeUndefined();
+    expectSample(await serializer.deserialize(payload));
+  });
+
+  it('二进制帧保留内容类型和压缩标记', async () => {
+    const serializer = createPayloadSerializer({ format, compressThreshold: 1 });
+    const payload = await serializer.serialize(createSample());
+    const frame = encodePayloadFrame(payload);
+
+    expect(isPayloadFrame(frame)).toBe(true);
+    expect(isPayloadFrame(frame.buffer)).toBe(true);
+
+    const decoded = decodePayloadFrame(frame);
+    expect(decoded.contentType).toBe(serializer.contentType);
+    expect(decoded.contentEncoding).toBe('deflate');
+    expectSample(await createPayloadSerializer().deserialize(decoded));
+  });
+
+  it('__proto__ 字段解码为普通字段，不修改原型', () => {
+    const serializer = createPayloadSerializer({ format });
+    const decoded = serializer.decode(serializer.encode(JSON.parse('{"__proto__":{"polluted":true},"ok":1}')));
+
+    expect(Object.getPrototypeOf(decoded)).toBe(Object.prototype);
+    expect(Object.keys(decoded)).toEqual(['__proto__', 'ok']);
+    expect(decoded.polluted).toBeUndefined();
+    expect(({} as any).polluted).toBeUndefined();
+  });
+});
+
+describe('二进制帧', () => {
+  it('拒绝非负载帧', () => {
+    expect(isPayloadFrame(new Uint8Array([1, 2, 3, 4, 5]))).toBe(false);
+    expect(isPayloadFrame(new Uint8Array([0x51, 1]))).toBe(false);
+    expect(() => decodePayloadFrame(new Uint8Array([0x51, 1, 9, 0]))).toThrow('Invalid payload frame');
+  });
+});
@@ -0,0 +1,948 @@
+/**
+ * 负载序列化 - JSON、MessagePack 和 CBOR 编解码，超过阈值时使用 deflate 压缩
+ * 三种格式都保留 Date、Map、Set 和 BigInt；二进制格式用于 WebSocket 和跨标签页传输的大负载
+ */
+
+// CompressionStream 不在当前 TypeScript 的 DOM 类型中
+declare class CompressionStream {
+  constructor(format: 'deflate' | 'gzip');
+  readonly readable: ReadableStream<Uint8Array>;
+  readonly writable: WritableStream<Uint8Array>;
+}
+
+declare class DecompressionStream {
+  constructor(format: 'deflate' | 'gzip');
+  readonly readable: ReadableStream<Uint8Array>;
+  readonly writable: WritableStream<Uint8Array>;
+}
+
+// ==================== 类型定义 ====================
+
+export type PayloadFormat = 'json' | 'msgpack' | 'cbor';
+
+export type PayloadContentType = 'application/json' | 'application/msgpack' | 'application/cbor';
+
+export const PAYLOAD_CONTENT_TYPES: Record<PayloadFormat, PayloadContentType> = {
+  json: 'application/json',
+  msgpack: 'application/msgpack',
+  cbor: 'application/cbor'
+};
+
+/**
+ * 序列化后的负载
+ */
+export interface SerializedPayload {
+  contentType: PayloadContentType;
+
+  /**
+   * 设置时 body 经过压缩
+   */
+  contentEncoding?: 'deflate';
+
+  body: Uint8Array;
+}
+
+export interface PayloadSerializerOptions {
+  /**
+   * 编码格式，默认 'json'
+   */
+  format?: PayloadFormat;
+
+  /**
+   * 编码后超过该字节数时压缩，默认 16KB；设置为 0 时不压缩
+   */
+  compressThreshold?: number;
+}
+
+export interface PayloadCodec {
+  encode(value: any): Uint8Array;
+  decode(body: Uint8Array): any;
+}
+
+// ==================== 字节读写 ====================
+
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder();
+
+class ByteWriter {
+  private buffer = new Uint8Array(256);
+  private view = new DataView(this.buffer.buffer);
+  private length = 0;
+
+  u8(value: number): void {
+    this.ensure(1);
+    this.buffer[this.length++] = value;
+  }
+
+  u16(value: number): void {
+    this.ensure(2);
+    this.view.setUint16(this.length, value);
+    this.length += 2;
+  }
+
+  u32(value: number): void {
+    this.ensure(4);
+    this.view.setUint32(this.length, value);
+    this.length += 4;
+  }
+
+  i8(value: number): void {
+    this.ensure(1);
+    this.view.setInt8(this.length, value);
+    this.length += 1;
+  }
+
+  i16(value: number): void {
+    this.ensure(2);
+    this.view.setInt16(this.length, value);
+    this.length += 2;
+  }
+
+  i32(value: number): void {
+    this.ensure(4);
+    this.view.setInt32(this.length, value);
+    this.length += 4;
+  }
+
+  u64(value: bigint): void {
+    this.ensure(8);
+    this.view.setBigUint64(this.length, value);
+    this.length += 8;
+  }
+
+  i64(value: bigint): void {
+    this.ensure(8);
+    this.view.setBigInt64(this.length, value);
+    this.length += 8;
+  }
+
+  f64(value: number): void {
+    this.ensure(8);
+    this.view.setFloat64(this.length, value);
+    this.length += 8;
+  }
+
+  bytes(data: Uint8Array): void {
+    this.ensure(data.length);
+    this.buffer.set(data, this.length);
+    this.length += data.length;
+  }
+
+  result(): Uint8Array {
+    return this.buffer.slice(0, this.length);
+  }
+
+  private ensure(size: number): void {
+    if (this.length + size <= this.buffer.length) {
+      return;
+    }
+
+    let capacity = this.buffer.length * 2;
+    while (capacity < this.length + size) {
+      capacity *= 2;
+    }
+
+    const next = new Uint8Array(capacity);
+    next.set(this.buffer.subarray(0, this.length));
+    this.buffer = next;
+    this.view = new DataView(next.buffer);
+  }
+}
+
+class ByteReader {
+  private view: DataView;
+  private offset = 0;
+
+  constructor(private data: Uint8Array) {
+    this.view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  }
+
+  get done(): boolean {
+    return this.offset >= this.data.length;
+  }
+
+  u8(): number {
+    this.check(1);
+    return this.data[this.offset++];
+  }
+
+  u16(): number {
+    this.check(2);
+    const value = this.view.getUint16(this.offset);
+    this.offset += 2;
+    return value;
+  }
+
+  u32(): number {
+    this.check(4);
+    const value = this.view.getUint32(this.offset);
+    this.offset += 4;
+    return value;
+  }
+
+  i8(): number {
+    this.check(1);
+    return this.view.getInt8(this.offset++);
+  }
+
+  i16(): number {
+    this.check(2);
+    const value = this.view.getInt16(this.offset);
+    this.offset += 2;
+    return value;
+  }
+
+  i32(): number {
+    this.check(4);
+    const value = this.view.getInt32(this.offset);
+    this.offset += 4;
+    return value;
+  }
+
+  u64(): bigint {
+    this.check(8);
+    const value = this.view.getBigUint64(this.offset);
+    this.offset += 8;
+    return value;
+  }
+
+  i64(): bigint {
+    this.check(8);
+    const value = this.view.getBigInt64(this.offset);
+    this.offset += 8;
+    return value;
+  }
+
+  f16(): number {
+    return decodeHalfFloat(this.u16());
+  }
+
+  f32(): number {
+    this.check(4);
+    const value = this.view.getFloat32(this.offset);
+    this.offset += 4;
+    return value;
+  }
+
+  f64(): number {
+    this.check(8);
+    const value = this.view.getFloat64(this.offset);
+    this.offset += 8;
+    return value;
+  }
+
+  bytes(length: number): Uint8Array {
+    this.check(length);
+    const value = this.data.slice(this.offset, this.offset + length);
+    this.offset += length;
+    return value;
+  }
+
+  private check(size: number): void {
+    if (this.offset + size > this.data.length) {
+      throw new Error('[Serialization] Unexpected end of data');
+    }
+  }
+}
+
+function decodeHalfFloat(half: number): number {
+  const exponent = (half >> 10) & 0x1f;
+  const fraction = half & 0x3ff;
+  const sign = half & 0x8000 ? -1 : 1;
+
+  if (exponent === 0) {
+    return sign * Math.pow(2, -14) * (fraction / 1024);
+  }
+  if (exponent === 0x1f) {
+    return fraction ? NaN : sign * Infinity;
+  }
+  return sign * Math.pow(2, exponent - 15) * (1 + fraction / 1024);
+}
+
+/**
+ * 大于安全整数范围的 64 位整数保留为 BigInt
+ */
+function toSafeNumber(value: bigint): number | bigint {
+  return value <= BigInt(Number.MAX_SAFE_INTEGER) && value >= BigInt(Number.MIN_SAFE_INTEGER) ? Number(value) : value;
+}
+
+function bigintToBytes(value: bigint): Uint8Array {
+  let hex = value.toString(16);
+  if (hex.length % 2) {
+    hex = `0${hex}`;
+  }
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(hex.substr(i * 2, 2), 16);
+  }
+  return bytes;
+}
+
+function bytesToBigint(bytes: Uint8Array): bigint {
+  let hex = '';
+  bytes.forEach(byte => {
+    hex += byte.toString(16).padStart(2, '0');
+  });
+  return BigInt(`0x${hex || '0'}`);
+}
+
+function toBytes(value: ArrayBuffer | ArrayBufferView): Uint8Array {
+  return value instanceof ArrayBuffer
+    ? new Uint8Array(value)
+    : new Uint8Array(value.buffer, value.byteOffset, value.byteLength);
+}
+
+/**
+ * 写入解码出的对象字段；'__proto__' 作为普通字段定义，不会修改对象原型
+ */
+function defineEntry(target: Record<string, any>, key: any, value: any): void {
+  Object.defineProperty(target, String(key), { value, enumerable: true, writable: true, configurable: true });
+}
+
+/**
+ * 序列化对象时跳过的值（与 JSON 一致）
+ */
+function isSkipped(value: any): boolean {
+  return value === undefined || typeof value === 'function' || typeof value === 'symbol';
+}
+
+// ==================== JSON ====================
+
+/**
+ * 带类型标记的 JSON：Date、Map、Set 和 BigInt 编码为 { $type, value }
+ */
+export const jsonCodec: PayloadCodec = {
+  encode(value: any): Uint8Array {
+    const text = JSON.stringify(value, function (this: any, key: string, current: any) {
+      const raw = key === '' ? current : this[key];
+      if (raw instanceof Date) return { $type: 'Date', value: raw.toISOString() };
+      if (raw instanceof Map) return { $type: 'Map', value: Array.from(raw.entries()) };
+      if (raw instanceof Set) return { $type: 'Set', value: Array.from(raw.values()) };
+      if (typeof raw === 'bigint') return { $type: 'BigInt', value: raw.toString() };
+      return current;
+    });
+    return textEncoder.encode(text === undefined ? 'null' : text);
+  },
+
+  decode(body: Uint8Array): any {
+    return JSON.parse(textDecoder.decode(body), (_key, value) => {
+      if (value && typeof value === 'object' && typeof value.$type === 'string' && 'value' in value && Object.keys(value).length === 2) {
+        switch (value.$type) {
+          case 'Date': return new Date(value.value);
+          case 'Map': return new Map(value.value);
+          case 'Set': return new Set(value.value);
+          case 'BigInt': return BigInt(value.value);
+        }
+      }
+      return value;
+    });
+  }
+};
+
+// ==================== MessagePack ====================
+
+// 扩展类型：-1 为规范中的时间戳，其余为本项目约定
+const MSGPACK_EXT_TIMESTAMP = -1;
+const MSGPACK_EXT_MAP = 1;
+const MSGPACK_EXT_SET = 2;
+const MSGPACK_EXT_BIGINT = 3;
+
+function writeMsgPack(writer: ByteWriter, value: any): void {
+  if (value === null || isSkipped(value)) {
+    writer.u8(0xc0);
+    return;
+  }
+
+  if (typeof value === 'boolean') {
+    writer.u8(value ? 0xc3 : 0xc2);
+    return;
+  }
+
+  if (typeof value === 'number') {
+    if (!Number.isSafeInteger(value)) {
+      writer.u8(0xcb);
+      writer.f64(value);
+    } else if (value >= 0) {
+      if (value < 0x80) writer.u8(value);
+      else if (value < 0x100) { writer.u8(0xcc); writer.u8(value); }
+      else if (value < 0x10000) { writer.u8(0xcd); writer.u16(value); }
+      else if (value < 0x100000000) { writer.u8(0xce); writer.u32(value); }
+      else { writer.u8(0xcf); writer.u64(BigInt(value)); }
+    } else {
+      if (value >= -32) writer.u8(value & 0xff);
+      else if (value >= -0x80) { writer.u8(0xd0); writer.i8(value); }
+      else if (value >= -0x8000) { writer.u8(0xd1); writer.i16(value); }
+      else if (value >= -0x80000000) { writer.u8(0xd2); writer.i32(value); }
+      else { writer.u8(0xd3); writer.i64(BigInt(value)); }
+    }
+    return;
+  }
+
+  if (typeof value === 'bigint') {
+    writeMsgPackExt(writer, MSGPACK_EXT_BIGINT, textEncoder.encode(value.toString()));
+    return;
+  }
+
+  if (typeof value === 'string') {
+    const bytes = textEncoder.encode(value);
+    if (bytes.length < 32) writer.u8(0xa0 | bytes.length);
+    else if (bytes.length < 0x100) { writer.u8(0xd9); writer.u8(bytes.length); }
+    else if (bytes.length < 0x10000) { writer.u8(0xda); writer.u16(bytes.length); }
+    else { writer.u8(0xdb); writer.u32(bytes.length); }
+    writer.bytes(bytes);
+    return;
+  }
+
+  if (value instanceof ArrayBuffer || ArrayBuffer.isView(value)) {
+    const bytes = toBytes(value);
+    if (bytes.length < 0x100) { writer.u8(0xc4); writer.u8(bytes.length); }
+    else if (bytes.length < 0x10000) { writer.u8(0xc5); writer.u16(bytes.length); }
+    else { writer.u8(0xc6); writer.u32(bytes.length); }
+    writer.bytes(bytes);
+    return;
+  }
+
+  if (value instanceof Date) {
+    // timestamp 96：4 字节纳秒 + 8 字节秒
+    const time = value.getTime();
+    const seconds = Math.floor(time / 1000);
+    const data = new ByteWriter();
+    data.u32((time - seconds * 1000) * 1e6);
+    data.i64(BigInt(seconds));
+    writeMsgPackExt(writer, MSGPACK_EXT_TIMESTAMP, data.result());
+    return;
+  }
+
+  if (value instanceof Map) {
+    const pairs: any[] = [];
+    value.forEach((item, key) => pairs.push(key, item));
+    writeMsgPackExt(writer, MSGPACK_EXT_MAP, encodeMsgPack(pairs));
+    return;
+  }
+
+  if (value instanceof Set) {
+    writeMsgPackExt(writer, MSGPACK_EXT_SET, encodeMsgPack(Array.from(value)));
+    return;
+  }
+
+  if (Array.isArray(value)) {
+    if (value.length < 16) writer.u8(0x90 | value.length);
+    else if (value.length < 0x10000) { writer.u8(0xdc); writer.u16(value.length); }
+    else { writer.u8(0xdd); writer.u32(value.length); }
+    value.forEach(item => writeMsgPack(writer, item));
+    return;
+  }
+
+  const entries = Object.entries(value).filter(([, item]) => !isSkipped(item));
+  if (entries.length < 16) writer.u8(0x80 | entries.length);
+  else if (entries.length < 0x10000) { writer.u8(0xde); writer.u16(entries.length); }
+  else { writer.u8(0xdf); writer.u32(entries.length); }
+  entries.forEach(([key, item]) => {
+    writeMsgPack(writer, key);
+    writeMsgPack(writer, item);
+  });
+}
+
+function writeMsgPackExt(writer: ByteWriter, type: number, data: Uint8Array): void {
+  const fixed: Record<number, number> = { 1: 0xd4, 2: 0xd5, 4: 0xd6, 8: 0xd7, 16: 0xd8 };
+
+  if (fixed[data.length]) writer.u8(fixed[data.length]);
+  else if (data.length < 0x100) { writer.u8(0xc7); writer.u8(data.length); }
+  else if (data.length < 0x10000) { writer.u8(0xc8); writer.u16(data.length); }
+  else { writer.u8(0xc9); writer.u32(data.length); }
+
+  writer.i8(type);
+  writer.bytes(data);
+}
+
+function readMsgPack(reader: ByteReader): any {
+  const byte = reader.u8();
+
+  if (byte <= 0x7f) return byte;
+  if (byte >= 0xe0) return byte - 0x100;
+  if ((byte & 0xf0) === 0x80) return readMsgPackMap(reader, byte & 0x0f);
+  if ((byte & 0xf0) === 0x90) return readMsgPackArray(reader, byte & 0x0f);
+  if ((byte & 0xe0) === 0xa0) return textDecoder.decode(reader.bytes(byte & 0x1f));
+
+  switch (byte) {
+    case 0xc0: return null;
+    case 0xc2: return false;
+    case 0xc3: return true;
+    case 0xc4: return reader.bytes(reader.u8());
+    case 0xc5: return reader.bytes(reader.u16());
+    case 0xc6: return reader.bytes(reader.u32());
+    case 0xc7: return readMsgPackExt(reader, reader.u8());
+    case 0xc8: return readMsgPackExt(reader, reader.u16());
+    case 0xc9: return readMsgPackExt(reader, reader.u32());
+    case 0xca: return reader.f32();
+    case 0xcb: return reader.f64();
+    case 0xcc: return reader.u8();
+    case 0xcd: return reader.u16();
+    case 0xce: return reader.u32();
+    case 0xcf: return toSafeNumber(reader.u64());
+    case 0xd0: return reader.i8();
+    case 0xd1: return reader.i16();
+    case 0xd2: return reader.i32();
+    case 0xd3: return toSafeNumber(reader.i64());
+    case 0xd4: return readMsgPackExt(reader, 1);
+    case 0xd5: return readMsgPackExt(reader, 2);
+    case 0xd6: return readMsgPackExt(reader, 4);
+    case 0xd7: return readMsgPackExt(reader, 8);
+    case 0xd8: return readMsgPackExt(reader, 16);
+    case 0xd9: return textDecoder.decode(reader.bytes(reader.u8()));
+    case 0xda: return textDecoder.decode(reader.bytes(reader.u16()));
+    case 0xdb: return textDecoder.decode(reader.bytes(reader.u32()));
+    case 0xdc: return readMsgPackArray(reader, reader.u16());
+    case 0xdd: return readMsgPackArray(reader, reader.u32());
+    case 0xde: return readMsgPackMap(reader, reader.u16());
+    case 0xdf: return readMsgPackMap(reader, reader.u32());
+    default:
+      throw new Error(`[Serialization] Invalid MessagePack byte 0x${byte.toString(16)}`);
+  }
+}
+
+function readMsgPackArray(reader: ByteReader, length: number): any[] {
+  const result = new Array(length);
+  for (let i = 0; i < length; i++) {
+    result[i] = readMsgPack(reader);
+  }
+  return result;
+}
+
+function readMsgPackMap(reader: ByteReader, size: number): Record<string, any> {
+  const result: Record<string, any> = {};
+  for (let i = 0; i < size; i++) {
+    const key = readMsgPack(reader);
+    defineEntry(result, key, readMsgPack(reader));
+  }
+  return result;
+}
+
+function readMsgPackExt(reader: ByteReader, length: number): any {
+  const type = reader.i8();
+  const data = reader.bytes(length);
+  const inner = new ByteReader(data);
+
+  switch (type) {
+    case MSGPACK_EXT_TIMESTAMP: {
+      if (length === 4) {
+        return new Date(inner.u32() * 1000);
+      }
+      if (length === 8) {
+        // timestamp 64：高 30 位纳秒 + 低 34 位秒
+        const high = inner.u32();
+        const low = inner.u32();
+        const nanoseconds = high >>> 2;
+        const seconds = (high & 0x3) * 0x100000000 + low;
+        return new Date(seconds * 1000 + nanoseconds / 1e6);
+      }
+      const nanoseconds = inner.u32();
+      const seconds = Number(inner.i64());
+      return new Date(seconds * 1000 + Math.floor(nanoseconds / 1e6));
+    }
+    case MSGPACK_EXT_MAP: {
+      const pairs: any[] = decodeMsgPack(data);
+      const map = new Map();
+      for (let i = 0; i < pairs.length; i += 2) {
+        map.set(pairs[i], pairs[i + 1]);
+      }
+      return map;
+    }
+    case MSGPACK_EXT_SET:
+      return new Set(decodeMsgPack(data));
+    case MSGPACK_EXT_BIGINT:
+      return BigInt(textDecoder.decode(data));
+    default:
+      throw new Error(`[Serialization] Unknown MessagePack extension type ${type}`);
+  }
+}
+
+function encodeMsgPack(value: any): Uint8Array {
+  const writer = new ByteWriter();
+  writeMsgPack(writer, value);
+  return writer.result();
+}
+
+function decodeMsgPack(body: Uint8Array): any {
+  return readMsgPack(new ByteReader(body));
+}
+
+export const msgpackCodec: PayloadCodec = {
+  encode: encodeMsgPack,
+  decode: decodeMsgPack
+};
+
+// ==================== CBOR ====================
+
+// 标签：1 为纪元秒时间，2/3 为大整数，258 为集合，259 为带任意键的映射
+const CBOR_TAG_EPOCH = 1;
+const CBOR_TAG_POSITIVE_BIGNUM = 2;
+const CBOR_TAG_NEGATIVE_BIGNUM = 3;
+const CBOR_TAG_SET = 258;
+const CBOR_TAG_MAP = 259;
+
+function writeCborHead(writer: ByteWriter, major: number, length: number | bigint): void {
+  const type = major << 5;
+
+  if (typeof length === 'bigint' || length >= 0x100000000) {
+    writer.u8(type | 27);
+    writer.u64(BigInt(length));
+  } else if (length < 24) {
+    writer.u8(type | length);
+  } else if (length < 0x100) {
+    writer.u8(type | 24);
+    writer.u8(length);
+  } else if (length < 0x10000) {
+    writer.u8(type | 25);
+    writer.u16(length);
+  } else {
+    writer.u8(type | 26);
+    writer.u32(length);
+  }
+}
+
+function writeCbor(writer: ByteWriter, value: any): void {
+  if (value === null || typeof value === 'function' || typeof value === 'symbol') {
+    writer.u8(0xf6);
+    return;
+  }
+
+  if (value === undefined) {
+    writer.u8(0xf7);
+    return;
+  }
+
+  if (typeof value === 'boolean') {
+    writer.u8(value ? 0xf5 : 0xf4);
+    return;
+  }
+
+  if (typeof value === 'number') {
+    if (Number.isSafeInteger(value)) {
+      if (value >= 0) writeCborHead(writer, 0, value);
+      else writeCborHead(writer, 1, -1 - value);
+    } else {
+      writer.u8(0xfb);
+      writer.f64(value);
+    }
+    return;
+  }
+
+  if (typeof value === 'bigint') {
+    if (value >= BigInt(0)) {
+      writeCborHead(writer, 6, CBOR_TAG_POSITIVE_BIGNUM);
+      writeCbor(writer, bigintToBytes(value));
+    } else {
+      writeCborHead(writer, 6, CBOR_TAG_NEGATIVE_BIGNUM);
+      writeCbor(writer, bigintToBytes(BigInt(-1) - value));
+    }
+    return;
+  }
+
+  if (typeof value === 'string') {
+    const bytes = textEncoder.encode(value);
+    writeCborHead(writer, 3, bytes.length);
+    writer.bytes(bytes);
+    return;
+  }
+
+  if (value instanceof ArrayBuffer || ArrayBuffer.isView(value)) {
+    const bytes = toBytes(value);
+    writeCborHead(writer, 2, bytes.length);
+    writer.bytes(bytes);
+    return;
+  }
+
+  if (value instanceof Date) {
+    writeCborHead(writer, 6, CBOR_TAG_EPOCH);
+    writer.u8(0xfb);
+    writer.f64(value.getTime() / 1000);
+    return;
+  }
+
+  if (value instanceof Map) {
+    writeCborHead(writer, 6, CBOR_TAG_MAP);
+    writeCborHead(writer, 5, value.size);
+    value.forEach((item, key) => {
+      writeCbor(writer, key);
+      writeCbor(writer, item);
+    });
+    return;
+  }
+
+  if (value instanceof Set) {
+    writeCborHead(writer, 6, CBOR_TAG_SET);
+    writeCbor(writer, Array.from(value));
+    return;
+  }
+
+  if (Array.isArray(value)) {
+    writeCborHead(writer, 4, value.length);
+    value.forEach(item => writeCbor(writer, item));
+    return;
+  }
+
+  const entries = Object.entries(value).filter(([, item]) => !isSkipped(item));
+  writeCborHead(writer, 5, entries.length);
+  entries.forEach(([key, item]) => {
+    writeCbor(writer, key);
+    writeCbor(writer, item);
+  });
+}
+
+function readCborLength(reader: ByteReader, info: number): number | bigint {
+  if (info < 24) return info;
+  switch (info) {
+    case 24: return reader.u8();
+    case 25: return reader.u16();
+    case 26: return reader.u32();
+    case 27: return toSafeNumber(reader.u64());
+    default:
+      throw new Error('[Serialization] Indefinite-length CBOR items are not supported');
+  }
+}
+
+function readCbor(reader: ByteReader): any {
+  const initial = reader.u8();
+  const major = initial >> 5;
+  const info = initial & 0x1f;
+
+  if (major === 7) {
+    switch (info) {
+      case 20: return false;
+      case 21: return true;
+      case 22: return null;
+      case 23: return undefined;
+      case 25: return reader.f16();
+      case 26: return reader.f32();
+      case 27: return reader.f64();
+      default:
+        throw new Error(`[Serialization] Unsupported CBOR simple value ${info}`);
+    }
+  }
+
+  const length = readCborLength(reader, info);
+
+  switch (major) {
+    case 0:
+      return length;
+    case 1:
+      return typeof length === 'bigint' ? BigInt(-1) - length : -1 - length;
+    case 2:
+      return reader.bytes(Number(length));
+    case 3:
+      return textDecoder.decode(reader.bytes(Number(length)));
+    case 4: {
+      const result = new Array(Number(length));
+      for (let i = 0; i < result.length; i++) {
+        result[i] = readCbor(reader);
+      }
+      return result;
+    }
+    case 5: {
+      const result: Record<string, any> = {};
+      for (let i = 0; i < Number(length); i++) {
+        const key = readCbor(reader);
+        defineEntry(result, key, readCbor(reader));
+      }
+      return result;
+    }
+    case 6:
+      return readCborTag(reader, Number(length));
+    default:
+      throw new Error(`[Serialization] Invalid CBOR major type ${major}`);
+  }
+}
+
+function readCborTag(reader: ByteReader, tag: number): any {
+  if (tag === CBOR_TAG_MAP) {
+    // 映射的键可以是任意类型，不能先解码为对象
+    const initial = reader.u8();
+    if (initial >> 5 !== 5) {
+      throw new Error('[Serialization] CBOR tag 259 must wrap a map');
+    }
+    const size = Number(readCborLength(reader, initial & 0x1f));
+    const map = new Map();
+    for (let i = 0; i < size; i++) {
+      const key = readCbor(reader);
+      map.set(key, readCbor(reader));
+    }
+    return map;
+  }
+
+  const item = readCbor(reader);
+
+  switch (tag) {
+    case 0:
+      return new Date(item);
+    case CBOR_TAG_EPOCH:
+      return new Date(Math.round(Number(item) * 1000));
+    case CBOR_TAG_POSITIVE_BIGNUM:
+      return bytesToBigint(item);
+    case CBOR_TAG_NEGATIVE_BIGNUM:
+      return BigInt(-1) - bytesToBigint(item);
+    case CBOR_TAG_SET:
+      return new Set(item);
+    default:
+      // 未知标签直接返回内容
+      return item;
+  }
+}
+
+export const cborCodec: PayloadCodec = {
+  encode(value: any): Uint8Array {
+    const writer = new ByteWriter();
+    writeCbor(writer, value);
+    return writer.result();
+  },
+
+  decode(body: Uint8Array): any {
+    return readCbor(new ByteReader(body));
+  }
+};
+
+const CODECS: Record<PayloadContentType, PayloadCodec> = {
+  'application/json': jsonCodec,
+  'application/msgpack': msgpackCodec,
+  'application/cbor': cborCodec
+};
+
+// ==================== 压缩 ====================
+
+/**
+ * 检查运行环境是否支持 CompressionStream
+ */
+export function isCompressionSupported(): boolean {
+  return typeof CompressionStream !== 'undefined'
+    && typeof DecompressionStream !== 'undefined'
+    && typeof Blob !== 'undefined'
+    && typeof Response !== 'undefined';
+}
+
+async function pipeBytes(
+  bytes: Uint8Array,
+  stream: { readable: ReadableStream<Uint8Array>; writable: WritableStream<Uint8Array> }
+): Promise<Uint8Array> {
+  const output = new Blob([bytes]).stream().pipeThrough(stream);
+  return new Uint8Array(await new Response(output).arrayBuffer());
+}
+
+export function deflate(bytes: Uint8Array): Promise<Uint8Array> {
+  return pipeBytes(bytes, new CompressionStream('deflate'));
+}
+
+export function inflate(bytes: Uint8Array): Promise<Uint8Array> {
+  return pipeBytes(bytes, new DecompressionStream('deflate'));
+}
+
+// ==================== 负载序列化器 ====================
+
+export class PayloadSerializer {
+  public readonly format: PayloadFormat;
+  public readonly contentType: PayloadContentType;
+  private compressThreshold: number;
+
+  constructor(options: PayloadSerializerOptions = {}) {
+    this.format = options.format || 'json';
+    this.contentType = PAYLOAD_CONTENT_TYPES[this.format];
+    this.compressThreshold = options.compressThreshold ?? 16 * 1024;
+  }
+
+  /**
+   * 编码为字节（不压缩）
+   */
+  encode(value: any): Uint8Array {
+    return CODECS[this.contentType].encode(value);
+  }
+
+  /**
+   * 按内容类型解码字节，默认使用当前格式
+   */
+  decode(body: Uint8Array, contentType: PayloadContentType = this.contentType): any {
+    const codec = CODECS[contentType];
+    if (!codec) {
+      throw new Error(`[Serialization] Unsupported content type: ${contentType}`);
+    }
+    return codec.decode(body);
+  }
+
+  /**
+   * 序列化，超过阈值且环境支持时压缩
+   */
+  async serialize(value: any): Promise<SerializedPayload> {
+    const body = this.encode(value);
+
+    if (this.compressThreshold > 0 && body.length > this.compressThreshold && isCompressionSupported()) {
+      const compressed = await deflate(body);
+      // 压缩无收益时保留原始数据
+      if (compressed.length < body.length) {
+        return { contentType: this.contentType, contentEncoding: 'deflate', body: compressed };
+      }
+    }
+
+    return { contentType: this.contentType, body };
+  }
+
+  /**
+   * 反序列化任意格式的负载
+   */
+  async deserialize(payload: SerializedPayload): Promise<any> {
+    const body = payload.contentEncoding === 'deflate' ? await inflate(payload.body) : payload.body;
+    return this.decode(body, payload.contentType);
+  }
+}
+
+/**
+ * 创建负载序列化器
+ */
+export function createPayloadSerializer(options: PayloadSerializerOptions = {}): PayloadSerializer {
+  return new PayloadSerializer(options);
+}
+
+// ==================== 二进制帧 ====================
+
+// 帧头：魔数 'Q'、版本、内容类型、标志位（bit0 为 deflate）
+const FRAME_MAGIC = 0x51;
+const FRAME_VERSION = 1;
+const FRAME_HEADER_SIZE = 4;
+const FRAME_CONTENT_TYPES: PayloadContentType[] = ['application/json', 'application/msgpack', 'application/cbor'];
+
+/**
+ * 将负载编码为带内容类型标记的二进制帧，用于 WebSocket 二进制消息
+ */
+export function encodePayloadFrame(payload: SerializedPayload): Uint8Array {
+  const frame = new Uint8Array(FRAME_HEADER_SIZE + payload.body.length);
+  frame[0] = FRAME_MAGIC;
+  frame[1] = FRAME_VERSION;
+  frame[2] = FRAME_CONTENT_TYPES.indexOf(payload.contentType);
+  frame[3] = payload.contentEncoding === 'deflate' ? 1 : 0;
+  frame.set(payload.body, FRAME_HEADER_SIZE);
+  return frame;
+}
+
+/**
+ * 判断二进制数据是否为负载帧
+ */
+export function isPayloadFrame(data: ArrayBuffer | Uint8Array): boolean {
+  const bytes = data instanceof Uint8Array ? data : new Uint8Array(data);
+  return bytes.length >= FRAME_HEADER_SIZE
+    && bytes[0] === FRAME_MAGIC
+    && bytes[1] === FRAME_VERSION
+    && bytes[2] < FRAME_CONTENT_TYPES.length;
+}
+
+/**
+ * 解析二进制帧
+ */
+export function decodePayloadFrame(data: ArrayBuffer | Uint8Array): SerializedPayload {
+  const bytes = data instanceof Uint8Array ? data : new Uint8Array(data);
+  if (!isPayloadFrame(bytes)) {
+    throw new Error('[Serialization] Invalid payload frame');
+  }
+
+  return {
+    contentType: FRAME_CONTENT_TYPES[bytes[2]],
+    contentEncoding: bytes[3] & 1 ? 'deflate' : undefined,
+    body: bytes.subarray(FRAME_HEADER_SIZE)
+  };
+}
@@ -0,0 +1,125 @@
+// @vitest-environment node
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { MigrationRegistry, QuarantinedState, StateMigrationResult } from './state-migration';
+
+// ==================== 辅助函数 ====================
+
+function createRegistry(options: ConstructorParameters<typeof MigrationRegistry>[0] = {}): MigrationRegistry {
+  return new MigrationRegistry({ name: 'spec', versionAliases: { '1.0.0': 1 }, ...options }).registerAll([
+    {
+      version: 2,
+      up: state => ({ ...state, theme: { current: state.theme } }),
+      down: state => ({ ...state, theme: state.theme.current })
+    },
+    {
+      version: 3,
+      up: state => ({ ...state, locale: state.locale || 'zh-CN' })
+    }
+  ]);
+}
+
+// ==================== 迁移 ====================
+
+describe('MigrationRegistry', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('按版本顺序升级，不修改原始数据', () => {
+    const original = { theme: 'dark' };
+    const result = createRegistry().migrate(original, '1.0.0');
+
+    expect(result).toMatchObject({ status: 'migrated', fromVersion: 1, toVersion: 3, applied: ['v1->v2', 'v2->v3'] });
+    expect(result.state).toEqual({ theme: { current: 'dark' }, locale: 'zh-CN' });
+    expect(original).toEqual({ theme: 'dark' });
+  });
+
+  it('支持降级，缺少 down 时失败', () => {
+    const registry = createRegistry();
+
+    expect(registry.dryRun({ theme: { current: 'dark' } }, 2, { toVersion: 1 }).state).toEqual({ theme: 'dark' });
+    expect(registry.dryRun({ theme: { current: 'dark' } }, 'v3', { toVersion: 2 }).error).toBe('Missing down migration v3->v2');
+  });
+
+  it('已是目标版本时原样返回', () => {
+    const state = { theme: { current: 'dark' }, locale: 'en-US' };
+    const result = createRegistry().migrate(state, 3);
+
+    expect(result.status).toBe('current');
+    expect(result.state).toBe(state);
+  });
+
+  it('拒绝重复或无效的版本', () => {
+    const registry = createRegistry();
+
+    expect(() => registry.register({ version: 3, up: state => state })).toThrow('already registered');
+    expect(() => registry.register({ version: 1, up: state => state })).toThrow('Invalid migration version');
+  });
+});
+
+// ==================== 隔离 ====================
+
+describe('MigrationRegistry 隔离', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('无法识别的版本和抛出异常的步骤被隔离，返回原始数据', () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const quarantined: QuarantinedState[] = [];
+    const registry = createRegistry({ onQuarantine: entry => quarantined.push(entry) });
+
+    expect(registry.migrate({}, 'latest').error).toBe('Unrecognized state version: latest');
+
+    const result = registry.migrate(null, 1, { key: 'qiankun-global-state' });
+    expect(result.status).toBe('failed');
+    expect(result.state).toBeNull();
+    expect(result.applied).toEqual([]);
+    expect(result.error).toMatch(/^Migration threw: /);
+
+    expect(quarantined.map(entry => entry.key)).toEqual([undefined, 'qiankun-global-state']);
+    expect(registry.getQuarantined()).toHaveLength(2);
+  });
+
+  it('校验失败时记录问题列表', () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const registry = createRegistry({ validate: state => (state.locale === 'zh-CN' ? [] : ['locale missing']) });
+
+    const result = registry.migrate({ theme: 'dark' }, 1, { validate: state => (state.theme.current ? [] : ['theme missing']) });
+    expect(result.status).toBe('migrated');
+
+    const failed = registry.migrate({ theme: 'dark', locale: 'fr' }, 1);
+    expect(failed).toMatchObject({ status: 'failed', error: 'Migrated state failed validation', issues: ['locale missing'] });
+    expect(registry.getQuarantined()[0].reason).toBe('Migrated state failed validation: locale missing');
+  });
+
+  it('校验函数抛出异常时隔离数据而不是抛出', () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const onQuarantine = vi.fn();
+    const registry = createRegistry({
+      onQuarantine,
+      validate: state => (state.items.length > 0 ? [] : ['no items'])
+    });
+
+    let result: StateMigrationResult | undefined;
+    expect(() => {
+      result = registry.migrate({ theme: 'dark' }, 1);
+    }).not.toThrow();
+
+    expect(result).toMatchObject({ status: 'failed', applied: ['v1->v2', 'v2->v3'] });
+    expect(result!.error).toMatch(/^Validation threw: /);
+    expect(onQuarantine).toHaveBeenCalledTimes(1);
+    expect(() => registry.dryRun({ theme: 'dark' }, 1, { validate: () => { throw new Error('boom'); } })).not.toThrow();
+  });
+
+  it('试运行不触发隔离，隔离记录有上限', () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const registry = createRegistry({ maxQuarantined: 2 });
+
+    expect(registry.dryRun({}, 'unknown').status).toBe('failed');
+    expect(registry.getQuarantined()).toHaveLength(0);
+
+    ['a', 'b', 'c'].forEach(key => registry.migrate({}, 'unknown', { key }));
+    expect(registry.getQuarantined().map(entry => entry.key)).toEqual(['b', 'c']);
+  });
+});
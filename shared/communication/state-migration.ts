@@ -0,0 +1,318 @@
+/**
+ * 状态迁移 - 按版本顺序注册迁移步骤（v1→v2→v3），支持升级和降级
+ * 迁移在副本上执行并在提交前校验结果，无法迁移的数据交给隔离回调，不会抛出异常
+ */
+
+// ==================== 类型定义 ====================
+
+/**
+ * 状态版本号，从 baseVersion 开始连续递增
+ */
+export type StateVersion = number;
+
+export interface StateMigrationStep {
+  /**
+   * 升级后的版本，上一个版本为 version - 1
+   */
+  version: StateVersion;
+
+  description?: string;
+
+  /**
+   * 从 version - 1 升级到 version
+   */
+  up: (state: any) => any;
+
+  /**
+   * 从 version 降级到 version - 1，不提供时无法降级
+   */
+  down?: (state: any) => any;
+}
+
+export interface StateMigrationResult {
+  status: 'current' | 'migrated' | 'failed';
+
+  /**
+   * 迁移后的状态；失败时为原始数据
+   */
+  state: any;
+
+  /**
+   * 检测到的存储版本，无法识别时为 null
+   */
+  fromVersion: StateVersion | null;
+  toVersion: StateVersion;
+
+  /**
+   * 已执行的步骤，如 ['v1->v2', 'v2->v3']
+   */
+  applied: string[];
+
+  error?: string;
+
+  /**
+   * 校验迁移结果发现的问题
+   */
+  issues?: string[];
+}
+
+/**
+ * 被隔离的数据
+ */
+export interface QuarantinedState {
+  registry: string;
+  key?: string;
+  data: any;
+  fromVersion: StateVersion | null;
+  toVersion: StateVersion;
+  reason: string;
+  quarantinedAt: string;
+}
+
+export interface StateMigrationOptions {
+  /**
+   * 目标版本，默认为最新版本
+   */
+  toVersion?: StateVersion;
+
+  /**
+   * 数据所在的存储键，记录在隔离信息中
+   */
+  key?: string;
+
+  /**
+   * 本次迁移的额外校验，返回问题列表
+   */
+  validate?: (state: any) => string[];
+}
+
+export interface MigrationRegistryOptions {
+  /**
+   * 注册表名称，用于日志和隔离信息
+   */
+  name?: string;
+
+  /**
+   * 第一个版本，默认 1
+   */
+  baseVersion?: StateVersion;
+
+  /**
+   * 旧的字符串版本号到版本的映射，如 { '1.0.0': 1 }
+   */
+  versionAliases?: Record<string, StateVersion>;
+
+  /**
+   * 校验迁移结果，返回问题列表
+   */
+  validate?: (state: any) => string[];
+
+  /**
+   * 迁移失败时的隔离回调
+   */
+  onQuarantine?: (entry: QuarantinedState) => void;
+
+  /**
+   * 保留的隔离记录数
+   */
+  maxQuarantined?: number;
+}
+
+// ==================== 迁移注册表 ====================
+
+export class MigrationRegistry {
+  public readonly name: string;
+
+  private steps: Map<StateVersion, StateMigrationStep> = new Map();
+  private baseVersion: StateVersion;
+  private versionAliases: Record<string, StateVersion>;
+  private validate?: (state: any) => string[];
+  private onQuarantine?: (entry: QuarantinedState) => void;
+  private quarantined: QuarantinedState[] = [];
+  private maxQuarantined: number;
+
+  constructor(options: MigrationRegistryOptions = {}) {
+    this.name = options.name || 'state';
+    this.baseVersion = options.baseVersion ?? 1;
+    this.versionAliases = options.versionAliases || {};
+    this.validate = options.validate;
+    this.onQuarantine = options.onQuarantine;
+    this.maxQuarantined = options.maxQuarantined || 20;
+  }
+
+  /**
+   * 注册迁移步骤
+   */
+  register(step: StateMigrationStep): this {
+    if (!Number.isInteger(step.version) || step.version <= this.baseVersion) {
+      throw new Error(`[StateMigration:${this.name}] Invalid migration version ${step.version}, must be an integer greater than ${this.baseVersion}`);
+    }
+    if (this.steps.has(step.version)) {
+      throw new Error(`[StateMigration:${this.name}] Migration to v${step.version} is already registered`);
+    }
+
+    this.steps.set(step.version, step);
+    return this;
+  }
+
+  /**
+   * 批量注册迁移步骤
+   */
+  registerAll(steps: StateMigrationStep[]): this {
+    steps.forEach(step => this.register(step));
+    return this;
+  }
+
+  /**
+   * 最新版本
+   */
+  get latestVersion(): StateVersion {
+    return this.steps.size > 0 ? Math.max(...Array.from(this.steps.keys())) : this.baseVersion;
+  }
+
+  /**
+   * 获取已注册的步骤（按版本排序）
+   */
+  getSteps(): StateMigrationStep[] {
+    return Array.from(this.steps.values()).sort((a, b) => a.version - b.version);
+  }
+
+  /**
+   * 识别存储的版本：数字、数字字符串或 versionAliases 中的旧版本号
+   */
+  detectVersion(version: unknown): StateVersion | null {
+    if (typeof version === 'number' && Number.isInteger(version)) {
+      return version;
+    }
+    if (typeof version === 'string') {
+      if (version in this.versionAliases) {
+        return this.versionAliases[version];
+      }
+      if (/^v?\d+$/.test(version)) {
+        return Number(version.replace(/^v/, ''));
+      }
+    }
+    return null;
+  }
+
+  /**
+   * 试运行迁移：不修改输入、不触发隔离，可用于上线前检查存量数据
+   */
+  dryRun(state: any, version: unknown, options: StateMigrationOptions = {}): StateMigrationResult {
+    const toVersion = options.toVersion ?? this.latestVersion;
+    const fromVersion = this.detectVersion(version);
+    const fail = (error: string, issues?: string[], applied: string[] = []): StateMigrationResult => ({
+      status: 'failed',
+      state,
+      fromVersion,
+      toVersion,
+      applied,
+      error,
+      issues
+    });
+
+    if (fromVersion === null) {
+      return fail(`Unrecognized state version: ${String(version)}`);
+    }
+    if (fromVersion === toVersion) {
+      return { status: 'current', state, fromVersion, toVersion, applied: [] };
+    }
+
+    const applied: string[] = [];
+    let current: any;
+    try {
+      // 在副本上执行，失败时原始数据保持不变
+      current = JSON.parse(JSON.stringify(state));
+
+      if (fromVersion < toVersion) {
+        for (let version = fromVersion + 1; version <= toVersion; version++) {
+          const step = this.steps.get(version);
+          if (!step) {
+            return fail(`Missing migration v${version - 1}->v${version}`, undefined, applied);
+          }
+          current = step.up(current);
+          applied.push(`v${version - 1}->v${version}`);
+        }
+      } else {
+        for (let version = fromVersion; version > toVersion; version--) {
+          const step = this.steps.get(version);
+          if (!step || !step.down) {
+            return fail(`Missing down migration v${version}->v${version - 1}`, undefined, applied);
+          }
+          current = step.down(current);
+          applied.push(`v${version}->v${version - 1}`);
+        }
+      }
+    } catch (error) {
+      return fail(`Migration ${applied.length > 0 ? `after ${applied[applied.length - 1]} ` : ''}threw: ${(error as Error)?.message || String(error)}`, undefined, applied);
+    }
+
+    // 校验函数自身出错同样视为迁移失败，交给隔离处理
+    let issues: string[];
+    try {
+      issues = [
+        ...(this.validate ? this.validate(current) : []),
+        ...(options.validate ? options.validate(current) : [])
+      ];
+    } catch (error) {
+      return fail(`Validation threw: ${(error as Error)?.message || String(error)}`, undefined, applied);
+    }
+    if (issues.length > 0) {
+      return fail('Migrated state failed validation', issues, applied);
+    }
+
+    return { status: 'migrated', state: current, fromVersion, toVersion, applied };
+  }
+
+  /**
+   * 执行迁移；失败时记录隔离信息并调用 onQuarantine
+   */
+  migrate(state: any, version: unknown, options: StateMigrationOptions = {}): StateMigrationResult {
+    const result = this.dryRun(state, version, options);
+
+    if (result.status === 'failed') {
+      const entry: QuarantinedState = {
+        registry: this.name,
+        key: options.key,
+        data: state,
+        fromVersion: result.fromVersion,
+        toVersion: result.toVersion,
+        reason: result.issues ? `${result.error}: ${result.issues.join('; ')}` : result.error!,
+        quarantinedAt: new Date().toISOString()
+      };
+
+      this.quarantined.push(entry);
+      if (this.quarantined.length > this.maxQuarantined) {
+        this.quarantined.shift();
+      }
+
+      console.warn(`[StateMigration:${this.name}] Quarantined ${options.key || 'state'}: ${entry.reason}`);
+
+      try {
+        this.onQuarantine?.(entry);
+      } catch (error) {
+        console.error(`[StateMigration:${this.name}] Error in quarantine handler:`, error);
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * 获取本次会话被隔离的数据
+   */
+  getQuarantined(): QuarantinedState[] {
+    return [...this.quarantined];
+  }
+}
+
+// ==================== 全局状态迁移 ====================
+
+/**
+ * 持久化全局状态的迁移注册表
+ * shared/types/store.ts 中 GlobalState 发生不兼容变化时，在这里注册下一个版本的迁移
+ */
+export const globalStateMigrations = new MigrationRegistry({
+  name: 'global-state',
+  versionAliases: { '1.0.0': 1 }
+});
@@ -0,0 +1,152 @@
+/**
+ * 状态补丁 - 以 JSON Patch（RFC 6902）操作描述两个状态之间的差异
+ * 状态按结构共享方式更新，引用相同的分支直接跳过，比较开销只和变化的部分有关
+ */
+
+import { setIn, removeIn } from './state-path';
+
+// ==================== 类型定义 ====================
+
+export interface StatePatchOperation {
+  op: 'add' | 'remove' | 'replace';
+
+  /**
+   * JSON Pointer 路径，如 '/user/preferences/language'
+   */
+  path: string;
+
+  value?: any;
+}
+
+export interface StateDiff {
+  /**
+   * 从旧状态到新状态的操作
+   */
+  patch: StatePatchOperation[];
+
+  /**
+   * 从新状态回到旧状态的操作
+   */
+  inverse: StatePatchOperation[];
+}
+
+/**
+ * 单个字段的变化，用于展示
+ */
+export interface StateFieldChange {
+  path: string;
+  op: StatePatchOperation['op'];
+  from?: any;
+  to?: any;
+}
+
+// ==================== JSON Pointer ====================
+
+/**
+ * 将路径段编码为 JSON Pointer
+ */
+export function toPatchPath(segments: string[]): string {
+  return segments.map(segment => `/${segment.replace(/~/g, '~0').replace(/\//g, '~1')}`).join('');
+}
+
+/**
+ * 将 JSON Pointer 解码为路径段
+ */
+export function fromPatchPath(path: string): string[] {
+  if (!path) {
+    return [];
+  }
+  return path
+    .slice(1)
+    .split('/')
+    .map(segment => segment.replace(/~1/g, '/').replace(/~0/g, '~'));
+}
+
+// ==================== 差异计算 ====================
+
+/**
+ * 计算两个状态之间的差异
+ * 对象逐字段比较；长度不同的数组整体替换
+ */
+export function diffState(prev: any, next: any): StateDiff {
+  const diff: StateDiff = { patch: [], inverse: [] };
+  diffInto(prev, next, [], diff);
+
+  // 逆操作需要倒序执行
+  diff.inverse.reverse();
+  return diff;
+}
+
+function diffInto(prev: any, next: any, segments: string[], diff: StateDiff): void {
+  if (Object.is(prev, next)) {
+    return;
+  }
+
+  if (isPlainObject(prev) && isPlainObject(next)) {
+    Object.keys(prev).forEach(key => {
+      if (!(key in next)) {
+        const keyPath = toPatchPath([...segments, key]);
+        diff.patch.push({ op: 'remove', path: keyPath });
+        diff.inverse.push({ op: 'add', path: keyPath, value: prev[key] });
+      }
+    });
+
+    Object.keys(next).forEach(key => {
+      if (key in prev) {
+        diffInto(prev[key], next[key], [...segments, key], diff);
+        return;
+      }
+      const keyPath = toPatchPath([...segments, key]);
+      diff.patch.push({ op: 'add', path: keyPath, value: next[key] });
+      diff.inverse.push({ op: 'remove', path: keyPath });
+    });
+    return;
+  }
+
+  if (Array.isArray(prev) && Array.isArray(next) && prev.length === next.length) {
+    prev.forEach((item, index) => diffInto(item, next[index], [...segments, String(index)], diff));
+    return;
+  }
+
+  const path = toPatchPath(segments);
+  diff.patch.push({ op: 'replace', path, value: next });
+  diff.inverse.push({ op: 'replace', path, value: prev });
+}
+
+function isPlainObject(value: any): value is Record<string, any> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+// ==================== 补丁应用 ====================
+
+/**
+ * 应用补丁，返回新状态（只复制补丁路径上的对象）
+ */
+export function applyPatch<T>(source: T, patch: StatePatchOperation[]): T {
+  return patch.reduce((current, operation) => {
+    const segments = fromPatchPath(operation.path);
+
+    if (segments.length === 0) {
+      return operation.op === 'remove' ? current : operation.value;
+    }
+
+    return operation.op === 'remove'
+      ? removeIn(current, segments)
+      : setIn(current, segments, operation.value);
+  }, source);
+}
+
+/**
+ * 结合正向和逆向补丁，列出每个字段的新旧值
+ */
+export function describePatch(patch: StatePatchOperation[], inverse: StatePatchOperation[]): StateFieldChange[] {
+  const previous = new Map<string, StatePatchOperation>();
+  inverse.forEach(operation => previous.set(operation.path, operation));
+
+  return patch.map(operation => ({
+    path: operation.path,
+    op: operation.op,
+    from: previous.get(operation.path)?.value,
+    to: operation.value
+  }));
+}
@@ -0,0 +1,130 @@
+/**
+ * 状态路径工具 - 基于路径读取和不可变更新状态
+ * 更新时只复制路径上的对象，其余分支保持原引用（结构共享）
+ */
+
+// ==================== 路径解析 ====================
+
+const pathCache: Map<string, string[]> = new Map();
+
+/**
+ * 将 'user.preferences.theme' 形式的路径切分为段
+ */
+export function parseStatePath(path: string): string[] {
+  let segments = pathCache.get(path);
+  if (!segments) {
+    segments = path ? path.split('.') : [];
+    pathCache.set(path, segments);
+  }
+  return segments;
+}
+
+// ==================== 读取与更新 ====================
+
+/**
+ * 按路径读取值，中间节点不存在时返回 undefined
+ */
+export function getIn(source: any, path: string | string[]): any {
+  const segments = typeof path === 'string' ? parseStatePath(path) : path;
+  let current = source;
+
+  for (const segment of segments) {
+    if (current === null || current === undefined) {
+      return undefined;
+    }
+    current = current[segment];
+  }
+
+  return current;
+}
+
+/**
+ * 按路径写入值，返回新对象；值未变化时返回原对象
+ */
+export function setIn<T>(source: T, path: string | string[], value: any): T {
+  const segments = typeof path === 'string' ? parseStatePath(path) : path;
+  return setSegments(source, segments, 0, value);
+}
+
+function setSegments(source: any, segments: string[], index: number, value: any): any {
+  if (index === segments.length) {
+    return value;
+  }
+
+  const segment = segments[index];
+  const current = source === null || source === undefined ? undefined : source[segment];
+  const next = setSegments(current, segments, index + 1, value);
+
+  if (source !== null && source !== undefined && Object.is(current, next)) {
+    return source;
+  }
+
+  if (Array.isArray(source)) {
+    const copy = [...source];
+    copy[Number(segment)] = next;
+    return copy;
+  }
+
+  return { ...source, [segment]: next };
+}
+
+/**
+ * 按路径删除值，返回新对象；路径不存在时返回原对象
+ */
+export function removeIn<T>(source: T, path: string | string[]): T {
+  const segments = typeof path === 'string' ? parseStatePath(path) : path;
+  if (segments.length === 0) {
+    return source;
+  }
+  return removeSegments(source, segments, 0);
+}
+
+function removeSegments(source: any, segments: string[], index: number): any {
+  if (source === null || typeof source !== 'object') {
+    return source;
+  }
+
+  const segment = segments[index];
+  if (!(segment in source)) {
+    return source;
+  }
+
+  if (index < segments.length - 1) {
+    const current = source[segment];
+    const next = removeSegments(current, segments, index + 1);
+    if (Object.is(current, next)) {
+      return source;
+    }
+    if (Array.isArray(source)) {
+      const copy = [...source];
+      copy[Number(segment)] = next;
+      return copy;
+    }
+    return { ...source, [segment]: next };
+  }
+
+  if (Array.isArray(source)) {
+    const copy = [...source];
+    copy.splice(Number(segment), 1);
+    return copy;
+  }
+
+  const { [segment]: _removed, ...rest } = source;
+  return rest;
+}
+
+/**
+ * 浅合并：所有字段都未变化时返回原对象
+ */
+export function mergeShallow<T extends object>(source: T, patch: Partial<T> | null | undefined): T {
+  if (!patch) {
+    return source;
+  }
+
+  const keys = Object.keys(patch) as (keyof T)[];
+  if (keys.every(key => key in source && Object.is(source[key], patch[key]))) {
+    return source;
+  }
+
+  return { ...source, ...patch };
+}
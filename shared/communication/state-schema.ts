@@ -0,0 +1,450 @@
+/**
+ * 全局状态结构校验 - 按 shared/types/store.ts 中的 GlobalState 接口在运行时校验写入
+ * 接口变化时需要同步更新这里的结构描述
+ */
+
+import { GlobalState } from '../types/store';
+
+// ==================== 结构描述类型 ====================
+
+export interface StateSchema {
+  type: 'string' | 'number' | 'boolean' | 'object' | 'array' | 'any';
+
+  /**
+   * 是否允许 null
+   */
+  nullable?: boolean;
+
+  /**
+   * 作为对象属性时是否可以缺省
+   */
+  optional?: boolean;
+
+  /**
+   * 可选值列表
+   */
+  enum?: readonly (string | number | boolean)[];
+
+  /**
+   * 对象的已知属性
+   */
+  properties?: Record<string, StateSchema>;
+
+  /**
+   * 对象的其他属性：true 为任意值，false 为不允许，默认 false
+   */
+  additionalProperties?: StateSchema | boolean;
+
+  /**
+   * 数组元素
+   */
+  items?: StateSchema;
+}
+
+export interface StateValidationIssue {
+  /**
+   * 出错的状态路径，如 'user.preferences.language'
+   */
+  path: string;
+  message: string;
+}
+
+// ==================== 结构描述构造函数 ====================
+
+const str = (values?: readonly string[]): StateSchema => ({ type: 'string', enum: values });
+const num = (): StateSchema => ({ type: 'number' });
+const bool = (): StateSchema => ({ type: 'boolean' });
+const anyValue = (): StateSchema => ({ type: 'any' });
+const arr = (items: StateSchema): StateSchema => ({ type: 'array', items });
+const obj = (properties: Record<string, StateSchema>, additionalProperties: StateSchema | boolean = false): StateSchema => ({
+  type: 'object',
+  properties,
+  additionalProperties
+});
+const record = (values: StateSchema): StateSchema => ({ type: 'object', properties: {}, additionalProperties: values });
+const nullable = (schema: StateSchema): StateSchema => ({ ...schema, nullable: true });
+const optional = (schema: StateSchema): StateSchema => ({ ...schema, optional: true });
+
+// ==================== 全局状态结构 ====================
+
+const permissionSchema = obj({
+  id: str(),
+  name: str(),
+  code: str(),
+  resource: str(),
+  action: str(),
+  description: optional(str())
+});
+
+const roleSchema = obj({
+  id: str(),
+  name: str(),
+  code: str(),
+  description: optional(str()),
+  permissions: arr(permissionSchema),
+  level: num()
+});
+
+// User 实体字段较多且由后端决定，只校验关键字段
+const userSchema = obj({
+  id: str(),
+  username: optional(str()),
+  email: optional(str())
+}, true);
+
+const routeMetaSchema = record(anyValue());
+
+const routeInfoSchema = obj({
+  path: str(),
+  name: optional(str()),
+  params: record(str()),
+  query: record(str()),
+  hash: str(),
+  fullPath: str(),
+  matched: arr(anyValue()),
+  meta: routeMetaSchema,
+  timestamp: optional(str())
+});
+
+const themeConfigSchema = obj({
+  name: str(),
+  colors: record(str()),
+  fonts: record(str()),
+  spacing: record(str()),
+  borderRadius: record(str()),
+  shadows: record(str())
+}, true);
+
+const menuItemSchema = obj({
+  key: str(),
+  label: str(),
+  icon: optional(str()),
+  path: optional(str()),
+  children: optional(arr(anyValue())),
+  permissions: optional(arr(str())),
+  hidden: optional(bool()),
+  external: optional(bool()),
+  badge: optional(obj({ count: num(), color: str() }))
+});
+
+export const globalStateSchema: Record<keyof GlobalState, StateSchema> = {
+  user: obj({
+    currentUser: nullable(userSchema),
+    preferences: obj({
+      language: str(),
+      timezone: str(),
+      notifications: obj({ email: bool(), push: bool(), sound: bool() }),
+      ui: obj({
+        sidebarCollapsed: bool(),
+        tablePageSize: num(),
+        dateFormat: str(),
+        timeFormat: str()
+      })
+    }),
+    isAuthenticated: bool(),
+    permissions: arr(str()),
+    roles: arr(str()),
+    loginTime: nullable(str()),
+    lastActivity: nullable(str())
+  }),
+
+  app: obj({
+    name: str(),
+    version: str(),
+    loading: bool(),
+    error: nullable(str()),
+    microApps: arr(obj({
+      name: str(),
+      status: str(['loading', 'mounted', 'unmounted', 'error']),
+      props: record(anyValue()),
+      error: optional(str()),
+      mountTime: optional(str()),
+      unmountTime: optional(str())
+    })),
+    activeMicroApp: nullable(str()),
+    config: obj({
+      title: str(),
+      logo: str(),
+      description: str(),
+      version: str(),
+      apiBaseUrl: str(),
+      enableDevTools: bool(),
+      enableMock: bool(),
+      features: record(bool())
+    }),
+    menus: arr(menuItemSchema),
+    breadcrumbs: arr(obj({
+      key: str(),
+      label: str(),
+      path: optional(str()),
+      icon: optional(str())
+    }))
+  }),
+
+  theme: obj({
+    current: str(['light', 'dark', 'auto']),
+    config: themeConfigSchema,
+    customThemes: record(themeConfigSchema),
+    animating: bool(),
+    systemPreference: str(['light', 'dark'])
+  }),
+
+  auth: obj({
+    accessToken: nullable(str()),
+    refreshToken: nullable(str()),
+    tokenExpiry: nullable(str()),
+    isLoggedIn: bool(),
+    loginLoading: bool(),
+    permissions: arr(permissionSchema),
+    roles: arr(roleSchema),
+    session: nullable(obj({
+      sessionId: str(),
+      userId: str(),
+      loginTime: str(),
+      lastActivity: str(),
+      ipAddress: str(),
+      userAgent: str(),
+      deviceInfo: optional(obj({
+        type: str(['desktop', 'mobile', 'tablet']),
+        os: str(),
+        browser: str()
+      }))
+    }))
+  }),
+
+  router: obj({
+    currentRoute: routeInfoSchema,
+    history: arr(routeInfoSchema),
+    loading: bool(),
+    error: nullable(str()),
+    cache: record(anyValue()),
+    guards: obj({ beforeEach: bool(), afterEach: bool() })
+  }),
+
+  notification: obj({
+    notifications: arr(obj({
+      id: str(),
+      title: str(),
+      message: str(),
+      type: str(['success', 'error', 'warning', 'info']),
+      priority: str(['low', 'normal', 'high', 'urgent']),
+      read: bool(),
+      timestamp: str(),
+      actions: optional(arr(obj({
+        label: str(),
+        action: str(),
+        style: optional(str(['primary', 'secondary', 'danger']))
+      }))),
+      metadata: optional(record(anyValue()))
+    })),
+    unreadCount: num(),
+    settings: obj({
+      enabled: bool(),
+      sound: bool(),
+      desktop: bool(),
+      email: bool(),
+      categories: arr(str()),
+      doNotDisturb: obj({ enabled: bool(), startTime: str(), endTime: str() })
+    }),
+    loading: bool(),
+    error: nullable(str())
+  }),
+
+  system: obj({
+    info: obj({
+      name: str(),
+      version: str(),
+      buildTime: str(),
+      environment: str(),
+      nodeVersion: str(),
+      platform: str(),
+      uptime: num()
+    }),
+    performance: obj({
+      memory: obj({ used: num(), total: num(), percentage: num() }),
+      cpu: obj({ usage: num(), cores: num() }),
+      network: obj({ latency: num(), bandwidth: num() }),
+      responseTime: obj({ average: num(), p95: num(), p99: num() })
+    }),
+    errors: arr(obj({
+      id: str(),
+      timestamp: str(),
+      level: str(['error', 'warn', 'info']),
+      message: str(),
+      source: str(),
+      stack: optional(str()),
+      metadata: optional(record(anyValue()))
+    })),
+    config: obj({
+      maxFileSize: num(),
+      allowedFileTypes: arr(str()),
+      sessionTimeout: num(),
+      passwordPolicy: record(anyValue()),
+      rateLimiting: obj({ enabled: bool(), maxRequests: num(), windowMs: num() })
+    }),
+    features: record(bool()),
+    maintenance: obj({
+      enabled: bool(),
+      startTime: optional(str()),
+      endTime: optional(str()),
+      message: optional(str()),
+      allowedUsers: optional(arr(str()))
+    })
+  })
+};
+
+// ==================== 校验实现 ====================
+
+/**
+ * 按结构描述校验值，返回所有问题
+ */
+export function validateStateValue(schema: StateSchema, value: any, path: string = ''): StateValidationIssue[] {
+  const issues: StateValidationIssue[] = [];
+  validateInto(schema, value, path, issues);
+  return issues;
+}
+
+/**
+ * 校验对全局状态的局部写入（每个顶层分支按完整结构校验）
+ */
+export function validateStateUpdate(update: Partial<GlobalState>): StateValidationIssue[] {
+  const issues: StateValidationIssue[] = [];
+
+  Object.keys(update).forEach(key => {
+    const schema = globalStateSchema[key as keyof GlobalState];
+    if (!schema) {
+      issues.push({ path: key, message: `Unknown state slice "${key}"` });
+      return;
+    }
+    validateInto(schema, update[key as keyof GlobalState], key, issues);
+  });
+
+  return issues;
+}
+
+/**
+ * 获取状态路径对应的结构描述，如 'user.preferences.language'
+ */
+export function getStateSchemaAt(path: string): StateSchema | undefined {
+  const [slice, ...rest] = path.split('.');
+  let schema: StateSchema | undefined = globalStateSchema[slice as keyof GlobalState];
+
+  for (const segment of rest) {
+    if (!schema) {
+      return undefined;
+    }
+    if (schema.type === 'array') {
+      schema = schema.items;
+    } else if (schema.type === 'object') {
+      const additional = schema.additionalProperties;
+      schema = schema.properties?.[segment] ?? (typeof additional === 'object' ? additional : undefined);
+    } else {
+      return undefined;
+    }
+  }
+
+  return schema;
+}
+
+/**
+ * 校验局部状态中指定路径的值（如持久化的 'theme.current'），缺省的路径不校验
+ */
+export function validateStatePaths(state: any, paths: string[]): StateValidationIssue[] {
+  const issues: StateValidationIssue[] = [];
+
+  paths.forEach(path => {
+    const value = path.split('.').reduce((current, segment) => current?.[segment], state);
+    if (value === undefined) {
+      return;
+    }
+
+    const schema = getStateSchemaAt(path);
+    if (!schema) {
+      issues.push({ path, message: 'Unknown state path' });
+      return;
+    }
+    validateInto(schema, value, path, issues);
+  });
+
+  return issues;
+}
+
+function validateInto(schema: StateSchema, value: any, path: string, issues: StateValidationIssue[]): void {
+  if (schema.type === 'any') {
+    return;
+  }
+
+  if (value === null) {
+    if (!schema.nullable) {
+      issues.push({ path, message: 'Expected non-null value' });
+    }
+    return;
+  }
+
+  if (value === undefined) {
+    issues.push({ path, message: 'Missing required value' });
+    return;
+  }
+
+  switch (schema.type) {
+    case 'string':
+    case 'number':
+    case 'boolean':
+      if (typeof value !== schema.type) {
+        issues.push({ path, message: `Expected ${schema.type}, got ${describeType(value)}` });
+      } else if (schema.enum && !schema.enum.includes(value)) {
+        issues.push({ path, message: `Expected one of ${schema.enum.join(', ')}, got ${String(value)}` });
+      }
+      return;
+
+    case 'array':
+      if (!Array.isArray(value)) {
+        issues.push({ path, message: `Expected array, got ${describeType(value)}` });
+        return;
+      }
+      if (schema.items) {
+        value.forEach((item, index) => validateInto(schema.items!, item, `${path}.${index}`, issues));
+      }
+      return;
+
+    case 'object':
+      if (typeof value !== 'object' || Array.isArray(value)) {
+        issues.push({ path, message: `Expected object, got ${describeType(value)}` });
+        return;
+      }
+      validateObject(schema, value, path, issues);
+      return;
+  }
+}
+
+function validateObject(schema: StateSchema, value: Record<string, any>, path: string, issues: StateValidationIssue[]): void {
+  const properties = schema.properties || {};
+  const additional = schema.additionalProperties ?? false;
+
+  Object.keys(properties).forEach(key => {
+    const propertySchema = properties[key];
+    if (value[key] === undefined && propertySchema.optional) {
+      return;
+    }
+    validateInto(propertySchema, value[key], joinPath(path, key), issues);
+  });
+
+  Object.keys(value).forEach(key => {
+    if (key in properties) {
+      return;
+    }
+    if (additional === false) {
+      issues.push({ path: joinPath(path, key), message: 'Unknown property' });
+    } else if (additional !== true) {
+      validateInto(additional, value[key], joinPath(path, key), issues);
+    }
+  });
+}
+
+function joinPath(path: string, key: string): string {
+  return path ? `${path}.${key}` : key;
+}
+
+function describeType(value: any): string {
+  return Array.isArray(value) ? 'array' : typeof value;
+}
@@ -0,0 +1,159 @@
+/**
+ * 状态选择器 - 带记忆的选择器和派生状态
+ * 输入选择器的结果不变时直接返回上次的计算结果，派生值的引用保持稳定
+ */
+
+import { GlobalState, StatePath, StateSelector } from '../types/store';
+import { getIn } from './state-path';
+
+// ==================== 类型定义 ====================
+
+export type EqualityFn = (a: any, b: any) => boolean;
+
+/**
+ * 输入选择器结果组成的元组
+ */
+export type SelectorResults<S extends readonly StateSelector[]> = {
+  [K in keyof S]: S[K] extends StateSelector<infer R> ? R : never;
+};
+
+/**
+ * 带记忆的选择器
+ */
+export interface MemoizedSelector<T> extends StateSelector<T> {
+  /**
+   * 输入选择器，用于查看派生值依赖哪些状态
+   */
+  readonly dependencies: ReadonlyArray<StateSelector>;
+
+  /**
+   * 实际重新计算的次数
+   */
+  recomputations(): number;
+  resetRecomputations(): void;
+  clearCache(): void;
+}
+
+export interface MemoizedSelectorOptions {
+  /**
+   * 比较输入选择器结果，默认 Object.is
+   */
+  inputEquals?: EqualityFn;
+
+  /**
+   * 比较新旧计算结果，相等时返回旧结果以保持引用不变
+   */
+  resultEquals?: EqualityFn;
+}
+
+/**
+ * 路径选择器，记录其读取的路径
+ */
+export interface PathSelector<T = any> extends StateSelector<T> {
+  readonly path: string;
+}
+
+// ==================== 选择器 ====================
+
+/**
+ * 浅比较：对象和数组逐个比较第一层的值
+ */
+export function shallowEqual(a: any, b: any): boolean {
+  if (Object.is(a, b)) {
+    return true;
+  }
+  if (!a || !b || typeof a !== 'object' || typeof b !== 'object') {
+    return false;
+  }
+
+  const keysA = Object.keys(a);
+  const keysB = Object.keys(b);
+  return keysA.length === keysB.length
+    && keysA.every(key => Object.prototype.hasOwnProperty.call(b, key) && Object.is(a[key], b[key]));
+}
+
+/**
+ * 按路径读取状态的选择器
+ */
+export function selectPath<T = any>(path: StatePath | string): PathSelector<T> {
+  const selector = ((state: GlobalState) => getIn(state, path)) as PathSelector<T>;
+  Object.defineProperty(selector, 'path', { value: path });
+  return selector;
+}
+
+/**
+ * 创建带记忆的选择器（reselect 风格）
+ * 所有输入选择器的结果都与上次相等时不重新计算
+ */
+export function createMemoizedSelector<S extends readonly StateSelector[], T>(
+  inputs: readonly [...S],
+  combiner: (...values: SelectorResults<S>) => T,
+  options: MemoizedSelectorOptions = {}
+): MemoizedSelector<T> {
+  const inputEquals = options.inputEquals || Object.is;
+  const resultEquals = options.resultEquals;
+
+  let lastState: GlobalState | undefined;
+  let lastInputs: any[] | null = null;
+  let lastResult: T;
+  let recomputations = 0;
+
+  const selector = ((state: GlobalState): T => {
+    if (lastInputs && state === lastState) {
+      return lastResult;
+    }
+
+    const values = inputs.map(input => input(state));
+    lastState = state;
+
+    if (lastInputs && values.every((value, index) => inputEquals(value, lastInputs![index]))) {
+      return lastResult;
+    }
+
+    const result = combiner(...(values as any));
+    recomputations++;
+    lastInputs = values;
+
+    if (!(resultEquals && recomputations > 1 && resultEquals(lastResult, result))) {
+      lastResult = result;
+    }
+    return lastResult;
+  }) as MemoizedSelector<T>;
+
+  Object.defineProperty(selector, 'dependencies', { value: inputs });
+  selector.recomputations = () => recomputations;
+  selector.resetRecomputations = () => {
+    recomputations = 0;
+  };
+  selector.clearCache = () => {
+    lastState = undefined;
+    lastInputs = null;
+  };
+
+  return selector;
+}
+
+/**
+ * 获取选择器依赖的状态路径，无法确定时返回 null
+ */
+export function getSelectorPaths(selector: StateSelector): string[] | null {
+  const path = (selector as PathSelector).path;
+  if (typeof path === 'string') {
+    return [path];
+  }
+
+  const dependencies = (selector as MemoizedSelector<unknown>).dependencies;
+  if (!dependencies) {
+    return null;
+  }
+
+  const paths: string[] = [];
+  for (const dependency of dependencies) {
+    const nested = getSelectorPaths(dependency);
+    if (!nested) {
+      return null;
+    }
+    paths.push(...nested);
+  }
+  return Array.from(new Set(paths));
+}
@@ -7,7 +7,10 @@ import React, { useState, useEffect, useCallback, useMemo } from 'react';
 import { BaseEvent } from '../types/events';
 import { GlobalState } from '../types/store';
 import { globalEventBus } from '../communication/event-bus';
-import { globalStateManager } from '../communication/global-state';
+import { globalStateManager, StateSnapshot } from '../communication/global-state';
+import { describePatch } from '../communication/state-patch';
+import { RateLimitMiddleware, AppQuotaStatus } from '../communication/middleware/rate-limit-middleware';
+import { unwrapMiddleware } from '../communication/middleware/middleware-composition';
 import { globalNotificationService } from '../communication/realtime/notification-service';
 import { globalWebSocketManager } from '../communication/realtime/websocket-manager';
 import { defaultMessageQueue } from '../communication/realtime/message-queue';
@@ -27,6 +30,7 @@ interface EventLogEntry {
   processed: boolean;
   processingTime?: number;
   error?: string;
+  matchedPatterns: string[];
 }
 
 interface StateChangeEntry {
@@ -88,14 +92,15 @@ export const CommunicationDebugger: React.FC = () => {
     const unsubscribers: (() => void)[] = [];
 
     // 监听事件总线
-    const eventUnsubscriber = globalEventBus.on('*', (event: BaseEvent) => {
+    const eventSubscription = globalEventBus.onAny((event: BaseEvent) => {
       const entry: EventLogEntry = {
         id: generateId(),
         timestamp: new Date().toISOString(),
         type: event.type,
         source: event.source,
         data: event.data,
-        processed: true
+        processed: true,
+        matchedPatterns: globalEventBus.getMatchingPatterns(event.type)
       };
 
       setState(prev => ({
@@ -103,7 +108,7 @@ export const CommunicationDebugger: React.FC = () => {
         eventLogs: [...prev.eventLogs.slice(-prev.maxEntries + 1), entry]
       }));
     });
-    unsubscribers.push(eventUnsubscriber);
+    unsubscribers.push(() => eventSubscription.unsubscribe());
 
     // 监听状态变化
     const stateUnsubscriber = globalStateManager.subscribe((newState, action) => {
@@ -231,7 +236,7 @@ export const CommunicationDebugger: React.FC = () => {
       </div>
 
       <div style={styles.tabs}>
-        {['events', 'state', 'performance', 'health', 'settings'].map(tab => (
+        {['events', 'patterns', 'quotas', 'state', 'timeline', 'performance', 'health', 'settings'].map(tab => (
           <button
             key={tab}
             onClick={() => setActiveTab(tab)}
@@ -254,6 +259,14 @@ export const CommunicationDebugger: React.FC = () => {
           />
         )}
 
+        {state.activeTab === 'patterns' && (
+          <PatternsTab />
+        )}
+
+        {state.activeTab === 'quotas' && (
+          <QuotasTab />
+        )}
+
         {state.activeTab === 'state' && (
           <StateChangesTab
             changes={filteredStateChanges}
@@ -262,6 +275,10 @@ export const CommunicationDebugger: React.FC = () => {
           />
         )}
 
+        {state.activeTab === 'timeline' && (
+          <TimelineTab />
+        )}
+
         {state.activeTab === 'performance' && (
           <PerformanceTab />
         )}
@@ -319,6 +336,11 @@ const EventLogsTab: React.FC<EventLogsTabProps> = ({ logs, onClear, autoScroll }
               </span>
               <span style={styles.logType}>{entry.type}</span>
               <span style={styles.logSource}>{entry.source}</span>
+              {entry.matchedPatterns.length > 0 && (
+                <span style={styles.logPatterns}>
+                  matched: {entry.matchedPatterns.join(', ')}
+                </span>
+              )}
             </div>
             <div style={styles.logData}>
               <pre>{JSON.stringify(entry.data, null, 2)}</pre>
@@ -379,6 +401,235 @@ const StateChangesTab: React.FC<StateChangesTabProps> = ({ changes, onClear, aut
   );
 };
 
+const TimelineTab: React.FC = () => {
+  const [snapshots, setSnapshots] = useState<StateSnapshot[]>([]);
+  const [currentId, setCurrentId] = useState<string | null>(null);
+  const fileInputRef = React.useRef<HTMLInputElement>(null);
+
+  const refresh = useCallback(() => {
+    setSnapshots(globalStateManager.getSnapshots());
+    setCurrentId(globalStateManager.getCurrentSnapshot()?.id ?? null);
+  }, []);
+
+  useEffect(() => {
+    refresh();
+    const interval = setInterval(refresh, 2000);
+
+    return () => clearInterval(interval);
+  }, [refresh]);
+
+  const jumpTo = useCallback((snapshotId: string) => {
+    globalStateManager.jumpToSnapshot(snapshotId);
+    refresh();
+  }, [refresh]);
+
+  const exportHistory = useCallback(() => {
+    const data = globalStateManager.exportHistory();
+    const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `state-history-${Date.now()}.json`;
+    a.click();
+    URL.revokeObjectURL(url);
+  }, []);
+
+  const importHistory = useCallback(async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    if (!globalStateManager.importHistory(await file.text())) {
+      alert('Invalid state history file');
+    }
+    refresh();
+  }, [refresh]);
+
+  return (
+    <div style={styles.tabContent}>
+      <div style={styles.tabHeader}>
+        <span>State Timeline ({snapshots.length})</span>
+        <div style={styles.headerActions}>
+          <button onClick={exportHistory} style={styles.button}>
+            Export
+          </button>
+          <button onClick={() => fileInputRef.current?.click()} style={styles.button}>
+            Import
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="application/json"
+            onChange={importHistory}
+            style={{ display: 'none' }}
+          />
+        </div>
+      </div>
+      <div style={styles.logContainer}>
+        {snapshots.map((snapshot: StateSnapshot) => {
+          const changes = describePatch(snapshot.patch, snapshot.inverse);
+          const isCurrent = snapshot.id === currentId;
+
+          return (
+            <div
+              key={snapshot.id}
+              style={{ ...styles.logEntry, ...(isCurrent ? styles.currentSnapshot : {}) }}
+            >
+              <div style={styles.logHeader}>
+                <span style={styles.logTime}>
+                  {new Date(snapshot.timestamp).toLocaleTimeString()}
+                </span>
+                <span style={styles.logType}>
+                  {snapshot.action?.type || snapshot.description || 'SNAPSHOT'}
+                </span>
+                {snapshot.source && (
+                  <span style={styles.logSource}>{snapshot.source}</span>
+                )}
+                <span style={styles.timelineSpacer} />
+                {isCurrent ? (
+                  <span style={styles.logPatterns}>current</span>
+                ) : (
+                  <button onClick={() => jumpTo(snapshot.id)} style={styles.clearButton}>
+                    Jump here
+                  </button>
+                )}
+              </div>
+              <div style={styles.logData}>
+                {changes.length === 0 && <span>No changes</span>}
+                {changes.map(change => (
+                  <div key={change.path} style={styles.diffRow}>
+                    <span style={styles.diffPath}>{change.path}</span>
+                    {change.op !== 'add' && (
+                      <span style={styles.diffRemoved}>{JSON.stringify(change.from)}</span>
+                    )}
+                    {change.op !== 'remove' && (
+                      <span style={styles.diffAdded}>{JSON.stringify(change.to)}</span>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+type PatternStats = ReturnType<typeof globalEventBus.getStats>['patternStats'];
+
+const PatternsTab: React.FC = () => {
+  const [patternStats, setPatternStats] = useState<PatternStats>({});
+
+  useEffect(() => {
+    const updatePatternStats = () => {
+      setPatternStats(globalEventBus.getStats().patternStats);
+    };
+
+    updatePatternStats();
+    const interval = setInterval(updatePatternStats, 2000);
+
+    return () => clearInterval(interval);
+  }, []);
+
+  const patterns: Array<[string, PatternStats[string]]> = Object.entries(patternStats as PatternStats);
+
+  return (
+    <div style={styles.tabContent}>
+      <div style={styles.tabHeader}>
+        <span>Pattern Subscriptions ({patterns.length})</span>
+      </div>
+      <div style={styles.logContainer}>
+        {patterns.map(([pattern, stats]) => (
+          <div key={pattern} style={styles.logEntry}>
+            <div style={styles.logHeader}>
+              <span style={styles.logType}>{pattern}</span>
+              <span style={styles.logSource}>
+                listeners: {stats.listeners}, once: {stats.onceListeners}
+              </span>
+            </div>
+            <div style={styles.logData}>
+              {stats.matchedEventTypes.length > 0
+                ? stats.matchedEventTypes.join(', ')
+                : 'No events matched yet'}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+const QuotasTab: React.FC = () => {
+  const [quotas, setQuotas] = useState<AppQuotaStatus[] | null>(null);
+
+  useEffect(() => {
+    const updateQuotas = () => {
+      const middleware = globalEventBus.getMiddleware().find(item => item.name === 'rate-limit');
+      const rateLimit = middleware && unwrapMiddleware(middleware) as RateLimitMiddleware;
+      setQuotas(rateLimit ? rateLimit.getQuotaStatus() : null);
+    };
+
+    updateQuotas();
+    const interval = setInterval(updateQuotas, 1000);
+
+    return () => clearInterval(interval);
+  }, []);
+
+  if (!quotas) {
+    return <div style={styles.loading}>Rate limit middleware is not installed</div>;
+  }
+
+  return (
+    <div style={styles.tabContent}>
+      <div style={styles.tabHeader}>
+        <span>App Quotas ({quotas.length})</span>
+      </div>
+      <div style={styles.logContainer}>
+        {quotas.map((quota: AppQuotaStatus) => (
+          <div key={quota.source} style={styles.logEntry}>
+            <div style={styles.logHeader}>
+              <span style={styles.logType}>{quota.source}</span>
+              <span style={styles.logSource}>
+                allowed: {quota.allowed}, delayed: {quota.delayed}, dropped: {quota.dropped}
+              </span>
+            </div>
+            {quota.limit !== undefined ? (
+              <div style={styles.quotaBar}>
+                <div
+                  style={{
+                    ...styles.quotaFill,
+                    width: `${((quota.remaining ?? 0) / quota.limit) * 100}%`,
+                    backgroundColor: (quota.remaining ?? 0) / quota.limit < 0.2 ? '#F44336' : '#4CAF50'
+                  }}
+                />
+                <span style={styles.quotaLabel}>
+                  {quota.remaining ?? 0} / {quota.limit} remaining
+                </span>
+              </div>
+            ) : (
+              <div style={styles.logData}>No app quota configured</div>
+            )}
+            {quota.throttledEvents.length > 0 && (
+              <div style={styles.logData}>
+                {quota.throttledEvents.slice(-5).reverse().map(record => (
+                  <div key={`${record.type}-${record.timestamp}`} style={styles.diffRow}>
+                    <span style={styles.logTime}>{new Date(record.timestamp).toLocaleTimeString()}</span>
+                    <span>{record.type}</span>
+                    <span style={record.outcome === 'dropped' ? styles.diffRemoved : styles.diffPath}>
+                      {record.outcome}{record.retryAfter !== undefined ? ` (${Math.round(record.retryAfter)}ms)` : ''}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
 const PerformanceTab: React.FC = () => {
   const [metrics, setMetrics] = useState<any>(null);
 
@@ -692,12 +943,55 @@ const styles = {
   logSource: {
     color: '#FF9800'
   },
+  logPatterns: {
+    color: '#9C27B0'
+  },
   logData: {
     padding: '8px 12px',
     fontSize: '11px',
     maxHeight: '200px',
     overflow: 'auto'
   },
+  currentSnapshot: {
+    borderColor: '#2196F3'
+  },
+  timelineSpacer: {
+    flex: 1
+  },
+  diffRow: {
+    display: 'flex',
+    gap: '8px',
+    padding: '2px 0'
+  },
+  diffPath: {
+    color: '#666'
+  },
+  diffRemoved: {
+    color: '#F44336',
+    textDecoration: 'line-through'
+  },
+  diffAdded: {
+    color: '#4CAF50'
+  },
+  quotaBar: {
+    position: 'relative' as const,
+    height: '16px',
+    marginTop: '6px',
+    backgroundColor: '#eee',
+    borderRadius: '3px',
+    overflow: 'hidden'
+  },
+  quotaFill: {
+    height: '100%',
+    transition: 'width 0.3s'
+  },
+  quotaLabel: {
+    position: 'absolute' as const,
+    top: 0,
+    left: '6px',
+    fontSize: '11px',
+    lineHeight: '16px'
+  },
   loading: {
     display: 'flex',
     justifyContent: 'center',
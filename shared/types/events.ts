@@ -152,7 +152,7 @@ export interface MessageReceiveEvent extends EventPayload<{
 // ==================== 系统相关事件 ====================
 
 export interface SystemStatusEvent extends EventPayload<{
-  status: 'online' | 'offline' | 'maintenance';
+  status: 'online' | 'offline' | 'maintenance' | 'error';
   message?: string;
 }> {
   type: 'SYSTEM_STATUS';
@@ -241,22 +241,33 @@ export type MicroFrontendEvent =
 
 // ==================== 事件处理器类型 ====================
 
-export type EventHandler<T extends BaseEvent = BaseEvent> = (event: T) => void;
+/**
+ * 事件分发上下文，作为处理器的第二个参数传入
+ */
+export interface EventDispatchContext {
+  /**
+   * 当前处理器的优先级
+   */
+  readonly priority: number;
+
+  /**
+   * 阻止后续（优先级更低的）处理器接收该事件
+   */
+  stopPropagation(): void;
+}
+
+export type EventHandler<T extends BaseEvent = BaseEvent> = (event: T, context: EventDispatchContext) => void;
 
-export type AsyncEventHandler<T extends BaseEvent = BaseEvent> = (event: T) => Promise<void>;
+export type AsyncEventHandler<T extends BaseEvent = BaseEvent> = (event: T, context: EventDispatchContext) => Promise<void>;
 
 export interface EventSubscription {
   unsubscribe: () => void;
 }
 
-export interface EventBusInterface {
-  emit<T extends BaseEvent>(event: T): Promise<void>;
-  on<T extends BaseEvent>(eventType: string, handler: EventHandler<T>): EventSubscription;
-  off<T extends BaseEvent>(eventType: string, handler: EventHandler<T>): void;
-  once<T extends BaseEvent>(eventType: string, handler: EventHandler<T>): EventSubscription;
-  clear(): void;
-  getListeners(eventType: string): EventHandler[];
-}
+/**
+ * 事件总线接口（基于默认事件映射表的类型化事件总线）
+ */
+export type EventBusInterface = TypedEventBus<MicroFrontendEventMap>;
 
 // ==================== 事件常量 ====================
 
@@ -302,4 +313,196 @@ export const EVENT_TYPES = {
   FILE_DELETE: 'FILE_DELETE'
 } as const;
 
-export type EventType = typeof EVENT_TYPES[keyof typeof EVENT_TYPES];
\ No newline at end of file
+export type EventType = typeof EVENT_TYPES[keyof typeof EVENT_TYPES];
+
+// ==================== 类型化事件映射 ====================
+
+/**
+ * 事件类型 -> 事件接口映射表
+ * ROUTE_CHANGE / NAVIGATION 由导航系统（navigation/route-manager）登记
+ * 子应用可通过模块扩充追加自己的领域事件：
+ *
+ * declare module '@shared/types/events' {
+ *   interface MicroFrontendEventMap {
+ *     STOCK_QUERY: StockQueryEvent;
+ *   }
+ * }
+ */
+export interface MicroFrontendEventMap {
+  [EVENT_TYPES.USER_LOGIN]: UserLoginEvent;
+  [EVENT_TYPES.USER_LOGOUT]: UserLogoutEvent;
+  [EVENT_TYPES.USER_UPDATE]: UserUpdateEvent;
+  [EVENT_TYPES.USER_PERMISSION_CHANGE]: UserPermissionChangeEvent;
+  [EVENT_TYPES.THEME_CHANGE]: ThemeChangeEvent;
+  [EVENT_TYPES.LANGUAGE_CHANGE]: LanguageChangeEvent;
+  [EVENT_TYPES.APP_MOUNT]: AppMountEvent;
+  [EVENT_TYPES.APP_UNMOUNT]: AppUnmountEvent;
+  [EVENT_TYPES.APP_ERROR]: AppErrorEvent;
+  [EVENT_TYPES.DATA_UPDATE]: DataUpdateEvent;
+  [EVENT_TYPES.CACHE_INVALIDATE]: CacheInvalidateEvent;
+  [EVENT_TYPES.NOTIFICATION]: NotificationEvent;
+  [EVENT_TYPES.MESSAGE_RECEIVE]: MessageReceiveEvent;
+  [EVENT_TYPES.SYSTEM_STATUS]: SystemStatusEvent;
+  [EVENT_TYPES.CONFIG_UPDATE]: ConfigUpdateEvent;
+  [EVENT_TYPES.ORDER_STATUS_CHANGE]: OrderStatusChangeEvent;
+  [EVENT_TYPES.PRODUCT_UPDATE]: ProductUpdateEvent;
+  [EVENT_TYPES.INVENTORY_CHANGE]: InventoryChangeEvent;
+  [EVENT_TYPES.FILE_UPLOAD]: FileUploadEvent;
+  [EVENT_TYPES.FILE_DELETE]: FileDeleteEvent;
+}
+
+/**
+ * 事件映射表约束：每个键都对应一个事件接口
+ */
+export type EventMapOf<M> = { [K in keyof M]: BaseEvent };
+
+/**
+ * 事件映射表中的事件类型键
+ */
+export type EventKey<M> = Extract<keyof M, string>;
+
+/**
+ * 根据事件类型查找事件接口，未登记的事件类型回退为 Fallback
+ */
+export type EventOf<M, K extends string, Fallback extends BaseEvent = BaseEvent> =
+  K extends keyof M ? M[K] : Fallback;
+
+/**
+ * 事件负载类型
+ */
+export type EventDataOf<M, K extends keyof M> = M[K] extends { data: infer D } ? D : any;
+
+/**
+ * 完整事件写法的负载校验：已登记的事件类型要求 data 符合映射表，未登记的保持宽松
+ * K 让内联对象的 type 保留字面量类型，否则会被放宽为 string 而跳过校验
+ */
+export type CheckedEvent<M, T extends BaseEvent, K extends string = string> =
+  T & { type: K } & (string extends T['type'] ? unknown : T['type'] extends EventKey<M> ? { data: EventDataOf<M, T['type']> } : unknown);
+
+/**
+ * 按类型发射事件时的附加选项
+ */
+export interface EmitOptions {
+  source?: string;
+  id?: string;
+  metadata?: Record<string, any>;
+}
+
+/**
+ * 订阅选项
+ */
+export interface SubscribeOptions {
+  /**
+   * 订阅时立即补发已保留的事件
+   */
+  replay?: boolean;
+
+  /**
+   * 处理器优先级（数字越小越先执行），默认 100；同优先级按订阅顺序执行
+   */
+  priority?: number;
+}
+
+/**
+ * 单个处理器的执行失败记录
+ */
+export interface ListenerFailure {
+  /**
+   * 处理器订阅的事件类型或通配模式；监听所有事件的处理器为 '*'
+   */
+  subscribedTo: string;
+  priority: number;
+  handler: EventHandler;
+  error: any;
+}
+
+/**
+ * emitAndWait 的执行结果
+ */
+export interface EmitResult<T extends BaseEvent = BaseEvent> {
+  event: T;
+
+  /**
+   * 是否被中间件拦截（拦截时不会分发给任何处理器）
+   */
+  intercepted: boolean;
+
+  /**
+   * 实际执行的处理器数量
+   */
+  handled: number;
+
+  /**
+   * 是否有处理器调用了 stopPropagation
+   */
+  stopped: boolean;
+
+  /**
+   * 执行失败（同步抛出或 Promise 被拒绝）的处理器
+   */
+  failures: ListenerFailure[];
+}
+
+/**
+ * 事件保留策略
+ */
+export interface RetentionPolicy<T extends BaseEvent = BaseEvent> {
+  /**
+   * 最多保留的事件数量，默认 1
+   */
+  maxEvents?: number;
+
+  /**
+   * 按键保留：同一键只保留最新的事件
+   */
+  keyBy?: (event: T) => string;
+
+  /**
+   * 保留时长（毫秒），过期的事件不再补发
+   */
+  ttl?: number;
+
+  /**
+   * 收到这些事件类型时清除已保留的事件
+   */
+  clearOn?: string[];
+
+  /**
+   * 来源应用卸载（APP_UNMOUNT）时清除其发出的事件
+   */
+  clearOnUnmount?: boolean;
+}
+
+/**
+ * 请求-响应模式的响应处理器
+ */
+export type RequestHandler<T extends BaseEvent = BaseEvent, R = any> = (event: T) => R | Promise<R>;
+
+/**
+ * 请求选项
+ */
+export interface RequestOptions extends EmitOptions {
+  /**
+   * 超时时间（毫秒）
+   */
+  timeout?: number;
+}
+
+/**
+ * 类型化事件总线接口
+ * 已登记在事件映射表中的事件类型在编译期校验负载与处理器签名，
+ * 未登记的事件类型保持原有的宽松行为
+ */
+export interface TypedEventBus<M extends EventMapOf<M> = MicroFrontendEventMap> {
+  emit<K extends EventKey<M>>(type: K, data: EventDataOf<M, K>, options?: EmitOptions): Promise<void>;
+  emit<T extends BaseEvent, K extends string = string>(event: CheckedEvent<M, T, K>): Promise<void>;
+  emitAndWait<K extends EventKey<M>>(type: K, data: EventDataOf<M, K>, options?: EmitOptions): Promise<EmitResult<EventOf<M, K>>>;
+  emitAndWait<T extends BaseEvent, K extends string = string>(event: CheckedEvent<M, T, K>): Promise<EmitResult<T>>;
+  on<K extends string, T extends BaseEvent = BaseEvent>(eventType: K, handler: EventHandler<EventOf<M, K, T>>, options?: SubscribeOptions): EventSubscription;
+  off<K extends string, T extends BaseEvent = BaseEvent>(eventType: K, handler: EventHandler<EventOf<M, K, T>>): void;
+  once<K extends string, T extends BaseEvent = BaseEvent>(eventType: K, handler: EventHandler<EventOf<M, K, T>>, options?: SubscribeOptions): EventSubscription;
+  request<R = any, K extends string = string>(type: K, data: K extends keyof M ? EventDataOf<M, K> : any, options?: RequestOptions): Promise<R>;
+  handle<K extends string, T extends BaseEvent = BaseEvent, R = any>(type: K, handler: RequestHandler<EventOf<M, K, T>, R>): EventSubscription;
+  clear(): void;
+  getListeners(eventType: string): EventHandler[];
+}
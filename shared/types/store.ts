@@ -456,6 +456,63 @@ export interface StateManager {
 
 export type StateListener = (state: GlobalState, prevState: GlobalState) => void;
 
+/**
+ * 状态写入选项
+ */
+export interface StateWriteOptions {
+  /**
+   * 写入方应用名，用于分支归属检查，默认为 'main-app'
+   */
+  source?: string;
+}
+
+/**
+ * 状态分支归属：分支 -> 允许写入的应用
+ */
+export type StateSliceOwnership = Partial<Record<keyof GlobalState, string[]>>;
+
+// ==================== 状态路径类型 ====================
+
+type StatePathDepth = [never, 0, 1, 2, 3, 4];
+
+/**
+ * 状态路径，如 'user.preferences.language'（不展开数组，最多 5 层）
+ */
+export type StatePath<T = GlobalState, D extends number = 4> = [D] extends [never]
+  ? never
+  : T extends readonly any[]
+    ? never
+    : T extends object
+      ? {
+          [K in keyof T & string]: K | (NonNullable<T[K]> extends readonly any[]
+            ? never
+            : NonNullable<T[K]> extends object
+              ? `${K}.${StatePath<NonNullable<T[K]>, StatePathDepth[D]>}`
+              : never);
+        }[keyof T & string]
+      : never;
+
+/**
+ * 状态路径对应的值类型
+ */
+export type StatePathValue<T, P extends string> = P extends `${infer K}.${infer Rest}`
+  ? K extends keyof T
+    ? StatePathValue<NonNullable<T[K]>, Rest> | (null extends T[K] ? undefined : never)
+    : undefined
+  : P extends keyof T
+    ? T[P]
+    : undefined;
+
+/**
+ * 路径订阅监听器，仅在路径上的值引用变化时触发
+ */
+export type StatePathListener<T = any> = (value: T, prevValue: T, state: GlobalState) => void;
+
+/**
+ * 派生状态路径，如 'derived.effectivePermissions'
+ */
+export type DerivedStatePath = `derived.${string}`;
+
 // ==================== 状态选择器类型 ====================
 
 export type StateSelector<T = any> = (state: GlobalState) => T;
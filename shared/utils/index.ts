@@ -105,6 +105,43 @@ export function set(obj: any, path: string, value: any): void {
   current[lastKey] = value;
 }
 
+/**
+ * 转换为可 JSON 序列化的值：错误展开为普通对象，循环引用替换为 '[Circular]'，去掉函数
+ * ancestors 只记录当前路径上的对象，同一对象被多处引用但不成环时照常展开
+ */
+export function toSerializable(value: any, ancestors: object[] = []): any {
+  if (value instanceof Error) {
+    value = { name: value.name, message: value.message, stack: value.stack };
+  } else if (value && typeof value.toJSON === 'function') {
+    value = value.toJSON();
+  }
+
+  if (!value || typeof value !== 'object') {
+    return typeof value === 'function' || typeof value === 'symbol' ? undefined : value;
+  }
+  if (ancestors.includes(value)) {
+    return '[Circular]';
+  }
+
+  ancestors.push(value);
+  try {
+    if (Array.isArray(value)) {
+      return value.map(item => toSerializable(item, ancestors) ?? null);
+    }
+
+    const result: Record<string, any> = {};
+    Object.keys(value).forEach(key => {
+      const serialized = toSerializable(value[key], ancestors);
+      if (serialized !== undefined) {
+        result[key] = serialized;
+      }
+    });
+    return result;
+  } finally {
+    ancestors.pop();
+  }
+}
+
 // ==================== 字符串工具 ====================
 
 /**
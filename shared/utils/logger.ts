@@ -20,6 +20,11 @@ export interface LogEntry {
   stackTrace?: string;
 }
 
+/**
+ * 日志接收器，用于把日志接入其他存储（如 LoggingMiddleware 的 LogStorage）
+ */
+export type LogSink = (entry: LogEntry) => void;
+
 export interface LoggerConfig {
   level: LogLevel;
   enableConsole: boolean;
@@ -36,6 +41,7 @@ export interface LoggerConfig {
 export class Logger {
   private config: LoggerConfig;
   private logs: LogEntry[] = [];
+  private sinks: Set<LogSink> = new Set();
 
   constructor(config: Partial<LoggerConfig> = {}) {
     this.config = {
@@ -133,6 +139,24 @@ export class Logger {
     if (this.config.enableRemote && this.config.remoteEndpoint) {
       this.logToRemote(entry);
     }
+
+    this.sinks.forEach(sink => {
+      try {
+        sink(entry);
+      } catch (error) {
+        console.error('Log sink failed:', error);
+      }
+    });
+  }
+
+  /**
+   * 添加日志接收器，返回移除函数
+   */
+  addSink(sink: LogSink): () => void {
+    this.sinks.add(sink);
+    return () => {
+      this.sinks.delete(sink);
+    };
   }
 
   /**
@@ -81,7 +81,7 @@ const App: React.FC = () => {
     };
 
     // 注册事件监听器
-    globalEventBus.on(EVENT_TYPES.THEME_CHANGE, handleGlobalEvent);
+    globalEventBus.on(EVENT_TYPES.THEME_CHANGE, handleGlobalEvent, { replay: true });
     globalEventBus.on(EVENT_TYPES.USER_LOGOUT, handleGlobalEvent);
     globalEventBus.on(EVENT_TYPES.LANGUAGE_CHANGE, handleGlobalEvent);
 
@@ -22,6 +22,7 @@ import ErrorFallback from './components/ErrorFallback';
 // 导入优化管理器
 import { serviceWorkerManager } from './utils/service-worker-manager';
 import { rumCollector } from './utils/rum-collector';
+import { setRealtimeClient } from './utils/realtime-client';
 
 // 导入共享库
 import { globalLogger } from '@shared/utils/logger';
@@ -130,6 +131,9 @@ if (window.__POWERED_BY_QIANKUN__) {
         throw error;
       }
       
+      // 使用主应用共享的实时连接
+      setRealtimeClient(props.realtime || null);
+
       render(props);
       
 // 初始化性能监控和Service Worker
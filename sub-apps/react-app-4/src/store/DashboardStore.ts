@@ -4,6 +4,10 @@ import { debounce, throttle } from 'lodash';
 import { DashboardMetrics, ChartData, RealTimeMetrics, DashboardFilter, DashboardLayout, ChartConfig } from './types/dashboard';
 import { api } from './utils/api';
 import { CacheManager } from './utils/cache';
+import { getRealtimeClient } from '../utils/realtime-client';
+
+// 实时指标主题
+const REALTIME_METRICS_TOPIC = 'dashboard.realtime_metrics';
 
 // 默认值
 const defaultMetrics: DashboardMetrics = {
@@ -122,10 +126,7 @@ class DashboardStore {
   // 实时数据
   realTimeData: RealTimeMetrics = { ...defaultRealTimeData };
   realTimeChartData: { traffic?: any[]; performance?: any[] } = {};
-  wsConnection: WebSocket | null = null;
-  wsReconnectAttempts = 0;
-  maxReconnectAttempts = 5;
-  reconnectDelay = 1000;
+  realTimeConnected = false;
 
   // 高级功能
   filters: DashboardFilter = { ...defaultFilters };
@@ -138,7 +139,7 @@ class DashboardStore {
   // 缓存和性能
   private cache = new Map<string, { data: any; timestamp: number; ttl: number }>();
   private refreshTimer: NodeJS.Timeout | null = null;
-  private heartbeatTimer: NodeJS.Timeout | null = null;
+  private realTimeUnsubscribers: Array<() => void> = [];
   private mockDataTimer: NodeJS.Timeout | null = null;
   private loadedCharts = new Set<string>();
   
@@ -170,7 +171,7 @@ class DashboardStore {
   }
 
   get isRealTimeConnected() {
-    return this.wsConnection !== null && this.wsConnection.readyState === WebSocket.OPEN;
+    return this.realTimeConnected;
   }
 
   get cacheStats() {
@@ -204,16 +205,6 @@ class DashboardStore {
       { fireImmediately: false }
     );
 
-    // WebSocket 重连
-    reaction(
-      () => this.wsConnection?.readyState,
-      (state) => {
-        if (state === WebSocket.CLOSED && this.wsReconnectAttempts < this.maxReconnectAttempts) {
-          this.scheduleReconnect();
-        }
-      }
-    );
-
     // 持久化状态变化
     reaction(
       () => ({
@@ -476,88 +467,38 @@ class DashboardStore {
     }
   }
 
-  // 实时数据增强
+  // 实时数据增强：通过主应用共享的连接订阅实时指标，重连和心跳由共享连接处理
   connectRealTime() {
-    if (this.wsConnection) {
-      this.wsConnection.close();
-    }
-
-    try {
-      const wsUrl = (typeof process !== 'undefined' && process.env?.REACT_APP_WS_URL) || 'ws://localhost:8080/ws/dashboard';
-      const ws = new WebSocket(wsUrl);
-
-      ws.onopen = () => {
-        console.log('Dashboard WebSocket connected');
-        runInAction(() => {
-          this.wsConnection = ws;
-          this.wsReconnectAttempts = 0;
-        });
-        this.setupHeartbeat();
-        this.startMockDataGeneration(); // 启动模拟数据生成
-      };
-
-      ws.onmessage = (event) => {
-        try {
-          const data = JSON.parse(event.data);
-          if (data.type === 'realtime_metrics') {
-            this.throttleUpdate(data.payload);
-          }
-        } catch (error) {
-          console.error('Failed to parse WebSocket message:', error);
-        }
-      };
-
-      ws.onclose = () => {
-        console.log('Dashboard WebSocket disconnected');
-        runInAction(() => {
-          this.wsConnection = null;
-        });
-        this.clearHeartbeat();
-      };
+    this.disconnectRealTime();
 
-      ws.onerror = (error) => {
-        console.error('Dashboard WebSocket error:', error);
-      };
-    } catch (error) {
-      console.error('Failed to connect WebSocket:', error);
-    }
+    const realtime = getRealtimeClient();
+    this.realTimeUnsubscribers = [
+      realtime.subscribe<RealTimeMetrics>(REALTIME_METRICS_TOPIC, (data) => this.throttleUpdate(data)),
+      realtime.onStatusChange((status) => this.setRealTimeConnected(status === 'open'))
+    ];
+    this.setRealTimeConnected(realtime.isConnected());
   }
 
   disconnectRealTime() {
-    if (this.wsConnection) {
-      this.wsConnection.close();
-      runInAction(() => {
-        this.wsConnection = null;
-      });
-    }
-    this.clearHeartbeat();
-    this.stopMockDataGeneration(); // 停止模拟数据生成
+    this.realTimeUnsubscribers.forEach(unsubscribe => unsubscribe());
+    this.realTimeUnsubscribers = [];
+    this.setRealTimeConnected(false);
   }
 
-  private setupHeartbeat() {
-    this.clearHeartbeat();
-    this.heartbeatTimer = setInterval(() => {
-      if (this.wsConnection?.readyState === WebSocket.OPEN) {
-        this.wsConnection.send(JSON.stringify({ type: 'ping' }));
-      }
-    }, 30000);
-  }
-
-  private clearHeartbeat() {
-    if (this.heartbeatTimer) {
-      clearInterval(this.heartbeatTimer);
-      this.heartbeatTimer = null;
+  private setRealTimeConnected(connected: boolean) {
+    if (this.realTimeConnected === connected) {
+      return;
     }
-  }
 
-  private scheduleReconnect() {
-    setTimeout(() => {
-      if (this.wsReconnectAttempts < this.maxReconnectAttempts) {
-        this.wsReconnectAttempts++;
-        console.log(`Attempting WebSocket reconnection (${this.wsReconnectAttempts}/${this.maxReconnectAttempts})`);
-        this.connectRealTime();
-      }
-    }, this.reconnectDelay * Math.pow(2, this.wsReconnectAttempts));
+    runInAction(() => {
+      this.realTimeConnected = connected;
+    });
+
+    if (connected) {
+      this.startMockDataGeneration(); // 启动模拟数据生成
+    } else {
+      this.stopMockDataGeneration(); // 停止模拟数据生成
+    }
   }
 
   updateRealTimeData(data: RealTimeMetrics) {
@@ -71,7 +71,7 @@ export interface DashboardState extends BaseStoreState {
   
   // 实时数据
   realTimeData: RealTimeMetrics;
-  wsConnection: WebSocket | null;
+  realTimeConnected: boolean;
   
   // 布局配置
   layouts: DashboardLayout[];
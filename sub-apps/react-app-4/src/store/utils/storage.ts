@@ -1,4 +1,9 @@
 import { CachedData, CacheConfig } from '../types/common';
+import {
+  MigrationRegistry,
+  StateMigrationStep,
+  StateMigrationResult
+} from '@shared/communication/state-migration';
 
 // 存储工具类
 export class StorageUtil {
@@ -116,12 +121,11 @@ export class StorageUtil {
 // 持久化状态管理
 export class PersistenceManager {
   private static readonly PERSISTENCE_KEY = 'store-persistence';
-  private static readonly VERSION = '1.0.0';
 
   // 保存状态到本地存储
   static saveState<T>(key: string, state: T, options?: { ttl?: number }): void {
     const data = {
-      version: this.VERSION,
+      version: StateMigration.currentVersion,
       timestamp: Date.now(),
       ttl: options?.ttl,
       data: state,
@@ -132,7 +136,7 @@ export class PersistenceManager {
   // 从本地存储恢复状态
   static loadState<T>(key: string): T | null {
     const stored = StorageUtil.getItem<{
-      version: string;
+      version: string | number;
       timestamp: number;
       ttl?: number;
       data: T;
@@ -142,21 +146,25 @@ export class PersistenceManager {
       return null;
     }
 
-    // 检查版本兼容性
-    if (stored.version !== this.VERSION) {
-      console.warn(`State version mismatch for key ${key}, clearing stored data`);
+    // 检查 TTL
+    if (stored.ttl && Date.now() - stored.timestamp > stored.ttl) {
+      console.info(`Stored data for key ${key} has expired, clearing`);
       StorageUtil.removeItem(key);
       return null;
     }
 
-    // 检查 TTL
-    if (stored.ttl && Date.now() - stored.timestamp > stored.ttl) {
-      console.info(`Stored data for key ${key} has expired, clearing`);
+    // 按版本迁移，无法迁移的数据已被隔离
+    const migration = StateMigration.migrate(stored.data, stored.version, key);
+    if (migration.status === 'failed') {
       StorageUtil.removeItem(key);
       return null;
     }
 
-    return stored.data;
+    if (migration.status === 'migrated') {
+      StorageUtil.setItem(key, { ...stored, version: migration.toVersion, data: migration.state });
+    }
+
+    return migration.state;
   }
 
   // 清理过期数据
@@ -194,41 +202,40 @@ export class PersistenceManager {
   }
 }
 
-// 状态迁移工具
+// 状态迁移工具，复用 shared 中的迁移引擎
 export class StateMigration {
-  private static migrations: Record<string, (oldState: any) => any> = {};
+  static readonly registry = new MigrationRegistry({
+    name: 'react-app-4',
+    versionAliases: { '0.9.0': 1, '1.0.0': 2 },
+    // 无法迁移的数据保留在 '<键>:quarantine' 中便于排查
+    onQuarantine: (entry) => {
+      if (entry.key) {
+        StorageUtil.setItem(`${entry.key}:quarantine`, entry);
+      }
+    },
+  });
 
-  // 注册迁移函数
-  static registerMigration(fromVersion: string, toVersion: string, migrationFn: (oldState: any) => any): void {
-    const key = `${fromVersion}->${toVersion}`;
-    this.migrations[key] = migrationFn;
+  // 注册迁移步骤
+  static register(step: StateMigrationStep): void {
+    this.registry.register(step);
   }
 
-  // 执行状态迁移
-  static migrate(oldState: any, fromVersion: string, toVersion: string): any {
-    const key = `${fromVersion}->${toVersion}`;
-    const migrationFn = this.migrations[key];
-    
-    if (!migrationFn) {
-      console.warn(`No migration found for ${key}`);
-      return oldState;
-    }
+  // 当前版本
+  static get currentVersion(): number {
+    return this.registry.latestVersion;
+  }
 
-    try {
-      return migrationFn(oldState);
-    } catch (error) {
-      console.error(`Migration failed for ${key}:`, error);
-      return oldState;
-    }
+  // 执行状态迁移
+  static migrate(oldState: any, fromVersion: unknown, key?: string): StateMigrationResult {
+    return this.registry.migrate(oldState, fromVersion, { key });
   }
 }
 
-// 默认迁移函数注册
-StateMigration.registerMigration('0.9.0', '1.0.0', (oldState) => {
-  // 示例：从旧版本迁移到新版本
-  return {
-    ...oldState,
-    version: '1.0.0',
-    // 添加新字段或转换旧字段
-  };
-});
\ No newline at end of file
+// 默认迁移步骤注册
+StateMigration.register({
+  version: 2,
+  description: '0.9.0 -> 1.0.0',
+  // 示例：从旧版本迁移到新版本，添加新字段或转换旧字段
+  up: (oldState) => ({ ...oldState }),
+  down: (state) => ({ ...state }),
+});
@@ -0,0 +1,26 @@
+/**
+ * 实时连接客户端
+ * 在 qiankun 中使用主应用通过 props.realtime 传入的共享连接，独立运行时自行创建多路复用连接
+ */
+
+import { ScopedTopicClient, createMultiplexedSocket } from '@shared/communication/realtime/multiplexed-socket';
+
+let realtimeClient: ScopedTopicClient | null = null;
+
+/**
+ * 设置主应用传入的订阅接口
+ */
+export function setRealtimeClient(client: ScopedTopicClient | null) {
+  realtimeClient = client;
+}
+
+/**
+ * 获取订阅接口，未设置时创建独立运行使用的连接
+ */
+export function getRealtimeClient(): ScopedTopicClient {
+  if (!realtimeClient) {
+    const wsUrl = (typeof process !== 'undefined' && process.env?.REACT_APP_WS_URL) || 'ws://localhost:8080/ws';
+    realtimeClient = createMultiplexedSocket({ url: wsUrl }).scope('react-dashboard');
+  }
+  return realtimeClient;
+}